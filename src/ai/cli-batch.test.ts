@@ -0,0 +1,113 @@
+import {
+  batchExitCode,
+  completedQueryIds,
+  failedRunRecord,
+  legacyRunRecord,
+  masterRunRecord,
+  parseQueryFile,
+  queryFileFormat,
+  runWithConcurrency,
+} from './cli-batch';
+import type { MasterOrchestratorOutput } from './flows/master-orchestrator-agent';
+import type { OrchestratorOutput } from './flows/orchestrator-agent';
+import { emptyModelUsageTotals } from './llm-usage';
+
+describe('parseQueryFile', () => {
+  test('should read JSONL objects and strings, numbering queries without an ID by line', () => {
+    const content = '{"id": "remote", "query": "Is remote work productive?"}\n\n"Is tea healthy?"\n';
+    expect(parseQueryFile(content, 'jsonl')).toEqual([
+      { id: 'remote', query: 'Is remote work productive?', line: 1 },
+      { id: 'q3', query: 'Is tea healthy?', line: 3 },
+    ]);
+  });
+
+  test('should read CSV with quoted commas, quotes and newlines in any column order', () => {
+    const content = 'query,id\r\n"Should we adopt a four-day week, given ""hybrid"" work?",a1\r\n"Two\nlines",\r\n,empty\r\n';
+    expect(parseQueryFile(content, 'csv')).toEqual([
+      { id: 'a1', query: 'Should we adopt a four-day week, given "hybrid" work?', line: 2 },
+      { id: 'q3', query: 'Two\nlines', line: 3 },
+    ]);
+  });
+
+  test('should reject malformed lines, a missing query column and duplicate IDs', () => {
+    expect(() => parseQueryFile('{"query": "ok"}\n{oops', 'jsonl')).toThrow('Line 2: invalid JSON');
+    expect(() => parseQueryFile('{"question": "?"}', 'jsonl')).toThrow('Line 1: expected a "query" string');
+    expect(() => parseQueryFile('id,question\n1,?', 'csv')).toThrow('no "query" column');
+    expect(() => parseQueryFile('{"id": 1, "query": "a"}\n{"id": "1", "query": "b"}', 'jsonl')).toThrow('duplicate query ID "1"');
+    expect(() => queryFileFormat('queries.txt')).toThrow('.jsonl, .ndjson or .csv');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  test('should keep at most the limit in flight and return results in input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await runWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('run records', () => {
+  const timing = { id: 'a1', query: 'Is tea healthy?', startedAt: '2026-01-01T00:00:00.000Z', durationMs: 1200 };
+  const masterOutput = (overrides: Partial<MasterOrchestratorOutput>) => ({
+    success: true, humanReviewRequired: false, awaitingClarification: false, awaitingReview: false, reviewRejected: false, sessionId: 'session_a',
+    sessionState: { originalQuery: 'Is tea healthy?', errorsEncountered: [], artifacts: {} },
+    ...overrides,
+  }) as MasterOrchestratorOutput;
+
+  test('should map master outcomes to per-query statuses and exit codes', () => {
+    expect(masterRunRecord(timing, masterOutput({}))).toEqual(expect.objectContaining({ status: 'succeeded', exitCode: 0, sessionId: 'session_a' }));
+    expect(masterRunRecord(timing, masterOutput({ awaitingReview: true, resumeToken: 'token' })))
+      .toEqual(expect.objectContaining({ status: 'awaiting_input', exitCode: 3, awaiting: 'review', resumeToken: 'token' }));
+    expect(masterRunRecord(timing, masterOutput({ success: false, humanReviewReason: 'Critical failure' })))
+      .toEqual(expect.objectContaining({ status: 'failed', exitCode: 1, error: 'Critical failure' }));
+    expect(masterRunRecord(timing, masterOutput({})).output).toBeUndefined();
+    expect(masterRunRecord(timing, masterOutput({}), true).output).toBeDefined();
+  });
+
+  test('should fail runs that finished without a working model or with a critical agent on its default', () => {
+    const usage = (calls: number, failedCalls: number) => ({ ...emptyModelUsageTotals(), calls, failedCalls });
+    const withState = (state: Partial<MasterOrchestratorOutput['sessionState']>) =>
+      masterOutput({ sessionState: { originalQuery: 'Is tea healthy?', errorsEncountered: [], artifacts: {}, ...state } as MasterOrchestratorOutput['sessionState'] });
+
+    expect(masterRunRecord(timing, withState({ modelUsage: { total: usage(54, 54), byAgent: {}, byPhase: {}, byModel: {} } })))
+      .toEqual(expect.objectContaining({ status: 'failed', exitCode: 1, error: 'All 54 model calls failed.' }));
+    expect(masterRunRecord(timing, withState({ modelUsage: { total: usage(54, 3), byAgent: {}, byPhase: {}, byModel: {} } })).status).toBe('succeeded');
+    expect(masterRunRecord(timing, withState({
+      errorsEncountered: [{ agent: 'SynthesisEnsembleAgent', error: 'fetch failed', timestamp: '', recoveryAttempted: true, isCriticalFailure: true }],
+    }))).toEqual(expect.objectContaining({ status: 'failed', error: 'SynthesisEnsembleAgent: fetch failed', errorCount: 1 }));
+
+    const legacyOutput = (overrides: Partial<OrchestratorOutput>) => ({
+      synthesis: { confidence: 'Medium', summary: 'Tea is fine.' }, errorsEncountered: [], modelUsage: usage(9, 0), ...overrides,
+    }) as OrchestratorOutput;
+    expect(legacyRunRecord(timing, legacyOutput({}))).toEqual(expect.objectContaining({ status: 'succeeded', exitCode: 0, errorCount: 0 }));
+    expect(legacyRunRecord(timing, legacyOutput({ errorsEncountered: [{ agent: 'InformationGap Agent', error: 'timeout' }] })))
+      .toEqual(expect.objectContaining({ status: 'succeeded', errorCount: 1 }));
+    expect(legacyRunRecord(timing, legacyOutput({ errorsEncountered: [{ agent: 'Responder Agent', error: 'fetch failed' }] })))
+      .toEqual(expect.objectContaining({ status: 'failed', exitCode: 1, error: 'Responder Agent: fetch failed' }));
+    expect(legacyRunRecord(timing, legacyOutput({ modelUsage: usage(9, 9) })))
+      .toEqual(expect.objectContaining({ status: 'failed', error: 'All 9 model calls failed.' }));
+  });
+
+  test('should exit with failure if any query failed, else awaiting input if any paused', () => {
+    const failed = failedRunRecord(timing, 'legacy', new Error('model timeout'));
+    expect(failed).toEqual(expect.objectContaining({ status: 'failed', error: 'model timeout' }));
+    expect(batchExitCode([{ status: 'succeeded' }, { status: 'awaiting_input' }, failed])).toBe(1);
+    expect(batchExitCode([{ status: 'succeeded' }, { status: 'awaiting_input' }])).toBe(3);
+    expect(batchExitCode([])).toBe(0);
+  });
+});
+
+describe('completedQueryIds', () => {
+  test('should collect succeeded IDs and skip failed and truncated lines', () => {
+    const output = '{"id":"a1","status":"succeeded"}\n{"id":"a2","status":"failed"}\n{"id":"a3","stat';
+    expect([...completedQueryIds(output)]).toEqual(['a1']);
+  });
+});
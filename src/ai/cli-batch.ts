@@ -0,0 +1,236 @@
+import type { MasterOrchestratorOutput } from '@/ai/flows/master-orchestrator-agent';
+import type { OrchestratorOutput } from '@/ai/flows/orchestrator-agent';
+import type { ModelUsageTotals } from '@/ai/llm-usage';
+
+/**
+ * @fileOverview Query files, concurrency and result records for the `ravint` CLI (see cli.ts).
+ *
+ * - parseQueryFile - Queries from a JSONL or CSV file.
+ * - runWithConcurrency - Runs a function over items with at most N in flight.
+ * - masterRunRecord / legacyRunRecord / failedRunRecord - One JSONL output line per query.
+ * - batchExitCode - The process exit status for a batch, from the per-query statuses.
+ */
+
+export type CliPipeline = 'master' | 'legacy';
+
+export interface BatchQuery {
+  id: string;
+  query: string;
+  /** 1-based line (JSONL) or record (CSV) number in the query file. */
+  line: number;
+}
+
+export type QueryFileFormat = 'jsonl' | 'csv';
+
+export function queryFileFormat(filePath: string): QueryFileFormat {
+  if (/\.(jsonl|ndjson)$/i.test(filePath)) return 'jsonl';
+  if (/\.csv$/i.test(filePath)) return 'csv';
+  throw new Error(`Cannot tell the format of "${filePath}". Expected a .jsonl, .ndjson or .csv file.`);
+}
+
+/**
+ * Reads queries from JSONL (one `{"id"?, "query"}` object or JSON string per line) or CSV (a header row with a
+ * `query` column and an optional `id` column). Blank lines are skipped; queries without an ID get `q<line>`.
+ */
+export function parseQueryFile(content: string, format: QueryFileFormat): BatchQuery[] {
+  const queries = format === 'jsonl' ? parseJsonl(content) : parseCsvQueries(content);
+  const seen = new Set<string>();
+  for (const item of queries) {
+    if (seen.has(item.id)) throw new Error(`Line ${item.line}: duplicate query ID "${item.id}".`);
+    seen.add(item.id);
+  }
+  return queries;
+}
+
+function parseJsonl(content: string): BatchQuery[] {
+  return content.split(/\r?\n/).flatMap((text, index) => {
+    const line = index + 1;
+    if (!text.trim()) return [];
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Line ${line}: invalid JSON (${error.message}).`);
+    }
+    const record = typeof value === 'string' ? { query: value } : value as { id?: unknown; query?: unknown };
+    if (!record || typeof record.query !== 'string' || !record.query.trim()) throw new Error(`Line ${line}: expected a "query" string.`);
+    return [{ id: record.id === undefined ? `q${line}` : String(record.id), query: record.query.trim(), line }];
+  });
+}
+
+/** RFC 4180 records: quoted fields may hold commas, newlines and doubled quotes. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field); records.push(record); record = []; field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field at the end of the CSV file.');
+  if (field || record.length > 0) { record.push(field); records.push(record); }
+  return records;
+}
+
+function parseCsvQueries(content: string): BatchQuery[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const queryColumn = columns.indexOf('query');
+  const idColumn = columns.indexOf('id');
+  if (queryColumn < 0) throw new Error('The CSV header has no "query" column.');
+  return rows.flatMap((row, index) => {
+    const line = index + 2;
+    const query = row[queryColumn]?.trim();
+    if (!query) return [];
+    const id = idColumn >= 0 ? row[idColumn]?.trim() : '';
+    return [{ id: id || `q${line}`, query, line }];
+  });
+}
+
+/** Runs `fn` over every item with at most `limit` calls in flight; results keep the order of `items`. */
+export async function runWithConcurrency<T, R>(items: readonly T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Per-query outcome. `awaiting_input` is a master run that paused for a clarification round or a human review;
+ * `ravint resume` continues it.
+ */
+export type RunStatus = 'succeeded' | 'failed' | 'awaiting_input';
+
+export const EXIT_CODES = {
+  succeeded: 0,
+  failed: 1,
+  usage: 2,
+  awaiting_input: 3,
+} as const;
+
+export interface CliRunRecord {
+  id: string;
+  query: string;
+  pipeline: CliPipeline;
+  status: RunStatus;
+  exitCode: number;
+  sessionId?: string;
+  /** With awaiting_input: what the run waits for, and the token that resumes a review. */
+  awaiting?: 'clarification' | 'review';
+  resumeToken?: string;
+  confidence?: string;
+  summary?: string;
+  errorCount: number;
+  error?: string;
+  modelUsage?: ModelUsageTotals;
+  startedAt: string;
+  durationMs: number;
+  /** The full pipeline output, with --full. */
+  output?: unknown;
+}
+
+export type RunTiming = Pick<CliRunRecord, 'id' | 'query' | 'startedAt' | 'durationMs'>;
+
+// Agents return default outputs when their model calls fail, so a run can finish normally without any model answer.
+function allModelCallsFailed(usage: ModelUsageTotals | undefined): string | undefined {
+  return usage && usage.calls > 0 && usage.failedCalls === usage.calls ? `All ${usage.calls} model calls failed.` : undefined;
+}
+
+// The legacy pipeline cannot answer without these; the others fall back to an empty section.
+const LEGACY_CRITICAL_AGENTS = ['Responder Agent', 'Synthesis Agent'];
+
+/** Failed when the run failed, was rejected, made no successful model call or lost a critical agent. */
+export function masterRunRecord(timing: RunTiming, output: MasterOrchestratorOutput, full = false): CliRunRecord {
+  const state = output.sessionState;
+  const awaiting = output.awaitingClarification ? 'clarification' as const : output.awaitingReview ? 'review' as const : undefined;
+  const criticalError = state.errorsEncountered.find(error => error.isCriticalFailure);
+  const modelFailure = allModelCallsFailed(state.modelUsage?.total);
+  const failed = !output.success || output.reviewRejected || !!modelFailure || !!criticalError;
+  const status: RunStatus = failed ? 'failed' : awaiting ? 'awaiting_input' : 'succeeded';
+  return {
+    ...timing,
+    pipeline: 'master',
+    status,
+    exitCode: EXIT_CODES[status],
+    sessionId: output.sessionId,
+    awaiting,
+    resumeToken: output.resumeToken,
+    confidence: state.overallConfidence ? `${state.overallConfidence.score} (${state.overallConfidence.numericScore}/100)` : undefined,
+    summary: output.finalSynthesis?.summary,
+    errorCount: state.errorsEncountered.length,
+    error: output.reviewRejected ? 'Rejected by the human reviewer.'
+      : !output.success ? criticalError?.error ?? output.humanReviewReason
+      : modelFailure ?? (criticalError && `${criticalError.agent}: ${criticalError.error}`),
+    modelUsage: state.modelUsage?.total,
+    ...(full ? { output } : {}),
+  };
+}
+
+/** Failed when the run made no successful model call or the responder or synthesis agent failed. */
+export function legacyRunRecord(timing: RunTiming, output: OrchestratorOutput, full = false): CliRunRecord {
+  const errors = output.errorsEncountered ?? [];
+  const criticalError = errors.find(error => error.agent === 'Orchestrator' || LEGACY_CRITICAL_AGENTS.includes(error.agent));
+  const error = criticalError ? `${criticalError.agent}: ${criticalError.error}` : allModelCallsFailed(output.modelUsage);
+  const status: RunStatus = error ? 'failed' : 'succeeded';
+  return {
+    ...timing,
+    pipeline: 'legacy',
+    status,
+    exitCode: EXIT_CODES[status],
+    confidence: output.synthesis.confidence,
+    summary: output.synthesis.summary,
+    errorCount: errors.length,
+    error,
+    modelUsage: output.modelUsage,
+    ...(full ? { output } : {}),
+  };
+}
+
+export function failedRunRecord(timing: RunTiming, pipeline: CliPipeline, error: unknown): CliRunRecord {
+  return {
+    ...timing, pipeline, status: 'failed', exitCode: EXIT_CODES.failed, errorCount: 1,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/** Failed if any query failed, else awaiting_input if any paused, else succeeded. */
+export function batchExitCode(records: readonly Pick<CliRunRecord, 'status'>[]): number {
+  if (records.some(record => record.status === 'failed')) return EXIT_CODES.failed;
+  if (records.some(record => record.status === 'awaiting_input')) return EXIT_CODES.awaiting_input;
+  return EXIT_CODES.succeeded;
+}
+
+/** IDs of the queries an earlier run of the batch already finished, read from its JSONL output. */
+export function completedQueryIds(outputContent: string): Set<string> {
+  const ids = new Set<string>();
+  for (const text of outputContent.split(/\r?\n/)) {
+    if (!text.trim()) continue;
+    try {
+      const record = JSON.parse(text) as Partial<CliRunRecord>;
+      if (record.id !== undefined && record.status === 'succeeded') ids.add(record.id);
+    } catch {
+      // A line cut short by an interrupted run; that query runs again.
+    }
+  }
+  return ids;
+}
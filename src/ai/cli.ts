@@ -0,0 +1,253 @@
+import { config } from 'dotenv';
+config();
+
+import { promises as fs } from 'fs';
+import { format, parseArgs } from 'util';
+import type { CliPipeline, CliRunRecord, RunTiming } from './cli-batch';
+
+/**
+ * The `ravint` command line, for running analyses without the web UI.
+ *
+ *   npm run ravint -- analyze "<query>" [--pipeline master|legacy] [--session-id <id>]
+ *   npm run ravint -- batch <queries.jsonl|queries.csv> [--concurrency <n>] [--skip-completed]
+ *   npm run ravint -- resume <sessionId> [--from-phase <1-6>] [--resume-token <token>]
+ *   npm run ravint -- report <sessionId> [--format markdown|html|pdf|json]
+ *
+ * analyze, batch and resume write one JSON line per query (see CliRunRecord) to --out, appending, or to stdout;
+ * --full adds the whole pipeline output to each line. report writes the rendered report to --out or stdout.
+ * Agent logs are dropped unless --verbose sends them to stderr. --stub runs offline against the stub model.
+ * The master pipeline also takes --max-retries, --human-review and the budget limits --max-tokens,
+ * --max-cost-usd and --max-seconds. Exit status: 0 succeeded, 1 failed, 2 usage error, 3 awaiting a
+ * clarification or review; a batch exits 1 if any query failed, else 3 if any is awaiting input.
+ */
+
+const USAGE = `Usage: ravint <command> [options]
+
+Commands:
+  analyze <query>             Analyze one query
+  batch <file>                Analyze every query of a .jsonl or .csv file
+  resume <sessionId>          Continue a checkpointed master session
+  report <sessionId>          Render a saved master session as a report
+
+Options:
+  --pipeline master|legacy    Orchestrator to run (default master; resume and report need master)
+  --out <file>                Append JSON lines (or write the report) here instead of stdout
+  --full                      Include the full pipeline output in each JSON line
+  --concurrency <n>           batch: queries run at once (default 2)
+  --skip-completed            batch: skip query IDs that already succeeded in --out
+  --session-id <id>           analyze: checkpoint under this session ID
+  --from-phase <1-6>          resume: first phase to re-run
+  --resume-token <token>      resume: token of a decided human review
+  --format <format>           report: markdown (default), html, pdf or json
+  --max-retries <n>           Attempts per agent call (default 3)
+  --human-review              Request human review of low-confidence results
+  --max-tokens <n>            Session budget: model tokens
+  --max-cost-usd <n>          Session budget: cost of priced model calls
+  --max-seconds <n>           Session budget: wall-clock time
+  --stub                      Use the offline stub model
+  --verbose                   Print agent logs to stderr
+`;
+
+const OPTIONS = {
+  pipeline: { type: 'string', default: 'master' },
+  out: { type: 'string' },
+  full: { type: 'boolean', default: false },
+  concurrency: { type: 'string', default: '2' },
+  'skip-completed': { type: 'boolean', default: false },
+  'session-id': { type: 'string' },
+  'from-phase': { type: 'string' },
+  'resume-token': { type: 'string' },
+  format: { type: 'string', default: 'markdown' },
+  'max-retries': { type: 'string', default: '3' },
+  'human-review': { type: 'boolean', default: false },
+  'max-tokens': { type: 'string' },
+  'max-cost-usd': { type: 'string' },
+  'max-seconds': { type: 'string' },
+  stub: { type: 'boolean', default: false },
+  verbose: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {}
+
+function positiveNumber(name: string, value: string | undefined, integer = true): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) {
+    throw new UsageError(`--${name} must be a positive ${integer ? 'integer' : 'number'}, got "${value}".`);
+  }
+  return parsed;
+}
+
+function pipelineOption(options: CliOptions): CliPipeline {
+  if (options.pipeline !== 'master' && options.pipeline !== 'legacy') throw new UsageError(`--pipeline must be master or legacy, got "${options.pipeline}".`);
+  return options.pipeline;
+}
+
+async function writeRecord(record: CliRunRecord, out: string | undefined): Promise<void> {
+  const line = JSON.stringify(record) + '\n';
+  if (out) await fs.appendFile(out, line, 'utf8');
+  else process.stdout.write(line);
+}
+
+function progress(message: string): void {
+  process.stderr.write(`ravint: ${message}\n`);
+}
+
+async function runQuery(query: { id: string; query: string; sessionId?: string }, pipeline: CliPipeline, options: CliOptions): Promise<CliRunRecord> {
+  const { failedRunRecord, legacyRunRecord, masterRunRecord } = await import('./cli-batch');
+  const startedAt = new Date();
+  const timing = (): RunTiming => ({ id: query.id, query: query.query, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime() });
+  try {
+    if (pipeline === 'legacy') {
+      const { orchestrateQuery } = await import('@/ai/flows/orchestrator-agent');
+      return legacyRunRecord(timing(), await orchestrateQuery({ query: query.query }), options.full);
+    }
+    const { orchestrateWithMaster } = await import('@/ai/flows/master-orchestrator-agent');
+    const maxSeconds = positiveNumber('max-seconds', options['max-seconds'], false);
+    const budget = {
+      maxTokens: positiveNumber('max-tokens', options['max-tokens']),
+      maxCostUSD: positiveNumber('max-cost-usd', options['max-cost-usd'], false),
+      maxDurationMs: maxSeconds === undefined ? undefined : Math.round(maxSeconds * 1000),
+    };
+    const output = await orchestrateWithMaster({
+      query: query.query, sessionId: query.sessionId,
+      enableHumanReview: options['human-review'], confidenceThresholdForHumanReview: 'Low', enableClarification: false,
+      maxRetries: positiveNumber('max-retries', options['max-retries'])!,
+      budget: Object.values(budget).some(value => value !== undefined) ? budget : undefined,
+    });
+    return masterRunRecord(timing(), output, options.full);
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    return failedRunRecord(timing(), pipeline, error);
+  }
+}
+
+async function analyze(positionals: string[], options: CliOptions): Promise<number> {
+  const query = positionals.join(' ').trim();
+  if (!query) throw new UsageError('analyze needs a query.');
+  const record = await runQuery({ id: options['session-id'] ?? 'q1', query, sessionId: options['session-id'] }, pipelineOption(options), options);
+  await writeRecord(record, options.out);
+  progress(`${record.status}${record.sessionId ? ` (session ${record.sessionId})` : ''} in ${(record.durationMs / 1000).toFixed(1)}s.`);
+  return record.exitCode;
+}
+
+async function batch(positionals: string[], options: CliOptions): Promise<number> {
+  const [file] = positionals;
+  if (!file) throw new UsageError('batch needs a query file.');
+  const pipeline = pipelineOption(options);
+  const concurrency = positiveNumber('concurrency', options.concurrency)!;
+  const { batchExitCode, completedQueryIds, parseQueryFile, queryFileFormat, runWithConcurrency } = await import('./cli-batch');
+  const queries = parseQueryFile(await fs.readFile(file, 'utf8'), queryFileFormat(file));
+  if (options['skip-completed'] && !options.out) throw new UsageError('--skip-completed reads the results of the earlier run from --out.');
+  const completed = options['skip-completed'] ? completedQueryIds(await fs.readFile(options.out!, 'utf8').catch(() => '')) : new Set<string>();
+  const pending = queries.filter(query => !completed.has(query.id));
+  progress(`Running ${pending.length} of ${queries.length} queries (${queries.length - pending.length} already done) with the ${pipeline} pipeline, ${concurrency} at a time.`);
+
+  let finished = 0;
+  const records = await runWithConcurrency(pending, concurrency, async (query) => {
+    const record = await runQuery(query, pipeline, options);
+    await writeRecord(record, options.out);
+    progress(`[${++finished}/${pending.length}] ${query.id}: ${record.status}${record.error ? ` - ${record.error}` : ''}`);
+    return record;
+  });
+  const count = (status: CliRunRecord['status']) => records.filter(record => record.status === status).length;
+  progress(`Done: ${count('succeeded')} succeeded, ${count('failed')} failed, ${count('awaiting_input')} awaiting input${options.out ? `. Results in ${options.out}` : ''}.`);
+  return batchExitCode(records);
+}
+
+async function resume(positionals: string[], options: CliOptions): Promise<number> {
+  const [sessionId] = positionals;
+  if (!sessionId && !options['resume-token']) throw new UsageError('resume needs a session ID or --resume-token.');
+  if (pipelineOption(options) !== 'master') throw new UsageError('Only master sessions are checkpointed; resume needs --pipeline master.');
+  const fromPhase = positiveNumber('from-phase', options['from-phase']);
+  const { failedRunRecord, masterRunRecord } = await import('./cli-batch');
+  const { orchestrateWithMaster } = await import('@/ai/flows/master-orchestrator-agent');
+  const startedAt = new Date();
+  const timing = (query: string): RunTiming => ({ id: sessionId ?? 'resume', query, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime() });
+  let record: CliRunRecord;
+  try {
+    const output = await orchestrateWithMaster({
+      resumeSessionId: options['resume-token'] ? undefined : sessionId, resumeToken: options['resume-token'], fromPhase,
+      enableHumanReview: options['human-review'], confidenceThresholdForHumanReview: 'Low', enableClarification: false,
+      maxRetries: positiveNumber('max-retries', options['max-retries'])!,
+    });
+    record = masterRunRecord(timing(output.sessionState.originalQuery), output, options.full);
+  } catch (error) {
+    record = failedRunRecord(timing(''), 'master', error);
+  }
+  await writeRecord(record, options.out);
+  progress(`${record.status}${record.error ? ` - ${record.error}` : ''}`);
+  return record.exitCode;
+}
+
+async function report(positionals: string[], options: CliOptions): Promise<number> {
+  const [sessionId] = positionals;
+  if (!sessionId) throw new UsageError('report needs a session ID.');
+  const { REPORT_FILE_TYPES, buildReportFromSession, renderReportHtml, renderReportJson, renderReportMarkdown } = await import('@/lib/analysis-report');
+  const { renderReportPdf } = await import('@/lib/report-pdf');
+  const reportFormat = options.format as keyof typeof REPORT_FILE_TYPES;
+  if (!(reportFormat in REPORT_FILE_TYPES)) throw new UsageError(`--format must be one of ${Object.keys(REPORT_FILE_TYPES).join(', ')}, got "${options.format}".`);
+
+  const { getSessionRepository } = await import('@/ai/flows/session-repository');
+  const repository = getSessionRepository();
+  if (!repository) throw new UsageError('Session checkpointing is disabled (SESSION_STORE=none); there are no saved sessions to report on.');
+  const checkpoint = await repository.loadCheckpoint(sessionId);
+  if (!checkpoint) {
+    progress(`No checkpoints found for session ${sessionId}.`);
+    return 1;
+  }
+  const analysisReport = buildReportFromSession(checkpoint.sessionState, { sessionId });
+  const rendered = {
+    markdown: () => renderReportMarkdown(analysisReport),
+    html: () => renderReportHtml(analysisReport),
+    pdf: () => renderReportPdf(analysisReport),
+    json: () => renderReportJson(analysisReport),
+  }[reportFormat]();
+  if (options.out) await fs.writeFile(options.out, rendered);
+  else process.stdout.write(rendered);
+  if (checkpoint.phaseIndex < 6) progress(`Session ${sessionId} stopped after ${checkpoint.phase}; the report covers the phases run so far.`);
+  return 0;
+}
+
+const COMMANDS: Record<string, (positionals: string[], options: CliOptions) => Promise<number>> = { analyze, batch, resume, report };
+
+async function main(): Promise<number> {
+  let parsed: { values: CliOptions; positionals: string[] };
+  try {
+    parsed = parseArgs({ options: OPTIONS, allowPositionals: true, args: process.argv.slice(2) });
+  } catch (error: any) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  const [command, ...positionals] = parsed.positionals;
+  if (parsed.values.help || !command) {
+    process.stderr.write(USAGE);
+    return parsed.values.help ? 0 : 2;
+  }
+  if (!COMMANDS[command]) {
+    process.stderr.write(`Unknown command "${command}".\n\n${USAGE}`);
+    return 2;
+  }
+
+  // The model registry is read when genkit.ts is first imported, so this must precede the commands' imports.
+  if (parsed.values.stub) process.env.USE_STUB_MODEL = 'true';
+  // Agents log progress with console.log; keep stdout for the JSON lines and reports.
+  const log = parsed.values.verbose ? (...args: unknown[]) => { process.stderr.write(format(...args) + '\n'); } : () => {};
+  console.log = console.info = console.debug = log;
+
+  try {
+    return await COMMANDS[command](positionals, parsed.values);
+  } catch (error: any) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n`);
+    return 2;
+  }
+}
+
+main().then(code => { process.exitCode = code; }).catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,61 @@
+import { buildAgentSchedule, runAgentSchedule } from './agent-scheduler';
+import type { DynamicRoutingOutput } from './dynamic-routing-coordinator-agent';
+
+const makeRouting = (overrides: Partial<DynamicRoutingOutput>): DynamicRoutingOutput => ({
+  recommendedAgents: [],
+  parallelExecutionGroups: [],
+  sequentialDependencies: [],
+  analysisStrategy: { approach: 'focused', reasoning: 'Test', estimatedComplexity: 'low', riskLevel: 'low' },
+  optimizations: { canSkipAgents: [], prioritizeAgents: [], resourceAllocation: 'standard' },
+  ...overrides,
+});
+
+describe('buildAgentSchedule', () => {
+  test('should skip skippable agents, keep parallel groups together and order them by dependency', () => {
+    const schedule = buildAgentSchedule('Phase2', ['A', 'B', 'C', 'D', 'E'], makeRouting({
+      parallelExecutionGroups: [['A', 'B'], ['C', 'D']],
+      sequentialDependencies: [{ dependent: 'C', dependsOn: 'A', reason: 'C reads A' }],
+      optimizations: { canSkipAgents: ['E'], prioritizeAgents: [], resourceAllocation: 'light' },
+    }));
+
+    expect(schedule.skippedAgents).toEqual(['E']);
+    expect(schedule.groups).toEqual([['A', 'B'], ['C', 'D']]);
+    expect(schedule.groupDependencies).toEqual([[], [0]]);
+  });
+
+  test('should ignore dependencies that would create a cycle or point outside the phase', () => {
+    const schedule = buildAgentSchedule('Phase3', ['A', 'B'], makeRouting({
+      sequentialDependencies: [
+        { dependent: 'B', dependsOn: 'A', reason: 'B reads A' },
+        { dependent: 'A', dependsOn: 'B', reason: 'A reads B' },
+        { dependent: 'A', dependsOn: 'ResearcherAgent', reason: 'Earlier phase' },
+      ],
+    }));
+
+    expect(schedule.groupDependencies).toEqual([[], [0]]);
+    expect(schedule.ignoredDependencies).toEqual([expect.objectContaining({ dependent: 'A', dependsOn: 'B' })]);
+  });
+});
+
+describe('runAgentSchedule', () => {
+  test('should pass completed outputs to dependents and record failures and skips', async () => {
+    const schedule = buildAgentSchedule('Phase3', ['Critique', 'Challenge', 'Bias', 'Premortem'], makeRouting({
+      optimizations: { canSkipAgents: ['Premortem'], prioritizeAgents: [], resourceAllocation: 'standard' },
+    }), [{ dependent: 'Challenge', dependsOn: 'Critique', reason: 'Challenges the critique' }]);
+
+    const { settled, executedPlan } = await runAgentSchedule(schedule, {
+      Critique: async () => 'critique text',
+      Challenge: async (completed) => `challenging: ${completed.get('Critique')}`,
+      Bias: async () => { throw new Error('bias failed'); },
+    });
+
+    expect(settled['Challenge']).toEqual({ status: 'fulfilled', value: 'challenging: critique text' });
+    expect(settled['Bias']?.status).toBe('rejected');
+    expect(settled['Premortem']).toBeUndefined();
+    expect(executedPlan.groups.find(group => group.agents.includes('Challenge'))?.waitedFor).toEqual(['Critique']);
+    expect(executedPlan.agents).toEqual(expect.arrayContaining([
+      expect.objectContaining({ agent: 'Premortem', status: 'skipped' }),
+      expect.objectContaining({ agent: 'Bias', status: 'failed', error: 'bias failed' }),
+    ]));
+  });
+});
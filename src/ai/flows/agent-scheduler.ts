@@ -0,0 +1,219 @@
+import { z } from 'genkit';
+import type { DynamicRoutingOutput } from './dynamic-routing-coordinator-agent';
+
+/**
+ * @fileOverview Turns a DynamicRoutingCoordinatorAgent decision into an executable DAG.
+ *
+ * - buildAgentSchedule - Applies canSkipAgents, sequentialDependencies and parallelExecutionGroups
+ *   to the agents of one orchestrator phase.
+ * - runAgentSchedule - Runs each group as soon as the groups it depends on have settled, so
+ *   independent groups run concurrently, and returns the plan that was actually executed.
+ * - ExecutedAgentPlanSchema - Recorded in SessionState.executedRoutingPlans next to routingDecision.
+ */
+
+export interface AgentDependency {
+  dependent: string;
+  dependsOn: string;
+  reason: string;
+}
+
+export interface AgentSchedule {
+  phase: string;
+  /** Agents run together; each group starts once every group in `groupDependencies` has settled. */
+  groups: string[][];
+  groupDependencies: number[][];
+  skippedAgents: string[];
+  /** Router or built-in dependencies that were dropped (cycles, unknown agents). */
+  ignoredDependencies: AgentDependency[];
+}
+
+export const ExecutedAgentPlanSchema = z.object({
+  phase: z.string(),
+  groups: z.array(z.object({
+    agents: z.array(z.string()),
+    waitedFor: z.array(z.string()).describe('Agents in earlier groups this group waited on'),
+    startedAt: z.string(),
+    durationMs: z.number(),
+  })),
+  agents: z.array(z.object({
+    agent: z.string(),
+    status: z.enum(['succeeded', 'failed', 'skipped']),
+    startedAt: z.string().optional(),
+    durationMs: z.number().optional(),
+    error: z.string().optional(),
+  })),
+  skippedAgents: z.array(z.string()),
+  ignoredDependencies: z.array(z.object({ dependent: z.string(), dependsOn: z.string(), reason: z.string() })),
+  totalDurationMs: z.number(),
+});
+export type ExecutedAgentPlan = z.infer<typeof ExecutedAgentPlanSchema>;
+
+/** Receives the outputs of agents that already succeeded in this schedule, keyed by agent name. */
+export type AgentRunner = (completed: ReadonlyMap<string, unknown>) => Promise<unknown>;
+
+function findCycle(nodes: number, edges: ReadonlyArray<ReadonlySet<number>>): number[] | null {
+  const state = new Array<0 | 1 | 2>(nodes).fill(0);
+  const stack: number[] = [];
+  const visit = (node: number): number[] | null => {
+    state[node] = 1;
+    stack.push(node);
+    for (const next of edges[node]) {
+      if (state[next] === 1) return stack.slice(stack.indexOf(next));
+      if (state[next] === 0) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state[node] = 2;
+    return null;
+  };
+  for (let node = 0; node < nodes; node++) {
+    if (state[node] === 0) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+function reaches(from: string, to: string, dependencies: ReadonlyMap<string, ReadonlySet<string>>): boolean {
+  const seen = new Set<string>();
+  const pending = [from];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === to) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    pending.push(...(dependencies.get(current) ?? []));
+  }
+  return false;
+}
+
+/**
+ * Builds the schedule for `phaseAgents` (in their default order) from a routing decision.
+ * `builtInDependencies` are data dependencies the orchestrator always needs, e.g. the
+ * Devil's Advocate consuming the critique. Dependencies on agents outside this phase are
+ * already satisfied by phase ordering and are dropped silently.
+ */
+export function buildAgentSchedule(
+  phase: string,
+  phaseAgents: string[],
+  routingDecision: DynamicRoutingOutput | undefined,
+  builtInDependencies: AgentDependency[] = [],
+): AgentSchedule {
+  const skippable = new Set(routingDecision?.optimizations.canSkipAgents ?? []);
+  const skippedAgents = phaseAgents.filter(agent => skippable.has(agent));
+  const runnable = phaseAgents.filter(agent => !skippable.has(agent));
+  const runnableSet = new Set(runnable);
+
+  // Agent-level dependencies. Edges are added one by one and any edge that would close a cycle is ignored.
+  const dependencies = new Map<string, Set<string>>(runnable.map(agent => [agent, new Set<string>()]));
+  const ignoredDependencies: AgentDependency[] = [];
+  for (const dependency of [...builtInDependencies, ...(routingDecision?.sequentialDependencies ?? [])]) {
+    const { dependent, dependsOn } = dependency;
+    if (!runnableSet.has(dependent) || !phaseAgents.includes(dependsOn) || skippable.has(dependsOn)) continue;
+    if (dependent === dependsOn || reaches(dependsOn, dependent, dependencies)) {
+      ignoredDependencies.push({ dependent, dependsOn, reason: `Would create a cycle (${dependency.reason})` });
+      continue;
+    }
+    dependencies.get(dependent)!.add(dependsOn);
+  }
+
+  // Groups come from parallelExecutionGroups; an agent that depends on a member of its own group runs on its own.
+  let groups: string[][] = [];
+  const grouped = new Set<string>();
+  for (const routerGroup of routingDecision?.parallelExecutionGroups ?? []) {
+    const members = [...new Set(routerGroup)].filter(agent => runnableSet.has(agent) && !grouped.has(agent));
+    const together = members.filter(agent => ![...dependencies.get(agent)!].some(dependsOn => members.includes(dependsOn)));
+    const apart = members.filter(agent => !together.includes(agent));
+    if (together.length > 0) groups.push(together);
+    for (const agent of apart) groups.push([agent]);
+    members.forEach(agent => grouped.add(agent));
+  }
+  for (const agent of runnable) {
+    if (!grouped.has(agent)) groups.push([agent]);
+  }
+
+  // Group-level edges can still form a cycle (x in A needs z in B, z needs y in A); split such groups until acyclic.
+  let groupDependencies: number[][] = [];
+  while (true) {
+    const groupOf = new Map<string, number>();
+    groups.forEach((members, index) => members.forEach(agent => groupOf.set(agent, index)));
+    const edges = groups.map((members, index) => new Set(
+      members.flatMap(agent => [...dependencies.get(agent)!].map(dependsOn => groupOf.get(dependsOn)!)).filter(dep => dep !== index),
+    ));
+    const cycle = findCycle(groups.length, edges);
+    if (!cycle) {
+      groupDependencies = edges.map(edge => [...edge]);
+      break;
+    }
+    const splitIndex = cycle.find(index => groups[index].length > 1)!;
+    groups = [...groups.slice(0, splitIndex), ...groups[splitIndex].map(agent => [agent]), ...groups.slice(splitIndex + 1)];
+  }
+
+  return { phase, groups, groupDependencies, skippedAgents, ignoredDependencies };
+}
+
+/**
+ * Executes a schedule. Each runner's outcome is returned as a PromiseSettledResult (undefined for
+ * skipped agents); a failed agent does not block its dependents, which receive only the outputs
+ * of agents that succeeded.
+ */
+export async function runAgentSchedule(
+  schedule: AgentSchedule,
+  runners: Record<string, AgentRunner>,
+): Promise<{ settled: Record<string, PromiseSettledResult<unknown> | undefined>; executedPlan: ExecutedAgentPlan }> {
+  const scheduleStartTime = Date.now();
+  const completed = new Map<string, unknown>();
+  const settled: Record<string, PromiseSettledResult<unknown> | undefined> = {};
+  const agentRecords: ExecutedAgentPlan['agents'] = schedule.skippedAgents.map(agent => ({ agent, status: 'skipped' as const }));
+  const groupRecords: ExecutedAgentPlan['groups'] = [];
+  const groupPromises = new Map<number, Promise<void>>();
+
+  const runGroup = (index: number): Promise<void> => {
+    if (!groupPromises.has(index)) {
+      groupPromises.set(index, (async () => {
+        await Promise.all(schedule.groupDependencies[index].map(runGroup));
+        const groupStartTime = Date.now();
+        const groupRecord = {
+          agents: schedule.groups[index],
+          waitedFor: schedule.groupDependencies[index].flatMap(dep => schedule.groups[dep]),
+          startedAt: new Date(groupStartTime).toISOString(),
+          durationMs: 0,
+        };
+        groupRecords.push(groupRecord);
+        await Promise.all(schedule.groups[index].map(async agent => {
+          const agentStartTime = Date.now();
+          try {
+            const runner = runners[agent];
+            if (!runner) throw new Error(`No runner registered for ${agent}`);
+            const value = await runner(completed);
+            completed.set(agent, value);
+            settled[agent] = { status: 'fulfilled', value };
+            agentRecords.push({ agent, status: 'succeeded', startedAt: new Date(agentStartTime).toISOString(), durationMs: Date.now() - agentStartTime });
+          } catch (reason: any) {
+            settled[agent] = { status: 'rejected', reason };
+            agentRecords.push({ agent, status: 'failed', startedAt: new Date(agentStartTime).toISOString(), durationMs: Date.now() - agentStartTime, error: reason instanceof Error ? reason.message : String(reason) });
+          }
+        }));
+        groupRecord.durationMs = Date.now() - groupStartTime;
+      })());
+    }
+    return groupPromises.get(index)!;
+  };
+
+  await Promise.all(schedule.groups.map((_, index) => runGroup(index)));
+
+  return {
+    settled,
+    executedPlan: {
+      phase: schedule.phase,
+      groups: groupRecords,
+      agents: agentRecords,
+      skippedAgents: schedule.skippedAgents,
+      ignoredDependencies: schedule.ignoredDependencies,
+      totalDurationMs: Date.now() - scheduleStartTime,
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { z } from 'genkit';
+import { ai } from '@/ai/genkit';
+import { AgentValidationFramework, toJUnitXml } from './agent-validation-framework';
+
+ai.defineFlow({ name: 'contractTestFlow', outputSchema: z.array(z.object({ claim: z.string() })) }, async () => []);
+ai.defineModel({ name: 'contractTestUnreachableModel' }, async () => {
+  throw new Error('fetch failed');
+});
+
+describe('AgentValidationFramework', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should validate agent outputs against the flow output schema and report failures as JUnit', async () => {
+    const framework = new AgentValidationFramework({
+      ConformingAgent: {
+        run: async () => [{ claim: 'ok' }],
+        flowName: 'contractTestFlow',
+        testSuite: [{ testName: 'Conforms', input: {}, timeout: 1000, critical: true }],
+      },
+      DriftingAgent: {
+        run: async () => [{ claim: 42 }],
+        flowName: 'contractTestFlow',
+        testSuite: [{ testName: 'Drifts', input: {}, timeout: 1000, critical: true }],
+      },
+    });
+
+    const output = await framework.runFullSystemValidation();
+
+    expect(output.agentResults.map(result => [result.agentName, result.status])).toEqual([
+      ['ConformingAgent', 'pass'],
+      ['DriftingAgent', 'fail'],
+    ]);
+    expect(output.agentResults[1].testResults[0].errorMessage).toContain('0.claim');
+    expect(toJUnitXml(output)).toContain('<testsuites name="AgentValidation" tests="2" failures="1">');
+  });
+
+  test('should fail an agent that falls back to its default output after a model error', async () => {
+    const framework = new AgentValidationFramework({
+      FallingBackAgent: {
+        // Like the agents: catch the model error and return a schema-valid default.
+        run: async () => ai.generate({ model: 'contractTestUnreachableModel', prompt: 'Anything' }).then(() => [{ claim: 'ok' }], () => []),
+        flowName: 'contractTestFlow',
+        testSuite: [{ testName: 'Falls back', input: {}, timeout: 1000, critical: true }],
+      },
+    });
+
+    const [result] = (await framework.runFullSystemValidation()).agentResults;
+
+    expect(result.status).toBe('fail');
+    expect(result.testResults[0].errorMessage).toBe("1 model call(s) failed (generate), so the output is likely the agent's fallback default");
+  });
+});
@@ -1,4 +1,34 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
 import { z } from 'zod';
+import { ai } from '@/ai/genkit';
+import { defaultModelName } from '@/ai/model-registry';
+import { runWithModelUsageContext } from '@/ai/llm-usage';
+import { refineQuery } from './query-refinement-agent';
+import { respond } from './responder-agent';
+import { analyzeAssumptions } from './assumption-analyzer-agent';
+import { researchEvidence } from './researcher-agent';
+import { researchCounterEvidence } from './counter-evidence-researcher-agent';
+import { detectBiases } from './bias-detection-agent';
+import { critiqueAgent } from './critic-agent';
+import { analyzeFailures } from './premortem-agent';
+import { analyzeInformationGaps } from './information-gap-agent';
+import { verifyFacts } from './fact-verification-loop-agent';
+import { extractClaims } from './claim-extraction-agent';
+import { planFollowUp } from './follow-up-planner-agent';
+import { answerFollowUp } from './follow-up-answer-agent';
+import { synthesizeComparison } from './comparison-synthesis-agent';
+import { runSynthesisEnsemble } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview Contract tests for the agents: each declared test case calls the agent's exported
+ * function and validates the result against the output schema of the agent's registered Genkit flow.
+ *
+ * Agents run on whatever models the model registry selects, so the same suite runs against live
+ * models or, with USE_STUB_MODEL=true, offline against the stub model. Agents catch their own model
+ * errors and return a schema-valid default, so a test case also fails when any model call it made failed. writeValidationReport saves
+ * the results as JSON and JUnit XML (see `npm run validate:agents`).
+ */
 
 // Agent Validation Result Schemas
 const AgentValidationResultSchema = z.object({
@@ -39,157 +69,309 @@ export type AgentValidationResult = z.infer<typeof AgentValidationResultSchema>;
 export type ValidationFrameworkOutput = z.infer<typeof ValidationFrameworkOutputSchema>;
 
 // Agent Test Definitions
-interface AgentTestCase {
+export interface AgentTestCase {
   testName: string;
   input: any;
-  expectedOutputType: string;
   timeout: number;
   critical: boolean;
 }
 
-// Comprehensive agent test suite
-const AGENT_TEST_SUITES: Record<string, AgentTestCase[]> = {
-  'QueryRefinementAgent': [
-    {
-      testName: 'Basic Query Refinement',
-      input: { originalQuery: 'What is AI?' },
-      expectedOutputType: 'object',
-      timeout: 5000,
-      critical: true,
-    },
-    {
-      testName: 'Complex Query Refinement',
-      input: { originalQuery: 'How does climate change impact global economic stability through supply chain disruptions and what are the most effective mitigation strategies?' },
-      expectedOutputType: 'object',
-      timeout: 10000,
-      critical: false,
-    },
-  ],
-  'ResponderAgent': [
-    {
-      testName: 'Simple Question Response',
-      input: { query: 'What is the capital of France?' },
-      expectedOutputType: 'object',
-      timeout: 8000,
-      critical: true,
-    },
-    {
-      testName: 'Complex Analysis Request',
-      input: { query: 'Analyze the potential implications of quantum computing on cybersecurity' },
-      expectedOutputType: 'object',
-      timeout: 15000,
-      critical: false,
-    },
-  ],
-  'AnalyzeAssumptionsAgent': [
-    {
-      testName: 'Assumption Extraction',
-      input: { answer: 'Electric vehicles are better for the environment because they produce no emissions.' },
-      expectedOutputType: 'array',
-      timeout: 7000,
-      critical: true,
-    },
-  ],
-  'ResearcherAgent': [
-    {
-      testName: 'Evidence Research',
-      input: { claim: 'Solar energy is cost-effective for residential use' },
-      expectedOutputType: 'array',
-      timeout: 12000,
-      critical: true,
-    },
-  ],
-  'CounterEvidenceResearcherAgent': [
-    {
-      testName: 'Counter Evidence Research',
-      input: { claim: 'Remote work increases productivity' },
-      expectedOutputType: 'array',
-      timeout: 12000,
-      critical: true,
-    },
-  ],
-  'BiasDetectionAgent': [
-    {
-      testName: 'Bias Detection',
-      input: {
-        initialAnswerText: 'All politicians are corrupt and cannot be trusted',
-        aggregatedSupportingResearch: [],
-        aggregatedCounterResearch: [],
+/**
+ * An agent's exported entry point, the Genkit flow whose output schema its result must satisfy,
+ * and the inputs it is exercised with.
+ */
+export interface AgentContract {
+  run: (input: any) => Promise<unknown>;
+  flowName: string;
+  testSuite: AgentTestCase[];
+}
+
+// A finished session, condensed as buildFollowUpContext does, for the follow-up agents' test suites.
+const FOLLOW_UP_TEST_CONTEXT = {
+  query: 'Should the team move to a four-day week?', answer: 'Yes, after a three-month pilot.', synthesisSummary: 'Pilot a four-day week before committing.',
+  strengths: ['Pilot evidence'], weaknesses: ['Self-reported output'], recommendations: ['Run a three-month pilot'],
+  assumptions: ['Output per hour rises'], gaps: ['Effect on support rotas (impact: High)'], critique: 'Relies on self-selected firms.',
+  challenges: [], confidence: 'Medium (62/100)', evidence: [], counterEvidence: [], previousTurns: [],
+};
+
+// Comprehensive agent test suite. Timeouts leave room for live model latency and the agents' own retries.
+const AGENT_CONTRACTS: Record<string, AgentContract> = {
+  'QueryRefinementAgent': {
+    run: refineQuery,
+    flowName: 'queryRefinementFlow',
+    testSuite: [
+      {
+        testName: 'Basic Query Refinement',
+        input: { query: 'What is AI?' },
+        timeout: 60000,
+        critical: true,
+      },
+      {
+        testName: 'Complex Query Refinement',
+        input: { query: 'How does climate change impact global economic stability through supply chain disruptions and what are the most effective mitigation strategies?' },
+        timeout: 90000,
+        critical: false,
+      },
+    ],
+  },
+  'ResponderAgent': {
+    run: respond,
+    flowName: 'respondInternalFlow',
+    testSuite: [
+      {
+        testName: 'Simple Question Response',
+        input: { query: 'What is the capital of France?' },
+        timeout: 60000,
+        critical: true,
+      },
+      {
+        testName: 'Complex Analysis Request',
+        input: { query: 'Analyze the potential implications of quantum computing on cybersecurity' },
+        timeout: 90000,
+        critical: false,
+      },
+    ],
+  },
+  'AnalyzeAssumptionsAgent': {
+    run: analyzeAssumptions,
+    flowName: 'analyzeAssumptionsInternalFlow',
+    testSuite: [
+      {
+        testName: 'Assumption Extraction',
+        input: { answer: 'Electric vehicles are better for the environment because they produce no emissions.' },
+        timeout: 60000,
+        critical: true,
+      },
+    ],
+  },
+  'ResearcherAgent': {
+    run: researchEvidence,
+    flowName: 'researchSupportingEvidenceInternalFlow',
+    testSuite: [
+      {
+        testName: 'Evidence Research',
+        input: { claim: 'Solar energy is cost-effective for residential use' },
+        timeout: 90000,
+        critical: true,
+      },
+    ],
+  },
+  'CounterEvidenceResearcherAgent': {
+    run: researchCounterEvidence,
+    flowName: 'researchCounterEvidenceInternalFlow',
+    testSuite: [
+      {
+        testName: 'Counter Evidence Research',
+        input: { claim: 'Remote work increases productivity' },
+        timeout: 90000,
+        critical: true,
+      },
+    ],
+  },
+  'BiasDetectionAgent': {
+    run: detectBiases,
+    flowName: 'biasDetectionFlow',
+    testSuite: [
+      {
+        testName: 'Bias Detection',
+        input: {
+          initialAnswerText: 'All politicians are corrupt and cannot be trusted',
+          aggregatedSupportingResearch: [],
+          aggregatedCounterResearch: [],
+        },
+        timeout: 60000,
+        critical: true,
       },
-      expectedOutputType: 'array',
-      timeout: 8000,
-      critical: true,
-    },
-  ],
-  'CritiqueAgent': [
-    {
-      testName: 'Answer Critique',
-      input: {
-        answer: 'Climate change is not real because it was cold yesterday',
-        evidence: [],
+    ],
+  },
+  'CritiqueAgent': {
+    run: critiqueAgent,
+    flowName: 'critiqueAgentInternalFlow',
+    testSuite: [
+      {
+        testName: 'Answer Critique',
+        input: {
+          answer: 'Climate change is not real because it was cold yesterday',
+          evidence: [],
+        },
+        timeout: 60000,
+        critical: true,
       },
-      expectedOutputType: 'string',
-      timeout: 8000,
-      critical: true,
-    },
-  ],
-  'PremortemAgent': [
-    {
-      testName: 'Failure Analysis',
-      input: { answer: 'Investing all savings in cryptocurrency is a safe financial strategy' },
-      expectedOutputType: 'array',
-      timeout: 8000,
-      critical: true,
-    },
-  ],
-  'InformationGapAgent': [
-    {
-      testName: 'Gap Identification',
-      input: { answer: 'Artificial intelligence will solve all healthcare problems within 5 years' },
-      expectedOutputType: 'array',
-      timeout: 8000,
-      critical: true,
-    },
-  ],
-  'SynthesisEnsembleAgent': [
-    {
-      testName: 'Multi-Perspective Synthesis',
-      input: {
-        initialAnswerText: 'Renewable energy is the best solution for climate change',
-        assumptions: [],
-        supportingEvidence: [],
-        counterEvidence: [],
-        critique: 'Test critique',
-        challenges: [],
-        premortemAnalysis: [],
-        informationGaps: [],
-        errorsEncountered: [],
+    ],
+  },
+  'PremortemAgent': {
+    run: analyzeFailures,
+    flowName: 'analyzeFailuresInternalFlow',
+    testSuite: [
+      {
+        testName: 'Failure Analysis',
+        input: { answer: 'Investing all savings in cryptocurrency is a safe financial strategy' },
+        timeout: 60000,
+        critical: true,
       },
-      expectedOutputType: 'object',
-      timeout: 20000,
-      critical: true,
-    },
-  ],
+    ],
+  },
+  'InformationGapAgent': {
+    run: analyzeInformationGaps,
+    flowName: 'informationGapInternalFlow',
+    testSuite: [
+      {
+        testName: 'Gap Identification',
+        input: { answer: 'Artificial intelligence will solve all healthcare problems within 5 years' },
+        timeout: 60000,
+        critical: true,
+      },
+    ],
+  },
+  'FactVerificationAgent': {
+    run: verifyFacts,
+    flowName: 'factVerificationFlow',
+    testSuite: [
+      {
+        testName: 'Claim Verification',
+        input: {
+          claims: [
+            { claim: 'The Eiffel Tower is in Paris', importance: 'high', claimType: 'factual' },
+            { claim: 'Unemployment fell by 2% last year', importance: 'critical', claimType: 'statistic' },
+          ],
+          availableEvidence: [],
+          verificationDepth: 'standard',
+        },
+        timeout: 90000,
+        critical: true,
+      },
+      {
+        testName: 'Claim Verification Against Aggregated Evidence',
+        input: {
+          claims: [{ claim: 'Remote workers show higher productivity', importance: 'high', claimType: 'factual' }],
+          availableEvidence: {
+            supporting: [{ claim: 'Remote worker productivity', support: 'A two-year trial found remote workers were 13% more productive', quality: 'high', source: 'Stanford trial', documentId: 'doc-1', url: 'https://example.org/trial', quote: 'remote workers were 13% more productive' }],
+            counter: [],
+          },
+          verificationDepth: 'standard',
+        },
+        timeout: 30000,
+        critical: false,
+      },
+    ],
+  },
+  'ClaimExtractionAgent': {
+    run: extractClaims,
+    flowName: 'claimExtractionFlow',
+    testSuite: [
+      {
+        testName: 'Atomic Claims',
+        input: {
+          synthesis: {
+            summary: 'Remote work raised productivity by 13% and cut attrition by half. Collaboration suffers without office days.',
+            keyStrengths: ['Randomized trial evidence'],
+            keyWeaknesses: ['Single-company sample'],
+            actionableRecommendations: ['Adopt a hybrid schedule'],
+          },
+        },
+        timeout: 60000,
+        critical: false,
+      },
+    ],
+  },
+  'FollowUpPlannerAgent': {
+    run: planFollowUp,
+    flowName: 'followUpPlannerFlow',
+    testSuite: [
+      {
+        testName: 'Hypothetical Follow-Up',
+        input: {
+          question: 'What if the budget is halved?',
+          references: [],
+          context: FOLLOW_UP_TEST_CONTEXT,
+        },
+        timeout: 60000,
+        critical: false,
+      },
+    ],
+  },
+  'FollowUpAnswerAgent': {
+    run: answerFollowUp,
+    flowName: 'followUpAnswerFlow',
+    testSuite: [
+      {
+        testName: 'Answer From Session',
+        input: {
+          question: 'Expand on gap #1',
+          references: [{ kind: 'gap', number: 1, text: 'Effect on support rotas (impact: High)' }],
+          context: FOLLOW_UP_TEST_CONTEXT,
+          plan: { steps: [], focus: 'Effect on support rotas', rationale: 'The session covers the gap.' },
+          findings: {},
+        },
+        timeout: 60000,
+        critical: false,
+      },
+    ],
+  },
+  'ComparisonSynthesisAgent': {
+    run: synthesizeComparison,
+    flowName: 'comparisonSynthesisFlow',
+    testSuite: [
+      {
+        testName: 'Two Options On Weighted Criteria',
+        input: {
+          question: 'Should we build our analytics pipeline in-house or buy a vendor platform?',
+          setup: {
+            options: [{ id: 'A', name: 'Build in-house' }, { id: 'B', name: 'Buy a vendor platform' }],
+            criteria: [{ name: 'Cost', weight: 0.4 }, { name: 'Time to value', weight: 0.6 }],
+          },
+          optionAnalyses: [
+            { optionId: 'A', claim: 'Build in-house is the best choice', assumptions: [{ assumption: 'The team has data engineers free', risk: 'High', alternative: 'Hiring takes months' }], supportingEvidence: [], counterEvidence: [], premortem: [] },
+            { optionId: 'B', claim: 'Buy a vendor platform is the best choice', assumptions: [], supportingEvidence: [], counterEvidence: [], premortem: [{ failure: 'Vendor lock-in', probability: 'Moderate (30-60%)', mitigation: 'Negotiate data export terms' }] },
+          ],
+          scenarios: [],
+        },
+        timeout: 60000,
+        critical: false,
+      },
+    ],
+  },
+  'SynthesisEnsembleAgent': {
+    run: runSynthesisEnsemble,
+    flowName: 'synthesisEnsembleFlow',
+    testSuite: [
+      {
+        testName: 'Multi-Perspective Synthesis',
+        input: {
+          initialAnswerText: 'Renewable energy is the best solution for climate change',
+          aggregatedSupportingResearch: [],
+          aggregatedCounterResearch: [],
+          errorsEncountered: [],
+        },
+        timeout: 120000,
+        critical: true,
+      },
+    ],
+  },
 };
 
 export class AgentValidationFramework {
-  private agentRegistry: Map<string, Function> = new Map();
   private validationResults: AgentValidationResult[] = [];
 
-  constructor() {
-    // Initialize agent registry - would be populated with actual agent functions
-    this.initializeAgentRegistry();
-  }
+  constructor(private readonly contracts: Record<string, AgentContract> = AGENT_CONTRACTS) {}
 
-  private initializeAgentRegistry(): void {
-    // This would be populated with actual agent imports
-    // For now, we'll create a mock registry structure
-    console.log('AgentValidationFramework: Initializing agent registry...');
+  private async outputSchemaFor(flowName: string): Promise<z.ZodTypeAny> {
+    const action = await ai.registry.lookupAction(`/flow/${flowName}`);
+    const outputSchema = action?.__action.outputSchema;
+    if (!outputSchema) {
+      throw new Error(`Flow ${flowName} is not registered or declares no output schema`);
+    }
+    return outputSchema;
   }
 
   async validateAgent(agentName: string, testSuite: AgentTestCase[]): Promise<AgentValidationResult> {
     console.log(`AgentValidationFramework: Validating ${agentName}...`);
-    
+    const contract = this.contracts[agentName];
+    if (!contract) {
+      throw new Error(`No contract registered for ${agentName}`);
+    }
+    const outputSchema = await this.outputSchemaFor(contract.flowName);
+
     const testResults = [];
     let totalScore = 0;
     let testCount = 0;
@@ -199,29 +381,35 @@ export class AgentValidationFramework {
       let passed = false;
       let errorMessage: string | undefined;
       let executionTime = 0;
+      let schemaIssues: string[] | undefined;
+      const failedModelCalls: string[] = [];
+      let timer: ReturnType<typeof setTimeout> | undefined;
 
       try {
-        // Simulate agent execution with timeout
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Test timeout')), testCase.timeout)
-        );
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Test timeout')), testCase.timeout);
+        });
 
-        // Mock agent execution - in real implementation, would call actual agents
-        const executionPromise = this.simulateAgentExecution(agentName, testCase.input);
-        
-        const result = await Promise.race([executionPromise, timeoutPromise]);
+        const run = runWithModelUsageContext({ onCall: record => { if (!record.success) failedModelCalls.push(record.flow); } }, () => contract.run(testCase.input));
+        const result = await Promise.race([run, timeoutPromise]);
         executionTime = Date.now() - startTime;
 
-        // Validate result type
-        passed = this.validateResultType(result, testCase.expectedOutputType);
-        if (!passed) {
-          errorMessage = `Expected ${testCase.expectedOutputType}, got ${typeof result}`;
+        const parsed = outputSchema.safeParse(result);
+        passed = parsed.success;
+        if (!parsed.success) {
+          schemaIssues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+          errorMessage = `Output does not match ${contract.flowName} output schema: ${schemaIssues.slice(0, 3).join('; ')}`;
+        } else if (failedModelCalls.length > 0) {
+          passed = false;
+          errorMessage = `${failedModelCalls.length} model call(s) failed (${[...new Set(failedModelCalls)].join(', ')}), so the output is likely the agent's fallback default`;
         }
 
       } catch (error: any) {
         executionTime = Date.now() - startTime;
         passed = false;
         errorMessage = error.message;
+      } finally {
+        clearTimeout(timer);
       }
 
       testResults.push({
@@ -229,13 +417,13 @@ export class AgentValidationFramework {
         passed,
         errorMessage,
         executionTime,
-        details: { critical: testCase.critical },
+        details: { critical: testCase.critical, schemaIssues, failedModelCalls: failedModelCalls.length > 0 ? failedModelCalls : undefined },
       });
 
       // Scoring: critical tests worth more
       const testWeight = testCase.critical ? 2 : 1;
       if (passed) {
-        totalScore += 20 * testWeight;
+        totalScore += 100 * testWeight;
       }
       testCount += testWeight;
     }
@@ -254,38 +442,6 @@ export class AgentValidationFramework {
     };
   }
 
-  private async simulateAgentExecution(agentName: string, input: any): Promise<any> {
-    // Mock implementation - in real version would call actual agents
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 500));
-    
-    // Simulate different response types based on expected output
-    const mockResponses = {
-      array: [],
-      object: { result: 'mock result' },
-      string: 'mock string response',
-    };
-
-    // Simulate occasional failures
-    if (Math.random() < 0.1) {
-      throw new Error('Simulated agent failure');
-    }
-
-    return mockResponses.object;
-  }
-
-  private validateResultType(result: any, expectedType: string): boolean {
-    switch (expectedType) {
-      case 'array':
-        return Array.isArray(result);
-      case 'object':
-        return typeof result === 'object' && result !== null && !Array.isArray(result);
-      case 'string':
-        return typeof result === 'string';
-      default:
-        return false;
-    }
-  }
-
   private generateRecommendations(testResults: any[], agentName: string): string[] {
     const recommendations = [];
     const failedTests = testResults.filter(t => !t.passed);
@@ -322,12 +478,13 @@ export class AgentValidationFramework {
     };
 
     // Validate each agent with its test suite
-    for (const [agentName, testSuite] of Object.entries(AGENT_TEST_SUITES)) {
+    for (const [agentName, contract] of Object.entries(this.contracts)) {
       const startTime = Date.now();
       
       try {
-        const result = await this.validateAgent(agentName, testSuite);
+        const result = await this.validateAgent(agentName, contract.testSuite);
         this.validationResults.push(result);
+        performanceMetrics.timeoutCount += result.testResults.filter(t => t.errorMessage === 'Test timeout').length;
         
         const agentTime = Date.now() - startTime;
         performanceMetrics.agentTimes.push({ name: agentName, time: agentTime });
@@ -448,7 +605,7 @@ export class AgentValidationFramework {
     });
 
     const timeoutAgents = this.validationResults.filter(r =>
-      r.testResults.some(t => t.errorMessage?.includes('timeout'))
+      r.testResults.some(t => t.errorMessage?.toLowerCase().includes('timeout'))
     );
 
     if (timeoutAgents.length > 2) {
@@ -467,8 +624,8 @@ export class AgentValidationFramework {
     const quickResults = [];
 
     for (const agentName of criticalAgents) {
-      if (AGENT_TEST_SUITES[agentName]) {
-        const firstTest = AGENT_TEST_SUITES[agentName][0]; // Run only first test
+      if (this.contracts[agentName]) {
+        const firstTest = this.contracts[agentName].testSuite[0]; // Run only first test
         const result = await this.validateAgent(agentName, [firstTest]);
         quickResults.push(result);
       }
@@ -498,4 +655,49 @@ export async function validateAgentSystem(): Promise<ValidationFrameworkOutput>
 export async function quickSystemHealthCheck(): Promise<{ status: string; score: number; issues: string[] }> {
   const framework = new AgentValidationFramework();
   return await framework.quickHealthCheck();
-} 
\ No newline at end of file
+} 
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** One <testsuite> per agent and one <testcase> per contract test; times are in seconds. */
+export function toJUnitXml(output: ValidationFrameworkOutput): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suites = output.agentResults.map(agent => {
+    const failures = agent.testResults.filter(t => !t.passed).length;
+    const time = agent.testResults.reduce((sum, t) => sum + t.executionTime, 0);
+    const cases = agent.testResults.map(t => {
+      const open = `    <testcase classname="${escapeXml(agent.agentName)}" name="${escapeXml(t.testName)}" time="${seconds(t.executionTime)}"`;
+      if (t.passed) return `${open}/>`;
+      const message = escapeXml(t.errorMessage ?? 'Failed');
+      const detail = escapeXml((t.details?.schemaIssues ?? []).join('\n'));
+      return `${open}>\n      <failure message="${message}">${detail}</failure>\n    </testcase>`;
+    });
+    return [
+      `  <testsuite name="${escapeXml(agent.agentName)}" tests="${agent.testResults.length}" failures="${failures}" time="${seconds(time)}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const tests = output.agentResults.reduce((sum, agent) => sum + agent.testResults.length, 0);
+  const failures = output.agentResults.reduce((sum, agent) => sum + agent.testResults.filter(t => !t.passed).length, 0);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="AgentValidation" tests="${tests}" failures="${failures}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** Writes `agent-validation.json` and `agent-validation.junit.xml` to `outDir`. */
+export function writeValidationReport(output: ValidationFrameworkOutput, outDir: string): { jsonPath: string; junitPath: string } {
+  mkdirSync(outDir, { recursive: true });
+  const jsonPath = path.join(outDir, 'agent-validation.json');
+  const junitPath = path.join(outDir, 'agent-validation.junit.xml');
+  const report = { generatedAt: new Date().toISOString(), model: defaultModelName(), ...output };
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  writeFileSync(junitPath, toJUnitXml(output));
+  return { jsonPath, junitPath };
+}
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'ArgumentReconstructionAgent';
+
 // F2 Part 1: Argument Reconstruction Agent - Creates neutral summary to counter anchoring bias
 
 const ArgumentReconstructionInputSchema = z.object({
@@ -65,6 +68,7 @@ const DEFAULT_OUTPUT: ArgumentReconstructionOutput = {
 
 const argumentReconstructionPrompt = ai.definePrompt({
   name: 'argumentReconstructionPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: ArgumentReconstructionInputSchema },
   output: { schema: ArgumentReconstructionOutputSchema },
   prompt: `You are an Argument Reconstruction Agent tasked with creating a neutral, balanced brief to prevent anchoring bias.
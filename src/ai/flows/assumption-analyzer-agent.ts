@@ -8,6 +8,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
 /**
@@ -192,6 +193,7 @@ Return ONLY a valid JSON array with the exact structure shown above. Do not incl
 const prompt = ai.definePrompt(
   {
     name: 'analyzeAssumptionsPrompt',
+    ...modelOptionsFor(AGENT_NAME),
     input: {schema: AnalyzeAssumptionsInputSchema},
     output: {schema: AnalyzeAssumptionsOutputSchema},
     prompt: analyzeAssumptionsPromptTemplate,
@@ -0,0 +1,74 @@
+import { classifyClaimType, extractClaimsHeuristically, relatedEvidence, toVerifiedClaims } from './atomic-claims';
+import type { ClaimVerification } from './fact-verification-loop-agent';
+import type { Evidence } from './researcher-agent';
+
+function evidence(claim: string, support: string, quality: Evidence['quality'] = 'high'): Evidence {
+  return { claim, support, quality, source: 'Survey', documentId: 'doc-1', url: 'https://example.org', quote: '' };
+}
+
+describe('extractClaimsHeuristically', () => {
+  test('should give one claim per summary sentence and list item, split on semicolons', () => {
+    const claims = extractClaimsHeuristically({
+      summary: 'Remote work raised output by 13% in 2019. Commutes are shorter.',
+      keyStrengths: ['Large samples; replicated findings'],
+      keyWeaknesses: [],
+      actionableRecommendations: ['Pilot hybrid schedules'],
+    });
+
+    expect(claims.map(claim => [claim.section, claim.claim, claim.importance])).toEqual([
+      ['summary', 'Remote work raised output by 13% in 2019.', 'high'],
+      ['summary', 'Commutes are shorter.', 'high'],
+      ['keyStrengths', 'Large samples', 'medium'],
+      ['keyStrengths', 'replicated findings', 'medium'],
+      ['actionableRecommendations', 'Pilot hybrid schedules', 'low'],
+    ]);
+    expect(claims[2].statement).toBe('Large samples; replicated findings');
+  });
+
+  test('should classify claims by their wording', () => {
+    expect(classifyClaimType('Output rose 13%')).toBe('statistic');
+    expect(classifyClaimType('Shorter commutes lead to less fatigue')).toBe('causal');
+    expect(classifyClaimType('Adoption will keep growing')).toBe('predictive');
+    expect(classifyClaimType('Offices emptied in 2020')).toBe('historical');
+    expect(classifyClaimType('Commutes are shorter')).toBe('factual');
+  });
+});
+
+describe('relatedEvidence', () => {
+  const aggregated = {
+    supporting: [evidence('Remote workers productivity', 'Stanford study found remote workers productivity rose'), evidence('Office costs', 'Rent fell')],
+    counter: [evidence('Collaboration', 'Remote teams collaborate less across groups')],
+  };
+
+  test('should keep only evidence sharing enough terms with the claim', () => {
+    const related = relatedEvidence('Remote workers show higher productivity', aggregated);
+
+    expect(related.supporting.map(item => item.claim)).toEqual(['Remote workers productivity']);
+    expect(related.counter).toEqual([]);
+  });
+
+  test('should find counter-evidence for a contradicted claim', () => {
+    expect(relatedEvidence('Remote teams collaborate just as well', aggregated).counter).toHaveLength(1);
+  });
+
+  test('should count counter-evidence as agreeing with a claim against the answer', () => {
+    const related = relatedEvidence('Remote teams collaborate less across groups', aggregated, 'against');
+
+    expect(related.supporting.map(item => item.claim)).toEqual(['Collaboration']);
+    expect(related.counter).toEqual([]);
+  });
+});
+
+describe('toVerifiedClaims', () => {
+  test('should flag contradicted, disputed and unverified claims and treat missing verdicts as unverified', () => {
+    const claims = extractClaimsHeuristically({ summary: 'A is true. B is true. C is true.', keyStrengths: [], keyWeaknesses: [], actionableRecommendations: [] });
+    const verdict = (finalVerificationStatus: ClaimVerification['finalVerificationStatus']) => ({
+      finalVerificationStatus, overallConfidence: 70, supportingEvidence: [], contradictingEvidence: ['Counter'],
+    }) as unknown as ClaimVerification;
+
+    const verified = toVerifiedClaims(claims, [verdict('verified'), verdict('contradicted')]);
+
+    expect(verified.map(claim => [claim.status, claim.flagged])).toEqual([['verified', false], ['contradicted', true], ['unverified', true]]);
+    expect(verified[1].contradictingEvidence).toEqual(['Counter']);
+  });
+});
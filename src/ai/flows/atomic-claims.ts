@@ -0,0 +1,134 @@
+import { z } from 'genkit';
+import { splitSentences } from '@/lib/citations';
+import type { ClaimVerification } from './fact-verification-loop-agent';
+import type { Evidence } from './researcher-agent';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview Atomic claims checked one by one in Phase 5.
+ *
+ * The claim extraction agent splits the synthesis summary, strengths, weaknesses and recommendations into
+ * single checkable claims. Each claim keeps the statement it came from, so contradicted and unverified claims
+ * can be flagged next to that statement.
+ *
+ * - AtomicClaimSchema - One claim with its type, importance and source statement.
+ * - extractClaimsHeuristically - Sentence-level fallback when the extraction agent fails.
+ * - claimStance - Whether a claim argues for the analysed answer or, like a weakness, against it.
+ * - relatedEvidence - Aggregated evidence that shares enough terms with a claim, split by whether it agrees with it.
+ * - toVerifiedClaims - Pairs extracted claims with their FactVerificationLoopAgent verdicts.
+ */
+
+type MetaSynthesis = SynthesisEnsembleOutput['metaSynthesis'];
+
+export const CLAIM_SECTIONS = ['summary', 'keyStrengths', 'keyWeaknesses', 'actionableRecommendations'] as const;
+export type ClaimSection = typeof CLAIM_SECTIONS[number];
+
+export const AtomicClaimSchema = z.object({
+  claim: z.string().describe('One self-contained assertion that can be checked on its own'),
+  claimType: z.enum(['statistic', 'factual', 'causal', 'predictive', 'historical']),
+  importance: z.enum(['critical', 'high', 'medium', 'low']),
+  section: z.enum(CLAIM_SECTIONS).describe('Synthesis field the claim was taken from'),
+  statement: z.string().describe('The statement exactly as written in that field (one sentence of the summary, or one list item)'),
+});
+export type AtomicClaim = z.infer<typeof AtomicClaimSchema>;
+
+export const VerifiedClaimSchema = AtomicClaimSchema.extend({
+  status: z.enum(['verified', 'contradicted', 'partially_verified', 'unverified', 'disputed']),
+  confidence: z.number().min(0).max(100),
+  supportingEvidence: z.array(z.string()),
+  contradictingEvidence: z.array(z.string()),
+  /** Contradicted, disputed and unverified claims are flagged next to their statement. */
+  flagged: z.boolean(),
+});
+export type VerifiedClaim = z.infer<typeof VerifiedClaimSchema>;
+
+export interface AggregatedEvidence {
+  supporting: readonly Evidence[];
+  counter: readonly Evidence[];
+}
+
+const SECTION_IMPORTANCE: Record<ClaimSection, AtomicClaim['importance']> = {
+  summary: 'high',
+  keyStrengths: 'medium',
+  keyWeaknesses: 'medium',
+  actionableRecommendations: 'low',
+};
+
+const FLAGGED_STATUSES: ReadonlySet<VerifiedClaim['status']> = new Set(['contradicted', 'disputed', 'unverified']);
+
+export function classifyClaimType(claim: string): AtomicClaim['claimType'] {
+  if (/\d+(\.\d+)?\s*(%|percent)|\b\d+(\.\d+)?\s*(times|fold)\b/i.test(claim)) return 'statistic';
+  if (/\b(because|causes?|caused|leads? to|led to|results? in|drives?|due to)\b/i.test(claim)) return 'causal';
+  if (/\b(will|is likely to|are likely to|is expected to|are expected to|forecast|projected)\b/i.test(claim)) return 'predictive';
+  if (/\b(in|since|by|during) (1[89]|20)\d{2}\b|\bhistorically\b/i.test(claim)) return 'historical';
+  return 'factual';
+}
+
+/** One claim per summary sentence and per list item, split further on semicolons. */
+export function extractClaimsHeuristically(synthesis: Pick<MetaSynthesis, ClaimSection>): AtomicClaim[] {
+  const statements = CLAIM_SECTIONS.flatMap(section => (section === 'summary' ? splitSentences(synthesis.summary) : synthesis[section])
+    .map(statement => ({ section, statement })));
+  return statements.flatMap(({ section, statement }) => statement.split(/;\s+/).map(part => part.trim()).filter(Boolean).map(claim => ({
+    claim, claimType: classifyClaimType(claim), importance: SECTION_IMPORTANCE[section], section, statement,
+  })));
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'being', 'between', 'could', 'does', 'from', 'have', 'into', 'more', 'most', 'much',
+  'other', 'over', 'same', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'there', 'these', 'they', 'this',
+  'those', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'with', 'would',
+]);
+
+function terms(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9%]+/g) ?? []).filter(term => term.length >= 4 && !STOP_WORDS.has(term)));
+}
+
+/** Share of the claim's terms an evidence item needs to be considered about the same thing. */
+const MIN_TERM_OVERLAP = 0.3;
+
+/**
+ * Supporting and counter-evidence are for and against the analysed answer. A weakness argues against the
+ * answer, so it restates the counter-evidence rather than being contradicted by it.
+ */
+export type ClaimStance = 'for' | 'against';
+
+export function claimStance(section: string | undefined): ClaimStance {
+  return section === 'keyWeaknesses' ? 'against' : 'for';
+}
+
+/**
+ * Evidence items whose claim, support and quote share at least two terms and MIN_TERM_OVERLAP of the claim's
+ * terms with it, best match first. `supporting` agrees with the claim and `counter` disputes it: for a claim
+ * against the answer that is the counter-evidence and the supporting evidence respectively.
+ */
+export function relatedEvidence(claim: string, evidence: AggregatedEvidence, stance: ClaimStance = 'for'): { supporting: Evidence[]; counter: Evidence[] } {
+  const claimTerms = terms(claim);
+  const related = (items: readonly Evidence[]) => items
+    .map(item => {
+      const itemTerms = terms(`${item.claim} ${item.support} ${item.quote}`);
+      const shared = [...claimTerms].filter(term => itemTerms.has(term)).length;
+      return { item, shared };
+    })
+    .filter(({ shared }) => claimTerms.size > 0 && shared >= Math.min(2, claimTerms.size) && shared / claimTerms.size >= MIN_TERM_OVERLAP)
+    .sort((a, b) => b.shared - a.shared)
+    .map(({ item }) => item);
+  return stance === 'for'
+    ? { supporting: related(evidence.supporting), counter: related(evidence.counter) }
+    : { supporting: related(evidence.counter), counter: related(evidence.supporting) };
+}
+
+/** verifyFacts returns one verification per claim, in order. */
+export function toVerifiedClaims(claims: readonly AtomicClaim[], verifications: readonly ClaimVerification[]): VerifiedClaim[] {
+  return claims.map((claim, i) => {
+    const verification = verifications[i];
+    const status = verification?.finalVerificationStatus ?? 'unverified';
+    return {
+      ...claim,
+      status,
+      confidence: verification?.overallConfidence ?? 0,
+      supportingEvidence: verification?.supportingEvidence ?? [],
+      contradictingEvidence: verification?.contradictingEvidence ?? [],
+      flagged: FLAGGED_STATUSES.has(status),
+    };
+  });
+}
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'BiasCrossReferencingAgent';
+
 // F1 Part 1: Bias Cross-Referencing Agent - Ensures biases are addressed
 
 const BiasCrossReferencingInputSchema = z.object({
@@ -57,6 +60,7 @@ const DEFAULT_OUTPUT: BiasCrossReferencingOutput = {
 
 const biasCrossReferencingPrompt = ai.definePrompt({
   name: 'biasCrossReferencingPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: BiasCrossReferencingInputSchema },
   output: { schema: BiasCrossReferencingOutputSchema },
   prompt: `You are a Bias Cross-Referencing Agent ensuring that identified biases are properly addressed.
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'BiasDetectionAgent';
+
 // E2: Bias Detection Agent - Identifies cognitive biases in analysis
 
 const BiasDetectionInputSchema = z.object({
@@ -55,6 +58,7 @@ const DEFAULT_OUTPUT: BiasDetectionOutput = [];
 
 const biasDetectionPrompt = ai.definePrompt({
   name: 'biasDetectionPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: BiasDetectionInputSchema },
   output: { schema: BiasDetectionOutputSchema },
   prompt: `You are a specialized Bias Detection Agent trained to identify cognitive biases in analytical content.
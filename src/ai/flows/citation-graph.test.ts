@@ -0,0 +1,38 @@
+import { registerCitationSources, validateCitations } from './citation-graph';
+
+describe('registerCitationSources', () => {
+  test('should keep IDs stable when items are registered again and number new items after them', () => {
+    const first = registerCitationSources([], 'supporting_evidence', 'Phase2', [{ text: 'Solar is cheap' }, { text: 'Panels last 25 years' }]);
+    const again = registerCitationSources(first, 'supporting_evidence', 'Phase2', [{ text: 'Panels last 25 years.' }, { text: 'Net metering helps' }]);
+    const withCritique = registerCitationSources(again, 'critique', 'Phase3', [{ text: 'The answer ignores storage costs' }]);
+
+    expect(withCritique.map(source => source.id)).toEqual(['EV-1', 'EV-2', 'EV-3', 'CR-1']);
+    expect(withCritique[2]).toEqual(expect.objectContaining({ text: 'Net metering helps', phase: 'Phase2' }));
+  });
+});
+
+describe('validateCitations', () => {
+  const sources = registerCitationSources([], 'supporting_evidence', 'Phase2', [{ text: 'Solar is cheap' }]);
+
+  test('should flag summary sentences and list items without a supporting reference', () => {
+    const report = validateCitations({
+      summary: 'Solar pays off for most homes. Storage remains expensive.',
+      keyStrengths: ['Low running costs'],
+      actionableRecommendations: ['Get three quotes'],
+      claims: [
+        { section: 'summary', statement: 'Solar pays off for most homes.', citations: ['EV-1'] },
+        { section: 'keyStrengths', statement: 'Low running costs', citations: [] },
+        { section: 'actionableRecommendations', statement: 'Get three quotes', citations: ['EV-9'] },
+      ],
+    }, sources);
+
+    expect(report.totalStatements).toBe(4);
+    expect(report.citedStatements).toBe(1);
+    expect(report.uncitedStatements.map(item => [item.statement, item.reason])).toEqual([
+      ['Storage remains expensive.', 'no_claim'],
+      ['Low running costs', 'no_citations'],
+      ['Get three quotes', 'unknown_source'],
+    ]);
+    expect(report.unknownSourceIds).toEqual(['EV-9']);
+  });
+});
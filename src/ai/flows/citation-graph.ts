@@ -0,0 +1,123 @@
+import { z } from 'genkit';
+import { claimMatchesStatement, normalizeStatement, splitSentences } from '@/lib/citations';
+
+/**
+ * @fileOverview Provenance for synthesis statements.
+ *
+ * - registerCitationSources - Gives evidence, assumption, gap, critique and challenge items stable IDs
+ *   (EV-1, CE-1, AS-1, GAP-1, CR-1, DA-1). An item keeps its ID when a later phase or a resumed session
+ *   registers it again.
+ * - SynthesisClaimSchema - Statement emitted by the synthesis agents with the source IDs it rests on.
+ * - validateCitations - Flags every synthesis sentence that no claim with known source IDs backs.
+ *
+ * Statement matching lives in src/lib/citations.ts so the UI can render footnotes without Genkit.
+ */
+
+export const CitationSourceKindSchema = z.enum([
+  'supporting_evidence', 'counter_evidence', 'assumption', 'information_gap', 'critique', 'challenge',
+]);
+export type CitationSourceKind = z.infer<typeof CitationSourceKindSchema>;
+
+export const CitationSourceSchema = z.object({
+  id: z.string().describe('Stable ID to cite, e.g. EV-3'),
+  kind: CitationSourceKindSchema,
+  text: z.string().describe('The item itself: an evidence claim, an assumption, a gap, a critique paragraph or a challenge'),
+  detail: z.string().optional().describe('Supporting detail, e.g. the evidence source or the assumption risk'),
+  url: z.string().optional(),
+  phase: z.string().describe('Orchestrator phase that produced the item'),
+});
+export type CitationSource = z.infer<typeof CitationSourceSchema>;
+
+export const SYNTHESIS_SECTIONS = [
+  'summary', 'keyStrengths', 'keyWeaknesses', 'howCounterEvidenceWasAddressed', 'actionableRecommendations', 'remainingUncertainties',
+] as const;
+export type SynthesisSection = typeof SYNTHESIS_SECTIONS[number];
+
+export const SynthesisClaimSchema = z.object({
+  section: z.enum(SYNTHESIS_SECTIONS).describe('Synthesis field the statement appears in'),
+  statement: z.string().describe('The statement exactly as written in that field (one sentence of the summary, or one list item)'),
+  citations: z.array(z.string()).describe('IDs of the sources that support the statement, e.g. ["EV-1", "AS-2"]'),
+});
+export type SynthesisClaim = z.infer<typeof SynthesisClaimSchema>;
+
+export const CitationValidationReportSchema = z.object({
+  totalStatements: z.number(),
+  citedStatements: z.number(),
+  uncitedStatements: z.array(z.object({
+    section: z.enum(SYNTHESIS_SECTIONS),
+    statement: z.string(),
+    reason: z.enum(['no_claim', 'no_citations', 'unknown_source']),
+  })),
+  unknownSourceIds: z.array(z.string()),
+});
+export type CitationValidationReport = z.infer<typeof CitationValidationReportSchema>;
+
+const ID_PREFIXES: Record<CitationSourceKind, string> = {
+  supporting_evidence: 'EV',
+  counter_evidence: 'CE',
+  assumption: 'AS',
+  information_gap: 'GAP',
+  critique: 'CR',
+  challenge: 'DA',
+};
+
+/**
+ * Appends `items` of one kind to `existing`, reusing the ID of any item already registered with the same
+ * kind and text and numbering new items after the highest existing ID of that kind.
+ */
+export function registerCitationSources(
+  existing: readonly CitationSource[],
+  kind: CitationSourceKind,
+  phase: string,
+  items: ReadonlyArray<{ text: string; detail?: string; url?: string }>,
+): CitationSource[] {
+  const sources = [...existing];
+  const prefix = ID_PREFIXES[kind];
+  let next = sources
+    .filter(source => source.kind === kind)
+    .reduce((max, source) => Math.max(max, Number(source.id.slice(prefix.length + 1)) || 0), 0);
+  for (const item of items) {
+    if (!item.text?.trim()) continue;
+    if (sources.some(source => source.kind === kind && normalizeStatement(source.text) === normalizeStatement(item.text))) continue;
+    next++;
+    sources.push({ id: `${prefix}-${next}`, kind, text: item.text, detail: item.detail, url: item.url, phase });
+  }
+  return sources;
+}
+
+/** Critique text is cited per paragraph, so long critiques do not collapse into a single source. */
+export function splitCritique(critique: string): string[] {
+  return critique.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+type CitableSynthesis = { summary: string; claims?: SynthesisClaim[] } & Partial<Record<Exclude<SynthesisSection, 'summary'>, string[]>>;
+
+/**
+ * Checks each summary sentence and each list item of a synthesis against its claims. A statement passes
+ * when a matching claim cites at least one registered source; otherwise it is reported with the reason.
+ */
+export function validateCitations(synthesis: CitableSynthesis, sources: readonly CitationSource[]): CitationValidationReport {
+  const knownIds = new Set(sources.map(source => source.id));
+  const claims = synthesis.claims ?? [];
+  const statements: { section: SynthesisSection; statement: string }[] = [
+    ...splitSentences(synthesis.summary ?? '').map(statement => ({ section: 'summary' as const, statement })),
+    ...SYNTHESIS_SECTIONS.filter((section): section is Exclude<SynthesisSection, 'summary'> => section !== 'summary')
+      .flatMap(section => (synthesis[section] ?? []).map(statement => ({ section, statement }))),
+  ];
+
+  const uncitedStatements: CitationValidationReport['uncitedStatements'] = [];
+  for (const { section, statement } of statements) {
+    const matching = claims.filter(claim => claimMatchesStatement(claim, statement));
+    const cited = matching.flatMap(claim => claim.citations);
+    if (matching.length === 0) uncitedStatements.push({ section, statement, reason: 'no_claim' });
+    else if (cited.length === 0) uncitedStatements.push({ section, statement, reason: 'no_citations' });
+    else if (!cited.some(id => knownIds.has(id))) uncitedStatements.push({ section, statement, reason: 'unknown_source' });
+  }
+
+  return {
+    totalStatements: statements.length,
+    citedStatements: statements.length - uncitedStatements.length,
+    uncitedStatements,
+    unknownSourceIds: [...new Set(claims.flatMap(claim => claim.citations).filter(id => !knownIds.has(id)))],
+  };
+}
@@ -0,0 +1,107 @@
+'use server';
+
+import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
+import { z } from 'genkit';
+import { claimMatchesStatement, splitSentences } from '@/lib/citations';
+import { AtomicClaimSchema, extractClaimsHeuristically, type AtomicClaim } from './atomic-claims';
+
+const AGENT_NAME = 'ClaimExtractionAgent';
+
+// Splits the Phase 5 synthesis into atomic, checkable claims for the FactVerificationLoopAgent
+
+const ClaimExtractionInputSchema = z.object({
+  synthesis: z.object({
+    summary: z.string(),
+    keyStrengths: z.array(z.string()),
+    keyWeaknesses: z.array(z.string()),
+    actionableRecommendations: z.array(z.string()),
+  }),
+  maxClaims: z.number().int().positive().optional().default(20),
+});
+export type ClaimExtractionInput = z.input<typeof ClaimExtractionInputSchema>;
+
+const ClaimExtractionOutputSchema = z.object({
+  claims: z.array(AtomicClaimSchema),
+});
+export type ClaimExtractionOutput = z.infer<typeof ClaimExtractionOutputSchema>;
+
+const RETRY_ATTEMPTS = 2;
+
+const claimExtractionPrompt = ai.definePrompt({
+  name: 'claimExtractionPrompt',
+  ...modelOptionsFor(AGENT_NAME),
+  input: { schema: ClaimExtractionInputSchema },
+  output: { schema: ClaimExtractionOutputSchema },
+  prompt: `You are a Claim Extraction Agent preparing a synthesis for fact verification.
+
+Synthesis:
+- summary: {{{synthesis.summary}}}
+- keyStrengths:
+{{#each synthesis.keyStrengths}}
+  - {{{this}}}
+{{/each}}
+- keyWeaknesses:
+{{#each synthesis.keyWeaknesses}}
+  - {{{this}}}
+{{/each}}
+- actionableRecommendations:
+{{#each synthesis.actionableRecommendations}}
+  - {{{this}}}
+{{/each}}
+
+Split every statement into atomic claims: each claim asserts exactly one thing that evidence could confirm or
+refute, and reads on its own (replace pronouns with what they refer to). A sentence joining two findings gives
+two claims. Skip opinions, hedges and recommendations that assert nothing checkable.
+
+For each claim give:
+- "claim": the self-contained assertion
+- "claimType": statistic (a number or rate), causal (X causes or leads to Y), predictive (about the future),
+  historical (about a past event or period) or factual
+- "importance": critical if the conclusion depends on it, high for the main findings, medium for supporting
+  points, low for side remarks
+- "section": the field it came from (summary, keyStrengths, keyWeaknesses or actionableRecommendations)
+- "statement": the summary sentence or list item it came from, copied word for word
+
+Return at most {{maxClaims}} claims, most important first, as a JSON object { "claims": [...] }.`,
+});
+
+/** Keeps claims whose statement is in their section, copying the statement as written there. */
+function anchorClaims(claims: AtomicClaim[], synthesis: ClaimExtractionInput['synthesis']): AtomicClaim[] {
+  return claims.flatMap(claim => {
+    const statements = claim.section === 'summary' ? splitSentences(synthesis.summary) : synthesis[claim.section];
+    const statement = statements.find(candidate => claimMatchesStatement(claim, candidate));
+    return statement && claim.claim.trim() ? [{ ...claim, statement }] : [];
+  });
+}
+
+const claimExtractionFlow = ai.defineFlow(
+  {
+    name: 'claimExtractionFlow',
+    inputSchema: ClaimExtractionInputSchema,
+    outputSchema: ClaimExtractionOutputSchema,
+  },
+  async (input) => {
+    const { output } = await claimExtractionPrompt(input);
+    return { claims: anchorClaims(output?.claims ?? [], input.synthesis).slice(0, input.maxClaims) };
+  }
+);
+
+/**
+ * Extracts atomic claims from a synthesis. When the model fails or returns no claim that can be traced to a
+ * statement, every summary sentence and list item becomes one claim instead.
+ */
+export async function extractClaims(input: ClaimExtractionInput): Promise<ClaimExtractionOutput> {
+  const parsed = ClaimExtractionInputSchema.parse(input);
+  for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
+    try {
+      const { claims } = await claimExtractionFlow(parsed);
+      if (claims.length > 0) return { claims };
+      console.warn(`${AGENT_NAME}: Attempt ${attempt + 1} returned no claims traceable to the synthesis.`);
+    } catch (error: any) {
+      console.error(`${AGENT_NAME}: Attempt ${attempt + 1} failed.`, { error: error.message });
+    }
+  }
+  console.warn(`${AGENT_NAME}: Falling back to one claim per statement.`);
+  return { claims: extractClaimsHeuristically(parsed.synthesis).slice(0, parsed.maxClaims) };
+}
@@ -0,0 +1,133 @@
+'use server';
+
+import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
+import { z } from 'genkit';
+import {
+  ComparisonJudgementSchema, ComparisonSetupSchema, MAX_CRITERION_SCORE, OptionAnalysisSchema, heuristicScenarioAdjustments, scoreOptionsHeuristically,
+  type ComparisonJudgement,
+} from './comparison';
+import type { ScenarioTest } from './sensitivity-analysis-agent';
+
+const AGENT_NAME = 'ComparisonSynthesisAgent';
+
+// Scores competing options on weighted criteria from their per-option analyses, and how sensitivity scenarios shift those scores
+
+const ComparisonSynthesisInputSchema = z.object({
+  question: z.string(),
+  setup: ComparisonSetupSchema,
+  optionAnalyses: z.array(OptionAnalysisSchema),
+  scenarios: z.array(z.custom<ScenarioTest>()).describe('Sensitivity scenarios to estimate score changes under'),
+  synthesisSummary: z.string().optional(),
+});
+export type ComparisonSynthesisInput = z.infer<typeof ComparisonSynthesisInputSchema>;
+
+const RETRY_ATTEMPTS = 2;
+
+// The analyses and scenarios go into the prompt condensed, so that five options fit alongside each other.
+const MAX_ITEMS_PER_LIST = 5;
+
+function condenseOptionAnalyses(input: ComparisonSynthesisInput) {
+  return input.setup.options.map(option => {
+    const analysis = input.optionAnalyses.find(item => item.optionId === option.id);
+    return {
+      optionId: option.id, name: option.name, description: option.description,
+      supportingEvidence: (analysis?.supportingEvidence ?? []).slice(0, MAX_ITEMS_PER_LIST).map(item => `${item.claim}: ${item.support} [${item.quality}]`),
+      counterEvidence: (analysis?.counterEvidence ?? []).slice(0, MAX_ITEMS_PER_LIST).map(item => `${item.claim}: ${item.support} [${item.quality}]`),
+      assumptions: (analysis?.assumptions ?? []).slice(0, MAX_ITEMS_PER_LIST).map(item => `${item.assumption} (risk ${item.risk})`),
+      failureModes: (analysis?.premortem ?? []).slice(0, MAX_ITEMS_PER_LIST).map(item => `${item.failure} (${item.probability})`),
+    };
+  });
+}
+
+const comparisonSynthesisPrompt = ai.definePrompt({
+  name: 'comparisonSynthesisPrompt',
+  ...modelOptionsFor(AGENT_NAME),
+  input: {
+    schema: ComparisonSynthesisInputSchema.pick({ question: true, setup: true, synthesisSummary: true }).extend({
+      optionsJson: z.string(),
+      scenarios: z.array(z.object({ scenarioId: z.string(), scenarioName: z.string(), changes: z.array(z.string()) })),
+      maxScore: z.number(),
+    }),
+  },
+  output: { schema: ComparisonJudgementSchema },
+  prompt: `You are the Comparison Synthesis agent of a multi-agent analysis system. The user must choose between
+competing options. Each option has been researched, challenged and premortemed separately; judge them side by side.
+
+Decision: {{{question}}}
+
+Criteria (weights sum to 1):
+{{#each setup.criteria}}
+- {{{name}}} (weight {{weight}}){{#if description}}: {{{description}}}{{/if}}
+{{/each}}
+
+Per-option analysis (JSON):
+{{{optionsJson}}}
+
+{{#if synthesisSummary}}
+Overall synthesis of the decision: {{{synthesisSummary}}}
+{{/if}}
+
+1. Score every option on every criterion from 0 to {{maxScore}}, where {{maxScore}} means the option fully meets
+   the criterion. Score desirability, not magnitude: a cheaper option scores higher on a cost criterion. Give a
+   one-sentence rationale grounded in that option's evidence, counter-evidence or failure modes; where the
+   analysis is silent on a criterion, score conservatively and say so. Use the option IDs ({{#each setup.options}}{{id}} {{/each}}) and the criterion names exactly as given.
+
+{{#if scenarios.length}}
+2. For each sensitivity scenario below, estimate how much each affected option's criterion scores would change
+   if the scenario came true (delta from -{{maxScore}} to {{maxScore}}). Leave out options and criteria it does
+   not affect; omit "criterion" when the scenario shifts all of an option's criteria alike.
+{{#each scenarios}}
+   - {{scenarioId}} "{{{scenarioName}}}": {{#each changes}}{{{this}}}; {{/each}}
+{{/each}}
+{{else}}
+2. There are no sensitivity scenarios; return an empty "scenarioAdjustments" list.
+{{/if}}
+
+3. Write a recommendation of two or three sentences, and list the main tradeoffs between the options.
+
+Do not compute weighted totals or rankings; they are derived from your scores.
+
+Return a JSON object with "scores", "scenarioAdjustments", "recommendation" and "tradeoffs".`,
+});
+
+const comparisonSynthesisFlow = ai.defineFlow(
+  {
+    name: 'comparisonSynthesisFlow',
+    inputSchema: ComparisonSynthesisInputSchema,
+    outputSchema: ComparisonJudgementSchema,
+  },
+  async (input) => {
+    const { output } = await comparisonSynthesisPrompt({
+      question: input.question, setup: input.setup, synthesisSummary: input.synthesisSummary,
+      optionsJson: JSON.stringify(condenseOptionAnalyses(input), null, 2),
+      scenarios: input.scenarios.map(scenario => ({
+        scenarioId: scenario.scenarioId, scenarioName: scenario.scenarioName,
+        changes: scenario.changedAssumptions.map(change => `${change.changeType}: ${change.modifiedAssumption}`),
+      })),
+      maxScore: MAX_CRITERION_SCORE,
+    });
+    if (!output) throw new Error('The model returned no comparison.');
+    const optionIds = new Set(input.setup.options.map(option => option.id));
+    const scores = output.scores.filter(item => optionIds.has(item.optionId));
+    if (scores.length === 0) throw new Error('The model scored none of the options.');
+    return { ...output, scores, scenarioAdjustments: output.scenarioAdjustments.filter(item => optionIds.has(item.optionId)) };
+  }
+);
+
+/**
+ * Judges the options criterion by criterion; when the model fails, scores them from their evidence balance and
+ * shifts only the options whose own assumptions a scenario changes.
+ */
+export async function synthesizeComparison(input: ComparisonSynthesisInput): Promise<ComparisonJudgement> {
+  const parsed = ComparisonSynthesisInputSchema.parse(input);
+  for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
+    try {
+      return await comparisonSynthesisFlow(parsed);
+    } catch (error: any) {
+      console.error(`${AGENT_NAME}: Attempt ${attempt + 1} failed.`, { error: error.message });
+    }
+  }
+  console.warn(`${AGENT_NAME}: Falling back to evidence-count scores.`);
+  return { ...scoreOptionsHeuristically(parsed.setup, parsed.optionAnalyses), scenarioAdjustments: heuristicScenarioAdjustments(parsed.setup, parsed.scenarios) };
+}
@@ -0,0 +1,107 @@
+import {
+  buildComparisonResult,
+  buildCriteriaMatrix,
+  describeComparison,
+  findDominance,
+  heuristicScenarioAdjustments,
+  optionAssumptionLabel,
+  rankingRobustness,
+  scoreOptionsHeuristically,
+  toComparisonSetup,
+  type CriterionScore,
+  type OptionAnalysis,
+} from './comparison';
+import type { ScenarioTest } from './sensitivity-analysis-agent';
+
+const setup = toComparisonSetup({
+  options: [{ name: 'Build in-house' }, { name: ' Buy a vendor tool ', description: 'Acme SaaS' }, { name: 'Do nothing' }],
+  criteria: [{ name: 'Cost', weight: 1 }, { name: 'Time to value', weight: 3 }],
+});
+
+const score = (optionId: string, criterion: string, value: number): CriterionScore => ({ optionId, criterion, score: value, rationale: `${optionId} ${criterion}` });
+
+// A: cheap but slow; B: dear but fast; C: worse than B on both.
+const scores = [
+  score('A', 'Cost', 8), score('A', 'Time to value', 3),
+  score('B', 'Cost', 4), score('B', 'Time to value', 9),
+  score('C', 'Cost', 3), score('C', 'Time to value', 2),
+];
+
+const scenario = (scenarioId: string, changes: Partial<ScenarioTest['changedAssumptions'][number]>[] = []): ScenarioTest => ({
+  scenarioId, scenarioName: `Scenario ${scenarioId}`, impactOnConclusions: [],
+  changedAssumptions: changes.map(change => ({ originalAssumption: '', modifiedAssumption: '', changeType: 'weakened' as const, changeRationale: '', ...change })),
+  scenarioViability: { plausibility: 'moderate', evidenceSupport: 'moderate', rationalExplanation: '' },
+});
+
+describe('toComparisonSetup', () => {
+  test('should label options A, B, C, trim names and normalize the weights', () => {
+    expect(setup.options.map(option => [option.id, option.name])).toEqual([['A', 'Build in-house'], ['B', 'Buy a vendor tool'], ['C', 'Do nothing']]);
+    expect(setup.criteria.map(criterion => criterion.weight)).toEqual([0.25, 0.75]);
+    expect(describeComparison('Build or buy?', setup)).toContain('B. Buy a vendor tool (Acme SaaS)\nC. Do nothing\n\nCriteria:\n- Cost (weight 25%)');
+  });
+
+  test('should reject too few or too many options, duplicate names and non-positive weights', () => {
+    const criteria = [{ name: 'Cost', weight: 1 }];
+    expect(() => toComparisonSetup({ options: [{ name: 'Only' }], criteria })).toThrow('at least 2 options');
+    expect(() => toComparisonSetup({ options: 'ABCDEF'.split('').map(name => ({ name })), criteria })).toThrow('at most 5 options');
+    expect(() => toComparisonSetup({ options: [{ name: 'Same' }, { name: 'same ' }], criteria })).toThrow('Option names must be distinct');
+    expect(() => toComparisonSetup({ options: [{ name: 'A' }, { name: 'B' }], criteria: [{ name: 'Cost', weight: 0 }] })).toThrow('weights must be positive');
+  });
+});
+
+describe('buildCriteriaMatrix', () => {
+  test('should rank by weighted total and score a missing criterion at the midpoint', () => {
+    const matrix = buildCriteriaMatrix(setup, scores.filter(item => !(item.optionId === 'C' && item.criterion === 'Cost')));
+    expect(matrix.map(row => [row.optionId, row.weightedTotal, row.rank])).toEqual([['B', 7.75, 1], ['A', 4.25, 2], ['C', 2.75, 3]]);
+    expect(matrix[2].scores[0]).toEqual(expect.objectContaining({ criterion: 'Cost', score: 5, rationale: 'Not scored; the midpoint is used.' }));
+  });
+});
+
+describe('findDominance', () => {
+  test('should find options at least as good on every criterion and better on one', () => {
+    const dominance = findDominance(buildCriteriaMatrix(setup, scores));
+    expect(dominance.relations).toEqual([{ dominantId: 'B', dominatedId: 'C' }, { dominantId: 'A', dominatedId: 'C' }]);
+    expect(dominance.nonDominatedIds).toEqual(['B', 'A']);
+  });
+});
+
+describe('rankingRobustness', () => {
+  test('should re-rank under each scenario and report the scenarios that change the top option', () => {
+    const adjustments = [
+      { scenarioId: 's1', optionId: 'B', criterion: 'Time to value', delta: -5, reasoning: 'Vendor onboarding slips' },
+      { scenarioId: 's2', optionId: 'C', delta: 1, reasoning: 'Status quo improves a little' },
+    ];
+    const robustness = rankingRobustness(setup, scores, [scenario('s1'), scenario('s2'), scenario('s3')], adjustments);
+    expect(robustness.scenarios.map(item => [item.scenarioId, item.ranking.join(''), item.rankingChanged])).toEqual([
+      ['s1', 'ABC', true], ['s2', 'BAC', false], ['s3', 'BAC', false],
+    ]);
+    expect(robustness).toEqual(expect.objectContaining({ category: 'moderately_robust', scenariosTested: 3, topOptionHeld: 2, rankingHeld: 2 }));
+    expect(robustness.summary).toContain('It loses first place under: Scenario s1.');
+    expect(rankingRobustness(setup, scores, [], []).category).toBe('untested');
+  });
+});
+
+describe('heuristic fallback', () => {
+  const analysis = (optionId: string, supporting: number, counter: number): OptionAnalysis => ({
+    optionId, claim: '', assumptions: [], premortem: [],
+    supportingEvidence: Array.from({ length: supporting }, () => ({ claim: 'c', support: 's', quality: 'high' as const, source: '', documentId: '', url: '', quote: '' })),
+    counterEvidence: Array.from({ length: counter }, () => ({ claim: 'c', support: 's', quality: 'low' as const, source: '', documentId: '', url: '', quote: '' })),
+  });
+
+  test('should score options from their evidence balance and shift only options whose own assumptions change', () => {
+    const judgement = scoreOptionsHeuristically(setup, [analysis('A', 1, 0), analysis('B', 3, 1)]);
+    expect(judgement.scores.filter(item => item.criterion === 'Cost').map(item => item.score)).toEqual([6, 7.7, 5]);
+    expect(judgement.recommendation).toContain('Buy a vendor tool');
+    expect(scoreOptionsHeuristically(setup, []).recommendation).toContain('does not separate the leading options');
+
+    const scenarios = [
+      scenario('s1', [{ originalAssumption: `${optionAssumptionLabel({ id: 'B' })} Acme stays in business`, changeType: 'reversed' }]),
+      scenario('s2', [{ originalAssumption: 'Budgets stay flat' }]),
+    ];
+    expect(heuristicScenarioAdjustments(setup, scenarios)).toEqual([expect.objectContaining({ scenarioId: 's1', optionId: 'B', delta: -3 })]);
+
+    const result = buildComparisonResult(setup, { ...judgement, scenarioAdjustments: heuristicScenarioAdjustments(setup, scenarios) }, scenarios);
+    expect(result.matrix[0].optionId).toBe('B');
+    expect(result.robustness.scenarios[0].topOptionId).toBe('A');
+  });
+});
@@ -0,0 +1,338 @@
+import { z } from 'genkit';
+import type { AnalyzeAssumptionsOutput } from './assumption-analyzer-agent';
+import type { PremortemOutput } from './premortem-agent';
+import type { ResearchCounterEvidenceOutput } from './counter-evidence-researcher-agent';
+import type { ResearchEvidenceOutput } from './researcher-agent';
+import type { ScenarioTest } from './sensitivity-analysis-agent';
+
+/**
+ * @fileOverview Comparative decision mode: a choice between 2-5 options, judged on weighted criteria.
+ *
+ * Phase 2 runs the assumption, research, counter-evidence and premortem agents once per option, Phase 4 feeds
+ * the options' assumptions to the sensitivity analysis, and in Phase 5 the ComparisonSynthesisAgent scores every
+ * option on every criterion. The matrix, ranking, dominance and robustness are then computed here, so they
+ * follow from the scores rather than from the model's arithmetic.
+ *
+ * - ComparisonRequestSchema - The options and criteria the user supplies.
+ * - toComparisonSetup - The request with option IDs (A, B, ...) and normalized weights.
+ * - describeComparison / optionClaim - Prompt text for the whole decision and for one option.
+ * - buildComparisonResult - Weighted criteria matrix, dominance analysis and ranking robustness.
+ * - scoreOptionsHeuristically / heuristicScenarioAdjustments - Evidence-count scores, used when the agent fails.
+ */
+
+export const MIN_COMPARISON_OPTIONS = 2;
+export const MAX_COMPARISON_OPTIONS = 5;
+export const MAX_COMPARISON_CRITERIA = 8;
+/** Criterion scores run from 0 (the option fails the criterion) to 10 (it fully meets it). */
+export const MAX_CRITERION_SCORE = 10;
+
+const OPTION_IDS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+export const ComparisonOptionInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name every option.'),
+  description: z.string().optional(),
+});
+
+export const ComparisonCriterionSchema = z.object({
+  name: z.string().trim().min(1, 'Name every criterion.'),
+  weight: z.number().positive('Criterion weights must be positive.').default(1).describe('Relative importance; weights are normalized to sum to 1'),
+  description: z.string().optional(),
+});
+export type ComparisonCriterion = z.infer<typeof ComparisonCriterionSchema>;
+
+export const ComparisonRequestSchema = z.object({
+  options: z.array(ComparisonOptionInputSchema)
+    .min(MIN_COMPARISON_OPTIONS, `Compare at least ${MIN_COMPARISON_OPTIONS} options.`)
+    .max(MAX_COMPARISON_OPTIONS, `Compare at most ${MAX_COMPARISON_OPTIONS} options.`),
+  criteria: z.array(ComparisonCriterionSchema).min(1, 'Add at least one criterion.').max(MAX_COMPARISON_CRITERIA, `Use at most ${MAX_COMPARISON_CRITERIA} criteria.`),
+}).refine(request => new Set(request.options.map(option => option.name.trim().toLowerCase())).size === request.options.length, {
+  message: 'Option names must be distinct.', path: ['options'],
+}).refine(request => new Set(request.criteria.map(criterion => criterion.name.trim().toLowerCase())).size === request.criteria.length, {
+  message: 'Criterion names must be distinct.', path: ['criteria'],
+});
+export type ComparisonRequest = z.input<typeof ComparisonRequestSchema>;
+
+export const ComparisonOptionSchema = ComparisonOptionInputSchema.extend({
+  id: z.string().describe('A, B, C... in the order the user listed the options'),
+});
+export type ComparisonOption = z.infer<typeof ComparisonOptionSchema>;
+
+export const ComparisonSetupSchema = z.object({
+  options: z.array(ComparisonOptionSchema),
+  criteria: z.array(ComparisonCriterionSchema.extend({ weight: z.number().describe('Normalized weight; the weights sum to 1') })),
+});
+export type ComparisonSetup = z.infer<typeof ComparisonSetupSchema>;
+
+/** Validates the request, labels the options A, B, ... and normalizes the criterion weights to sum to 1. */
+export function toComparisonSetup(request: ComparisonRequest): ComparisonSetup {
+  const parsed = ComparisonRequestSchema.parse(request);
+  const totalWeight = parsed.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  return {
+    options: parsed.options.map((option, index) => ({ id: OPTION_IDS[index], name: option.name.trim(), description: option.description?.trim() || undefined })),
+    criteria: parsed.criteria.map(criterion => ({ ...criterion, name: criterion.name.trim(), weight: criterion.weight / totalWeight })),
+  };
+}
+
+export function describeOption(option: ComparisonOption): string {
+  return option.description ? `${option.name} (${option.description})` : option.name;
+}
+
+/** The decision as one prompt: the question, then the options and the criteria with their weights. */
+export function describeComparison(question: string, setup: ComparisonSetup): string {
+  const options = setup.options.map(option => `${option.id}. ${describeOption(option)}`).join('\n');
+  const criteria = setup.criteria.map(criterion => `- ${criterion.name} (weight ${Math.round(criterion.weight * 100)}%)${criterion.description ? `: ${criterion.description}` : ''}`).join('\n');
+  return `${question}\n\nOptions:\n${options}\n\nCriteria:\n${criteria}`;
+}
+
+/** The claim the per-option agents research and challenge: that this option is the right choice. */
+export function optionClaim(question: string, option: ComparisonOption): string {
+  return `${describeOption(option)} is the best choice for: ${question}`;
+}
+
+/** Prefix that ties an option's assumptions to it in the sensitivity analysis, e.g. "[Option A] ...". */
+export function optionAssumptionLabel(option: Pick<ComparisonOption, 'id'>): string {
+  return `[Option ${option.id}]`;
+}
+
+export const OptionAnalysisSchema = z.object({
+  optionId: z.string(),
+  claim: z.string(),
+  assumptions: z.custom<AnalyzeAssumptionsOutput>(),
+  supportingEvidence: z.custom<ResearchEvidenceOutput>(),
+  counterEvidence: z.custom<ResearchCounterEvidenceOutput>(),
+  premortem: z.custom<PremortemOutput>(),
+});
+export type OptionAnalysis = z.infer<typeof OptionAnalysisSchema>;
+
+export const CriterionScoreSchema = z.object({
+  optionId: z.string(),
+  criterion: z.string(),
+  score: z.number().min(0).max(MAX_CRITERION_SCORE),
+  rationale: z.string(),
+});
+export type CriterionScore = z.infer<typeof CriterionScoreSchema>;
+
+export const ScenarioAdjustmentSchema = z.object({
+  scenarioId: z.string(),
+  optionId: z.string(),
+  criterion: z.string().optional().describe('Omitted when the scenario shifts every criterion of the option'),
+  delta: z.number().min(-MAX_CRITERION_SCORE).max(MAX_CRITERION_SCORE).describe('Change to the criterion score under the scenario'),
+  reasoning: z.string(),
+});
+export type ScenarioAdjustment = z.infer<typeof ScenarioAdjustmentSchema>;
+
+/** What the ComparisonSynthesisAgent judges; everything derived from the scores is computed by buildComparisonResult. */
+export const ComparisonJudgementSchema = z.object({
+  scores: z.array(CriterionScoreSchema),
+  scenarioAdjustments: z.array(ScenarioAdjustmentSchema),
+  recommendation: z.string(),
+  tradeoffs: z.array(z.string()),
+});
+export type ComparisonJudgement = z.infer<typeof ComparisonJudgementSchema>;
+
+export const MatrixRowSchema = z.object({
+  optionId: z.string(),
+  name: z.string(),
+  scores: z.array(z.object({ criterion: z.string(), score: z.number(), weightedScore: z.number(), rationale: z.string() })),
+  weightedTotal: z.number().describe('Sum of weight x score, 0-10'),
+  rank: z.number().int(),
+});
+export type MatrixRow = z.infer<typeof MatrixRowSchema>;
+
+export const DominanceSchema = z.object({
+  relations: z.array(z.object({ dominantId: z.string(), dominatedId: z.string() })).describe('Dominant scores at least as well on every criterion and better on one'),
+  nonDominatedIds: z.array(z.string()).describe('Options no other option dominates: the only ones worth choosing whatever the weights'),
+});
+export type Dominance = z.infer<typeof DominanceSchema>;
+
+export const ScenarioRankingSchema = z.object({
+  scenarioId: z.string(),
+  scenarioName: z.string(),
+  ranking: z.array(z.string()).describe('Option IDs, best first'),
+  topOptionId: z.string(),
+  rankingChanged: z.boolean(),
+});
+
+export const RankingRobustnessSchema = z.object({
+  category: z.enum(['robust', 'moderately_robust', 'fragile', 'untested']),
+  scenariosTested: z.number().int(),
+  topOptionHeld: z.number().int().describe('Scenarios in which the top-ranked option stays first'),
+  rankingHeld: z.number().int().describe('Scenarios that leave the whole ranking unchanged'),
+  scenarios: z.array(ScenarioRankingSchema),
+  summary: z.string(),
+});
+export type RankingRobustness = z.infer<typeof RankingRobustnessSchema>;
+
+export const ComparisonResultSchema = z.object({
+  matrix: z.array(MatrixRowSchema).describe('One row per option, best first'),
+  dominance: DominanceSchema,
+  robustness: RankingRobustnessSchema,
+  recommendation: z.string(),
+  tradeoffs: z.array(z.string()),
+});
+export type ComparisonResult = z.infer<typeof ComparisonResultSchema>;
+
+export const ComparisonStateSchema = z.object({
+  setup: ComparisonSetupSchema,
+  optionAnalyses: z.array(OptionAnalysisSchema).describe('Phase 2 agents run per option, in option order'),
+  result: ComparisonResultSchema.optional().describe('Phase 5 comparison synthesis'),
+});
+export type ComparisonState = z.infer<typeof ComparisonStateSchema>;
+
+// Score used for a criterion the judgement left out: the middle of the scale, so it neither helps nor sinks the option.
+const UNSCORED = MAX_CRITERION_SCORE / 2;
+
+const clampScore = (score: number) => Math.min(MAX_CRITERION_SCORE, Math.max(0, score));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function scoreTable(setup: ComparisonSetup, scores: readonly CriterionScore[]): Map<string, CriterionScore[]> {
+  return new Map(setup.options.map(option => [option.id, setup.criteria.map(criterion =>
+    scores.find(item => item.optionId === option.id && sameName(item.criterion, criterion.name))
+      ?? { optionId: option.id, criterion: criterion.name, score: UNSCORED, rationale: 'Not scored; the midpoint is used.' },
+  )]));
+}
+
+function weightedTotal(setup: ComparisonSetup, scores: readonly CriterionScore[]): number {
+  return setup.criteria.reduce((sum, criterion, index) => sum + criterion.weight * clampScore(scores[index].score), 0);
+}
+
+/** Option IDs by weighted total, best first; ties keep the order the user listed the options in. */
+function rankOptions(setup: ComparisonSetup, table: Map<string, CriterionScore[]>): string[] {
+  const totals = new Map(setup.options.map(option => [option.id, weightedTotal(setup, table.get(option.id)!)]));
+  return setup.options.map(option => option.id).sort((a, b) => totals.get(b)! - totals.get(a)! || a.localeCompare(b));
+}
+
+export function buildCriteriaMatrix(setup: ComparisonSetup, scores: readonly CriterionScore[]): MatrixRow[] {
+  const table = scoreTable(setup, scores);
+  const ranking = rankOptions(setup, table);
+  return ranking.map((optionId, index) => {
+    const option = setup.options.find(item => item.id === optionId)!;
+    const rowScores = table.get(optionId)!;
+    return {
+      optionId, name: option.name,
+      scores: rowScores.map((item, criterionIndex) => ({
+        criterion: setup.criteria[criterionIndex].name, score: clampScore(item.score),
+        weightedScore: round2(setup.criteria[criterionIndex].weight * clampScore(item.score)), rationale: item.rationale,
+      })),
+      weightedTotal: round2(weightedTotal(setup, rowScores)),
+      rank: index + 1,
+    };
+  });
+}
+
+/** Pareto dominance on the unweighted criterion scores, so it holds whatever weights are chosen. */
+export function findDominance(matrix: readonly MatrixRow[]): Dominance {
+  const relations: Dominance['relations'] = [];
+  for (const a of matrix) {
+    for (const b of matrix) {
+      if (a === b) continue;
+      const atLeastAsGood = a.scores.every((item, index) => item.score >= b.scores[index].score);
+      const better = a.scores.some((item, index) => item.score > b.scores[index].score);
+      if (atLeastAsGood && better) relations.push({ dominantId: a.optionId, dominatedId: b.optionId });
+    }
+  }
+  const dominated = new Set(relations.map(relation => relation.dominatedId));
+  return { relations, nonDominatedIds: matrix.map(row => row.optionId).filter(id => !dominated.has(id)) };
+}
+
+/**
+ * Re-ranks the options under every sensitivity scenario, with the scenario's score adjustments applied, and
+ * counts how often the top option and the whole ranking survive.
+ */
+export function rankingRobustness(
+  setup: ComparisonSetup, scores: readonly CriterionScore[], scenarios: readonly Pick<ScenarioTest, 'scenarioId' | 'scenarioName'>[],
+  adjustments: readonly ScenarioAdjustment[],
+): RankingRobustness {
+  const baseTable = scoreTable(setup, scores);
+  const baseRanking = rankOptions(setup, baseTable);
+  const outcomes = scenarios.map(scenario => {
+    const scenarioAdjustments = adjustments.filter(item => item.scenarioId === scenario.scenarioId);
+    const table = new Map([...baseTable].map(([optionId, row]) => [optionId, row.map(item => {
+      const delta = scenarioAdjustments
+        .filter(adjustment => adjustment.optionId === optionId && (!adjustment.criterion || sameName(adjustment.criterion, item.criterion)))
+        .reduce((sum, adjustment) => sum + adjustment.delta, 0);
+      return { ...item, score: clampScore(item.score + delta) };
+    })]));
+    const ranking = rankOptions(setup, table);
+    return {
+      scenarioId: scenario.scenarioId, scenarioName: scenario.scenarioName, ranking, topOptionId: ranking[0],
+      rankingChanged: ranking.some((optionId, index) => optionId !== baseRanking[index]),
+    };
+  });
+
+  const topOptionHeld = outcomes.filter(outcome => outcome.topOptionId === baseRanking[0]).length;
+  const rankingHeld = outcomes.filter(outcome => !outcome.rankingChanged).length;
+  const share = outcomes.length > 0 ? topOptionHeld / outcomes.length : 0;
+  const category = outcomes.length === 0 ? 'untested' : share >= 0.9 ? 'robust' : share >= 0.6 ? 'moderately_robust' : 'fragile';
+  const topName = setup.options.find(option => option.id === baseRanking[0])?.name ?? baseRanking[0];
+  const flips = outcomes.filter(outcome => outcome.topOptionId !== baseRanking[0]);
+  const summary = outcomes.length === 0
+    ? 'No sensitivity scenarios were available to test the ranking against.'
+    : `${topName} stays first in ${topOptionHeld} of ${outcomes.length} scenario(s); the full ranking holds in ${rankingHeld}.`
+      + (flips.length > 0 ? ` It loses first place under: ${flips.map(outcome => outcome.scenarioName).join('; ')}.` : '');
+  return { category, scenariosTested: outcomes.length, topOptionHeld, rankingHeld, scenarios: outcomes, summary };
+}
+
+export function buildComparisonResult(
+  setup: ComparisonSetup, judgement: ComparisonJudgement, scenarios: readonly Pick<ScenarioTest, 'scenarioId' | 'scenarioName'>[],
+): ComparisonResult {
+  const matrix = buildCriteriaMatrix(setup, judgement.scores);
+  return {
+    matrix,
+    dominance: findDominance(matrix),
+    robustness: rankingRobustness(setup, judgement.scores, scenarios, judgement.scenarioAdjustments),
+    recommendation: judgement.recommendation,
+    tradeoffs: judgement.tradeoffs,
+  };
+}
+
+const QUALITY_WEIGHTS = { high: 1, moderate: 0.6, low: 0.3 } as const;
+
+/**
+ * Scores every criterion of an option alike, from the balance of its quality-weighted supporting and counter
+ * evidence and its high-probability failure modes. Coarse: the fallback when the agent cannot judge criteria.
+ */
+export function scoreOptionsHeuristically(setup: ComparisonSetup, analyses: readonly OptionAnalysis[]): ComparisonJudgement {
+  const scores = setup.options.flatMap(option => {
+    const analysis = analyses.find(item => item.optionId === option.id);
+    const support = (analysis?.supportingEvidence ?? []).reduce((sum, item) => sum + (QUALITY_WEIGHTS[item.quality] ?? 0), 0);
+    const counter = (analysis?.counterEvidence ?? []).reduce((sum, item) => sum + (QUALITY_WEIGHTS[item.quality] ?? 0), 0);
+    const likelyFailures = (analysis?.premortem ?? []).filter(item => /^high/i.test(item.probability)).length;
+    const score = round2(clampScore(UNSCORED + support - counter - likelyFailures));
+    return setup.criteria.map(criterion => ({
+      optionId: option.id, criterion: criterion.name, score,
+      rationale: `Heuristic: supporting evidence ${round2(support)}, counter-evidence ${round2(counter)}, ${likelyFailures} likely failure mode(s); not judged per criterion.`,
+    }));
+  });
+  const optionScore = (option: ComparisonOption) => scores.find(item => item.optionId === option.id)?.score ?? 0;
+  const [best, runnerUp] = [...setup.options].sort((a, b) => optionScore(b) - optionScore(a));
+  return {
+    scores,
+    scenarioAdjustments: [],
+    recommendation: (optionScore(best) > optionScore(runnerUp)
+      ? `${best.name} has the strongest balance of evidence`
+      : 'The evidence gathered does not separate the leading options')
+      + ', but the options were not judged criterion by criterion; treat the ranking as provisional.',
+    tradeoffs: [],
+  };
+}
+
+// Score change for every criterion of an option when a scenario changes one of its assumptions this way.
+const CHANGE_DELTAS: Record<ScenarioTest['changedAssumptions'][number]['changeType'], number> = {
+  strengthened: 1, weakened: -1, replaced: -2, reversed: -3,
+};
+
+/**
+ * Adjustments for the scenarios that change an option's own assumptions (labelled with optionAssumptionLabel).
+ * Scenarios on shared assumptions shift every option alike and leave the ranking as it is.
+ */
+export function heuristicScenarioAdjustments(setup: ComparisonSetup, scenarios: readonly ScenarioTest[]): ScenarioAdjustment[] {
+  return scenarios.flatMap(scenario => scenario.changedAssumptions.flatMap(change => {
+    const option = setup.options.find(item => change.originalAssumption.startsWith(optionAssumptionLabel(item)));
+    return option ? [{
+      scenarioId: scenario.scenarioId, optionId: option.id, delta: CHANGE_DELTAS[change.changeType],
+      reasoning: `Heuristic: the scenario ${change.changeType} an assumption of ${option.name}.`,
+    }] : [];
+  }));
+}
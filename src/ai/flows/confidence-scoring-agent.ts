@@ -1,7 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
+import { AssumptionOverrideSchema } from './what-if';
+
+const AGENT_NAME = 'ConfidenceScoringAgent';
 
 // E7: Confidence Scoring Agent - Provides transparent confidence assessment
 
@@ -24,6 +28,7 @@ const ConfidenceScoringInputSchema = z.object({
   conflictResolutionAnalysis: z.any().optional(),
   impactAssessments: z.any().optional(),
   qualityScores: z.record(z.string(), z.number()).optional(),
+  assumptionOverrides: z.array(AssumptionOverrideSchema).optional().describe('What-if changes to key assumptions to score under'),
 });
 export type ConfidenceScoringInput = z.infer<typeof ConfidenceScoringInputSchema>;
 
@@ -129,6 +134,7 @@ const DEFAULT_OUTPUT: ConfidenceScoringOutput = {
 
 const confidenceScoringPrompt = ai.definePrompt({
   name: 'confidenceScoringPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: ConfidenceScoringInputSchema },
   output: { schema: ConfidenceScoringOutputSchema },
   prompt: `You are a Confidence Scoring Agent providing transparent, auditable confidence assessment.
@@ -173,6 +179,13 @@ Quality Scores:
 {{/each}}
 {{/if}}
 
+{{#if assumptionOverrides.length}}
+What-If Scenario - score confidence as if these assumptions were changed as stated:
+{{#each assumptionOverrides}}
+- Instead of "{{{this.originalAssumption}}}": {{{this.modifiedAssumption}}}
+{{/each}}
+{{/if}}
+
 Your task is to:
 1. Score confidence based on multiple dimensions
 2. Provide transparent reasoning for each score
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'CounterArgumentIntegrationAgent';
+
 // F3 Part 1: Counter-Argument Integration Agent - Ensures counter-evidence is deeply integrated
 
 const CounterArgumentIntegrationInputSchema = z.object({
@@ -63,6 +66,7 @@ const DEFAULT_OUTPUT: CounterArgumentIntegrationOutput = {
 
 const counterArgumentIntegrationPrompt = ai.definePrompt({
   name: 'counterArgumentIntegrationPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: CounterArgumentIntegrationInputSchema },
   output: { schema: CounterArgumentIntegrationOutputSchema },
   prompt: `You are a Counter-Argument Integration Agent ensuring counter-evidence is deeply integrated, not superficially acknowledged.
@@ -9,7 +9,11 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
+import {getEvidenceRetriever, groundEvidenceDrafts, type RetrievedPassage} from './evidence-retriever';
+
+const AGENT_NAME = 'CounterEvidenceResearcherAgent';
 
 // Re-using the Evidence schema structure from the main researcher agent
 // as the format of an evidence item is the same.
@@ -17,20 +21,45 @@ const EvidenceSchema = z.object({
   claim: z.string().describe('Specific aspect of the original claim being challenged or an alternative claim'),
   support: z.string().describe('Detailed counter-evidence, contradictory data, or support for an alternative perspective'),
   quality: z.enum(['high', 'moderate', 'low']).describe('Quality of the counter-evidence'),
-  source: z.string().describe('Credible source citation for the counter-evidence (journal, institution, etc.)'),
+  source: z.string().describe('Title of the retrieved source document'),
+  documentId: z.string().describe('ID of the retrieved document this counter-evidence is drawn from'),
+  url: z.string().describe('URL of the retrieved document'),
+  quote: z.string().describe('Verbatim span from the retrieved passage that backs this counter-evidence'),
 });
 export type Evidence = z.infer<typeof EvidenceSchema>;
 
+// What the model fills in; url and source are copied from the retrieved passage during grounding.
+const EvidenceDraftSchema = z.object({
+  claim: z.string(),
+  support: z.string(),
+  quality: z.enum(['high', 'moderate', 'low']),
+  documentId: z.string(),
+  quote: z.string(),
+});
+const EvidenceDraftOutputSchema = z.array(EvidenceDraftSchema);
+
 
 const ResearchCounterEvidenceInputSchema = z.object({
   claim: z.string().describe('The original claim to find counter-evidence for.'),
 });
 export type ResearchCounterEvidenceInput = z.infer<typeof ResearchCounterEvidenceInputSchema>;
 
+const ResearchCounterEvidencePromptInputSchema = z.object({
+  claim: z.string(),
+  passages: z.array(z.object({
+    documentId: z.string(),
+    title: z.string(),
+    url: z.string(),
+    text: z.string(),
+  })),
+});
+type ResearchCounterEvidencePromptInput = z.infer<typeof ResearchCounterEvidencePromptInputSchema>;
+
 const ResearchCounterEvidenceOutputSchema = z.array(EvidenceSchema);
 export type ResearchCounterEvidenceOutput = z.infer<typeof ResearchCounterEvidenceOutputSchema>;
 
 const RETRY_ATTEMPTS = 3;
+const RETRIEVAL_LIMIT = 8;
 const DEFAULT_OUTPUT: ResearchCounterEvidenceOutput = [];
 
 export async function researchCounterEvidence(input: ResearchCounterEvidenceInput): Promise<ResearchCounterEvidenceOutput> {
@@ -41,9 +70,25 @@ export async function researchCounterEvidence(input: ResearchCounterEvidenceInpu
     return DEFAULT_OUTPUT;
   }
 
+  let passages: RetrievedPassage[];
+  try {
+    passages = await getEvidenceRetriever().retrieve(input.claim, { limit: RETRIEVAL_LIMIT, stance: 'counter' });
+  } catch (e: any) {
+    console.error('CounterEvidenceResearcherAgent: Evidence retrieval failed. Returning default output.', { error: e instanceof Error ? e.message : String(e) });
+    return DEFAULT_OUTPUT;
+  }
+  if (passages.length === 0) {
+    console.log('CounterEvidenceResearcherAgent: Retriever returned no passages. Returning no counter-evidence.');
+    return DEFAULT_OUTPUT;
+  }
+  const promptInput: ResearchCounterEvidencePromptInput = {
+    claim: input.claim,
+    passages: passages.map(({ documentId, title, url, text }) => ({ documentId, title, url, text })),
+  };
+
   for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
     try {
-      const result = await researchCounterEvidenceInternalFlow(input);
+      const result = await researchCounterEvidenceInternalFlow(promptInput);
 
       let parsedOutput = result;
       if (typeof result === 'string') {
@@ -56,9 +101,13 @@ export async function researchCounterEvidence(input: ResearchCounterEvidenceInpu
         }
       }
 
-      const validation = ResearchCounterEvidenceOutputSchema.safeParse(parsedOutput);
+      const validation = EvidenceDraftOutputSchema.safeParse(parsedOutput);
       if (validation.success) {
-        return validation.data;
+        const grounded: ResearchCounterEvidenceOutput = groundEvidenceDrafts(validation.data, passages);
+        if (grounded.length < validation.data.length) {
+          console.warn(`CounterEvidenceResearcherAgent: Attempt ${attempt + 1}: Dropped ${validation.data.length - grounded.length} item(s) that did not quote a retrieved passage.`);
+        }
+        return grounded;
       } else {
         console.warn(`CounterEvidenceResearcherAgent: Attempt ${attempt + 1}: Output validation failed. Retrying if possible.`, { errors: validation.error.errors, outputReceived: parsedOutput });
         if (attempt < RETRY_ATTEMPTS - 1) continue;
@@ -94,29 +143,41 @@ export async function researchCounterEvidence(input: ResearchCounterEvidenceInpu
 
 const researchCounterEvidencePrompt = ai.definePrompt({
   name: 'researchCounterEvidencePrompt',
-  input: {schema: ResearchCounterEvidenceInputSchema},
-  output: {schema: ResearchCounterEvidenceOutputSchema},
+  ...modelOptionsFor(AGENT_NAME),
+  input: {schema: ResearchCounterEvidencePromptInputSchema},
+  output: {schema: EvidenceDraftOutputSchema},
   prompt: `You are a research agent specializing in finding counter-arguments and alternative perspectives.
 Analyze this claim: "{{{claim}}}"
 
-Your task is to find evidence that *challenges* or *contradicts* this claim, or evidence that supports alternative viewpoints. Provide up to 10 pieces of such counter-evidence.
+You are given passages retrieved from source documents. Using ONLY these passages, find evidence that *challenges* or *contradicts* this claim, or evidence that supports alternative viewpoints. Provide up to 10 pieces of such counter-evidence.
 Focus on quality and relevance. Ensure each piece clearly presents a contrasting viewpoint, contradictory data, or highlights limitations of the original claim.
 
+Retrieved passages:
+{{#each passages}}
+---
+documentId: {{{documentId}}}
+title: {{{title}}}
+{{{text}}}
+{{/each}}
+---
+
 You must return a valid JSON array with exactly this structure:
 [
     {
         "claim": "Specific aspect of the original claim being challenged or an alternative claim being presented",
-        "support": "Detailed counter-evidence, contradictory data, or support for an alternative perspective",
+        "support": "Summary of the counter-evidence the quoted passage establishes",
         "quality": "high|moderate|low",
-        "source": "Credible source citation for the counter-evidence (journal, institution, etc.)"
+        "documentId": "documentId of the passage used",
+        "quote": "Exact sentence or phrase copied verbatim from that passage"
     }
 ]
 
 Ensure each piece:
 - Directly addresses or refutes an aspect of the original claim, or introduces a significant alternative.
-- Includes concrete data, expert opinions, or logical reasoning.
+- Is drawn from exactly one retrieved passage and quotes it verbatim.
 - Has a realistic quality assessment.
-- Cites plausible sources.
+
+Do not use outside knowledge and do not invent sources. If no passage challenges the claim, return an empty array.
 
 Return ONLY a valid JSON array with the exact structure shown above. Do not include any explanatory text before or after the JSON.`,
 });
@@ -124,11 +185,11 @@ Return ONLY a valid JSON array with the exact structure shown above. Do not incl
 const researchCounterEvidenceInternalFlow = ai.defineFlow(
   {
     name: 'researchCounterEvidenceInternalFlow',
-    inputSchema: ResearchCounterEvidenceInputSchema,
-    outputSchema: ResearchCounterEvidenceOutputSchema,
+    inputSchema: ResearchCounterEvidencePromptInputSchema,
+    outputSchema: EvidenceDraftOutputSchema,
   },
   async (input) => {
     const {output} = await researchCounterEvidencePrompt(input);
-    return output ?? DEFAULT_OUTPUT;
+    return output ?? [];
   }
 );
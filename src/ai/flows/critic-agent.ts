@@ -2,10 +2,13 @@
 'use server';
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 // Import type from researcher-agent, but EvidenceSchema will be defined locally for CritiqueAgentInputSchema
 import type { Evidence } from './researcher-agent';
 
+const AGENT_NAME = 'CriticAgent';
+
 // Define EvidenceSchema locally for use in CritiqueAgentInputSchema
 const LocalEvidenceSchema = z.object({
   claim: z.string().describe('Specific aspect of the claim being supported'),
@@ -91,8 +94,10 @@ export async function critiqueAgent(input: CritiqueAgentInput): Promise<Critique
 
 const critiqueAgentPrompt = ai.definePrompt({
   name: 'critiqueAgentPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {schema: CritiqueAgentInputSchema},
-  output: {schema: CritiqueAgentOutputSchema}, 
+  // Plain text: Genkit's JSON output only extracts objects and arrays, so a string schema never parses.
+  output: {format: 'text'},
   prompt: `You are a critical analysis agent specializing in identifying logical flaws and cognitive biases. Analyze this answer and its supporting evidence:
 
 ANSWER: "{{answer}}"
@@ -135,7 +140,7 @@ const critiqueAgentInternalFlow = ai.defineFlow(
     outputSchema: CritiqueAgentOutputSchema,
   },
   async (input): Promise<string> => {
-    const {output} = await critiqueAgentPrompt(input);
+    const {text: output} = await critiqueAgentPrompt(input);
     if (typeof output === 'string') {
       return output;
     }
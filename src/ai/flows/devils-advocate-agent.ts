@@ -9,8 +9,11 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
+const AGENT_NAME = 'DevilsAdvocateAgent';
+
 const ChallengeInputSchema = z.object({
   answer: z.string().describe('The initial answer to challenge.'),
   critique: z.string().describe('The critique of the answer.'),
@@ -84,6 +87,7 @@ export async function challenge(input: ChallengeInput): Promise<ChallengeOutput>
 
 const prompt = ai.definePrompt({
   name: 'devilsAdvocatePrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {schema: ChallengeInputSchema},
   output: {schema: ChallengeOutputSchema},
   prompt: `You are a devil's advocate agent. Challenge this claim: "{{answer}}"
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'DynamicRoutingCoordinator';
+
 // Define input schema
 const DynamicRoutingInputSchema = z.object({
   refinedQuery: z.string().describe('The refined query to analyze'),
@@ -167,7 +170,7 @@ Based on this analysis, provide a comprehensive routing strategy that optimizes
 `;
 
       const result = await ai.generate({
-        model: 'claude-3-sonnet',
+        ...modelOptionsFor(AGENT_NAME),
         prompt: analysisPrompt,
         output: {
           schema: DynamicRoutingOutputSchema,
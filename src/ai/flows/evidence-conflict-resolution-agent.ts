@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'EvidenceConflictResolutionAgent';
+
 // E12: Evidence Conflict Resolution Agent - Identifies and resolves conflicting evidence
 
 const EvidenceItemSchema = z.object({
@@ -60,6 +63,7 @@ const DEFAULT_OUTPUT: EvidenceConflictResolutionOutput = {
 
 const evidenceConflictResolutionPrompt = ai.definePrompt({
   name: 'evidenceConflictResolutionPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: EvidenceConflictResolutionInputSchema },
   output: { schema: EvidenceConflictResolutionOutputSchema },
   prompt: `You are an Evidence Conflict Resolution Agent tasked with identifying and analyzing conflicting evidence.
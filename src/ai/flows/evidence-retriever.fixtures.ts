@@ -0,0 +1,40 @@
+import type { CorpusDocument } from './evidence-retriever';
+
+/**
+ * Small offline corpus for InMemoryEvidenceRetriever. Used by tests and by
+ * EVIDENCE_RETRIEVER=fixture so the full pipeline can run without network access.
+ */
+export const EVIDENCE_FIXTURE_DOCUMENTS: CorpusDocument[] = [
+  {
+    id: 'fixture/remote-work-productivity',
+    url: 'https://example.org/fixtures/remote-work-productivity',
+    title: 'Remote Work and Software Team Productivity (fixture)',
+    text: `A survey of 1,200 software engineers found that 68% reported equal or higher productivity when working remotely, citing fewer interruptions and reduced commute time.
+
+Teams that adopted asynchronous code review practices shortened median pull request turnaround from 26 hours to 19 hours after moving to remote-first work.`,
+  },
+  {
+    id: 'fixture/remote-work-collaboration',
+    url: 'https://example.org/fixtures/remote-work-collaboration',
+    title: 'Collaboration Costs of Distributed Teams (fixture)',
+    text: `An analysis of internal communication networks showed that cross-team collaboration fell by roughly 25% after a company-wide shift to remote work, with engineers interacting mostly within existing groups.
+
+Junior developers in fully remote teams reported slower onboarding and fewer opportunities for informal mentoring than peers in co-located teams.`,
+  },
+  {
+    id: 'fixture/remote-work-costs',
+    url: 'https://example.org/fixtures/remote-work-costs',
+    title: 'Office Costs and Hiring Reach (fixture)',
+    text: `Companies that reduced office space after adopting remote work saved an average of $11,000 per employee per year in real-estate and facilities costs.
+
+Remote hiring expanded candidate pools beyond commuting distance, and firms reported filling senior engineering roles 30% faster.`,
+  },
+  {
+    id: 'fixture/remote-work-wellbeing',
+    url: 'https://example.org/fixtures/remote-work-wellbeing',
+    title: 'Wellbeing and Burnout in Remote Engineering (fixture)',
+    text: `Longitudinal data indicated that remote engineers worked longer hours on average, and 41% reported difficulty disconnecting from work at the end of the day.
+
+Burnout scores were lowest in hybrid arrangements that combined two to three office days with remote focus time.`,
+  },
+];
@@ -0,0 +1,63 @@
+import {
+  InMemoryEvidenceRetriever,
+  createEvidenceRetrieverFromEnv,
+  groundEvidenceDrafts,
+  type RetrievedPassage,
+} from './evidence-retriever';
+import { EVIDENCE_FIXTURE_DOCUMENTS } from './evidence-retriever.fixtures';
+
+describe('InMemoryEvidenceRetriever', () => {
+  const retriever = new InMemoryEvidenceRetriever(EVIDENCE_FIXTURE_DOCUMENTS);
+
+  test('should rank passages that match the query terms first', async () => {
+    const passages = await retriever.retrieve('office real-estate costs savings per employee');
+
+    expect(passages.length).toBeGreaterThan(0);
+    expect(passages[0].documentId).toBe('fixture/remote-work-costs');
+    expect(passages[0].url).toBe('https://example.org/fixtures/remote-work-costs');
+    expect(passages[0].text).toContain('$11,000 per employee');
+  });
+
+  test('should respect the limit option and return nothing for unrelated queries', async () => {
+    expect(await retriever.retrieve('remote work', { limit: 2 })).toHaveLength(2);
+    expect(await retriever.retrieve('quantum chromodynamics')).toEqual([]);
+  });
+});
+
+describe('groundEvidenceDrafts', () => {
+  const passages: RetrievedPassage[] = [{
+    documentId: 'doc-1',
+    passageId: 'doc-1#0',
+    url: 'https://example.org/doc-1',
+    title: 'Doc One',
+    text: 'Teams shortened median pull request turnaround from 26 hours to 19 hours.',
+    score: 1,
+  }];
+
+  test('should keep drafts that quote a retrieved passage and copy url/source from it', () => {
+    const grounded = groundEvidenceDrafts([{
+      claim: 'Review speed', support: 'Faster reviews', quality: 'moderate' as const,
+      documentId: 'doc-1', quote: 'median pull request  turnaround from 26 hours',
+    }], passages);
+
+    expect(grounded).toEqual([expect.objectContaining({ documentId: 'doc-1', url: 'https://example.org/doc-1', source: 'Doc One' })]);
+  });
+
+  test('should drop drafts citing unknown documents or quotes not present in the passage', () => {
+    const grounded = groundEvidenceDrafts([
+      { claim: 'A', support: 'A', quality: 'high' as const, documentId: 'doc-404', quote: 'median pull request' },
+      { claim: 'B', support: 'B', quality: 'high' as const, documentId: 'doc-1', quote: 'turnaround halved overnight' },
+    ], passages);
+
+    expect(grounded).toEqual([]);
+  });
+});
+
+describe('createEvidenceRetrieverFromEnv', () => {
+  test('should select a backend from environment variables', () => {
+    expect(createEvidenceRetrieverFromEnv({ EVIDENCE_RETRIEVER: 'fixture' }).name).toBe('in-memory');
+    expect(createEvidenceRetrieverFromEnv({ EVIDENCE_CORPUS_DIR: './corpus' }).name).toBe('local-corpus');
+    expect(createEvidenceRetrieverFromEnv({ EVIDENCE_SEARCH_URL: 'https://search.example.org' }).name).toBe('http-search');
+    expect(() => createEvidenceRetrieverFromEnv({ EVIDENCE_RETRIEVER: 'http' })).toThrow('EVIDENCE_SEARCH_URL');
+  });
+});
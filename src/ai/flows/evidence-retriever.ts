@@ -0,0 +1,425 @@
+import { z } from 'genkit';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EVIDENCE_FIXTURE_DOCUMENTS } from './evidence-retriever.fixtures';
+
+/**
+ * @fileOverview Pluggable retrieval backends for the researcher agents.
+ *
+ * The researcher flows call an EvidenceRetriever first and only ask the model to
+ * summarize the passages it returns, so every Evidence item can be traced back to a
+ * real document ID, URL and quoted span.
+ *
+ * - EvidenceRetriever - The interface every backend implements.
+ * - InMemoryEvidenceRetriever - BM25 over a fixed set of documents (fixtures, tests).
+ * - LocalCorpusRetriever - BM25 over .txt/.md/.json files in a local directory.
+ * - VectorIndexRetriever - Cosine similarity over embeddings from a caller-supplied embedder.
+ * - HttpSearchRetriever - Adapter for an external HTTP search endpoint.
+ * - getEvidenceRetriever / setEvidenceRetriever - Process-wide retriever selection.
+ */
+
+const RetrievedPassageSchema = z.object({
+  documentId: z.string().describe('Stable identifier of the source document'),
+  passageId: z.string().describe('Identifier of the passage within the document'),
+  url: z.string().describe('URL where the source document can be retrieved'),
+  title: z.string().describe('Title or citation label of the source document'),
+  text: z.string().describe('Verbatim passage text'),
+  score: z.number().describe('Retriever relevance score (higher is more relevant)'),
+});
+export type RetrievedPassage = z.infer<typeof RetrievedPassageSchema>;
+
+const CorpusDocumentSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string(),
+  text: z.string(),
+});
+export type CorpusDocument = z.infer<typeof CorpusDocumentSchema>;
+
+export interface RetrievalOptions {
+  limit?: number;
+  stance?: 'supporting' | 'counter';
+}
+
+export interface EvidenceRetriever {
+  readonly name: string;
+  retrieve(query: string, options?: RetrievalOptions): Promise<RetrievedPassage[]>;
+}
+
+const DEFAULT_RETRIEVAL_LIMIT = 8;
+const PASSAGE_CHUNK_SIZE = 800;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with', 'what', 'which', 'this',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Splits a document into passages on paragraph boundaries, keeping each under
+ * PASSAGE_CHUNK_SIZE characters where possible so quotes stay short and checkable.
+ */
+export function chunkDocument(document: CorpusDocument, chunkSize: number = PASSAGE_CHUNK_SIZE): Omit<RetrievedPassage, 'score'>[] {
+  const paragraphs = document.text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > chunkSize) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((text, index) => ({
+    documentId: document.id,
+    passageId: `${document.id}#${index}`,
+    url: document.url,
+    title: document.title,
+    text,
+  }));
+}
+
+/**
+ * Okapi BM25 index over passages.
+ */
+export class BM25Index {
+  private passages: Omit<RetrievedPassage, 'score'>[] = [];
+  private termFrequencies: Map<string, number>[] = [];
+  private passageLengths: number[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+  addDocuments(documents: CorpusDocument[]): void {
+    for (const document of documents) {
+      for (const passage of chunkDocument(document)) {
+        const tokens = tokenize(`${passage.title} ${passage.text}`);
+        const frequencies = new Map<string, number>();
+        tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+        frequencies.forEach((_, token) => this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1));
+
+        this.passages.push(passage);
+        this.termFrequencies.push(frequencies);
+        this.passageLengths.push(tokens.length);
+      }
+    }
+    const totalLength = this.passageLengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.passages.length > 0 ? totalLength / this.passages.length : 0;
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  search(query: string, limit: number = DEFAULT_RETRIEVAL_LIMIT): RetrievedPassage[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const passageCount = this.passages.length;
+    if (queryTerms.length === 0 || passageCount === 0) return [];
+
+    const scored: RetrievedPassage[] = [];
+    this.passages.forEach((passage, index) => {
+      const frequencies = this.termFrequencies[index];
+      const lengthNorm = 1 - this.b + this.b * (this.passageLengths[index] / (this.averageLength || 1));
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+        const df = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (passageCount - df + 0.5) / (df + 0.5));
+        score += idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm));
+      }
+      if (score > 0) scored.push({ ...passage, score });
+    });
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Fixture-backed retriever. Lets the pipeline run offline and deterministically in tests.
+ */
+export class InMemoryEvidenceRetriever implements EvidenceRetriever {
+  readonly name = 'in-memory';
+  private index = new BM25Index();
+
+  constructor(documents: CorpusDocument[] = []) {
+    this.index.addDocuments(documents);
+  }
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    return this.index.search(query, options.limit ?? DEFAULT_RETRIEVAL_LIMIT);
+  }
+}
+
+/**
+ * BM25 retriever over a local directory of documents. Plain-text and Markdown files become
+ * one document each (ID = path relative to the corpus root); JSON files may hold a single
+ * document or an array of { id, url, title, text } records.
+ */
+export class LocalCorpusRetriever implements EvidenceRetriever {
+  readonly name = 'local-corpus';
+  private indexPromise: Promise<BM25Index> | null = null;
+
+  constructor(private corpusDir: string) {}
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    const index = await this.loadIndex();
+    return index.search(query, options.limit ?? DEFAULT_RETRIEVAL_LIMIT);
+  }
+
+  private loadIndex(): Promise<BM25Index> {
+    if (!this.indexPromise) {
+      this.indexPromise = this.listDocuments().then(documents => {
+        const index = new BM25Index();
+        index.addDocuments(documents);
+        console.log(`LocalCorpusRetriever: Indexed ${documents.length} documents (${index.size} passages) from ${this.corpusDir}`);
+        return index;
+      });
+    }
+    return this.indexPromise;
+  }
+
+  async listDocuments(): Promise<CorpusDocument[]> {
+    const root = path.resolve(this.corpusDir);
+    const documents: CorpusDocument[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          continue;
+        }
+        const relativeId = path.relative(root, fullPath).split(path.sep).join('/');
+        const extension = path.extname(entry.name).toLowerCase();
+        if (extension === '.txt' || extension === '.md') {
+          const text = await fs.readFile(fullPath, 'utf8');
+          documents.push({ id: relativeId, url: pathToFileURL(fullPath).href, title: path.basename(entry.name, extension), text });
+        } else if (extension === '.json') {
+          const parsed = z.union([CorpusDocumentSchema, z.array(CorpusDocumentSchema)]).safeParse(JSON.parse(await fs.readFile(fullPath, 'utf8')));
+          if (parsed.success) {
+            documents.push(...(Array.isArray(parsed.data) ? parsed.data : [parsed.data]));
+          } else {
+            console.warn(`LocalCorpusRetriever: Skipping ${relativeId}, not a corpus document or document array.`);
+          }
+        }
+      }
+    };
+
+    await walk(root);
+    return documents;
+  }
+}
+
+/**
+ * Dense retriever. Embeddings come from the caller so the index has no hard dependency on a
+ * particular model provider; see createEvidenceRetrieverFromEnv for the Genkit-backed default.
+ */
+export class VectorIndexRetriever implements EvidenceRetriever {
+  readonly name = 'vector-index';
+  private passages: Omit<RetrievedPassage, 'score'>[] = [];
+  private vectors: number[][] = [];
+  private pendingDocuments: CorpusDocument[];
+
+  constructor(documents: CorpusDocument[], private embed: (texts: string[]) => Promise<number[][]>) {
+    this.pendingDocuments = documents;
+  }
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    await this.ensureIndexed();
+    if (this.passages.length === 0) return [];
+
+    const [queryVector] = await this.embed([query]);
+    return this.passages
+      .map((passage, index) => ({ ...passage, score: cosineSimilarity(queryVector, this.vectors[index]) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_RETRIEVAL_LIMIT);
+  }
+
+  private async ensureIndexed(): Promise<void> {
+    if (this.pendingDocuments.length === 0) return;
+    const newPassages = this.pendingDocuments.flatMap(document => chunkDocument(document));
+    this.pendingDocuments = [];
+    const newVectors = await this.embed(newPassages.map(passage => passage.text));
+    this.passages.push(...newPassages);
+    this.vectors.push(...newVectors);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+const HttpSearchResultSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string().default(''),
+  text: z.string().optional(),
+  snippet: z.string().optional(),
+  score: z.number().optional(),
+});
+
+/**
+ * Adapter for an external search service. Expects `GET {endpoint}?q=...&limit=...&stance=...`
+ * to return either an array of results or `{ results: [...] }`, where each result has
+ * `id`, `url`, `title` and `text` (or `snippet`).
+ */
+export class HttpSearchRetriever implements EvidenceRetriever {
+  readonly name = 'http-search';
+
+  constructor(private endpoint: string, private apiKey?: string, private timeoutMs: number = 10000) {}
+
+  async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    const limit = options.limit ?? DEFAULT_RETRIEVAL_LIMIT;
+    const url = new URL(this.endpoint);
+    url.searchParams.set('q', query);
+    url.searchParams.set('limit', String(limit));
+    if (options.stance) url.searchParams.set('stance', options.stance);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Search endpoint returned ${response.status} ${response.statusText}`);
+      }
+      const body: unknown = await response.json();
+      const rawResults = Array.isArray(body) ? body : (body as { results?: unknown[] })?.results ?? [];
+
+      const passages: RetrievedPassage[] = [];
+      rawResults.forEach((raw, index) => {
+        const parsed = HttpSearchResultSchema.safeParse(raw);
+        const text = parsed.success ? (parsed.data.text ?? parsed.data.snippet) : undefined;
+        if (!parsed.success || !text) return;
+        passages.push({
+          documentId: parsed.data.id,
+          passageId: `${parsed.data.id}#0`,
+          url: parsed.data.url,
+          title: parsed.data.title || parsed.data.url,
+          text,
+          score: parsed.data.score ?? rawResults.length - index,
+        });
+      });
+      return passages.slice(0, limit);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Builds the retriever selected by EVIDENCE_RETRIEVER (memory | fixture | local | vector | http).
+ * Without explicit configuration, a local corpus or search endpoint is used if one is set;
+ * otherwise an empty in-memory retriever is returned and the researchers report no evidence
+ * rather than inventing sources.
+ */
+export function createEvidenceRetrieverFromEnv(env: Record<string, string | undefined> = process.env): EvidenceRetriever {
+  const kind = env.EVIDENCE_RETRIEVER || (env.EVIDENCE_CORPUS_DIR ? 'local' : env.EVIDENCE_SEARCH_URL ? 'http' : 'memory');
+
+  switch (kind) {
+    case 'local':
+      if (!env.EVIDENCE_CORPUS_DIR) throw new Error('EVIDENCE_CORPUS_DIR is required when EVIDENCE_RETRIEVER=local');
+      return new LocalCorpusRetriever(env.EVIDENCE_CORPUS_DIR);
+    case 'http':
+      if (!env.EVIDENCE_SEARCH_URL) throw new Error('EVIDENCE_SEARCH_URL is required when EVIDENCE_RETRIEVER=http');
+      return new HttpSearchRetriever(env.EVIDENCE_SEARCH_URL, env.EVIDENCE_SEARCH_API_KEY);
+    case 'vector': {
+      if (!env.EVIDENCE_CORPUS_DIR) throw new Error('EVIDENCE_CORPUS_DIR is required when EVIDENCE_RETRIEVER=vector');
+      const corpus = new LocalCorpusRetriever(env.EVIDENCE_CORPUS_DIR);
+      return new LazyVectorRetriever(corpus, env.EVIDENCE_EMBEDDER || 'googleai/text-embedding-004');
+    }
+    case 'fixture':
+      return new InMemoryEvidenceRetriever(EVIDENCE_FIXTURE_DOCUMENTS);
+    case 'memory':
+      console.warn('EvidenceRetriever: No retrieval backend configured (EVIDENCE_CORPUS_DIR / EVIDENCE_SEARCH_URL). Researchers will return no evidence.');
+      return new InMemoryEvidenceRetriever();
+    default:
+      throw new Error(`Unknown EVIDENCE_RETRIEVER "${kind}". Expected memory, fixture, local, vector or http.`);
+  }
+}
+
+/**
+ * Defers loading the corpus and the Genkit embedder until the first query, so selecting the
+ * vector backend does not pull in model configuration at import time.
+ */
+class LazyVectorRetriever implements EvidenceRetriever {
+  readonly name = 'vector-index';
+  private inner: Promise<VectorIndexRetriever> | null = null;
+
+  constructor(private corpus: LocalCorpusRetriever, private embedderName: string) {}
+
+  async retrieve(query: string, options?: RetrievalOptions): Promise<RetrievedPassage[]> {
+    if (!this.inner) {
+      this.inner = (async () => {
+        const { ai } = await import('@/ai/genkit');
+        const documents = await this.corpus.listDocuments();
+        return new VectorIndexRetriever(documents, async (texts) => {
+          const embeddings = await Promise.all(texts.map(text => ai.embed({ embedder: this.embedderName, content: text })));
+          return embeddings.map(result => result[0]?.embedding ?? []);
+        });
+      })();
+    }
+    return (await this.inner).retrieve(query, options);
+  }
+}
+
+let activeRetriever: EvidenceRetriever | null = null;
+
+export function getEvidenceRetriever(): EvidenceRetriever {
+  if (!activeRetriever) {
+    activeRetriever = createEvidenceRetrieverFromEnv();
+    console.log(`EvidenceRetriever: Using ${activeRetriever.name} backend.`);
+  }
+  return activeRetriever;
+}
+
+/**
+ * Overrides the process-wide retriever, e.g. with an InMemoryEvidenceRetriever in tests.
+ * Passing null restores environment-based selection on next use.
+ */
+export function setEvidenceRetriever(retriever: EvidenceRetriever | null): void {
+  activeRetriever = retriever;
+}
+
+const normalizeForQuoteMatch = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Keeps only model-produced evidence that cites a passage that was actually retrieved and
+ * quotes it verbatim (modulo whitespace and case). URL and source label are taken from the
+ * retrieved passage, never from the model.
+ */
+export function groundEvidenceDrafts<T extends { documentId: string; quote: string }>(
+  drafts: T[],
+  passages: RetrievedPassage[],
+): (Omit<T, 'documentId' | 'quote'> & { documentId: string; url: string; quote: string; source: string })[] {
+  const grounded: (Omit<T, 'documentId' | 'quote'> & { documentId: string; url: string; quote: string; source: string })[] = [];
+  for (const draft of drafts) {
+    const quote = normalizeForQuoteMatch(draft.quote);
+    const passage = passages.find(p => p.documentId === draft.documentId && quote.length > 0 && normalizeForQuoteMatch(p.text).includes(quote));
+    if (!passage) continue;
+    grounded.push({ ...draft, documentId: passage.documentId, url: passage.url, quote: draft.quote.trim(), source: passage.title });
+  }
+  return grounded;
+}
@@ -0,0 +1,41 @@
+import { extractClaimsHeuristically, toVerifiedClaims } from './atomic-claims';
+import { verifyFacts } from './fact-verification-loop-agent';
+import type { Evidence } from './researcher-agent';
+
+function evidence(claim: string, support: string): Evidence {
+  return { claim, support, quality: 'high', source: 'Journal', documentId: claim, url: `https://example.org/${claim.length}`, quote: '' };
+}
+
+describe('verifyFacts', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should back a weakness that restates the counter-evidence instead of flagging it', async () => {
+    const availableEvidence = {
+      supporting: [evidence('Remote productivity', 'Stanford study found remote workers productivity rose 13%')],
+      counter: [evidence('Remote collaboration', 'Remote teams collaborate less across groups and share fewer ideas')],
+    };
+    const claims = extractClaimsHeuristically({
+      summary: 'Remote teams collaborate less across groups.',
+      keyStrengths: [], keyWeaknesses: ['Remote teams collaborate less across groups'], actionableRecommendations: [],
+    });
+
+    const output = await verifyFacts({
+      claims: claims.map(({ claim, claimType, importance, section }) => ({ claim, claimType, importance, source: section })),
+      verificationDepth: 'standard',
+      availableEvidence,
+    });
+    const [summaryClaim, weakness] = toVerifiedClaims(claims, output.claimVerifications);
+
+    // The same sentence in the summary argues for the answer, so there the counter-evidence contradicts it.
+    expect([summaryClaim.status, summaryClaim.flagged]).toEqual(['contradicted', true]);
+    expect([weakness.status, weakness.flagged]).toEqual(['partially_verified', false]);
+    expect(weakness.supportingEvidence).toEqual(['Remote collaboration: Remote teams collaborate less across groups and share fewer ideas']);
+    expect(output.claimVerifications[1].verificationSummary).toContain('1 counter-evidence item(s) address this claim and no supporting evidence does');
+  });
+});
@@ -2,6 +2,8 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { createHash } from 'crypto';
+import { claimStance, relatedEvidence, type AggregatedEvidence, type ClaimStance } from './atomic-claims';
 
 // F4 Part 3: Fact Verification Loop Agent - Iteratively verifies key facts and claims for accuracy
 
@@ -12,7 +14,7 @@ const FactVerificationInputSchema = z.object({
     importance: z.enum(['critical', 'high', 'medium', 'low']),
     claimType: z.enum(['statistic', 'factual', 'causal', 'predictive', 'historical']),
   })).describe('Claims to verify'),
-  availableEvidence: z.any().describe('Available evidence for verification'),
+  availableEvidence: z.any().describe('Available evidence for verification; { supporting, counter } evidence arrays check each claim against that evidence instead of the simulated sources'),
   verificationDepth: z.enum(['basic', 'standard', 'thorough']).describe('Depth of verification required'),
 });
 
@@ -167,7 +169,8 @@ function attemptCrossReference(claim: string, attemptNumber: number, previousEvi
     }
   ];
 
-  const hasContradictions = Math.random() < 0.2; // 20% chance of contradictory evidence
+  // 20% of claims get contradictory evidence; derived from the claim rather than Math.random so cassette replays are reproducible
+  const hasContradictions = createHash('sha256').update(`${claim}#${attemptNumber}`).digest().readUInt32BE(0) / 0x100000000 < 0.2;
 
   if (hasContradictions) {
     additionalEvidence.push({
@@ -268,13 +271,126 @@ function attemptLogicalAnalysis(claim: string, attemptNumber: number): Verificat
   };
 }
 
+function isAggregatedEvidence(evidence: any): evidence is AggregatedEvidence {
+  return !!evidence && Array.isArray(evidence.supporting) && Array.isArray(evidence.counter);
+}
+
+const EVIDENCE_RELIABILITY = { high: 'high', moderate: 'medium', low: 'low' } as const;
+const EVIDENCE_WEIGHT = { high: 15, moderate: 10, low: 5 } as const;
+// Related items considered per side, so one well-covered topic does not drown out the rest
+const MAX_RELATED_EVIDENCE = 3;
+
+// How the research sides read from a claim's stance: a weakness is backed by the counter-evidence.
+const EVIDENCE_LABELS: Record<ClaimStance, { agreeing: string; disputing: string }> = {
+  for: { agreeing: 'supporting evidence', disputing: 'counter-evidence' },
+  against: { agreeing: 'counter-evidence', disputing: 'supporting evidence' },
+};
+
+function attemptEvidenceMatch(claim: string, attemptNumber: number, evidence: AggregatedEvidence, stance: ClaimStance): VerificationAttempt {
+  const related = relatedEvidence(claim, evidence, stance);
+  const labels = EVIDENCE_LABELS[stance];
+  const supporting = related.supporting.slice(0, MAX_RELATED_EVIDENCE);
+  const counter = related.counter.slice(0, MAX_RELATED_EVIDENCE);
+  const toFound = (item: (typeof supporting)[number], supportLevel: 'supports' | 'contradicts') => ({
+    evidence: `${item.claim}: ${item.support}`,
+    source: item.source,
+    reliability: EVIDENCE_RELIABILITY[item.quality],
+    relevance: 'direct' as const,
+    supportLevel,
+  });
+  const weight = (items: typeof supporting) => items.reduce((sum, item) => sum + EVIDENCE_WEIGHT[item.quality], 0);
+
+  if (supporting.length === 0 && counter.length === 0) {
+    return {
+      attemptNumber,
+      verificationMethod: 'cross_reference',
+      evidenceFound: [],
+      verificationResult: 'insufficient_evidence',
+      confidenceLevel: 20,
+      reasoning: 'None of the aggregated evidence addresses this claim',
+      issuesFound: ['No related evidence'],
+    };
+  }
+
+  const evidenceFound = [...supporting.map(item => toFound(item, 'supports')), ...counter.map(item => toFound(item, 'contradicts'))];
+  if (counter.length === 0) {
+    return {
+      attemptNumber,
+      verificationMethod: 'cross_reference',
+      evidenceFound,
+      verificationResult: 'verified',
+      confidenceLevel: Math.min(95, 55 + weight(supporting)),
+      reasoning: `${supporting.length} ${labels.agreeing} item(s) address this claim and no ${labels.disputing} does`,
+      issuesFound: [],
+    };
+  }
+  if (supporting.length === 0) {
+    return {
+      attemptNumber,
+      verificationMethod: 'cross_reference',
+      evidenceFound,
+      verificationResult: 'contradicted',
+      confidenceLevel: Math.min(95, 55 + weight(counter)),
+      reasoning: `${counter.length} ${labels.disputing} item(s) address this claim and no ${labels.agreeing} does`,
+      issuesFound: [`Contradicted by ${labels.disputing}`],
+    };
+  }
+  return {
+    attemptNumber,
+    verificationMethod: 'cross_reference',
+    evidenceFound,
+    verificationResult: 'requires_further_investigation',
+    confidenceLevel: Math.round(100 * weight(supporting) / (weight(supporting) + weight(counter))),
+    reasoning: `Evidence is split: ${supporting.length} ${labels.agreeing} and ${counter.length} ${labels.disputing} item(s) address this claim`,
+    issuesFound: ['Contradictory evidence found'],
+  };
+}
+
+const RECOMMENDED_ACTIONS: Record<ClaimVerification['finalVerificationStatus'], ClaimVerification['recommendedAction']> = {
+  verified: 'accept', contradicted: 'reject', disputed: 'flag_uncertainty', partially_verified: 'modify', unverified: 'request_more_evidence',
+};
+
+/**
+ * Verifies a claim against the aggregated research only; the logical check is added for thorough verification.
+ * The claim's source names its synthesis section, which decides which side of the research agrees with it.
+ */
+function verifyClaimAgainstEvidence(claim: any, verificationDepth: string, evidence: AggregatedEvidence): ClaimVerification {
+  const attempts: VerificationAttempt[] = [attemptEvidenceMatch(claim.claim, 1, evidence, claimStance(claim.source))];
+  if (verificationDepth === 'thorough') attempts.push(attemptLogicalAnalysis(claim.claim, 2));
+  const match = attempts[0];
+  const logicalIssues = attempts[1]?.issuesFound ?? [];
+
+  let finalStatus: ClaimVerification['finalVerificationStatus'];
+  if (match.verificationResult === 'verified') finalStatus = match.confidenceLevel >= 80 && logicalIssues.length === 0 ? 'verified' : 'partially_verified';
+  else if (match.verificationResult === 'contradicted') finalStatus = 'contradicted';
+  else if (match.verificationResult === 'requires_further_investigation') finalStatus = 'disputed';
+  else finalStatus = 'unverified';
+
+  const recommendedAction = RECOMMENDED_ACTIONS[finalStatus];
+
+  return {
+    originalClaim: claim.claim,
+    claimType: claim.claimType,
+    importance: claim.importance,
+    verificationAttempts: attempts,
+    finalVerificationStatus: finalStatus,
+    overallConfidence: match.confidenceLevel,
+    supportingEvidence: match.evidenceFound.filter(e => e.supportLevel === 'supports').map(e => e.evidence),
+    contradictingEvidence: match.evidenceFound.filter(e => e.supportLevel === 'contradicts').map(e => e.evidence),
+    verificationSummary: `Checked against the aggregated evidence: ${match.reasoning}. Final status: ${finalStatus} (${match.confidenceLevel}% confidence)`,
+    recommendedAction,
+    modifiedClaim: recommendedAction === 'modify' ? `Modified: ${claim.claim} (with noted uncertainties)` : undefined,
+  };
+}
+
 // Main verification loop function
 async function verifyClaimIteratively(
   claim: any, 
   verificationDepth: string, 
   availableEvidence: any
 ): Promise<ClaimVerification> {
-  
+  if (isAggregatedEvidence(availableEvidence)) return verifyClaimAgainstEvidence(claim, verificationDepth, availableEvidence);
+
   const attempts: VerificationAttempt[] = [];
   let currentConfidence = 0;
   let finalStatus: any = 'unverified';
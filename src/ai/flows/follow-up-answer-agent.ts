@@ -0,0 +1,134 @@
+'use server';
+
+import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
+import { z } from 'genkit';
+import {
+  answerFollowUpHeuristically, FollowUpContextSchema, FollowUpFindingsSchema, FollowUpPlanSchema, FollowUpReferenceSchema,
+} from './follow-up';
+
+const AGENT_NAME = 'FollowUpAnswerAgent';
+
+// Answers a follow-up question from the finished session and the output of the agents re-run for it
+
+const FollowUpAnswerInputSchema = z.object({
+  question: z.string(),
+  references: z.array(FollowUpReferenceSchema),
+  context: FollowUpContextSchema,
+  plan: FollowUpPlanSchema,
+  findings: FollowUpFindingsSchema,
+});
+export type FollowUpAnswerInput = z.infer<typeof FollowUpAnswerInputSchema>;
+
+const FollowUpAnswerOutputSchema = z.object({
+  answer: z.string().describe('Direct answer to the follow-up, in a few paragraphs at most'),
+  keyPoints: z.array(z.string()).describe('The points the answer rests on, each naming its source in the session or the re-run'),
+});
+export type FollowUpAnswerOutput = z.infer<typeof FollowUpAnswerOutputSchema>;
+
+const RETRY_ATTEMPTS = 2;
+
+const followUpAnswerPrompt = ai.definePrompt({
+  name: 'followUpAnswerPrompt',
+  ...modelOptionsFor(AGENT_NAME),
+  input: { schema: FollowUpAnswerInputSchema.omit({ findings: true }).extend({ findingsJson: z.string() }) },
+  output: { schema: FollowUpAnswerOutputSchema },
+  prompt: `You are answering a follow-up question about an analysis that has already been carried out.
+
+The analysis:
+- Original question: {{{context.query}}}
+- Answer: {{{context.answer}}}
+- Synthesis: {{{context.synthesisSummary}}}
+- Confidence: {{{context.confidence}}}
+- Strengths:
+{{#each context.strengths}}
+  - {{{this}}}
+{{/each}}
+- Weaknesses:
+{{#each context.weaknesses}}
+  - {{{this}}}
+{{/each}}
+- Recommendations:
+{{#each context.recommendations}}
+  - {{{this}}}
+{{/each}}
+- Assumptions:
+{{#each context.assumptions}}
+  - {{{this}}}
+{{/each}}
+- Information gaps:
+{{#each context.gaps}}
+  - {{{this}}}
+{{/each}}
+- Critique: {{{context.critique}}}
+- Counterarguments:
+{{#each context.challenges}}
+  - {{{this}}}
+{{/each}}
+- Supporting evidence:
+{{#each context.evidence}}
+  - {{{this}}}
+{{/each}}
+- Counter-evidence:
+{{#each context.counterEvidence}}
+  - {{{this}}}
+{{/each}}
+
+{{#if context.previousTurns.length}}
+Earlier follow-ups in this conversation:
+{{#each context.previousTurns}}
+  Q: {{{question}}}
+  A: {{{answer}}}
+{{/each}}
+{{/if}}
+
+Follow-up question: {{{question}}}
+{{#if references.length}}
+It refers to:
+{{#each references}}
+  - {{kind}} #{{number}}: {{{text}}}
+{{/each}}
+{{/if}}
+{{#if plan.hypothetical}}
+Assume for this answer: {{{plan.hypothetical}}}
+{{/if}}
+
+{{#if plan.steps.length}}
+To answer it, these agents were run again on "{{{plan.focus}}}": {{#each plan.steps}}{{this}} {{/each}}
+Their output (JSON):
+{{{findingsJson}}}
+{{/if}}
+
+Answer the follow-up directly. Build on the analysis and the new output above rather than repeating the
+analysis; say plainly where the new output changes an earlier conclusion or confidence level. Do not invent
+evidence: when neither the analysis nor the new output settles the question, say what is missing.
+
+Return a JSON object with "answer" and "keyPoints".`,
+});
+
+const followUpAnswerFlow = ai.defineFlow(
+  {
+    name: 'followUpAnswerFlow',
+    inputSchema: FollowUpAnswerInputSchema,
+    outputSchema: FollowUpAnswerOutputSchema,
+  },
+  async ({ findings, ...input }) => {
+    const { output } = await followUpAnswerPrompt({ ...input, findingsJson: JSON.stringify(findings, null, 2) });
+    if (!output?.answer.trim()) throw new Error('The model returned no answer.');
+    return output;
+  }
+);
+
+/** Answers a follow-up question; when the model fails, lists the referenced items and the re-run agents' findings instead. */
+export async function answerFollowUp(input: FollowUpAnswerInput): Promise<FollowUpAnswerOutput> {
+  const parsed = FollowUpAnswerInputSchema.parse(input);
+  for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
+    try {
+      return await followUpAnswerFlow(parsed);
+    } catch (error: any) {
+      console.error(`${AGENT_NAME}: Attempt ${attempt + 1} failed.`, { error: error.message });
+    }
+  }
+  console.warn(`${AGENT_NAME}: Falling back to the session's own findings.`);
+  return answerFollowUpHeuristically(parsed.context, parsed.references, parsed.findings);
+}
@@ -0,0 +1,116 @@
+'use server';
+
+import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
+import { z } from 'genkit';
+import {
+  FOLLOW_UP_STEP_DESCRIPTIONS, FOLLOW_UP_STEPS, FollowUpContextSchema, FollowUpPlanSchema, FollowUpReferenceSchema,
+  MAX_FOLLOW_UP_STEPS, planFollowUpHeuristically, type FollowUpPlan,
+} from './follow-up';
+
+const AGENT_NAME = 'FollowUpPlannerAgent';
+
+// Decides which agents a follow-up question needs re-run; everything else is reused from the session
+
+const FollowUpPlannerInputSchema = z.object({
+  question: z.string(),
+  references: z.array(FollowUpReferenceSchema).describe('Session items the question points at by number'),
+  context: FollowUpContextSchema,
+});
+export type FollowUpPlannerInput = z.infer<typeof FollowUpPlannerInputSchema>;
+
+const RETRY_ATTEMPTS = 2;
+
+const followUpPlannerPrompt = ai.definePrompt({
+  name: 'followUpPlannerPrompt',
+  ...modelOptionsFor(AGENT_NAME),
+  input: { schema: FollowUpPlannerInputSchema.extend({ availableSteps: z.array(z.object({ step: z.string(), description: z.string() })), maxSteps: z.number() }) },
+  output: { schema: FollowUpPlanSchema },
+  prompt: `You are the Follow-Up Planner of a multi-agent analysis system. An analysis has finished and the user
+asks a follow-up question. Re-running agents is slow and costly, so plan the fewest re-runs that let the
+question be answered well. Choose no step at all when the session below already answers it (explanations,
+summaries, rephrasings, "why" questions about existing conclusions).
+
+Original question: {{{context.query}}}
+Answer: {{{context.answer}}}
+Synthesis: {{{context.synthesisSummary}}}
+Confidence: {{{context.confidence}}}
+
+Assumptions:
+{{#each context.assumptions}}
+  {{{this}}}
+{{/each}}
+Information gaps:
+{{#each context.gaps}}
+  {{{this}}}
+{{/each}}
+Weaknesses:
+{{#each context.weaknesses}}
+  {{{this}}}
+{{/each}}
+
+{{#if context.previousTurns.length}}
+Earlier follow-ups:
+{{#each context.previousTurns}}
+  Q: {{{question}}}
+  A: {{{answer}}}
+{{/each}}
+{{/if}}
+
+Follow-up question: {{{question}}}
+{{#if references.length}}
+It refers to:
+{{#each references}}
+  - {{kind}} #{{number}}: {{{text}}}
+{{/each}}
+{{/if}}
+
+Steps you can choose, listed in the order they run:
+{{#each availableSteps}}
+  - {{step}}: {{{description}}}
+{{/each}}
+
+Return a JSON object with:
+- "steps": at most {{maxSteps}} steps, most useful first
+- "focus": the claim or sub-question the chosen agents should work on, self-contained (spell out referenced items)
+- "hypothetical": when the question asks to assume something ("what if the budget is halved?"), that condition
+  stated as a fact ("The budget is halved"); omit it otherwise
+- "assumptionChanges": when the question weakens, reverses or replaces one of the assumptions above, those
+  changes, with "assumption" copied exactly from the list (without its number) and "changeType" weakened, reversed or replaced
+  (with a "replacement")
+- "rationale": one or two sentences on why these steps and not others`,
+});
+
+const followUpPlannerFlow = ai.defineFlow(
+  {
+    name: 'followUpPlannerFlow',
+    inputSchema: FollowUpPlannerInputSchema,
+    outputSchema: FollowUpPlanSchema,
+  },
+  async (input) => {
+    const availableSteps = FOLLOW_UP_STEPS.map(step => ({ step, description: FOLLOW_UP_STEP_DESCRIPTIONS[step] }));
+    // Numbered as in the results tabs, so "gap #2" means the same item to the model as to the user.
+    const numbered = (items: string[]) => items.map((item, index) => `${index + 1}. ${item}`);
+    const context = { ...input.context, assumptions: numbered(input.context.assumptions), gaps: numbered(input.context.gaps), weaknesses: numbered(input.context.weaknesses) };
+    const { output } = await followUpPlannerPrompt({ ...input, context, availableSteps, maxSteps: MAX_FOLLOW_UP_STEPS });
+    if (!output) throw new Error('The planner returned no plan.');
+    return output;
+  }
+);
+
+/**
+ * Plans the re-runs for a follow-up question. When the model fails, the plan is made from keywords in the
+ * question instead. The plan is not yet checked against the session; see normalizeFollowUpPlan.
+ */
+export async function planFollowUp(input: FollowUpPlannerInput): Promise<FollowUpPlan> {
+  const parsed = FollowUpPlannerInputSchema.parse(input);
+  for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
+    try {
+      return await followUpPlannerFlow(parsed);
+    } catch (error: any) {
+      console.error(`${AGENT_NAME}: Attempt ${attempt + 1} failed.`, { error: error.message });
+    }
+  }
+  console.warn(`${AGENT_NAME}: Falling back to a keyword plan.`);
+  return planFollowUpHeuristically(parsed.question, parsed.references);
+}
@@ -0,0 +1,111 @@
+import {
+  answerFollowUpHeuristically,
+  buildFollowUpContext,
+  followUpAssumptionChanges,
+  HYPOTHETICAL_BASELINE,
+  normalizeFollowUpPlan,
+  planFollowUpHeuristically,
+  resolveReferences,
+  type FollowUpContext,
+} from './follow-up';
+import type { SessionState } from './master-orchestrator-agent';
+
+const state = {
+  originalQuery: 'Should we move the team to a four-day week?',
+  initialAnswerText: 'Yes, with a pilot first.',
+  assumptions: [
+    { assumption: 'Output per hour rises', risk: 'High', alternative: 'Output per hour is flat' },
+    { assumption: 'Clients accept reduced availability', risk: 'Medium', alternative: 'Clients churn' },
+  ],
+  aggregatedSupportingResearch: [{ claim: 'Trials kept output', support: 'UK pilot, 61 firms', quality: 'high', source: 'Autonomy 2023', documentId: 'd1', url: '', quote: '' }],
+  finalRefinedSynthesisOutput: { summary: 'Pilot a four-day week.', keyStrengths: ['Pilot evidence'], keyWeaknesses: ['Small samples', 'Self-reported output'], actionableRecommendations: ['Run a 3-month pilot'] },
+  overallConfidence: { score: 'Medium', numericScore: 62, rationale: '' },
+  followUps: [],
+  errorsEncountered: [],
+  artifacts: {
+    Phase2_EvidenceGatheringAndAnalysis_information_gap_results: [{ gap: 'Effect on support rotas', impact: 'High' }, { gap: 'Cost of overtime', impact: 'Medium' }],
+    critique_phase3: 'Relies on pilots with self-selected firms.',
+    challenge_phase3: ['Firms that opted in were already productive'],
+  },
+} as unknown as SessionState;
+
+describe('buildFollowUpContext', () => {
+  test('should condense the session into numbered lists and the synthesis', () => {
+    const context = buildFollowUpContext(state);
+
+    expect(context.gaps).toEqual(['Effect on support rotas (impact: High)', 'Cost of overtime (impact: Medium)']);
+    expect(context.assumptions).toEqual(['Output per hour rises', 'Clients accept reduced availability']);
+    expect(context.evidence).toEqual(['Trials kept output: UK pilot, 61 firms (Autonomy 2023)']);
+    expect(context.confidence).toBe('Medium (62/100)');
+    expect(context.critique).toBe('Relies on pilots with self-selected firms.');
+    expect(context.previousTurns).toEqual([]);
+  });
+});
+
+describe('resolveReferences', () => {
+  const context = buildFollowUpContext(state);
+
+  test('should resolve numbered items in any common notation and ignore numbers past the end of a list', () => {
+    expect(resolveReferences('Expand on gap #2 and assumption 1; also weakness no. 2, gap #2 again, gap #9', context)).toEqual([
+      { kind: 'gap', number: 2, text: 'Cost of overtime (impact: Medium)' },
+      { kind: 'assumption', number: 1, text: 'Output per hour rises' },
+      { kind: 'weakness', number: 2, text: 'Self-reported output' },
+    ]);
+  });
+});
+
+describe('planFollowUpHeuristically', () => {
+  const context: FollowUpContext = buildFollowUpContext(state);
+
+  test('should re-run sensitivity and confidence for a hypothetical', () => {
+    const plan = planFollowUpHeuristically('What if the budget is halved?', []);
+    expect(plan.steps).toEqual(['sensitivity', 'confidence']);
+    expect(plan.hypothetical).toBe('What if the budget is halved?');
+  });
+
+  test('should research a referenced gap the user asks to expand on', () => {
+    const question = 'Expand on gap #2';
+    const plan = planFollowUpHeuristically(question, resolveReferences(question, context));
+    expect(plan).toEqual(expect.objectContaining({ steps: ['research'], focus: 'Cost of overtime (impact: Medium)' }));
+  });
+
+  test('should answer from the session alone when no agent is called for', () => {
+    expect(planFollowUpHeuristically('Summarize that in one line', []).steps).toEqual([]);
+  });
+});
+
+describe('normalizeFollowUpPlan', () => {
+  test('should order and cap the steps and drop assumption changes the session did not make', () => {
+    const plan = normalizeFollowUpPlan({
+      steps: ['synthesis', 'research', 'research', 'critique', 'confidence', 'devils_advocate'],
+      focus: ' ',
+      assumptionChanges: [
+        { assumption: 'Output per hour rises', changeType: 'reversed' },
+        { assumption: 'Interest rates fall', changeType: 'weakened' },
+      ],
+      rationale: 'test',
+    }, 'Is the pilot still worth it?', ['Output per hour rises']);
+
+    expect(plan.steps).toEqual(['research', 'critique', 'confidence', 'synthesis']);
+    expect(plan.focus).toBe('Is the pilot still worth it?');
+    expect(plan.assumptionChanges).toEqual([{ assumption: 'Output per hour rises', changeType: 'reversed' }]);
+  });
+});
+
+describe('followUpAssumptionChanges', () => {
+  test('should add the hypothetical as a replaced baseline assumption', () => {
+    expect(followUpAssumptionChanges({ steps: ['sensitivity'], focus: 'budget', hypothetical: 'The budget is halved', rationale: '' })).toEqual([
+      { assumption: HYPOTHETICAL_BASELINE, changeType: 'replaced', replacement: 'The budget is halved' },
+    ]);
+  });
+});
+
+describe('answerFollowUpHeuristically', () => {
+  test('should list the referenced items and findings, or fall back to the synthesis summary', () => {
+    const context = buildFollowUpContext(state);
+    const withFindings = answerFollowUpHeuristically(context, [{ kind: 'gap', number: 1, text: 'Effect on support rotas' }], { challenges: ['Rotas break'] });
+    expect(withFindings.keyPoints).toEqual(['Gap #1: Effect on support rotas', 'Challenge: Rotas break']);
+
+    expect(answerFollowUpHeuristically(context, [], {})).toEqual({ answer: expect.stringContaining('Pilot a four-day week.'), keyPoints: [] });
+  });
+});
@@ -0,0 +1,258 @@
+import { z } from 'genkit';
+import { ModelUsageSchema } from '@/ai/llm-usage';
+import { AssumptionChangeSchema, type AssumptionChange } from './what-if';
+import type { ChallengeOutput } from './devils-advocate-agent';
+import type { ConfidenceScoringOutput } from './confidence-scoring-agent';
+import type { CritiqueAgentOutput } from './critic-agent';
+import type { InformationGapOutput } from './information-gap-agent';
+import type { SessionState } from './master-orchestrator-agent';
+import type { ResearchCounterEvidenceOutput } from './counter-evidence-researcher-agent';
+import type { ResearchEvidenceOutput } from './researcher-agent';
+import type { SensitivityAnalysisOutput } from './sensitivity-analysis-agent';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview Follow-up questions on a finished analysis session.
+ *
+ * A follow-up turn answers from the session's evidence, assumptions and critiques. The FollowUpPlannerAgent
+ * picks the few agents, if any, that must run again for the question (new research on a gap, a what-if on an
+ * assumption); everything else is reused from the session. Turns are kept in SessionState.followUps.
+ *
+ * - FOLLOW_UP_STEPS - The agents a follow-up can re-run, in the order they run.
+ * - resolveReferences - Items the question points at by number ("gap #2", "assumption 3").
+ * - planFollowUpHeuristically - Keyword plan, used when the planner fails.
+ * - normalizeFollowUpPlan - Orders, caps and checks a plan against the session.
+ * - buildFollowUpContext - The session, condensed for the planner and answer prompts.
+ */
+
+/** Re-runnable agents, in dependency order: critiques use fresh research, synthesis uses fresh confidence. */
+export const FOLLOW_UP_STEPS = [
+  'research', 'counter_research', 'information_gaps', 'critique', 'devils_advocate', 'sensitivity', 'confidence', 'synthesis',
+] as const;
+export type FollowUpStep = typeof FOLLOW_UP_STEPS[number];
+
+export const FOLLOW_UP_STEP_AGENTS: Record<FollowUpStep, string> = {
+  research: 'ResearcherAgent',
+  counter_research: 'CounterEvidenceResearcherAgent',
+  information_gaps: 'InformationGapAgent',
+  critique: 'CritiqueAgent',
+  devils_advocate: 'DevilsAdvocateAgent',
+  sensitivity: 'SensitivityAnalysisAgent',
+  confidence: 'ConfidenceScoringAgent',
+  synthesis: 'SynthesisEnsembleAgent',
+};
+
+export const FOLLOW_UP_STEP_DESCRIPTIONS: Record<FollowUpStep, string> = {
+  research: 'Retrieve new supporting evidence on the focus',
+  counter_research: 'Retrieve new counter-evidence on the focus',
+  information_gaps: 'Find what is still unknown about the focus',
+  critique: 'Critique the focus against the evidence',
+  devils_advocate: 'Argue against the focus',
+  sensitivity: 'Test how the conclusions hold up under the hypothetical or changed assumptions',
+  confidence: 'Re-score confidence under the hypothetical or changed assumptions',
+  synthesis: 'Rewrite the synthesis under the hypothetical or changed assumptions (the most expensive step)',
+};
+
+/** A follow-up re-runs at most this many agents; the rest of the answer comes from the session. */
+export const MAX_FOLLOW_UP_STEPS = 4;
+
+/** Stands in for the assumption a hypothetical replaces when it matches none of the session's assumptions. */
+export const HYPOTHETICAL_BASELINE = 'The circumstances described in the original question hold';
+
+export const FollowUpPlanSchema = z.object({
+  steps: z.array(z.enum(FOLLOW_UP_STEPS)).describe('Agents to re-run, most useful first; empty when the session already answers the question'),
+  focus: z.string().describe('The claim or sub-question the re-run agents work on'),
+  hypothetical: z.string().optional().describe('A condition the question asks to assume, stated as a fact ("The budget is halved")'),
+  assumptionChanges: z.array(AssumptionChangeSchema).optional().describe('Session assumptions the question weakens, reverses or replaces'),
+  rationale: z.string().describe('Why these agents, and why not the others'),
+});
+export type FollowUpPlan = z.infer<typeof FollowUpPlanSchema>;
+
+export const FOLLOW_UP_REFERENCE_KINDS = ['gap', 'assumption', 'strength', 'weakness', 'recommendation', 'challenge'] as const;
+
+export const FollowUpReferenceSchema = z.object({
+  kind: z.enum(FOLLOW_UP_REFERENCE_KINDS),
+  number: z.number().int().positive(),
+  text: z.string(),
+});
+export type FollowUpReference = z.infer<typeof FollowUpReferenceSchema>;
+
+type MetaSynthesis = SynthesisEnsembleOutput['metaSynthesis'];
+
+/** Output of the agents a turn re-ran; absent for the ones it did not. */
+export const FollowUpFindingsSchema = z.object({
+  supportingEvidence: z.custom<ResearchEvidenceOutput>().optional(),
+  counterEvidence: z.custom<ResearchCounterEvidenceOutput>().optional(),
+  informationGaps: z.custom<InformationGapOutput>().optional(),
+  critique: z.custom<CritiqueAgentOutput>().optional(),
+  challenges: z.custom<ChallengeOutput>().optional(),
+  sensitivity: z.custom<SensitivityAnalysisOutput>().optional(),
+  overallConfidence: z.custom<ConfidenceScoringOutput['overallConfidence']>().optional(),
+  synthesis: z.custom<MetaSynthesis>().optional(),
+});
+export type FollowUpFindings = z.infer<typeof FollowUpFindingsSchema>;
+
+export const FollowUpTurnSchema = z.object({
+  turnId: z.string(),
+  question: z.string(),
+  references: z.array(FollowUpReferenceSchema),
+  plan: FollowUpPlanSchema,
+  findings: FollowUpFindingsSchema,
+  answer: z.string(),
+  keyPoints: z.array(z.string()),
+  modelUsage: ModelUsageSchema.optional().describe('Model calls made for this turn alone'),
+  askedAt: z.string(),
+});
+export type FollowUpTurn = z.infer<typeof FollowUpTurnSchema>;
+
+/** The session, condensed: numbered lists keep the numbers the user sees in the results tabs. */
+export const FollowUpContextSchema = z.object({
+  query: z.string(),
+  answer: z.string(),
+  synthesisSummary: z.string(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  assumptions: z.array(z.string()),
+  gaps: z.array(z.string()),
+  critique: z.string(),
+  challenges: z.array(z.string()),
+  confidence: z.string(),
+  evidence: z.array(z.string()),
+  counterEvidence: z.array(z.string()),
+  previousTurns: z.array(z.object({ question: z.string(), answer: z.string() })),
+});
+export type FollowUpContext = z.infer<typeof FollowUpContextSchema>;
+
+// Enough of the evidence and conversation to answer from without overflowing the prompt.
+const CONTEXT_EVIDENCE_ITEMS = 10;
+const CONTEXT_PREVIOUS_TURNS = 5;
+
+export function buildFollowUpContext(state: Readonly<SessionState>): FollowUpContext {
+  const synthesis = state.finalRefinedSynthesisOutput ?? state.draftSynthesisOutput?.metaSynthesis;
+  const gaps = state.artifacts['Phase2_EvidenceGatheringAndAnalysis_information_gap_results'] as InformationGapOutput | undefined;
+  const evidenceLine = (item: { claim: string; support: string; source: string }) => `${item.claim}: ${item.support} (${item.source})`;
+  return {
+    query: state.refinedQuery || state.originalQuery,
+    answer: state.initialAnswerText ?? '',
+    synthesisSummary: synthesis?.summary ?? '',
+    strengths: synthesis?.keyStrengths ?? [],
+    weaknesses: synthesis?.keyWeaknesses ?? [],
+    recommendations: synthesis?.actionableRecommendations ?? [],
+    assumptions: (state.assumptions ?? []).map(item => item.assumption),
+    gaps: (gaps ?? []).map(item => `${item.gap} (impact: ${item.impact})`),
+    critique: (state.artifacts['critique_phase3'] as CritiqueAgentOutput | undefined) ?? '',
+    challenges: (state.artifacts['challenge_phase3'] as ChallengeOutput | undefined) ?? [],
+    confidence: state.overallConfidence ? `${state.overallConfidence.score} (${state.overallConfidence.numericScore}/100)` : 'Not scored',
+    evidence: (state.aggregatedSupportingResearch ?? []).slice(0, CONTEXT_EVIDENCE_ITEMS).map(evidenceLine),
+    counterEvidence: (state.aggregatedCounterResearch ?? []).slice(0, CONTEXT_EVIDENCE_ITEMS).map(evidenceLine),
+    previousTurns: (state.followUps ?? []).slice(-CONTEXT_PREVIOUS_TURNS).map(turn => ({ question: turn.question, answer: turn.answer })),
+  };
+}
+
+const REFERENCE_LISTS: Record<FollowUpReference['kind'], keyof FollowUpContext> = {
+  gap: 'gaps',
+  assumption: 'assumptions',
+  strength: 'strengths',
+  weakness: 'weaknesses',
+  recommendation: 'recommendations',
+  challenge: 'challenges',
+};
+
+const REFERENCE_PATTERN = new RegExp(`\\b(${FOLLOW_UP_REFERENCE_KINDS.join('|')})s?\\s*(?:#|no\\.?|number)?\\s*(\\d+)\\b`, 'gi');
+
+/** Numbered items the question points at ("gap #2", "assumption 3"); numbers past the end of a list are ignored. */
+export function resolveReferences(question: string, context: FollowUpContext): FollowUpReference[] {
+  const references: FollowUpReference[] = [];
+  for (const match of question.matchAll(REFERENCE_PATTERN)) {
+    const kind = match[1].toLowerCase() as FollowUpReference['kind'];
+    const number = Number(match[2]);
+    const text = (context[REFERENCE_LISTS[kind]] as string[])[number - 1];
+    if (text && !references.some(item => item.kind === kind && item.number === number)) references.push({ kind, number, text });
+  }
+  return references;
+}
+
+const HYPOTHETICAL_PATTERN = /\b(what if|suppose|assum(e|ing)|imagine|instead of|were to|was halved|is halved|doubled?|tripled?)\b/i;
+
+const KEYWORD_STEPS: [RegExp, FollowUpStep][] = [
+  [/\b(evidence|sources?|data|stud(y|ies)|proof|prove|cite|support)\b/i, 'research'],
+  [/\b(counter|against|opposing|refute|disprove|contradict)/i, 'counter_research'],
+  [/\b(unknowns?|missing|gaps?)\b/i, 'information_gaps'],
+  [/\b(critique|flaws?|weak(ness|nesses)?)\b/i, 'critique'],
+  [/\b(devil'?s advocate|challenge|strongest objection|wrong)\b/i, 'devils_advocate'],
+  [/\b(confiden(ce|t)|certain|sure)\b/i, 'confidence'],
+  [/\b(rewrite|redo|update|revise)\b.*\b(summary|synthesis|conclusions?|recommendations?)\b/i, 'synthesis'],
+];
+
+/**
+ * Plans a follow-up from keywords: hypotheticals re-run sensitivity and confidence, questions about evidence,
+ * gaps or objections re-run the matching agent, and references to a gap or weakness are researched. A question
+ * that matches nothing is answered from the session alone.
+ */
+export function planFollowUpHeuristically(question: string, references: FollowUpReference[]): FollowUpPlan {
+  const steps: FollowUpStep[] = [];
+  // "gap #2" names an item; it does not ask for a new gap analysis.
+  const text = question.replace(REFERENCE_PATTERN, ' ');
+  const hypothetical = HYPOTHETICAL_PATTERN.test(text);
+  if (hypothetical) steps.push('sensitivity', 'confidence');
+  for (const [pattern, step] of KEYWORD_STEPS) {
+    if (pattern.test(text)) steps.push(step);
+  }
+  // The user referenced a gap or weakness by number but only asked to expand on it: new evidence is what helps.
+  if (steps.length === 0 && references.some(item => item.kind === 'gap' || item.kind === 'weakness')) steps.push('research');
+  return {
+    steps,
+    focus: references.length > 0 ? references.map(item => item.text).join('; ') : question,
+    hypothetical: hypothetical ? question : undefined,
+    rationale: steps.length > 0 ? `Keyword match on the question: ${[...new Set(steps)].join(', ')}.` : 'The session already covers the question.',
+  };
+}
+
+/**
+ * Keeps a plan runnable against the session: drops assumption changes the session did not make, keeps the first
+ * `maxSteps` distinct steps and orders them as FOLLOW_UP_STEPS, and falls back to the question as the focus.
+ */
+export function normalizeFollowUpPlan(
+  plan: FollowUpPlan, question: string, sessionAssumptions: string[], maxSteps = MAX_FOLLOW_UP_STEPS,
+): FollowUpPlan {
+  const known = new Set(sessionAssumptions);
+  const assumptionChanges = (plan.assumptionChanges ?? []).filter(change => known.has(change.assumption));
+  const kept = new Set([...new Set(plan.steps)].slice(0, maxSteps));
+  return {
+    steps: FOLLOW_UP_STEPS.filter(step => kept.has(step)),
+    focus: plan.focus.trim() || question,
+    hypothetical: plan.hypothetical?.trim() || undefined,
+    assumptionChanges: assumptionChanges.length > 0 ? assumptionChanges : undefined,
+    rationale: plan.rationale,
+  };
+}
+
+/** The plan's assumption changes plus its hypothetical, as changes the sensitivity, confidence and synthesis agents take. */
+export function followUpAssumptionChanges(plan: FollowUpPlan): AssumptionChange[] {
+  return [
+    ...(plan.assumptionChanges ?? []),
+    ...(plan.hypothetical ? [{ assumption: HYPOTHETICAL_BASELINE, changeType: 'replaced' as const, replacement: plan.hypothetical }] : []),
+  ];
+}
+
+/** Answer used when the FollowUpAnswerAgent fails: the referenced items and what the re-run agents found. */
+export function answerFollowUpHeuristically(
+  context: FollowUpContext, references: FollowUpReference[], findings: FollowUpFindings,
+): { answer: string; keyPoints: string[] } {
+  const keyPoints = [
+    ...references.map(item => `${item.kind[0].toUpperCase()}${item.kind.slice(1)} #${item.number}: ${item.text}`),
+    ...(findings.supportingEvidence ?? []).slice(0, 3).map(item => `Evidence: ${item.claim} (${item.source})`),
+    ...(findings.counterEvidence ?? []).slice(0, 3).map(item => `Counter-evidence: ${item.claim} (${item.source})`),
+    ...(findings.informationGaps ?? []).slice(0, 3).map(item => `Gap: ${item.gap}`),
+    ...(findings.challenges ?? []).slice(0, 3).map(item => `Challenge: ${item}`),
+    ...(findings.overallConfidence ? [`Confidence under the follow-up: ${findings.overallConfidence.score} (${findings.overallConfidence.numericScore}/100)`] : []),
+  ];
+  const conclusion = findings.synthesis?.summary || context.synthesisSummary || context.answer;
+  return {
+    answer: keyPoints.length > 0
+      ? 'A full answer could not be generated; the parts of the analysis the question concerns are listed below.'
+      : `A full answer could not be generated. The analysis concluded: ${conclusion}`,
+    keyPoints,
+  };
+}
@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HumanReviewSystem } from './human-review-system';
+import type { HumanReviewInput } from './human-review-tool';
+import type { ReviewNotifier } from './review-notifiers';
+import {
+  FileSystemReviewQueue,
+  FileSystemReviewStore,
+  InMemoryReviewStore,
+  SqliteReviewQueue,
+  SqliteReviewStore,
+  createReviewQueueFromEnv,
+  createReviewStoreFromEnv,
+  type ReviewQueue,
+  type ReviewStore,
+} from './review-store';
+
+const input: HumanReviewInput = {
+  reviewType: 'critical_decision',
+  context: {
+    query: 'Should we migrate to the new billing provider?',
+    currentAnalysis: { summary: 'Migration looks favourable' },
+    confidence: { score: 'Medium', rationale: 'Vendor data is unaudited' },
+    criticalIssues: ['Risk of double billing during cutover'],
+  },
+  reviewRequest: {
+    specificQuestions: ['Is a two-week parallel run enough?'],
+    areasNeedingExpertise: ['Risk assessment and mitigation'],
+    suggestedActions: ['Validate critical decision points'],
+    urgency: 'medium',
+  },
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each<[string, () => Promise<ReviewStore>]>([
+  ['FileSystemReviewStore', async () => new FileSystemReviewStore(await fs.mkdtemp(path.join(os.tmpdir(), 'reviews-')))],
+  ['SqliteReviewStore', async () => new SqliteReviewStore(path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'reviews-')), 'reviews.db'))],
+])('HumanReviewSystem on %s', (_name, createStore) => {
+  test('should answer status and result queries from a new instance, as after a restart', async () => {
+    const store = await createStore();
+    const reviewId = await new HumanReviewSystem({ store }).submitForReview(input);
+
+    const restarted = new HumanReviewSystem({ store });
+    expect(await restarted.checkReviewStatus(reviewId)).toBe('pending');
+    expect(await restarted.submitReviewResult(reviewId, { decision: 'approve', feedback: 'Parallel run is enough' })).toBe(true);
+
+    const again = new HumanReviewSystem({ store });
+    expect(await again.checkReviewStatus(reviewId)).toBe('completed');
+    expect(await again.getReviewResult(reviewId)).toEqual({ decision: 'approve', feedback: 'Parallel run is enough' });
+    expect(await again.submitReviewResult(reviewId, { decision: 'reject' })).toBe(false);
+    expect(await store.list('completed')).toEqual([expect.objectContaining({ id: reviewId, completedAt: expect.any(String) })]);
+  });
+});
+
+describe.each<[string, () => Promise<ReviewStore>]>([
+  ['InMemoryReviewStore', async () => new InMemoryReviewStore()],
+  ['FileSystemReviewStore', async () => new FileSystemReviewStore(await fs.mkdtemp(path.join(os.tmpdir(), 'reviews-')))],
+  ['SqliteReviewStore', async () => new SqliteReviewStore(path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'reviews-')), 'reviews.db'))],
+])('HumanReviewSystem decisions on %s', (_name, createStore) => {
+  test('should accept only one of two concurrent decisions', async () => {
+    const store = await createStore();
+    const reviewId = await new HumanReviewSystem({ store }).submitForReview(input);
+
+    const accepted = await Promise.all([
+      new HumanReviewSystem({ store }).submitReviewResult(reviewId, { decision: 'approve' }, 'dana@example.com'),
+      new HumanReviewSystem({ store }).submitReviewResult(reviewId, { decision: 'reject' }, 'lee@example.com'),
+    ]);
+
+    expect([...accepted].sort()).toEqual([false, true]);
+    const record = await store.load(reviewId);
+    expect(record?.result?.decision).toBe(accepted[0] ? 'approve' : 'reject');
+    expect(record?.auditTrail?.filter(entry => entry.action === 'decided')).toHaveLength(1);
+  });
+});
+
+describe('HumanReviewSystem', () => {
+  test('should expire reviews past their deadline', async () => {
+    const store = new InMemoryReviewStore();
+    const system = new HumanReviewSystem({ store, timeoutMinutes: -1 });
+    const reviewId = await system.submitForReview(input);
+
+    expect(await system.checkReviewStatus(reviewId)).toBe('expired');
+    expect((await store.load(reviewId))?.status).toBe('expired');
+    expect(await system.submitReviewResult(reviewId, { decision: 'approve' })).toBe(false);
+  });
+
+  test('should record who decided what, and when, in the audit trail', async () => {
+    const store = new InMemoryReviewStore();
+    const system = new HumanReviewSystem({ store });
+    const reviewId = await system.submitForReview(input);
+
+    expect(await system.submitReviewResult(reviewId, { decision: 'modify', confidenceAdjustment: 'decrease', modifications: { summary: 'Run in parallel for a month' } }, 'dana@example.com')).toBe(true);
+
+    const record = await store.load(reviewId);
+    expect(record?.decidedBy).toBe('dana@example.com');
+    expect(record?.decidedBySource).toBe('self_reported');
+    expect(record?.auditTrail).toEqual([
+      { at: record?.submittedAt, actor: 'system', action: 'submitted' },
+      { at: record?.completedAt, actor: 'dana@example.com', actorSource: 'self_reported', action: 'decided', decision: 'modify', confidenceAdjustment: 'decrease', modifiedFields: ['summary'] },
+    ]);
+    expect(await system.listClosedReviews()).toEqual([expect.objectContaining({ id: reviewId })]);
+  });
+
+  test('should record an identity from the auth proxy as such', async () => {
+    const store = new InMemoryReviewStore();
+    const system = new HumanReviewSystem({ store });
+    const reviewId = await system.submitForReview(input);
+
+    expect(await system.submitReviewResult(reviewId, { decision: 'approve' }, { name: 'dana@example.com', source: 'auth_proxy' })).toBe(true);
+
+    const record = await store.load(reviewId);
+    expect(record).toEqual(expect.objectContaining({ decidedBy: 'dana@example.com', decidedBySource: 'auth_proxy' }));
+    expect(record?.auditTrail?.[1]).toEqual(expect.objectContaining({ actor: 'dana@example.com', actorSource: 'auth_proxy' }));
+  });
+
+  test('should list pending reviews by urgency, then expiry, and expire overdue ones', async () => {
+    const store = new InMemoryReviewStore();
+    const system = new HumanReviewSystem({ store });
+    const submit = async (urgency: HumanReviewInput['reviewRequest']['urgency'], expiresAt: string) => {
+      const reviewId = await system.submitForReview({ ...input, reviewRequest: { ...input.reviewRequest, urgency } });
+      await store.save({ ...(await store.load(reviewId))!, expiresAt });
+      return reviewId;
+    };
+    const later = await submit('medium', '2999-01-02T00:00:00.000Z');
+    const sooner = await submit('medium', '2999-01-01T00:00:00.000Z');
+    const urgent = await submit('immediate', '2999-01-03T00:00:00.000Z');
+    const overdue = await submit('immediate', '2000-01-01T00:00:00.000Z');
+
+    expect((await system.listPendingReviews()).map(record => record.id)).toEqual([urgent, sooner, later]);
+    expect((await store.load(overdue))?.auditTrail?.map(entry => entry.action)).toEqual(['submitted', 'expired']);
+    expect(await system.submitReviewResult(overdue, { decision: 'approve' }, 'dana@example.com')).toBe(false);
+  });
+
+  test('should keep the review when a notifier fails and still enqueue it', async () => {
+    const store = new InMemoryReviewStore();
+    const queue = new FileSystemReviewQueue(await fs.mkdtemp(path.join(os.tmpdir(), 'review-queue-')));
+    const failing: ReviewNotifier = { name: 'broken', notify: async () => { throw new Error('connection refused'); } };
+    const reviewId = await new HumanReviewSystem({ store, queue, notifiers: [failing] }).submitForReview(input);
+
+    expect(await store.load(reviewId)).toEqual(expect.objectContaining({ status: 'pending' }));
+    expect(await queue.dequeue()).toEqual(expect.objectContaining({ reviewId, type: 'critical_decision', questions: ['Is a two-week parallel run enough?'] }));
+  });
+});
+
+describe.each<[string, () => Promise<ReviewQueue>]>([
+  ['FileSystemReviewQueue', async () => new FileSystemReviewQueue(await fs.mkdtemp(path.join(os.tmpdir(), 'review-queue-')))],
+  ['SqliteReviewQueue', async () => new SqliteReviewQueue(':memory:')],
+])('%s', (_name, createQueue) => {
+  test('should hand out messages oldest first, once each', async () => {
+    const queue = await createQueue();
+    for (const reviewId of ['review_a', 'review_b']) {
+      await queue.enqueue({ reviewId, type: 'high_risk', urgency: 'high', questions: [], expiresAt: '2024-01-01T00:30:00.000Z', enqueuedAt: '2024-01-01T00:00:00.000Z' });
+    }
+
+    expect((await queue.dequeue())?.reviewId).toBe('review_a');
+    expect((await queue.dequeue())?.reviewId).toBe('review_b');
+    expect(await queue.dequeue()).toBeNull();
+  });
+});
+
+describe('createReviewStoreFromEnv / createReviewQueueFromEnv', () => {
+  test('should select backends from environment variables', () => {
+    expect(createReviewStoreFromEnv({}).name).toBe('fs');
+    expect(createReviewStoreFromEnv({ REVIEW_STORE: 'sqlite' }).name).toBe('sqlite');
+    expect(() => createReviewStoreFromEnv({ REVIEW_STORE: 'redis' })).toThrow('REVIEW_STORE');
+    expect(createReviewQueueFromEnv({})).toBeNull();
+    expect(createReviewQueueFromEnv({ REVIEW_QUEUE_URL: 'sqlite:.data/review-queue.db' })?.name).toBe('sqlite');
+    expect(() => createReviewQueueFromEnv({ REVIEW_QUEUE_URL: 'https://sqs.example.com/queue' })).toThrow('REVIEW_QUEUE_URL');
+  });
+});
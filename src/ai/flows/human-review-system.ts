@@ -0,0 +1,227 @@
+import type { HumanReviewInput, HumanReviewOutput } from './human-review-tool';
+import { createReviewNotifiersFromEnv, type ReviewNotifier } from './review-notifiers';
+import {
+  createReviewQueueFromEnv,
+  createReviewStoreFromEnv,
+  type ReviewAuditEntry,
+  type ReviewerIdentity,
+  type ReviewQueue,
+  type ReviewRecord,
+  type ReviewStore,
+} from './review-store';
+
+/**
+ * @fileOverview Lifecycle of human reviews behind humanReviewTool.
+ *
+ * A submitted review is saved to the ReviewStore, announced through every ReviewNotifier and handed
+ * to the ReviewQueue. Status and results are always read back from the store, so a review survives a
+ * restart of the process that submitted it.
+ *
+ * - HumanReviewSystem - Submit, answer, expire and look up reviews; every step is kept in the record's auditTrail.
+ * - getHumanReviewSystem / setHumanReviewSystem - Process-wide instance built from the environment.
+ */
+
+// Most urgent first, for the reviewer workspace.
+const URGENCY_RANK: Record<HumanReviewInput['reviewRequest']['urgency'], number> = { immediate: 0, high: 1, medium: 2, low: 3 };
+
+function withAuditEntry(record: ReviewRecord, entry: ReviewAuditEntry): ReviewRecord {
+  return { ...record, auditTrail: [...(record.auditTrail ?? []), entry] };
+}
+
+export interface HumanReviewSystemOptions {
+  store: ReviewStore;
+  notifiers?: ReviewNotifier[];
+  queue?: ReviewQueue | null;
+  timeoutMinutes?: number;
+}
+
+export class HumanReviewSystem {
+  readonly store: ReviewStore;
+  private notifiers: ReviewNotifier[];
+  private queue: ReviewQueue | null;
+  private timeoutMinutes: number;
+
+  constructor(options: HumanReviewSystemOptions) {
+    this.store = options.store;
+    this.notifiers = options.notifiers ?? [];
+    this.queue = options.queue ?? null;
+    this.timeoutMinutes = options.timeoutMinutes ?? 30;
+  }
+
+  async submitForReview(input: HumanReviewInput): Promise<string> {
+    const reviewId = `review_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const submittedAt = new Date();
+    const expiresAt = new Date(submittedAt.getTime() + (this.timeoutMinutes * 60 * 1000));
+
+    const record: ReviewRecord = {
+      id: reviewId,
+      input,
+      status: 'pending',
+      submittedAt: submittedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      auditTrail: [{ at: submittedAt.toISOString(), actor: 'system', action: 'submitted' }],
+    };
+
+    await this.store.save(record);
+
+    // Log structured review data
+    console.log('HumanReviewSystem: Review submitted', {
+      reviewId,
+      reviewType: input.reviewType,
+      urgency: input.reviewRequest.urgency,
+      questionsCount: input.reviewRequest.specificQuestions.length,
+      criticalIssuesCount: input.context.criticalIssues.length,
+      expiresAt: record.expiresAt,
+      store: this.store.name,
+    });
+
+    await this.notifyReviewers(record);
+    await this.submitToTaskQueue(record);
+
+    return reviewId;
+  }
+
+  // A failed transport must not lose the review: it is already stored and can be found from the queue
+  // or the store, so delivery errors are logged rather than thrown.
+  private async notifyReviewers(record: ReviewRecord): Promise<void> {
+    await Promise.all(this.notifiers.map(async notifier => {
+      try {
+        await notifier.notify(record);
+        console.log('HumanReviewSystem: Reviewers notified', { reviewId: record.id, notifier: notifier.name });
+      } catch (error: any) {
+        console.error('HumanReviewSystem: Notification failed', { reviewId: record.id, notifier: notifier.name, error: error.message });
+      }
+    }));
+  }
+
+  private async submitToTaskQueue(record: ReviewRecord): Promise<void> {
+    if (!this.queue) return;
+    try {
+      await this.queue.enqueue({
+        reviewId: record.id,
+        type: record.input.reviewType,
+        urgency: record.input.reviewRequest.urgency,
+        questions: record.input.reviewRequest.specificQuestions,
+        expiresAt: record.expiresAt,
+        enqueuedAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      console.error('HumanReviewSystem: Task queue submission failed', { reviewId: record.id, queue: this.queue.name, error: error.message });
+    }
+  }
+
+  async checkReviewStatus(reviewId: string): Promise<'pending' | 'completed' | 'expired'> {
+    const record = await this.store.load(reviewId);
+    if (!record || record.status === 'failed') return 'expired';
+
+    if (record.status === 'pending' && new Date() > new Date(record.expiresAt)) {
+      await this.expireReview(reviewId);
+      return 'expired';
+    }
+
+    return record.status;
+  }
+
+  async getReviewResult(reviewId: string): Promise<HumanReviewOutput['humanInput'] | null> {
+    const record = await this.store.load(reviewId);
+    if (!record || record.status !== 'completed') {
+      return null;
+    }
+    return record.result || null;
+  }
+
+  async expireReview(reviewId: string): Promise<void> {
+    const record = await this.store.load(reviewId);
+    if (record && record.status === 'pending') {
+      await this.store.transition(withAuditEntry({ ...record, status: 'expired' }, { at: new Date().toISOString(), actor: 'system', action: 'expired' }), 'pending');
+    }
+
+    console.log('HumanReviewSystem: Review expired', {
+      reviewId,
+      submittedAt: record?.submittedAt,
+      expiresAt: record?.expiresAt,
+    });
+  }
+
+  // Method for external systems to submit review results
+  // A plain string reviewer is recorded as self-reported.
+  async submitReviewResult(reviewId: string, result: HumanReviewOutput['humanInput'], reviewer: string | ReviewerIdentity = 'unknown'): Promise<boolean> {
+    const record = await this.store.load(reviewId);
+    if (!record || record.status !== 'pending') {
+      return false;
+    }
+    if (new Date() > new Date(record.expiresAt)) {
+      await this.expireReview(reviewId);
+      return false;
+    }
+
+    const { name, source }: ReviewerIdentity = typeof reviewer === 'string' ? { name: reviewer, source: 'self_reported' } : reviewer;
+    const completedAt = new Date().toISOString();
+    // Only the first of two concurrent decisions moves the review out of `pending`; the other is refused.
+    const decided = await this.store.transition(withAuditEntry({ ...record, status: 'completed', result, completedAt, decidedBy: name, decidedBySource: source }, {
+      at: completedAt,
+      actor: name,
+      actorSource: source,
+      action: 'decided',
+      decision: result?.decision,
+      confidenceAdjustment: result?.confidenceAdjustment,
+      modifiedFields: result?.modifications ? Object.keys(result.modifications) : undefined,
+    }), 'pending');
+    if (!decided) {
+      return false;
+    }
+
+    console.log('HumanReviewSystem: Review completed', {
+      reviewId,
+      decision: result?.decision,
+      reviewer: name,
+      reviewerSource: source,
+      completedAt,
+    });
+
+    return true;
+  }
+
+  /** Pending reviews, most urgent first and then soonest to expire. Reviews past their deadline are expired on the way. */
+  async listPendingReviews(): Promise<ReviewRecord[]> {
+    const pending: ReviewRecord[] = [];
+    for (const record of await this.store.list('pending')) {
+      if (new Date() > new Date(record.expiresAt)) await this.expireReview(record.id);
+      else pending.push(record);
+    }
+    return pending.sort((a, b) =>
+      URGENCY_RANK[a.input.reviewRequest.urgency] - URGENCY_RANK[b.input.reviewRequest.urgency] || a.expiresAt.localeCompare(b.expiresAt));
+  }
+
+  /** Decided and expired reviews, most recently closed first. */
+  async listClosedReviews(limit = 50): Promise<ReviewRecord[]> {
+    const closed = [...await this.store.list('completed'), ...await this.store.list('expired')];
+    const closedAt = (record: ReviewRecord) => record.completedAt ?? record.auditTrail?.at(-1)?.at ?? record.expiresAt;
+    return closed.sort((a, b) => closedAt(b).localeCompare(closedAt(a))).slice(0, limit);
+  }
+}
+
+/** Builds the system from REVIEW_STORE, REVIEW_QUEUE_URL, the notifier variables and REVIEW_TIMEOUT_MINUTES. */
+export function createHumanReviewSystemFromEnv(env: Record<string, string | undefined> = process.env): HumanReviewSystem {
+  return new HumanReviewSystem({
+    store: createReviewStoreFromEnv(env),
+    notifiers: createReviewNotifiersFromEnv(env),
+    queue: createReviewQueueFromEnv(env),
+    timeoutMinutes: env.REVIEW_TIMEOUT_MINUTES ? parseInt(env.REVIEW_TIMEOUT_MINUTES, 10) : undefined,
+  });
+}
+
+let activeSystem: HumanReviewSystem | undefined;
+
+export function getHumanReviewSystem(): HumanReviewSystem {
+  if (!activeSystem) {
+    activeSystem = createHumanReviewSystemFromEnv();
+    console.log(`HumanReviewSystem: Using ${activeSystem.store.name} review store.`);
+  }
+  return activeSystem;
+}
+
+/** Overrides the process-wide system; passing undefined restores environment-based selection on next use. */
+export function setHumanReviewSystem(system: HumanReviewSystem | undefined): void {
+  activeSystem = system;
+}
@@ -2,6 +2,8 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { getHumanReviewSystem } from './human-review-system';
+import { HumanReviewDecisionSchema } from './review-decisions';
 
 // E10: Human Review Tool - Enables human-in-the-loop for critical decisions
 
@@ -17,6 +19,7 @@ const HumanReviewInputSchema = z.object({
     }),
     criticalIssues: z.array(z.string()),
     artifacts: z.record(z.string(), z.any()).optional(),
+    sessionId: z.string().optional().describe('Master orchestrator session suspended until the review is decided'),
   }),
   reviewRequest: z.object({
     specificQuestions: z.array(z.string()),
@@ -30,184 +33,12 @@ export type HumanReviewInput = z.infer<typeof HumanReviewInputSchema>;
 const HumanReviewOutputSchema = z.object({
   reviewCompleted: z.boolean(),
   reviewId: z.string(),
-  humanInput: z.object({
-    decision: z.enum(['approve', 'reject', 'modify', 'request_more_analysis']).optional(),
-    feedback: z.string().optional(),
-    modifications: z.record(z.string(), z.any()).optional(),
-    additionalGuidance: z.array(z.string()).optional(),
-    confidenceAdjustment: z.enum(['increase', 'decrease', 'maintain']).optional(),
-  }).optional(),
+  humanInput: HumanReviewDecisionSchema.optional(),
   nextSteps: z.array(z.string()),
   timestamp: z.string(),
 });
 export type HumanReviewOutput = z.infer<typeof HumanReviewOutputSchema>;
 
-// Human Review System - Production Ready Interface
-// This implementation provides the structure for real integrations
-interface ReviewSystemConfig {
-  taskQueueUrl?: string;
-  notificationEmail?: string;
-  timeoutMinutes?: number;
-  webhookUrl?: string;
-}
-
-interface ReviewSubmission {
-  id: string;
-  input: HumanReviewInput;
-  submittedAt: Date;
-  expiresAt: Date;
-  status: 'pending' | 'completed' | 'expired' | 'failed';
-  result?: HumanReviewOutput['humanInput'];
-}
-
-class HumanReviewSystem {
-  private config: ReviewSystemConfig;
-  private pendingReviews: Map<string, ReviewSubmission> = new Map();
-  
-  constructor(config: ReviewSystemConfig = {}) {
-    // Load from environment if available and merge with provided config
-    const envTimeoutMinutes = process.env.REVIEW_TIMEOUT_MINUTES ? parseInt(process.env.REVIEW_TIMEOUT_MINUTES) : undefined;
-    
-    this.config = {
-      timeoutMinutes: envTimeoutMinutes || config.timeoutMinutes || 30,
-      taskQueueUrl: process.env.REVIEW_QUEUE_URL || config.taskQueueUrl,
-      notificationEmail: process.env.REVIEW_NOTIFICATION_EMAIL || config.notificationEmail,
-      webhookUrl: config.webhookUrl,
-    };
-  }
-  
-  async submitForReview(input: HumanReviewInput): Promise<string> {
-    const reviewId = `review_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    const submittedAt = new Date();
-    const expiresAt = new Date(submittedAt.getTime() + (this.config.timeoutMinutes! * 60 * 1000));
-    
-    const submission: ReviewSubmission = {
-      id: reviewId,
-      input,
-      submittedAt,
-      expiresAt,
-      status: 'pending',
-    };
-    
-    this.pendingReviews.set(reviewId, submission);
-    
-    // Log structured review data
-    console.log('HumanReviewSystem: Review submitted', {
-      reviewId,
-      reviewType: input.reviewType,
-      urgency: input.reviewRequest.urgency,
-      questionsCount: input.reviewRequest.specificQuestions.length,
-      criticalIssuesCount: input.context.criticalIssues.length,
-      expiresAt: expiresAt.toISOString(),
-    });
-    
-    // TODO: Production integrations
-    await this.notifyReviewers(submission);
-    await this.submitToTaskQueue(submission);
-    
-    return reviewId;
-  }
-  
-  private async notifyReviewers(submission: ReviewSubmission): Promise<void> {
-    // TODO: Replace with real notification system
-    if (this.config.notificationEmail) {
-      console.log('HumanReviewSystem: [TODO] Send email notification', {
-        to: this.config.notificationEmail,
-        subject: `Human Review Required: ${submission.input.reviewType}`,
-        reviewId: submission.id,
-        urgency: submission.input.reviewRequest.urgency,
-      });
-    }
-    
-    // TODO: Add Slack/Teams/Discord webhook notifications
-    if (this.config.webhookUrl) {
-      console.log('HumanReviewSystem: [TODO] Send webhook notification', {
-        webhook: this.config.webhookUrl,
-        reviewId: submission.id,
-      });
-    }
-  }
-  
-  private async submitToTaskQueue(submission: ReviewSubmission): Promise<void> {
-    // TODO: Replace with real task queue (AWS SQS, RabbitMQ, etc.)
-    if (this.config.taskQueueUrl) {
-      console.log('HumanReviewSystem: [TODO] Submit to task queue', {
-        queueUrl: this.config.taskQueueUrl,
-        reviewId: submission.id,
-        message: {
-          reviewId: submission.id,
-          type: submission.input.reviewType,
-          urgency: submission.input.reviewRequest.urgency,
-          questions: submission.input.reviewRequest.specificQuestions,
-          expiresAt: submission.expiresAt.toISOString(),
-        },
-      });
-    }
-  }
-  
-  async checkReviewStatus(reviewId: string): Promise<'pending' | 'completed' | 'expired'> {
-    const submission = this.pendingReviews.get(reviewId);
-    if (!submission) return 'expired';
-    
-    // Check if expired
-    if (new Date() > submission.expiresAt) {
-      submission.status = 'expired';
-      return 'expired';
-    }
-    
-    // TODO: Check external review system status
-    // This would integrate with your review dashboard/API
-    
-    return submission.status as 'pending' | 'completed' | 'expired';
-  }
-  
-  async getReviewResult(reviewId: string): Promise<HumanReviewOutput['humanInput'] | null> {
-    const submission = this.pendingReviews.get(reviewId);
-    if (!submission || submission.status !== 'completed') {
-      return null;
-    }
-    
-    // TODO: Retrieve from external review system
-    // This would fetch the actual human reviewer's input
-    
-    return submission.result || null;
-  }
-  
-  async expireReview(reviewId: string): Promise<void> {
-    const submission = this.pendingReviews.get(reviewId);
-    if (submission) {
-      submission.status = 'expired';
-    }
-    
-    console.log('HumanReviewSystem: Review expired', {
-      reviewId,
-      submittedAt: submission?.submittedAt?.toISOString(),
-      expiresAt: submission?.expiresAt?.toISOString(),
-    });
-  }
-  
-  // Method for external systems to submit review results
-  async submitReviewResult(reviewId: string, result: HumanReviewOutput['humanInput']): Promise<boolean> {
-    const submission = this.pendingReviews.get(reviewId);
-    if (!submission || submission.status !== 'pending') {
-      return false;
-    }
-    
-    submission.result = result;
-    submission.status = 'completed';
-    
-    console.log('HumanReviewSystem: Review completed', {
-      reviewId,
-      decision: result?.decision,
-      completedAt: new Date().toISOString(),
-    });
-    
-    return true;
-  }
-}
-
-const humanReviewSystem = new HumanReviewSystem();
-
 // Function Tool for Human Review
 export const humanReviewTool = ai.defineTool({
   name: 'humanReviewTool',
@@ -217,15 +48,11 @@ export const humanReviewTool = ai.defineTool({
 }, async (input: HumanReviewInput): Promise<HumanReviewOutput> => {
   try {
     // Submit for review
+    const humanReviewSystem = getHumanReviewSystem();
     const reviewId = await humanReviewSystem.submitForReview(input);
     
-    // In production, this would:
-    // 1. Pause the workflow
-    // 2. Wait for human input (with timeout)
-    // 3. Resume with human guidance
-    
-    // For now, we'll simulate immediate response needed
-    const status = await humanReviewSystem.checkReviewStatus(reviewId);
+    // A reviewer can only have answered already if the store is shared with an automated reviewer;
+    // otherwise the caller suspends (the master orchestrator checkpoints the session) and resumes later.
     const humanInput = await humanReviewSystem.getReviewResult(reviewId);
     
     if (humanInput) {
@@ -243,7 +70,10 @@ export const humanReviewTool = ai.defineTool({
       reviewCompleted: false,
       reviewId,
       humanInput: undefined,
-      nextSteps: [
+      nextSteps: input.context.sessionId ? [
+        `Suspend session ${input.context.sessionId} until the review is decided`,
+        'Resume the session with its resume token after submitReviewResult',
+      ] : [
         'Continue with automated analysis at lower confidence',
         'Flag results as pending human review',
         'Provide conservative recommendations',
@@ -263,6 +93,25 @@ export const humanReviewTool = ai.defineTool({
   }
 });
 
+// Reads back a submitted review: still pending, expired, or completed with the reviewer's input.
+export async function collectHumanReview(reviewId: string): Promise<{ status: 'pending' | 'completed' | 'expired'; output?: HumanReviewOutput }> {
+  const humanReviewSystem = getHumanReviewSystem();
+  const status = await humanReviewSystem.checkReviewStatus(reviewId);
+  if (status !== 'completed') return { status };
+
+  const humanInput = await humanReviewSystem.getReviewResult(reviewId);
+  return {
+    status,
+    output: {
+      reviewCompleted: true,
+      reviewId,
+      humanInput: humanInput ?? undefined,
+      nextSteps: determineNextSteps(humanInput ?? undefined),
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
 function determineNextSteps(humanInput: HumanReviewOutput['humanInput']): string[] {
   if (!humanInput) return [];
   
@@ -317,7 +166,8 @@ export async function requestHumanReview(
   confidence: HumanReviewInput['context']['confidence'],
   criticalIssues: string[],
   specificQuestions: string[],
-  urgency: HumanReviewInput['reviewRequest']['urgency'] = 'medium'
+  urgency: HumanReviewInput['reviewRequest']['urgency'] = 'medium',
+  sessionId?: string
 ): Promise<HumanReviewOutput> {
   const input: HumanReviewInput = {
     reviewType,
@@ -326,6 +176,7 @@ export async function requestHumanReview(
       currentAnalysis,
       confidence,
       criticalIssues,
+      sessionId,
     },
     reviewRequest: {
       specificQuestions,
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'ImpactAssessmentAgent';
+
 // F6 Part 1: Impact Assessment Agent - Assesses impact of gaps and assumptions
 
 const ImpactAssessmentInputSchema = z.object({
@@ -73,6 +76,7 @@ const DEFAULT_OUTPUT: ImpactAssessmentOutput = {
 
 const impactAssessmentPrompt = ai.definePrompt({
   name: 'impactAssessmentPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { schema: ImpactAssessmentInputSchema },
   output: { schema: ImpactAssessmentOutputSchema },
   prompt: `You are an Impact Assessment Agent evaluating the consequences of information gaps and assumptions.
@@ -11,8 +11,11 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
+const AGENT_NAME = 'InformationGapAgent';
+
 const InformationGapInputSchema = z.object({
   answer: z.string().describe('The answer to analyze for information gaps.'),
 });
@@ -91,6 +94,7 @@ export async function analyzeInformationGaps(input: InformationGapInput): Promis
 
 const prompt = ai.definePrompt({
   name: 'informationGapPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {schema: InformationGapInputSchema},
   output: {schema: InformationGapOutputSchema},
   prompt: `You are an expert information gap analyzer. Given the following answer, your task is to identify critical missing pieces of information or unanswered questions that, if known, would significantly affect the understanding, validity, or completeness of the answer.
@@ -1,9 +1,12 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 import { respond, type RespondOutput } from './responder-agent';
 
+const AGENT_NAME = 'InitialAnswerLoopAgent';
+
 // E4: Initial Answer Generation Loop - Iterative refinement with quick critique
 
 const InitialAnswerLoopInputSchema = z.object({
@@ -36,6 +39,7 @@ type QuickCritiqueOutput = z.infer<typeof QuickCritiqueOutputSchema>;
 
 const quickCritiquePrompt = ai.definePrompt({
   name: 'quickCritiquePrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { 
     schema: z.object({
       query: z.string(),
@@ -97,6 +101,7 @@ async function quickCritique(query: string, answer: string, iteration: number):
 // Answer Refinement Agent - Takes critique and improves the answer
 const answerRefinementPrompt = ai.definePrompt({
   name: 'answerRefinementPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {
     schema: z.object({
       query: z.string(),
@@ -0,0 +1,94 @@
+import type { OrchestratorEvent } from './orchestrator-events';
+
+// The model registry and stores are configured when genkit.ts is first imported, so the modules under test are imported in the test.
+Object.assign(process.env, {
+  USE_STUB_MODEL: 'true',
+  EVIDENCE_RETRIEVER: 'fixture',
+  LLM_CACHE: 'off',
+  TOOL_AUDIT_STORE: 'none',
+  OTEL_TRACES_EXPORTER: 'none',
+});
+
+describe('submitHumanReviewAndResume', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should re-run every phase from the requested one through synthesis before finalizing', async () => {
+    const { orchestrateWithMaster, submitHumanReviewAndResume } = await import('./master-orchestrator-agent');
+    const { HumanReviewSystem, setHumanReviewSystem } = await import('./human-review-system');
+    const { InMemoryReviewStore } = await import('./review-store');
+    const { InMemorySessionRepository } = await import('./session-repository');
+    setHumanReviewSystem(new HumanReviewSystem({ store: new InMemoryReviewStore() }));
+    const sessionRepository = new InMemorySessionRepository();
+
+    const suspended = await orchestrateWithMaster({
+      query: 'Should our engineering team stay remote-first?',
+      enableHumanReview: true, confidenceThresholdForHumanReview: 'High', enableClarification: false, maxRetries: 1,
+    }, { sessionRepository });
+    expect(suspended.awaitingReview).toBe(true);
+
+    const startedPhases: string[] = [];
+    const resumed = await submitHumanReviewAndResume(
+      suspended.sessionState.humanReview!.reviewId, { decision: 'request_more_analysis', modifications: { rerunPhases: [2] } }, 'dana@example.com',
+      { sessionRepository, onEvent: (event: OrchestratorEvent) => { if (event.type === 'phase_started') startedPhases.push(event.phase); } },
+    );
+
+    expect(startedPhases).toEqual([
+      'Phase6_HumanReviewAndFinalization',
+      'Phase2_EvidenceGatheringAndAnalysis',
+      'Phase3_InDepthAnalysisAndChallenge',
+      'Phase4_PreSynthesisStructuringAndQA',
+      'Phase5_SynthesisVerificationAndRefinement',
+      'Phase6_HumanReviewAndFinalization',
+    ]);
+    expect(resumed?.sessionState.humanReview).toEqual(expect.objectContaining({ status: 'reanalyzed', rerunPhases: [2, 3, 4, 5] }));
+    expect(resumed?.awaitingReview).toBe(false);
+    setHumanReviewSystem(undefined);
+  });
+});
+
+describe('runWhatIfScenario', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should compare against the scored confidence, not the penalized or reviewed one', async () => {
+    const { orchestrateWithMaster, runWhatIfScenario } = await import('./master-orchestrator-agent');
+    const { InMemorySessionRepository } = await import('./session-repository');
+    const sessionRepository = new InMemorySessionRepository();
+
+    const finished = await orchestrateWithMaster({
+      query: 'Should our engineering team stay remote-first?',
+      enableHumanReview: false, confidenceThresholdForHumanReview: 'Low', enableClarification: false, maxRetries: 1,
+    }, { sessionRepository });
+    const checkpoint = (await sessionRepository.loadCheckpoint(finished.sessionId!))!;
+    const scored = { score: 'High' as const, numericScore: 80, rationale: 'Scored' };
+    // As if a budget penalty or a reviewer had lowered the session's confidence after scoring.
+    await sessionRepository.saveCheckpoint({
+      ...checkpoint,
+      sessionState: {
+        ...checkpoint.sessionState,
+        overallConfidence: { score: 'Low', numericScore: 30, rationale: 'Penalized' },
+        artifacts: { ...checkpoint.sessionState.artifacts, confidence_scoring: { ...(checkpoint.sessionState.artifacts['confidence_scoring'] as object), overallConfidence: scored } },
+      },
+    });
+
+    const result = await runWhatIfScenario(finished.sessionId!, [{ assumption: checkpoint.sessionState.assumptions![0].assumption, changeType: 'reversed' }], { sessionRepository });
+
+    expect(result.baseline.overallConfidence).toEqual(scored);
+    expect(result.confidenceAdjustment).toBe(result.scenario.overallConfidence!.numericScore - 80);
+  });
+});
@@ -5,110 +5,104 @@ import { z } from 'genkit';
 
 // Import all agent functions and types
 import { type AnalyzeAssumptionsOutput, analyzeAssumptions } from './assumption-analyzer-agent';
-import { type ArgumentReconstructionOutput, reconstructArgument, argumentReconstructionTool } from './argument-reconstruction-agent';
-import { type BiasDetectionOutput, detectBiases, biasDetectionTool } from './bias-detection-agent';
+import { type ArgumentReconstructionOutput, reconstructArgument } from './argument-reconstruction-agent';
+import { type BiasDetectionOutput, detectBiases } from './bias-detection-agent';
 import { type ChallengeOutput, challenge } from './devils-advocate-agent';
-import { type ConfidenceScoringOutput, scoreConfidence, confidenceScoringTool } from './confidence-scoring-agent';
-import { type CounterArgumentIntegrationOutput, integrateCounterArguments, counterArgumentIntegrationTool } from './counter-argument-integration-agent';
+import { extractClaims } from './claim-extraction-agent';
+import { type ConfidenceScoringOutput, scoreConfidence } from './confidence-scoring-agent';
+import { type CounterArgumentIntegrationOutput, integrateCounterArguments } from './counter-argument-integration-agent';
 import { type ResearchCounterEvidenceOutput, researchCounterEvidence } from './counter-evidence-researcher-agent';
 import { type CritiqueAgentOutput, critiqueAgent } from './critic-agent';
-import { type DynamicRoutingOutput, routeAnalyticalAgents, dynamicRoutingCoordinatorTool } from './dynamic-routing-coordinator-agent';
-import { type FactVerificationOutput, verifyFacts, factVerificationTool } from './fact-verification-loop-agent';
-import { type HumanReviewOutput, requestHumanReview } from './human-review-tool';
-import { type ImpactAssessmentOutput, assessImpact, impactAssessmentTool } from './impact-assessment-agent';
+import { type DynamicRoutingOutput, routeAnalyticalAgents } from './dynamic-routing-coordinator-agent';
+import { type FactVerificationOutput, verifyFacts } from './fact-verification-loop-agent';
+import { type HumanReviewOutput, collectHumanReview, requestHumanReview } from './human-review-tool';
+import { type ImpactAssessmentOutput, assessImpact } from './impact-assessment-agent';
 import { type InformationGapOutput, analyzeInformationGaps } from './information-gap-agent';
-import { type InitialAnswerLoopOutput, runInitialAnswerLoop, initialAnswerLoopTool } from './initial-answer-loop-agent';
-import { type NuancePreservationOutput, checkNuancePreservation, nuancePreservationTool } from './nuance-preservation-check-agent';
+import { type InitialAnswerLoopOutput, runInitialAnswerLoop } from './initial-answer-loop-agent';
+import { type NuancePreservationOutput, checkNuancePreservation } from './nuance-preservation-check-agent';
 import { type PremortemOutput, analyzeFailures } from './premortem-agent';
-import { type QualityCheckOutput, checkQuality, qualityCheckTool } from './quality-check-agent';
-import { type QueryRefinementOutput, refineQuery, refineQueryTool } from './query-refinement-agent';
+import { type QualityCheckOutput, checkQuality } from './quality-check-agent';
+import { type QueryRefinementOutput, refineQuery } from './query-refinement-agent';
 import { type ResearchEvidenceOutput, researchEvidence } from './researcher-agent';
-import { type SensitivityAnalysisOutput, analyzeSensitivity, sensitivityAnalysisTool } from './sensitivity-analysis-agent';
-import { type SynthesisCritiqueLoopOutput, critiqueSynthesis, synthesisCritiqueLoopTool } from './synthesis-critique-loop-agent';
-import { type SynthesisEnsembleOutput, runSynthesisEnsemble, synthesisEnsembleTool } from './synthesis-ensemble-agent';
+import { type SensitivityAnalysisInput, type SensitivityAnalysisOutput, analyzeSensitivity } from './sensitivity-analysis-agent';
+import { type SynthesisCritiqueLoopOutput, critiqueSynthesis } from './synthesis-critique-loop-agent';
+import { type SynthesisEnsembleInput, type SynthesisEnsembleOutput, reviseSynthesis, runSynthesisEnsemble } from './synthesis-ensemble-agent';
+import { SYNTHESIS_PERSPECTIVE_COUNT } from './synthesis-perspectives';
+import { DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS, SynthesisRefinementSchema, refineSynthesis } from './synthesis-refinement';
+import { VerifiedClaimSchema, extractClaimsHeuristically, toVerifiedClaims, type AggregatedEvidence } from './atomic-claims';
+import { ModelUsageSchema, addModelCall, runWithModelUsageContext, type ModelCallRecord, type ModelUsage } from '@/ai/llm-usage';
+import { SessionBudgetSchema, SessionBudgetStateSchema, SessionBudgetTracker, initialBudgetState, penalizeConfidence } from './session-budget';
+import { addSpanEvent, setSpanAttributes, withSpan } from '@/ai/telemetry';
+import { withReplayChecks } from '@/ai/llm-cassettes';
+import { orchestratorMetrics } from './prometheus-metrics';
+import { AssumptionChangeSchema, WHAT_IF_SCENARIO_ID, compareOutcomes, toAssumptionOverride, type AssumptionChange, type WhatIfOutcome, type WhatIfResult } from './what-if';
+import {
+  FOLLOW_UP_STEP_AGENTS, FollowUpTurnSchema, answerFollowUpHeuristically, buildFollowUpContext, followUpAssumptionChanges, normalizeFollowUpPlan,
+  planFollowUpHeuristically, resolveReferences,
+  type FollowUpFindings, type FollowUpTurn,
+} from './follow-up';
+import { planFollowUp } from './follow-up-planner-agent';
+import {
+  ComparisonRequestSchema, ComparisonStateSchema, buildComparisonResult, describeComparison, heuristicScenarioAdjustments, optionAssumptionLabel,
+  optionClaim, scoreOptionsHeuristically, toComparisonSetup, type ComparisonJudgement, type ComparisonSetup, type OptionAnalysis,
+} from './comparison';
+import { synthesizeComparison } from './comparison-synthesis-agent';
+import { answerFollowUp } from './follow-up-answer-agent';
 // Unused imports (kept for schema completeness if genkit flows use them)
 import { type RespondOutput, respond } from './responder-agent';
 import { type BiasCrossReferencingOutput, crossReferenceBiases } from './bias-cross-referencing-agent';
 import { type EvidenceConflictResolutionOutput, resolveEvidenceConflicts } from './evidence-conflict-resolution-agent';
 import { type SynthesisAgentOutput, synthesizeAnalysis } from './synthesis-agent';
 import { type RedTeamingLoopOutput, runRedTeamingLoop } from './red-teaming-loop-agent';
+import { ExecutedAgentPlanSchema, buildAgentSchedule, runAgentSchedule } from './agent-scheduler';
+import {
+  type SessionCheckpoint, type SessionRepository, generateSessionId, getSessionRepository,
+} from './session-repository';
+import { OrchestratorEventSchema, type OrchestratorEvent, type OrchestratorEventListener } from './orchestrator-events';
+import {
+  CitationSourceSchema, CitationValidationReportSchema, registerCitationSources, splitCritique, validateCitations,
+} from './citation-graph';
+import { ClarificationResponseSchema, ClarificationRoundSchema, foldClarificationAnswers } from './query-clarification';
+import {
+  type HumanReviewState, HumanReviewStateSchema, adjustConfidence, applySynthesisModifications, createResumeToken, parseResumeToken, phasesToRerun,
+} from './review-decisions';
+import { getHumanReviewSystem } from './human-review-system';
+import type { ReviewerIdentity } from './review-store';
 
 
 // === START Local Schema Definitions for Agent Outputs ===
-const QueryRefinementOutputSchema = refineQueryTool.outputSchema || z.object({
+// Agent modules only export their inferred types, so these schemas mirror the agent outputs.
+// Simple shapes are spelled out; complex ones are typed through z.custom to stay in sync with the agents.
+const QueryRefinementOutputSchema = z.object({
     originalQuery: z.string(), refinedQuery: z.string(), refinementReason: z.string(),
-    identifiedIssues: z.array(z.string()), clarificationQuestions: z.array(z.string()),
+    identifiedIssues: z.array(z.object({ issueType: z.string(), description: z.string() })), clarificationQuestions: z.array(z.string()),
 });
-const InitialAnswerLoopOutputSchema = initialAnswerLoopTool.outputSchema || z.object({
+const InitialAnswerLoopOutputSchema = z.object({
     finalAnswer: z.string(), iterations: z.number(),
     improvementHistory: z.array(z.object({ iteration: z.number(), answer: z.string(), critique: z.string() })),
 });
-const PlaceholderAssumptionSchema = z.object({ assumption: z.string(), risk: z.enum(['High', 'Medium', 'Low']), impact: z.string() });
-const AnalyzeAssumptionsOutputSchema = z.array(PlaceholderAssumptionSchema);
-const PlaceholderEvidenceSchema = z.object({ source: z.string(), summary: z.string(), relevance: z.number() });
-const ResearchEvidenceOutputSchema = z.array(PlaceholderEvidenceSchema);
-const ResearchCounterEvidenceOutputSchema = z.array(PlaceholderEvidenceSchema);
-const DynamicRoutingOutputSchema = dynamicRoutingCoordinatorTool.outputSchema || z.object({
-    recommendedAgents: z.array(z.object({ agentName: z.string(), priority: z.string(), reasoning: z.string(), executionOrder: z.number() })),
-    parallelExecutionGroups: z.array(z.array(z.string())), sequentialDependencies: z.array(z.object({ agent: z.string(), dependsOn: z.array(z.string()) })),
-    analysisStrategy: z.object({ approach: z.string(), reasoning: z.string(), estimatedComplexity: z.string(), riskLevel: z.string() }),
-    optimizations: z.object({ canSkipAgents: z.array(z.string()), prioritizeAgents: z.array(z.string()), resourceAllocation: z.string() }),
-});
-const BiasDetectionOutputSchema = biasDetectionTool.outputSchema || z.object({
-    detectedBiases: z.array(z.object({ biasType: z.string(), evidence: z.string(), confidence: z.number() })),
-    biasAnalysis: z.string(), riskLevel: z.enum(['low', 'medium', 'high']), recommendations: z.array(z.string()),
-});
-const BiasCrossReferencingOutputSchema = z.object({ reportSummary: z.string(), detailedFindings: z.array(z.object({ biasType: z.string(), sourceAgent: z.string(), finding: z.string(), })), confidenceScore: z.number() });
-const EvidenceConflictResolutionOutputSchema = z.object({ identifiedConflicts: z.array(z.object({ conflictDescription: z.string(), evidenceIds: z.array(z.string()), resolutionStrategy: z.string(), })), resolutionAnalysis: z.string(), synthesisGuidance: z.string(), });
-const ArgumentReconstructionOutputSchema = argumentReconstructionTool.outputSchema || z.object({
-    balancedBrief: z.object({ neutralSummary: z.string(), keyPositions: z.array(z.string()), majorCritiques: z.array(z.string()), counterPositions: z.array(z.string()), unresolved: z.array(z.string()) }),
-    reconstructionApproach: z.string(), biasCheckResults: z.object({ anchoringBiasRisk: z.string(), mitigationApplied: z.array(z.string()) }),
-});
-const CounterArgumentIntegrationOutputSchema = counterArgumentIntegrationTool.outputSchema || z.object({
-    pressureTestedBrief: z.object({ integratedSummary: z.string(), claimsAndCounterclaims: z.array(z.object({ claim: z.string(), counterClaim: z.string() })), revisedPositions: z.array(z.string()), strengthenedPoints: z.array(z.string()), invalidatedPoints: z.array(z.string()) }),
-    integrationMetrics: z.object({ counterEvidenceAddressed: z.number(), challengesIntegrated: z.number(), positionsRevised: z.number() }),
-    integrationQuality: z.string(),
-});
-const ImpactAssessmentOutputSchema = impactAssessmentTool.outputSchema || z.object({
-    impactAssessments: z.object({ overallImpactSummary: z.string(), criticalGapImpacts: z.array(z.object({ gap: z.string(), impact: z.string() })), criticalAssumptionImpacts: z.array(z.object({ assumption: z.string(), impact: z.string() })), compoundedRisks: z.array(z.string()) }),
-    recommendedActions: z.array(z.string()), confidenceCeiling: z.object({ maxConfidenceGivenGaps: z.string(), reasoning: z.string() }),
+const AssumptionSchema = z.object({ assumption: z.string(), risk: z.enum(['High', 'Medium', 'Low']), alternative: z.string() });
+const AnalyzeAssumptionsOutputSchema = z.array(AssumptionSchema);
+const EvidenceSchema = z.object({
+    claim: z.string(), support: z.string(), quality: z.enum(['high', 'moderate', 'low']), source: z.string(),
+    documentId: z.string(), url: z.string(), quote: z.string(),
 });
+const ResearchEvidenceOutputSchema = z.array(EvidenceSchema);
+const ResearchCounterEvidenceOutputSchema = z.array(EvidenceSchema);
+const DynamicRoutingOutputSchema = z.custom<DynamicRoutingOutput>();
+const BiasDetectionOutputSchema = z.custom<BiasDetectionOutput>();
+const BiasCrossReferencingOutputSchema = z.custom<BiasCrossReferencingOutput>();
+const EvidenceConflictResolutionOutputSchema = z.custom<EvidenceConflictResolutionOutput>();
+const BalancedBriefSchema = z.custom<ArgumentReconstructionOutput['balancedBrief']>();
+const PressureTestedBriefSchema = z.custom<CounterArgumentIntegrationOutput['pressureTestedBrief']>();
+const ImpactAssessmentsSchema = z.custom<ImpactAssessmentOutput['impactAssessments']>();
 const QualityScoresSchema = z.object({ critiqueQuality: z.number().optional(), biasDetectionQuality: z.number().optional(), researchQuality: z.number().optional() });
-
-const QualityCheckOutputSchema = qualityCheckTool.outputSchema || z.object({
-    overallQuality: z.object({ averageScore: z.number(), category: z.string(), summary: z.string() }),
-    componentQuality: z.object({ 
-        critiqueQuality: QualityScoresSchema.shape.critiqueQuality.optional(), 
-        biasDetectionQuality: QualityScoresSchema.shape.biasDetectionQuality.optional(), 
-        researchQuality: QualityScoresSchema.shape.researchQuality.optional(), 
-        counterResearchQuality: z.object({ score: z.number(), category: z.string(), reasoning: z.string(), specificIssues: z.array(z.string()), recommendations: z.array(z.string()) }).optional(),
-        assumptionsQuality: z.object({ score: z.number(), category: z.string(), reasoning: z.string(), specificIssues: z.array(z.string()), recommendations: z.array(z.string()) }).optional()
-    }),
-    qualityFactors: z.object({ strengthFactors: z.array(z.string()), weaknessFactors: z.array(z.string()), criticalIssues: z.array(z.string()) }),
-    recommendations: z.object({ immediateActions: z.array(z.string()), synthesisGuidance: z.string(), confidenceAdjustments: z.array(z.string()) }),
-});
-const ConfidenceScoringOutputSchema = confidenceScoringTool.outputSchema || z.object({
-    overallConfidence: z.object({ score: z.string(), numericScore: z.number(), rationale: z.string() }),
-    componentScores: z.unknown(), confidenceFactors: z.unknown(), recommendations: z.unknown(),
-});
-const SensitivityAnalysisOutputSchema = sensitivityAnalysisTool.outputSchema || z.object({
-    overallRobustness: z.object({ score: z.number(), category: z.string(), summary: z.string() }),
-    scenarioTests: z.array(z.unknown()), assumptionSensitivity: z.array(z.unknown()), conclusionStability: z.array(z.unknown()),
-    riskAssessment: z.unknown(), recommendations: z.unknown(),
-});
-const SynthesisEnsembleOutputSchema = synthesisEnsembleTool.outputSchema || z.object({
-    individualPerspectives: z.array(z.unknown()),
-    metaSynthesis: z.object({ confidence: z.string(), summary: z.string(), keyStrengths: z.array(z.string()), keyWeaknesses: z.array(z.string()), howCounterEvidenceWasAddressed: z.array(z.string()), actionableRecommendations: z.array(z.string()), remainingUncertainties: z.array(z.string()), perspectiveDivergence: z.string(), synthesisApproach: z.string() }),
-    errorHandling: z.object({ criticalFailuresDetected: z.boolean(), failureImpactDescription: z.string() }),
-});
-const FactVerificationOutputSchema = factVerificationTool.outputSchema || z.object({
-  verificationSummary: z.object({ totalClaims: z.number(), verifiedClaims: z.number(), contradictedClaims: z.number(), unverifiedClaims: z.number(), overallReliability: z.string(), averageConfidence: z.number() }),
-  claimVerifications: z.array(z.unknown()), verificationConcerns: z.unknown(), recommendations: z.unknown(), verificationMetrics: z.unknown(),
-});
-const NuancePreservationOutputSchema = nuancePreservationTool.outputSchema || z.object({
-  preservationSummary: z.object({ totalNuances: z.number(), preservedNuances: z.number(), partiallyPreservedNuances: z.number(), lostNuances: z.number(), distortedNuances: z.number(), overallPreservationScore: z.number(), preservationCategory: z.string() }),
-  nuanceAnalysis: z.array(z.unknown()), preservationConcerns: z.unknown(), recommendations: z.unknown(), nuanceMetrics: z.unknown(),
-});
+const OverallConfidenceSchema = z.custom<ConfidenceScoringOutput['overallConfidence']>();
+const SensitivityAnalysisOutputSchema = z.custom<SensitivityAnalysisOutput>();
+const SynthesisEnsembleOutputSchema = z.custom<SynthesisEnsembleOutput>();
+const MetaSynthesisSchema = z.custom<SynthesisEnsembleOutput['metaSynthesis']>();
+const FactVerificationOutputSchema = z.custom<FactVerificationOutput>();
+const NuancePreservationOutputSchema = z.custom<NuancePreservationOutput>();
 // === END Local Schema Definitions ===
 
 const ErrorInfoSchema = z.object({
@@ -130,7 +124,8 @@ function getDefaultOutputForAgent(agentName: string): any {
     'CritiqueAgent': '' as CritiqueAgentOutput,
     'EvidenceConflictResolutionAgent': { identifiedConflicts: [], resolutionAnalysis: '', synthesisGuidance: 'Unable to analyze conflicts' } as EvidenceConflictResolutionOutput,
   };
-  return defaults[agentName as keyof typeof defaults] || {} as any;
+  // Undefined for other agents, so that callers fall back to their own default (`|| ...`).
+  return defaults[agentName as keyof typeof defaults];
 }
 
 const SessionStateSchema = z.object({
@@ -141,41 +136,74 @@ const SessionStateSchema = z.object({
   aggregatedSupportingResearch: ResearchEvidenceOutputSchema.optional(),
   aggregatedCounterResearch: ResearchCounterEvidenceOutputSchema.optional(),
   routingDecision: DynamicRoutingOutputSchema.optional(),
+  executedRoutingPlans: z.array(ExecutedAgentPlanSchema).optional().describe('Per-phase plans actually run from routingDecision'),
   potentialBiases: BiasDetectionOutputSchema.optional(),
   crossReferencedBiasReport: BiasCrossReferencingOutputSchema.optional(),
   conflictResolutionAnalysis: EvidenceConflictResolutionOutputSchema.optional(),
   stressTestedArgument: z.string().optional(),
-  balancedBrief: ArgumentReconstructionOutputSchema.shape.balancedBrief.optional(),
-  pressureTestedBrief: CounterArgumentIntegrationOutputSchema.shape.pressureTestedBrief.optional(),
-  impactAssessments: ImpactAssessmentOutputSchema.shape.impactAssessments.optional(),
+  balancedBrief: BalancedBriefSchema.optional(),
+  pressureTestedBrief: PressureTestedBriefSchema.optional(),
+  impactAssessments: ImpactAssessmentsSchema.optional(),
   qualityScores: QualityScoresSchema.optional(),
-  overallConfidence: ConfidenceScoringOutputSchema.shape.overallConfidence.optional(),
+  overallConfidence: OverallConfidenceSchema.optional(),
   sensitivityAnalysisReport: SensitivityAnalysisOutputSchema.optional(),
   draftSynthesisOutput: SynthesisEnsembleOutputSchema.optional(),
   factCheckedSynthesisOutput: FactVerificationOutputSchema.optional(),
   nuancePreservationReport: NuancePreservationOutputSchema.optional(),
-  finalRefinedSynthesisOutput: SynthesisEnsembleOutputSchema.shape.metaSynthesis.optional(),
+  finalRefinedSynthesisOutput: MetaSynthesisSchema.optional(),
+  citationSources: z.array(CitationSourceSchema).optional().describe('Items the synthesis cites, with IDs that stay stable across phases'),
+  citationValidation: CitationValidationReportSchema.optional().describe('Synthesis statements without a supporting reference'),
+  clarification: ClarificationRoundSchema.optional().describe('Clarification round after query refinement, when enabled and questions were raised'),
+  synthesisRefinement: SynthesisRefinementSchema.optional().describe('Phase 5 critique-and-revise history of the synthesis'),
+  verifiedClaims: z.array(VerifiedClaimSchema).optional().describe('Atomic claims of the final synthesis with their verdicts; flagged ones are annotated next to their statement'),
+  humanReview: HumanReviewStateSchema.optional().describe('Phase 6 human review: awaiting a decision, or the decision and its effects'),
+  modelUsage: ModelUsageSchema.optional().describe('Tokens, latency and cost of the model calls made for this session, by agent, phase and model'),
+  budget: SessionBudgetStateSchema.optional().describe('With a budget: the spend against it and every step the budget cut'),
+  followUps: z.array(FollowUpTurnSchema).optional().describe('Follow-up questions asked once the analysis finished, oldest first'),
+  comparison: ComparisonStateSchema.optional().describe('Comparative decision mode: the per-option analyses and the criteria matrix'),
   errorsEncountered: z.array(ErrorInfoSchema).default([]),
   artifacts: z.record(z.string(), z.unknown()).default({}),
 });
 export type SessionState = z.infer<typeof SessionStateSchema>;
 
 const MasterOrchestratorInputSchema = z.object({
-  query: z.string(), enableHumanReview: z.boolean().default(false),
+  query: z.string().optional(), enableHumanReview: z.boolean().default(false),
   confidenceThresholdForHumanReview: z.enum(['High', 'Medium', 'Low']).default('Low'),
   maxRetries: z.number().default(3),
-});
+  sessionId: z.string().optional().describe('ID under which phase checkpoints are saved. Generated when omitted.'),
+  resumeSessionId: z.string().optional().describe('Reload this session\'s checkpoint and run only the remaining phases.'),
+  fromPhase: z.number().int().min(1).max(6).optional().describe('With resumeSessionId: first phase (1-6) to re-run. Defaults to the phase after the last checkpoint.'),
+  enableClarification: z.boolean().default(false).describe('Pause after query refinement when it raises clarification questions.'),
+  clarification: ClarificationResponseSchema.optional().describe('With resumeSessionId: the user\'s answers to a paused clarification round.'),
+  resumeToken: z.string().optional().describe('Token returned with awaitingReview; resumes the session once the review is decided.'),
+  maxRefinementIterations: z.number().int().min(0).max(5).optional().describe('Phase 5 synthesis revisions after the draft (default 2).'),
+  refinementQualityThreshold: z.number().min(0).max(100).optional().describe('Critique overallQualityScore that ends synthesis refinement (default 80).'),
+  budget: SessionBudgetSchema.optional().describe('Token, cost and wall-clock limits; as they are approached, loops, ensemble perspectives and low-priority agents are cut.'),
+  comparison: ComparisonRequestSchema.optional().describe('Comparative decision mode: 2-5 options and weighted criteria; the query is the decision to make.'),
+}).refine(input => !!input.query || !!input.resumeSessionId || !!input.resumeToken, { message: 'Either query, resumeSessionId or resumeToken is required.', path: ['query'] });
 export type MasterOrchestratorInput = z.infer<typeof MasterOrchestratorInputSchema>;
 
 const MasterOrchestratorOutputSchema = z.object({
   success: z.boolean(),
-  finalSynthesis: SynthesisEnsembleOutputSchema.shape.metaSynthesis.optional(),
+  finalSynthesis: MetaSynthesisSchema.optional(),
   sessionState: SessionStateSchema,
   humanReviewRequired: z.boolean().default(false),
   humanReviewReason: z.string().optional(),
+  sessionId: z.string().optional(),
+  awaitingClarification: z.boolean().default(false).describe('The run paused after Phase 1 query refinement; see sessionState.clarification.'),
+  awaitingReview: z.boolean().default(false).describe('Phase 6 suspended the session until a human reviewer decides; see sessionState.humanReview.'),
+  resumeToken: z.string().optional().describe('With awaitingReview: pass as resumeToken once the review result is submitted.'),
+  reviewRejected: z.boolean().default(false).describe('A human reviewer rejected the analysis.'),
 });
 export type MasterOrchestratorOutput = z.infer<typeof MasterOrchestratorOutputSchema>;
 
+export interface MasterOrchestratorOptions {
+  /** Receives typed progress events (phases, agent attempts, retries, circuit changes, artifacts) as they happen. */
+  onEvent?: OrchestratorEventListener;
+  /** Where phase checkpoints are saved and resumed from. Defaults to getSessionRepository(); null disables checkpointing. */
+  sessionRepository?: SessionRepository | null;
+}
+
 export class AgentExecutionError extends Error {
   constructor(
     message: string, public agentName: string, public originalError: any,
@@ -194,15 +222,36 @@ class ErrorHandlingAndRecoveryCoordinator {
   private agentStates = new Map<string, AgentCircuitState>();
   private failureThreshold: number;
   private resetTimeout: number;
+  private onEvent?: OrchestratorEventListener;
+  /** Set when the session has a budget; decides which steps to cut as it is spent. */
+  readonly budget?: SessionBudgetTracker;
   
-  constructor(maxRetries: number = 3, failureThreshold: number = 3, resetTimeout: number = 30000) {
-    this.maxRetries = maxRetries; this.failureThreshold = failureThreshold; this.resetTimeout = resetTimeout;
+  constructor(maxRetries: number = 3, failureThreshold: number = 3, resetTimeout: number = 30000, onEvent?: OrchestratorEventListener, budget?: SessionBudgetTracker) {
+    this.maxRetries = maxRetries; this.failureThreshold = failureThreshold; this.resetTimeout = resetTimeout; this.onEvent = onEvent; this.budget = budget;
+  }
+
+  emit(event: OrchestratorEvent): void {
+    orchestratorMetrics.observe(event);
+    addSpanEvent(event.type, _spanEventAttributes(event));
+    if (!this.onEvent) return;
+    try { this.onEvent(event); } catch (listenerError: any) {
+      console.warn(`MasterOrchestrator: [Events] Listener threw while handling '${event.type}'. Ignoring.`, { error: listenerError?.message });
+    }
   }
   
   async callAgentWithRecovery<TInput, TOutput>(
     agentName: string, agentFn: (input: TInput) => Promise<TOutput>, input: TInput,
     defaultOutput: TOutput,
     options?: { criticalAgent?: boolean; backupAgentFn?: (input: TInput) => Promise<TOutput>; validateOutput?: (output: TOutput) => boolean; phase?: string; }
+  ): Promise<TOutput> {
+    return withSpan(`agent ${agentName}`, { 'ravint.agent': agentName, 'ravint.phase': options?.phase ?? 'N/A', 'ravint.critical': !!options?.criticalAgent },
+      () => this.callAgentWithRetries(agentName, agentFn, input, defaultOutput, options));
+  }
+
+  private async callAgentWithRetries<TInput, TOutput>(
+    agentName: string, agentFn: (input: TInput) => Promise<TOutput>, input: TInput,
+    defaultOutput: TOutput,
+    options?: { criticalAgent?: boolean; backupAgentFn?: (input: TInput) => Promise<TOutput>; validateOutput?: (output: TOutput) => boolean; phase?: string; }
   ): Promise<TOutput> {
     if (!this.agentStates.has(agentName)) {
       this.agentStates.set(agentName, { failures: 0, consecutiveFailures: 0, lastFailureTime: 0, state: 'CLOSED' });
@@ -210,13 +259,20 @@ class ErrorHandlingAndRecoveryCoordinator {
     const agentCircuitState = this.agentStates.get(agentName)!;
     const isCriticalAgent = !!options?.criticalAgent;
 
+    if (!isCriticalAgent && this.budget?.shouldSkipAgent(options?.phase || 'N/A', agentName)) {
+      console.warn(`MasterOrchestrator: [${options?.phase || 'N/A'}] Skipping ${agentName} to stay within the session budget; using its default output.`);
+      return defaultOutput;
+    }
+
     if (agentCircuitState.state === 'OPEN') {
       if (Date.now() - agentCircuitState.lastFailureTime < this.resetTimeout) {
         const openErrorMsg = `Circuit for ${agentName} is OPEN. Not attempting call.`;
         console.warn(`MasterOrchestrator: [${options?.phase || 'N/A'}] Agent: ${agentName}. ${openErrorMsg}`);
+        this.emit({ type: 'agent_failed', agent: agentName, phase: options?.phase, attempt: 0, error: openErrorMsg, circuitOpen: true, timestamp: new Date().toISOString() });
         throw new AgentExecutionError(openErrorMsg, agentName, new Error(openErrorMsg), 0, options?.phase, isCriticalAgent, true);
       } else {
         agentCircuitState.state = 'HALF_OPEN';
+        this.emit({ type: 'circuit_half_open', agent: agentName, phase: options?.phase, timestamp: new Date().toISOString() });
         console.log(`MasterOrchestrator: [${options?.phase || 'N/A'}] Circuit for ${agentName} transitioned to HALF_OPEN.`);
       }
     }
@@ -230,13 +286,17 @@ class ErrorHandlingAndRecoveryCoordinator {
             throw new AgentExecutionError(openRetryErrorMsg, agentName, lastCaughtError || new Error(openRetryErrorMsg), attempt + 1, options?.phase, isCriticalAgent, true);
         }
         console.log(`MasterOrchestrator: [${options?.phase || 'N/A'}] Calling ${agentName} (Attempt ${attempt + 1}/${this.maxRetries}, Circuit: ${agentCircuitState.state})...`);
-        const result = await agentFn(input);
+        this.emit({ type: 'agent_attempt', agent: agentName, phase: options?.phase, attempt: attempt + 1, maxAttempts: this.maxRetries, circuitState: agentCircuitState.state, timestamp: new Date().toISOString() });
+        const attemptStartTime = Date.now();
+        const result = await runWithModelUsageContext({ agent: agentName, phase: options?.phase }, () => agentFn(input));
         if (options?.validateOutput && !options.validateOutput(result)) { throw new Error(`Output validation failed for ${agentName}`); }
         if (agentCircuitState.state === 'HALF_OPEN') {
           agentCircuitState.state = 'CLOSED'; agentCircuitState.consecutiveFailures = 0;
+          this.emit({ type: 'circuit_closed', agent: agentName, phase: options?.phase, timestamp: new Date().toISOString() });
           console.log(`MasterOrchestrator: [${options?.phase || 'N/A'}] Circuit for ${agentName} transitioned to CLOSED after successful call in HALF_OPEN.`);
         } else if (agentCircuitState.state === 'CLOSED') { agentCircuitState.consecutiveFailures = 0; }
         console.log(`MasterOrchestrator: [${options?.phase || 'N/A'}] ${agentName} successful.`);
+        this.emit({ type: 'agent_succeeded', agent: agentName, phase: options?.phase, attempt: attempt + 1, durationMs: Date.now() - attemptStartTime, timestamp: new Date().toISOString() });
         return result;
       } catch (error: any) {
         lastCaughtError = error instanceof Error ? error : new Error(String(error));
@@ -245,11 +305,13 @@ class ErrorHandlingAndRecoveryCoordinator {
         const inputSummary = JSON.stringify(input).substring(0, 100);
         if (agentCircuitState.state === 'HALF_OPEN') {
           agentCircuitState.state = 'OPEN'; agentCircuitState.consecutiveFailures++; 
+          this.emit({ type: 'circuit_opened', agent: agentName, phase: options?.phase, consecutiveFailures: agentCircuitState.consecutiveFailures, timestamp: new Date().toISOString() });
           console.error(`MasterOrchestrator: [${options?.phase || 'N/A'}] Agent: ${agentName} failed in HALF_OPEN state. Circuit transitioning to OPEN. Attempt ${attempt + 1}. Error: ${errorMessage}`, { inputSummary, timestamp: new Date().toISOString() });
         } else if (agentCircuitState.state === 'CLOSED') {
           agentCircuitState.consecutiveFailures++;
           if (agentCircuitState.consecutiveFailures >= this.failureThreshold) {
             agentCircuitState.state = 'OPEN';
+            this.emit({ type: 'circuit_opened', agent: agentName, phase: options?.phase, consecutiveFailures: agentCircuitState.consecutiveFailures, timestamp: new Date().toISOString() });
             console.warn(`MasterOrchestrator: [${options?.phase || 'N/A'}] Circuit for ${agentName} transitioned to OPEN after ${agentCircuitState.consecutiveFailures} consecutive failures. Attempt ${attempt + 1}. Error: ${errorMessage}`, { inputSummary, timestamp: new Date().toISOString() });
           } else {
             console.error(`MasterOrchestrator: [${options?.phase || 'N/A'}] Agent: ${agentName} failed on attempt ${attempt + 1}. Error: ${errorMessage}`, { inputSummary, timestamp: new Date().toISOString() });
@@ -257,9 +319,12 @@ class ErrorHandlingAndRecoveryCoordinator {
         }
         if (agentCircuitState.state === 'OPEN' || attempt === this.maxRetries - 1) {
           const finalErrorMessage = agentCircuitState.state === 'OPEN' ? `Circuit for ${agentName} is now OPEN. ${errorMessage}` : errorMessage;
+          this.emit({ type: 'agent_failed', agent: agentName, phase: options?.phase, attempt: attempt + 1, error: finalErrorMessage, circuitOpen: agentCircuitState.state === 'OPEN', timestamp: new Date().toISOString() });
           throw new AgentExecutionError(finalErrorMessage, agentName, lastCaughtError, attempt + 1, options?.phase, isCriticalAgent, agentCircuitState.state === 'OPEN');
         }
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+        const retryDelayMs = Math.pow(2, attempt) * 1000;
+        this.emit({ type: 'agent_retry', agent: agentName, phase: options?.phase, attempt: attempt + 1, error: errorMessage, delayMs: retryDelayMs, timestamp: new Date().toISOString() });
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs));
       }
     }
     const fallbackErrorMsg = `Agent ${agentName} exhausted retries unexpectedly. Last error: ${lastCaughtError?.message || 'N/A'}`;
@@ -268,10 +333,13 @@ class ErrorHandlingAndRecoveryCoordinator {
   
   saveArtifact(currentArtifacts: Readonly<Record<string, unknown>>, name: string, data: any): Record<string, unknown> {
     console.log(`MasterOrchestrator: [Artifact] Saving artifact '${name}'`); 
+    this.emit({ type: 'artifact_saved', name, data, timestamp: new Date().toISOString() });
     return { ...currentArtifacts, [name]: data };
   }
 }
 
+const INITIAL_ANSWER_ITERATIONS = 3;
+
 async function _executePhase1_QueryIntakeAndInitialAnswer(
   currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator,
   parsedInput: MasterOrchestratorInput ): Promise<SessionState> {
@@ -284,25 +352,50 @@ async function _executePhase1_QueryIntakeAndInitialAnswer(
   const defaultQueryRefinementOutput: QueryRefinementOutput = { originalQuery: newSessionState.originalQuery, refinedQuery: newSessionState.originalQuery, refinementReason: 'Query refinement failed due to an error.', identifiedIssues: [], clarificationQuestions: [] };
   const defaultInitialAnswerLoopOutput: InitialAnswerLoopOutput = { finalAnswer: 'Initial answer generation failed due to an error.', iterations: 0, improvementHistory: [] };
 
-  let queryRefinementOutput: QueryRefinementOutput = defaultQueryRefinementOutput;
-  try {
-    queryRefinementOutput = await errorCoordinator.callAgentWithRecovery('QueryRefinementAgent', refineQuery, { query: newSessionState.originalQuery }, defaultQueryRefinementOutput, { phase: phaseName });
-  } catch (e: any) {
-    const errorEntry: ErrorInfo = {
-      agent: e instanceof AgentExecutionError ? e.agentName : 'QueryRefinementAgent_Catch', error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true, recoveryStrategy: 'default_output_used',
-      phase: e instanceof AgentExecutionError ? e.phase : phaseName, inputSummary: JSON.stringify({ query: newSessionState.originalQuery }).substring(0, 100),
-      attempt: e instanceof AgentExecutionError ? e.attempt : undefined, isCriticalFailure: e instanceof AgentExecutionError ? e.isCritical : false,
-    };
-    currentErrors = [...currentErrors, errorEntry];
+  // Resuming a paused clarification round reuses the refinement the questions came from.
+  const pendingClarification = newSessionState.clarification?.status === 'pending' ? newSessionState.clarification : undefined;
+  const storedQueryRefinement = pendingClarification ? currentArtifacts['query_refinement'] as QueryRefinementOutput | undefined : undefined;
+  let queryRefinementOutput: QueryRefinementOutput = storedQueryRefinement ?? defaultQueryRefinementOutput;
+  if (!storedQueryRefinement) {
+    try {
+      queryRefinementOutput = await errorCoordinator.callAgentWithRecovery('QueryRefinementAgent', refineQuery, { query: newSessionState.originalQuery }, defaultQueryRefinementOutput, { phase: phaseName });
+    } catch (e: any) {
+      const errorEntry: ErrorInfo = {
+        agent: e instanceof AgentExecutionError ? e.agentName : 'QueryRefinementAgent_Catch', error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true, recoveryStrategy: 'default_output_used',
+        phase: e instanceof AgentExecutionError ? e.phase : phaseName, inputSummary: JSON.stringify({ query: newSessionState.originalQuery }).substring(0, 100),
+        attempt: e instanceof AgentExecutionError ? e.attempt : undefined, isCriticalFailure: e instanceof AgentExecutionError ? e.isCritical : false,
+      };
+      currentErrors = [...currentErrors, errorEntry];
+    }
   }
   newSessionState = { ...newSessionState, refinedQuery: queryRefinementOutput.refinedQuery };
-  currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'query_refinement', queryRefinementOutput);
+  if (!storedQueryRefinement) currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'query_refinement', queryRefinementOutput);
+
+  if (parsedInput.enableClarification && queryRefinementOutput.clarificationQuestions.length > 0) {
+    const round = {
+      questions: queryRefinementOutput.clarificationQuestions, identifiedIssues: queryRefinementOutput.identifiedIssues,
+      proposedRefinedQuery: queryRefinementOutput.refinedQuery,
+    };
+    if (!parsedInput.clarification) {
+      console.log(`MasterOrchestrator: [${phaseName}] Pausing for ${round.questions.length} clarification question(s).`);
+      errorCoordinator.emit({ type: 'clarification_requested', questions: round.questions, proposedRefinedQuery: round.proposedRefinedQuery, timestamp: new Date().toISOString() });
+      return { ...newSessionState, clarification: { ...round, status: 'pending' }, artifacts: currentArtifacts, errorsEncountered: currentErrors };
+    }
+    const finalRefinedQuery = foldClarificationAnswers(parsedInput.clarification.refinedQuery?.trim() || round.proposedRefinedQuery, parsedInput.clarification.answers);
+    newSessionState = {
+      ...newSessionState, refinedQuery: finalRefinedQuery,
+      clarification: { ...round, status: 'answered', answers: parsedInput.clarification.answers, finalRefinedQuery },
+    };
+    console.log(`MasterOrchestrator: [${phaseName}] Continuing with ${parsedInput.clarification.answers.length} clarification answer(s).`);
+  }
   
   let initialAnswerLoopOutput: InitialAnswerLoopOutput = defaultInitialAnswerLoopOutput;
   try {
-    const refinedQueryForLoop = newSessionState.refinedQuery || newSessionState.originalQuery;
+    const refinedQuery = newSessionState.refinedQuery || newSessionState.originalQuery;
+    // A comparison is answered as a choice between the options, so the loop sees them with their criteria.
+    const refinedQueryForLoop = parsedInput.comparison ? describeComparison(refinedQuery, toComparisonSetup(parsedInput.comparison)) : refinedQuery;
     initialAnswerLoopOutput = await errorCoordinator.callAgentWithRecovery('InitialAnswerLoopAgent', runInitialAnswerLoop,
-      { refinedQuery: refinedQueryForLoop, maxIterations: 3 }, defaultInitialAnswerLoopOutput,
+      { refinedQuery: refinedQueryForLoop, maxIterations: errorCoordinator.budget?.capIterations(phaseName, 'InitialAnswerLoopAgent', INITIAL_ANSWER_ITERATIONS) ?? INITIAL_ANSWER_ITERATIONS }, defaultInitialAnswerLoopOutput,
       { criticalAgent: true, validateOutput: (output) => !!(output.finalAnswer && output.finalAnswer.trim() !== ''), phase: phaseName }
     );
   } catch (e: any) {
@@ -320,8 +413,12 @@ async function _executePhase1_QueryIntakeAndInitialAnswer(
   return newSessionState;
 }
 
+// Agents whose execution is driven by the DynamicRoutingCoordinatorAgent decision, in their default order.
+const PHASE2_ROUTED_AGENTS = ['AnalyzeAssumptionsAgent', 'ResearcherAgent', 'CounterEvidenceResearcherAgent', 'PremortemAgent', 'InformationGapAgent'] as const;
+const PHASE3_ROUTED_AGENTS = ['BiasDetectionAgent', 'CritiqueAgent', 'DevilsAdvocateAgent', 'PremortemAgent'] as const;
+
 async function _executePhase2_EvidenceGatheringAndAnalysis(
-  currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator
+  currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator, parsedInput: MasterOrchestratorInput,
 ): Promise<SessionState> {
   const phaseName = 'Phase2_EvidenceGatheringAndAnalysis';
   let newSessionState: SessionState = { ...currentSessionState };
@@ -334,7 +431,7 @@ async function _executePhase2_EvidenceGatheringAndAnalysis(
   let routingDecision: DynamicRoutingOutput = defaultRoutingDecision;
   try {
     routingDecision = await errorCoordinator.callAgentWithRecovery('DynamicRoutingCoordinatorAgent', routeAnalyticalAgents,
-      { refinedQuery: newSessionState.refinedQuery, initialAnswerText: newSessionState.initialAnswerText, availableAgents: ['AnalyzeAssumptionsAgent', 'ResearcherAgent', 'CounterEvidenceResearcherAgent', 'PremortemAgent', 'InformationGapAgent'] },
+      { refinedQuery: newSessionState.refinedQuery, initialAnswerText: newSessionState.initialAnswerText, availableAgents: [...PHASE2_ROUTED_AGENTS, ...PHASE3_ROUTED_AGENTS] },
       defaultRoutingDecision, { phase: phaseName }
     );
   } catch (e: any) {
@@ -350,8 +447,9 @@ async function _executePhase2_EvidenceGatheringAndAnalysis(
   
   console.log(`MasterOrchestrator: [${phaseName}] Using routing strategy: ${routingDecision.analysisStrategy.approach}`);
   
-  const processSettledResult = <T>(settledResult: PromiseSettledResult<T>, agentName: string, defaultOutput: T, inputSummaryContext: string): T => {
-    if (settledResult.status === 'fulfilled') { return settledResult.value; }
+  const processSettledResult = <T>(settledResult: PromiseSettledResult<unknown> | undefined, agentName: string, defaultOutput: T, inputSummaryContext: string): T => {
+    if (!settledResult) { return defaultOutput; } // Skipped by the routing decision.
+    if (settledResult.status === 'fulfilled') { return settledResult.value as T; }
     else {
       const e = settledResult.reason; currentErrors.push({ 
         agent: e instanceof AgentExecutionError ? e.agentName : `${agentName}_SettledCatch`, error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true, 
@@ -361,14 +459,16 @@ async function _executePhase2_EvidenceGatheringAndAnalysis(
     }
   };
 
-  const agentExecutionPromises = [
-    errorCoordinator.callAgentWithRecovery('AnalyzeAssumptionsAgent', analyzeAssumptions, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('AnalyzeAssumptionsAgent') as AnalyzeAssumptionsOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('ResearcherAgent', researchEvidence, { claim: newSessionState.initialAnswerText }, getDefaultOutputForAgent('ResearcherAgent') as ResearchEvidenceOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('CounterEvidenceResearcherAgent', researchCounterEvidence, { claim: newSessionState.initialAnswerText }, getDefaultOutputForAgent('CounterEvidenceResearcherAgent') as ResearchCounterEvidenceOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('PremortemAgent', analyzeFailures, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('PremortemAgent') as PremortemOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('InformationGapAgent', analyzeInformationGaps, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('InformationGapAgent') as InformationGapOutput, { phase: phaseName }),
-  ];
-  const [assumptionsResult, researchResult, counterEvidenceResult, premortemResult, informationGapsResult] = await Promise.allSettled(agentExecutionPromises);
+  const schedule = buildAgentSchedule(phaseName, [...PHASE2_ROUTED_AGENTS], routingDecision);
+  const { settled, executedPlan } = await runAgentSchedule(schedule, {
+    AnalyzeAssumptionsAgent: () => errorCoordinator.callAgentWithRecovery('AnalyzeAssumptionsAgent', analyzeAssumptions, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('AnalyzeAssumptionsAgent') as AnalyzeAssumptionsOutput, { phase: phaseName }),
+    ResearcherAgent: () => errorCoordinator.callAgentWithRecovery('ResearcherAgent', researchEvidence, { claim: newSessionState.initialAnswerText }, getDefaultOutputForAgent('ResearcherAgent') as ResearchEvidenceOutput, { phase: phaseName }),
+    CounterEvidenceResearcherAgent: () => errorCoordinator.callAgentWithRecovery('CounterEvidenceResearcherAgent', researchCounterEvidence, { claim: newSessionState.initialAnswerText }, getDefaultOutputForAgent('CounterEvidenceResearcherAgent') as ResearchCounterEvidenceOutput, { phase: phaseName }),
+    PremortemAgent: () => errorCoordinator.callAgentWithRecovery('PremortemAgent', analyzeFailures, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('PremortemAgent') as PremortemOutput, { phase: phaseName }),
+    InformationGapAgent: () => errorCoordinator.callAgentWithRecovery('InformationGapAgent', analyzeInformationGaps, { answer: newSessionState.initialAnswerText }, getDefaultOutputForAgent('InformationGapAgent') as InformationGapOutput, { phase: phaseName }),
+  });
+  console.log(`MasterOrchestrator: [${phaseName}] Executed ${executedPlan.groups.length} agent group(s); skipped: ${executedPlan.skippedAgents.join(', ') || 'none'}.`);
+  const [assumptionsResult, researchResult, counterEvidenceResult, premortemResult, informationGapsResult] = PHASE2_ROUTED_AGENTS.map(agent => settled[agent]);
 
   const finalAssumptionsResult = processSettledResult(assumptionsResult, 'AnalyzeAssumptionsAgent', getDefaultOutputForAgent('AnalyzeAssumptionsAgent') as AnalyzeAssumptionsOutput, `Answer: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
   const finalResearchResult = processSettledResult(researchResult, 'ResearcherAgent', getDefaultOutputForAgent('ResearcherAgent') as ResearchEvidenceOutput, `Claim: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
@@ -379,14 +479,71 @@ async function _executePhase2_EvidenceGatheringAndAnalysis(
   newSessionState = {
     ...newSessionState, assumptions: finalAssumptionsResult, aggregatedSupportingResearch: finalResearchResult,
     aggregatedCounterResearch: finalCounterEvidenceResult, errorsEncountered: currentErrors, artifacts: currentArtifacts,
+    executedRoutingPlans: [...(newSessionState.executedRoutingPlans || []).filter(plan => plan.phase !== phaseName), executedPlan],
   };
   currentArtifacts = errorCoordinator.saveArtifact(newSessionState.artifacts, `${phaseName}_premortem_analysis_results`, finalPremortemResult);
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, `${phaseName}_information_gap_results`, finalInformationGapsResult);
-  newSessionState = { ...newSessionState, artifacts: currentArtifacts };
+  let citationSources = registerCitationSources(newSessionState.citationSources || [], 'supporting_evidence', phaseName, finalResearchResult.map(ev => ({ text: `${ev.claim}: ${ev.support}`, detail: ev.source, url: ev.url })));
+  citationSources = registerCitationSources(citationSources, 'counter_evidence', phaseName, finalCounterEvidenceResult.map(ev => ({ text: `${ev.claim}: ${ev.support}`, detail: ev.source, url: ev.url })));
+  citationSources = registerCitationSources(citationSources, 'assumption', phaseName, finalAssumptionsResult.map(item => ({ text: item.assumption, detail: `Risk: ${item.risk}` })));
+  citationSources = registerCitationSources(citationSources, 'information_gap', phaseName, finalInformationGapsResult.map(item => ({ text: item.gap, detail: `Impact: ${item.impact}` })));
+
+  if (parsedInput.comparison) {
+    const setup = toComparisonSetup(parsedInput.comparison);
+    const optionAnalyses = await _analyzeComparisonOptions(newSessionState, errorCoordinator, setup, phaseName, currentErrors);
+    for (const analysis of optionAnalyses) {
+      const label = optionAssumptionLabel({ id: analysis.optionId });
+      citationSources = registerCitationSources(citationSources, 'supporting_evidence', phaseName, analysis.supportingEvidence.map(ev => ({ text: `${label} ${ev.claim}: ${ev.support}`, detail: ev.source, url: ev.url })));
+      citationSources = registerCitationSources(citationSources, 'counter_evidence', phaseName, analysis.counterEvidence.map(ev => ({ text: `${label} ${ev.claim}: ${ev.support}`, detail: ev.source, url: ev.url })));
+      citationSources = registerCitationSources(citationSources, 'assumption', phaseName, analysis.assumptions.map(item => ({ text: `${label} ${item.assumption}`, detail: `Risk: ${item.risk}` })));
+    }
+    newSessionState = { ...newSessionState, comparison: { setup, optionAnalyses }, errorsEncountered: currentErrors };
+    currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'comparison_option_analyses', optionAnalyses);
+  }
+  newSessionState = { ...newSessionState, artifacts: currentArtifacts, citationSources };
   console.log(`MasterOrchestrator: [${phaseName}] Completed.`);
   return newSessionState;
 }
 
+// The Phase 2 agents that run once per option in comparative mode; the options are analyzed one after another.
+const COMPARISON_OPTION_AGENTS = ['AnalyzeAssumptionsAgent', 'ResearcherAgent', 'CounterEvidenceResearcherAgent', 'PremortemAgent'] as const;
+
+async function _analyzeComparisonOptions(
+  state: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator, setup: ComparisonSetup, phaseName: string, errors: ErrorInfo[],
+): Promise<OptionAnalysis[]> {
+  const question = state.refinedQuery || state.originalQuery;
+  const optionAnalyses: OptionAnalysis[] = [];
+  for (const option of setup.options) {
+    const claim = optionClaim(question, option);
+    console.log(`MasterOrchestrator: [${phaseName}] Analyzing option ${option.id} (${option.name}).`);
+    const settled = await Promise.allSettled([
+      errorCoordinator.callAgentWithRecovery('AnalyzeAssumptionsAgent', analyzeAssumptions, { answer: claim }, getDefaultOutputForAgent('AnalyzeAssumptionsAgent') as AnalyzeAssumptionsOutput, { phase: phaseName }),
+      errorCoordinator.callAgentWithRecovery('ResearcherAgent', researchEvidence, { claim }, getDefaultOutputForAgent('ResearcherAgent') as ResearchEvidenceOutput, { phase: phaseName }),
+      errorCoordinator.callAgentWithRecovery('CounterEvidenceResearcherAgent', researchCounterEvidence, { claim }, getDefaultOutputForAgent('CounterEvidenceResearcherAgent') as ResearchCounterEvidenceOutput, { phase: phaseName }),
+      errorCoordinator.callAgentWithRecovery('PremortemAgent', analyzeFailures, { answer: claim }, getDefaultOutputForAgent('PremortemAgent') as PremortemOutput, { phase: phaseName }),
+    ]);
+    const [assumptions, supportingEvidence, counterEvidence, premortem] = settled.map((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      const agentName = COMPARISON_OPTION_AGENTS[index];
+      const e = result.reason;
+      errors.push({
+        agent: e instanceof AgentExecutionError ? e.agentName : `${agentName}_SettledCatch`, error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true,
+        recoveryStrategy: 'default_output_used', phase: phaseName, inputSummary: `Option ${option.id}: ${option.name.substring(0, 50)}`,
+        attempt: e instanceof AgentExecutionError ? e.attempt : undefined, isCriticalFailure: false,
+      });
+      return getDefaultOutputForAgent(agentName);
+    });
+    optionAnalyses.push({ optionId: option.id, claim, assumptions, supportingEvidence, counterEvidence, premortem });
+  }
+  return optionAnalyses;
+}
+
+/** Every option's assumptions, labelled with their option so that sensitivity scenarios can be traced back to it. */
+function _optionAssumptions(state: Readonly<SessionState>): AnalyzeAssumptionsOutput {
+  return (state.comparison?.optionAnalyses ?? []).flatMap(analysis =>
+    analysis.assumptions.map(item => ({ ...item, assumption: `${optionAssumptionLabel({ id: analysis.optionId })} ${item.assumption}` })));
+}
+
 async function _executePhase3_InDepthAnalysisAndChallenge(
   currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator,
   researchResultIn: Readonly<ResearchEvidenceOutput> | undefined, counterEvidenceResultIn: Readonly<ResearchCounterEvidenceOutput> | undefined
@@ -402,8 +559,9 @@ async function _executePhase3_InDepthAnalysisAndChallenge(
   const defaultChallengeOutput: ChallengeOutput = getDefaultOutputForAgent('DevilsAdvocateAgent') as ChallengeOutput || []; 
   const defaultPremortemOutput = getDefaultOutputForAgent('PremortemAgent') as PremortemOutput;
 
-  const processSettledResult = <T>(settledResult: PromiseSettledResult<T>, agentName: string, defaultOutput: T, inputSummaryContext: string): T => {
-    if (settledResult.status === 'fulfilled') { return settledResult.value; }
+  const processSettledResult = <T>(settledResult: PromiseSettledResult<unknown> | undefined, agentName: string, defaultOutput: T, inputSummaryContext: string): T => {
+    if (!settledResult) { return defaultOutput; } // Skipped by the routing decision.
+    if (settledResult.status === 'fulfilled') { return settledResult.value as T; }
     else {
       const e = settledResult.reason; currentErrors.push({ 
         agent: e instanceof AgentExecutionError ? e.agentName : `${agentName}_SettledCatch`, error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true, 
@@ -413,24 +571,33 @@ async function _executePhase3_InDepthAnalysisAndChallenge(
     }
   };
 
-  const agentCalls = [
-    errorCoordinator.callAgentWithRecovery('BiasDetectionAgent', detectBiases, { initialAnswerText: newSessionState.initialAnswerText, aggregatedSupportingResearch: researchResultIn, aggregatedCounterResearch: counterEvidenceResultIn }, defaultBiasDetectionOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('CritiqueAgent', critiqueAgent, { answer: newSessionState.initialAnswerText, evidence: researchResultIn || [] }, defaultCritiqueOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('DevilsAdvocateAgent', challenge, { answer: newSessionState.initialAnswerText, critique: (currentArtifacts['critique_phase3'] as CritiqueAgentOutput) || '' }, defaultChallengeOutput, { phase: phaseName }),
-    errorCoordinator.callAgentWithRecovery('PremortemAgent', analyzeFailures, { answer: newSessionState.initialAnswerText }, defaultPremortemOutput, { phase: phaseName }),
-  ];
-  const results = await Promise.allSettled(agentCalls);
+  const schedule = buildAgentSchedule(phaseName, [...PHASE3_ROUTED_AGENTS], newSessionState.routingDecision, [
+    { dependent: 'DevilsAdvocateAgent', dependsOn: 'CritiqueAgent', reason: 'Challenges are generated against the critique' },
+  ]);
+  const { settled, executedPlan } = await runAgentSchedule(schedule, {
+    BiasDetectionAgent: () => errorCoordinator.callAgentWithRecovery('BiasDetectionAgent', detectBiases, { initialAnswerText: newSessionState.initialAnswerText, aggregatedSupportingResearch: researchResultIn, aggregatedCounterResearch: counterEvidenceResultIn }, defaultBiasDetectionOutput, { phase: phaseName }),
+    CritiqueAgent: () => errorCoordinator.callAgentWithRecovery('CritiqueAgent', critiqueAgent, { answer: newSessionState.initialAnswerText, evidence: researchResultIn || [] }, defaultCritiqueOutput, { phase: phaseName }),
+    DevilsAdvocateAgent: (completed) => errorCoordinator.callAgentWithRecovery('DevilsAdvocateAgent', challenge, { answer: newSessionState.initialAnswerText, critique: (completed.get('CritiqueAgent') as CritiqueAgentOutput | undefined) || '' }, defaultChallengeOutput, { phase: phaseName }),
+    PremortemAgent: () => errorCoordinator.callAgentWithRecovery('PremortemAgent', analyzeFailures, { answer: newSessionState.initialAnswerText }, defaultPremortemOutput, { phase: phaseName }),
+  });
+  console.log(`MasterOrchestrator: [${phaseName}] Executed ${executedPlan.groups.length} agent group(s); skipped: ${executedPlan.skippedAgents.join(', ') || 'none'}.`);
+  const results = PHASE3_ROUTED_AGENTS.map(agent => settled[agent]);
   const finalBiasDetectionOutput = processSettledResult(results[0], 'BiasDetectionAgent', defaultBiasDetectionOutput, `InitialAnswer: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
   const finalCritiqueOutput = processSettledResult(results[1], 'CritiqueAgent', defaultCritiqueOutput, `InitialAnswer: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
   const finalChallengeOutput = processSettledResult(results[2], 'DevilsAdvocateAgent', defaultChallengeOutput, `InitialAnswer: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
   const finalPremortemOutput = processSettledResult(results[3], 'PremortemAgent', defaultPremortemOutput, `InitialAnswer: ${String(newSessionState.initialAnswerText).substring(0,50)}...`);
   
-  newSessionState = { ...newSessionState, potentialBiases: finalBiasDetectionOutput, errorsEncountered: currentErrors };
+  newSessionState = {
+    ...newSessionState, potentialBiases: finalBiasDetectionOutput, errorsEncountered: currentErrors,
+    executedRoutingPlans: [...(newSessionState.executedRoutingPlans || []).filter(plan => plan.phase !== phaseName), executedPlan],
+  };
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'bias_detection', finalBiasDetectionOutput);
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'critique_phase3', finalCritiqueOutput); 
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'challenge_phase3', finalChallengeOutput);
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'premortem_phase3', finalPremortemOutput);
-  newSessionState = { ...newSessionState, artifacts: currentArtifacts };
+  let citationSources = registerCitationSources(newSessionState.citationSources || [], 'critique', phaseName, splitCritique(finalCritiqueOutput || '').map(text => ({ text })));
+  citationSources = registerCitationSources(citationSources, 'challenge', phaseName, (finalChallengeOutput || []).map(text => ({ text })));
+  newSessionState = { ...newSessionState, artifacts: currentArtifacts, citationSources };
   console.log(`MasterOrchestrator: [${phaseName}] Completed.`);
   return newSessionState;
 }
@@ -493,8 +660,7 @@ async function _executePhase4_PreSynthesisStructuringAndQA(
   const defaultSensitivityAnalysisOutput: SensitivityAnalysisOutput = { overallRobustness: { score: 0, category: 'very_fragile', summary: 'Default: Sensitivity analysis failed' }, scenarioTests: [], assumptionSensitivity: [], conclusionStability: [], riskAssessment: { highRiskScenarios: [], lowRiskScenarios: [], criticalAssumptions: [], robustnessConcerns: [] }, recommendations: { strengthenAssumptions: [], additionalResearch: [], confidenceAdjustments: [], contingencyPlanning: [] } };
   let sensitivityAnalysisOutput = defaultSensitivityAnalysisOutput;
   try {
-    const keyAssumptionsForSensitivity = Array.isArray(assumptionsResultFromPhase2) ? assumptionsResultFromPhase2.map((item: any) => ({ assumption: item.assumption, confidence: (item.risk === 'High' ? 'Low' : item.risk === 'Medium' ? 'Medium' : 'High') as 'High' | 'Medium' | 'Low', impact: item.risk, riskLevel: item.risk })) : [];
-    sensitivityAnalysisOutput = await errorCoordinator.callAgentWithRecovery('SensitivityAnalysisAgent', analyzeSensitivity, { originalConclusions: [newSessionState.initialAnswerText!], keyAssumptions: keyAssumptionsForSensitivity, synthesisEvidence: researchResultFromPhase2 }, defaultSensitivityAnalysisOutput, { phase: phaseName });
+    sensitivityAnalysisOutput = await errorCoordinator.callAgentWithRecovery('SensitivityAnalysisAgent', analyzeSensitivity, { originalConclusions: [newSessionState.initialAnswerText!], keyAssumptions: _keyAssumptionsForSensitivity([...(assumptionsResultFromPhase2 ?? []), ..._optionAssumptions(newSessionState)]), synthesisEvidence: researchResultFromPhase2 }, defaultSensitivityAnalysisOutput, { phase: phaseName });
   } catch (e: any) { processAgentError(e, 'SensitivityAnalysisAgent', `InitialAnswerText available`); }
   newSessionState = { ...newSessionState, sensitivityAnalysisReport: sensitivityAnalysisOutput, artifacts: currentArtifacts, errorsEncountered: currentErrors };
   currentArtifacts = errorCoordinator.saveArtifact(newSessionState.artifacts, 'sensitivity_analysis', sensitivityAnalysisOutput);
@@ -504,11 +670,22 @@ async function _executePhase4_PreSynthesisStructuringAndQA(
   return newSessionState;
 }
 
+function _keyAssumptionsForSensitivity(assumptions: Readonly<AnalyzeAssumptionsOutput> | undefined): SensitivityAnalysisInput['keyAssumptions'] {
+  return Array.isArray(assumptions) ? assumptions.map((item: any) => ({ assumption: item.assumption, confidence: (item.risk === 'High' ? 'Low' : item.risk === 'Medium' ? 'Medium' : 'High') as 'High' | 'Medium' | 'Low', impact: item.risk, riskLevel: item.risk })) : [];
+}
+
+function _synthesisEnsembleInput(
+  state: Readonly<SessionState>, research: Readonly<ResearchEvidenceOutput> | undefined, counterEvidence: Readonly<ResearchCounterEvidenceOutput> | undefined,
+): SynthesisEnsembleInput {
+  return { pressureTestedBrief: JSON.stringify(state.pressureTestedBrief), balancedBrief: JSON.stringify(state.balancedBrief), initialAnswerText: state.initialAnswerText!, impactAssessments: JSON.stringify(state.impactAssessments), overallConfidence: state.overallConfidence, aggregatedSupportingResearch: research as ResearchEvidenceOutput, aggregatedCounterResearch: counterEvidence as ResearchCounterEvidenceOutput, conflictResolutionAnalysis: state.conflictResolutionAnalysis, sensitivityAnalysisReport: state.sensitivityAnalysisReport && JSON.stringify(state.sensitivityAnalysisReport), errorsEncountered: state.errorsEncountered?.map(e => ({ agent: e.agent, error: e.error })) || [], citationSources: state.citationSources || [] };
+}
+
 async function _executePhase5_SynthesisVerificationAndRefinement(
   currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator,
   researchResultFromPhase2: Readonly<ResearchEvidenceOutput> | undefined, 
   counterEvidenceResultFromPhase2: Readonly<ResearchCounterEvidenceOutput> | undefined, 
-  qualityCheckOutputFromPhase4: Readonly<QualityCheckOutput> | undefined 
+  qualityCheckOutputFromPhase4: Readonly<QualityCheckOutput> | undefined,
+  parsedInput: MasterOrchestratorInput,
 ): Promise<SessionState> {
   const phaseName = 'Phase5_SynthesisVerificationAndRefinement';
   let newSessionState: SessionState = { ...currentSessionState };
@@ -522,19 +699,41 @@ async function _executePhase5_SynthesisVerificationAndRefinement(
     currentErrors = [...currentErrors, errorEntry];
   };
 
-  const defaultSynthesisEnsembleOutput: SynthesisEnsembleOutput = { individualPerspectives: [], metaSynthesis: { confidence: 'Low', summary: 'Default: Synthesis ensemble failed', keyStrengths: [], keyWeaknesses: [], howCounterEvidenceWasAddressed: [], actionableRecommendations: [], remainingUncertainties: [], perspectiveDivergence: 'N/A', synthesisApproach: 'Failed' }, errorHandling: { criticalFailuresDetected: true, failureImpactDescription: 'Default: Synthesis ensemble failed' }};
+  const defaultSynthesisEnsembleOutput: SynthesisEnsembleOutput = { individualPerspectives: [], metaSynthesis: { confidence: 'Low', summary: 'Default: Synthesis ensemble failed', keyStrengths: [], keyWeaknesses: [], howCounterEvidenceWasAddressed: [], actionableRecommendations: [], remainingUncertainties: [], perspectiveDivergence: 'N/A', synthesisApproach: 'Failed', claims: [] }, errorHandling: { criticalFailuresDetected: true, failureImpactDescription: 'Default: Synthesis ensemble failed' }};
   let synthesisEnsembleOutput = defaultSynthesisEnsembleOutput;
-  try { synthesisEnsembleOutput = await errorCoordinator.callAgentWithRecovery('SynthesisEnsembleAgent', runSynthesisEnsemble, { pressureTestedBrief: JSON.stringify(newSessionState.pressureTestedBrief), balancedBrief: JSON.stringify(newSessionState.balancedBrief), initialAnswerText: newSessionState.initialAnswerText, impactAssessments: JSON.stringify(newSessionState.impactAssessments), overallConfidence: newSessionState.overallConfidence, aggregatedSupportingResearch: researchResultFromPhase2, aggregatedCounterResearch: counterEvidenceResultFromPhase2, conflictResolutionAnalysis: newSessionState.conflictResolutionAnalysis, sensitivityAnalysisReport: newSessionState.sensitivityAnalysisReport, errorsEncountered: newSessionState.errorsEncountered?.map(e => ({ agent: e.agent, error: e.error })) || [] }, defaultSynthesisEnsembleOutput, { phase: phaseName });
+  const ensembleInput: SynthesisEnsembleInput = {
+    ..._synthesisEnsembleInput(newSessionState, researchResultFromPhase2, counterEvidenceResultFromPhase2),
+    maxPerspectives: errorCoordinator.budget?.capPerspectives(phaseName, 'SynthesisEnsembleAgent', SYNTHESIS_PERSPECTIVE_COUNT),
+  };
+  try { synthesisEnsembleOutput = await errorCoordinator.callAgentWithRecovery('SynthesisEnsembleAgent', runSynthesisEnsemble, ensembleInput, defaultSynthesisEnsembleOutput, { phase: phaseName });
   } catch (e: any) { processAgentError(e, 'SynthesisEnsembleAgent', `Briefs/Reports available`); }
-  newSessionState = { ...newSessionState, draftSynthesisOutput: synthesisEnsembleOutput, finalRefinedSynthesisOutput: synthesisEnsembleOutput.metaSynthesis };
+  const citationValidation = validateCitations(synthesisEnsembleOutput.metaSynthesis, newSessionState.citationSources || []);
+  if (citationValidation.uncitedStatements.length > 0) {
+    console.warn(`MasterOrchestrator: [${phaseName}] ${citationValidation.uncitedStatements.length} of ${citationValidation.totalStatements} synthesis statement(s) have no supporting reference.`);
+  }
+  newSessionState = { ...newSessionState, draftSynthesisOutput: synthesisEnsembleOutput, finalRefinedSynthesisOutput: synthesisEnsembleOutput.metaSynthesis, citationValidation };
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'synthesis_ensemble', synthesisEnsembleOutput);
+  currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'citation_validation', citationValidation);
 
   const defaultFactVerificationOutput: FactVerificationOutput = getDefaultOutputForAgent('FactVerificationLoopAgent') as FactVerificationOutput || { verificationSummary: { totalClaims: 0, verifiedClaims: 0, contradictedClaims: 0, unverifiedClaims: 0, overallReliability: 'unknown', averageConfidence: 0 }, claimVerifications: [], verificationConcerns: { criticalIssues: [], moderateIssues: [], methodologyLimitations: [], dataQualityIssues: [] }, recommendations: { immediateActions: [], additionalVerification: [], confidenceAdjustments: [], claimModifications: [] }, verificationMetrics: { totalVerificationAttempts: 0, averageAttemptsPerClaim: 0, successfulVerificationRate: 0, evidenceQualityDistribution: { high:0, medium:0, low:0, unknown:0 } }};
-  let factVerificationOutput = defaultFactVerificationOutput;
-  try { factVerificationOutput = await errorCoordinator.callAgentWithRecovery('FactVerificationLoopAgent', verifyFacts, { claims: [{ claim: newSessionState.finalRefinedSynthesisOutput?.summary || '', importance: 'high' as const, claimType: 'factual' as const, source: 'synthesis' }], verificationDepth: 'standard' as const, availableEvidence: [researchResultFromPhase2, counterEvidenceResultFromPhase2].filter(Boolean) as (ResearchEvidenceOutput | ResearchCounterEvidenceOutput)[] }, defaultFactVerificationOutput, { phase: phaseName });
-  } catch (e: any) { processAgentError(e, 'FactVerificationLoopAgent', `Synthesis summary available`); }
-  currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'fact_verification', factVerificationOutput);
-  newSessionState = { ...newSessionState, factCheckedSynthesisOutput: factVerificationOutput };
+  const availableEvidence: AggregatedEvidence = { supporting: researchResultFromPhase2 ?? [], counter: counterEvidenceResultFromPhase2 ?? [] };
+  // The synthesis is split into atomic claims so that each one gets its own verdict against the aggregated research.
+  const verifySynthesisClaims = async (synthesis: SynthesisEnsembleOutput['metaSynthesis']) => {
+    const defaultClaimExtraction = { claims: extractClaimsHeuristically(synthesis) };
+    let claimExtraction = defaultClaimExtraction;
+    try { claimExtraction = await errorCoordinator.callAgentWithRecovery('ClaimExtractionAgent', extractClaims, { synthesis }, defaultClaimExtraction, { phase: phaseName });
+    } catch (e: any) { processAgentError(e, 'ClaimExtractionAgent', `Synthesis available`); }
+    let factVerification = defaultFactVerificationOutput;
+    try { factVerification = await errorCoordinator.callAgentWithRecovery('FactVerificationLoopAgent', verifyFacts, { claims: claimExtraction.claims.map(({ claim, claimType, importance, section }) => ({ claim, claimType, importance, source: section })), verificationDepth: 'standard' as const, availableEvidence }, defaultFactVerificationOutput, { phase: phaseName });
+    } catch (e: any) { processAgentError(e, 'FactVerificationLoopAgent', `${claimExtraction.claims.length} claim(s) extracted`); }
+    const verifiedClaims = toVerifiedClaims(claimExtraction.claims, factVerification.claimVerifications ?? []);
+    const flagged = verifiedClaims.filter(claim => claim.flagged).length;
+    if (flagged > 0) console.warn(`MasterOrchestrator: [${phaseName}] ${flagged} of ${verifiedClaims.length} synthesis claim(s) are contradicted or unverified.`);
+    currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'fact_verification', factVerification);
+    return { factVerification, verifiedClaims };
+  };
+  const { factVerification: factVerificationOutput, verifiedClaims } = await verifySynthesisClaims(newSessionState.finalRefinedSynthesisOutput || defaultSynthesisEnsembleOutput.metaSynthesis);
+  newSessionState = { ...newSessionState, factCheckedSynthesisOutput: factVerificationOutput, verifiedClaims };
 
   const defaultNuancePreservationOutput: NuancePreservationOutput = getDefaultOutputForAgent('NuancePreservationCheckAgent') as NuancePreservationOutput || { preservationSummary: { totalNuances: 0, preservedNuances: 0, partiallyPreservedNuances: 0, lostNuances: 0, distortedNuances: 0, overallPreservationScore: 0, preservationCategory: 'unknown'}, nuanceAnalysis: [], preservationConcerns: { criticalLosses:[], significantDistortions:[], contextualShifts:[], oversimplifications:[] }, recommendations: { immediateRevisions:[], addMissingNuances:[], clarifyAmbiguities:[], strengthenQualifications:[] }, nuanceMetrics: { nuancesByType:{}, preservationRateByImportance:{ critical:0, high:0, medium:0, low:0}, distortionRisk:'unknown', contextualAccuracy:0}};
   let nuancePreservationOutput = defaultNuancePreservationOutput;
@@ -544,19 +743,111 @@ async function _executePhase5_SynthesisVerificationAndRefinement(
   newSessionState = { ...newSessionState, nuancePreservationReport: nuancePreservationOutput };
 
   const defaultSynthesisCritiqueOutput: SynthesisCritiqueLoopOutput = { critiqueResults: { overallAssessment: 'Default: Synthesis critique failed', strengths: [], weaknesses: [], gapAnalysis:{ evidenceGaps:[], logicalGaps:[], perspectiveGaps:[]}, refinementSuggestions: [], iterativeImprovements: { currentIteration: 1, convergenceAssessment: 'Analysis incomplete', recommendNextIteration: false, stoppingCriteria: { qualityThresholdMet:false, diminishingReturns:false,maxIterationsReached:false}}}, qualityMetrics: { completenessScore:0, coherenceScore:0, evidenceQualityScore:0, clarityScore:0, balanceScore:0, overallQualityScore:0}, recommendations:{immediateActions:[], structuralChanges:[], contentEnhancements:[], methodologyImprovements:[]}, nextSteps: { requiresRevision:true, revisionPriority:'high', focusAreas:['error_resolution'], estimatedEffort:'substantial'}};
+  const analysisContext = JSON.stringify({ qualityCheck: qualityCheckOutputFromPhase4, factVerification: factVerificationOutput, nuancePreservation: nuancePreservationOutput });
+  const draftSynthesis = newSessionState.finalRefinedSynthesisOutput || defaultSynthesisEnsembleOutput.metaSynthesis;
   let synthesisCritiqueOutput = defaultSynthesisCritiqueOutput;
-  try { synthesisCritiqueOutput = await errorCoordinator.callAgentWithRecovery('SynthesisCritiqueLoopAgent', critiqueSynthesis, { synthesis: newSessionState.finalRefinedSynthesisOutput?.summary || '', originalData: [newSessionState.initialAnswerText || ''], analysisContext: JSON.stringify({ qualityCheck: qualityCheckOutputFromPhase4, factVerification: factVerificationOutput, nuancePreservation: nuancePreservationOutput }), previousCritiques: [] }, defaultSynthesisCritiqueOutput, { phase: phaseName });
+  try {
+    const refined = await refineSynthesis(draftSynthesis, {
+      critique: (synthesisText, previousCritiques) => errorCoordinator.callAgentWithRecovery('SynthesisCritiqueLoopAgent', critiqueSynthesis, { synthesis: synthesisText, originalData: [newSessionState.initialAnswerText || ''], analysisContext, previousCritiques }, defaultSynthesisCritiqueOutput, { phase: phaseName }),
+      revise: (synthesis, guidance, iteration) => errorCoordinator.callAgentWithRecovery('SynthesisRevisionAgent', reviseSynthesis, { previousSynthesis: synthesis, revisionGuidance: guidance, iteration, initialAnswerText: newSessionState.initialAnswerText || '', citationSources: newSessionState.citationSources || [] }, synthesis, { phase: phaseName }),
+      onRevision: (revision) => errorCoordinator.emit({ type: 'synthesis_revised', iteration: revision.iteration, overallQualityScore: revision.qualityMetrics.overallQualityScore, timestamp: new Date().toISOString() }),
+    }, {
+      maxIterations: errorCoordinator.budget?.capIterations(phaseName, 'SynthesisRevisionAgent', parsedInput.maxRefinementIterations ?? DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS.maxIterations) ?? parsedInput.maxRefinementIterations,
+      qualityThreshold: parsedInput.refinementQualityThreshold,
+    });
+    synthesisCritiqueOutput = refined.critique;
+    // A revision may reword or drop statements, so the citations are checked again on the one that is kept.
+    newSessionState = { ...newSessionState, finalRefinedSynthesisOutput: refined.synthesis, synthesisRefinement: refined.refinement, citationValidation: validateCitations(refined.synthesis, newSessionState.citationSources || []) };
+    currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'synthesis_refinement', refined.refinement);
+    currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'citation_validation', newSessionState.citationValidation);
+    if (refined.synthesis !== draftSynthesis) {
+      const { factVerification, verifiedClaims: revisedClaims } = await verifySynthesisClaims(refined.synthesis);
+      newSessionState = { ...newSessionState, factCheckedSynthesisOutput: factVerification, verifiedClaims: revisedClaims };
+    }
+    console.log(`MasterOrchestrator: [${phaseName}] Synthesis refinement stopped after ${refined.refinement.revisions.length - 1} revision(s): ${refined.refinement.stopReason}; kept revision ${refined.refinement.selectedIteration}.`);
   } catch (e: any) { processAgentError(e, 'SynthesisCritiqueLoopAgent', `Synthesis/Context available`); }
-  
-  const updatedSummary = synthesisCritiqueOutput.critiqueResults?.refinedSynthesis || newSessionState.finalRefinedSynthesisOutput?.summary;
-  const updatedConfidence = synthesisCritiqueOutput.qualityMetrics?.overallQualityScore ? String(synthesisCritiqueOutput.qualityMetrics.overallQualityScore) : newSessionState.finalRefinedSynthesisOutput?.confidence;
-  newSessionState = { ...newSessionState, finalRefinedSynthesisOutput: { ...(newSessionState.finalRefinedSynthesisOutput || defaultSynthesisEnsembleOutput.metaSynthesis), summary: updatedSummary || newSessionState.finalRefinedSynthesisOutput?.summary || '', confidence: updatedConfidence || newSessionState.finalRefinedSynthesisOutput?.confidence || 'Low', remainingUncertainties: [...(newSessionState.finalRefinedSynthesisOutput?.remainingUncertainties || []), ...(synthesisCritiqueOutput.critiqueResults?.weaknesses?.map(w => `Critique Weakness: ${w}`) || []), 'Synthesis critique process output considered for refinement'].filter(Boolean) as string[]}};
   currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'synthesis_critique_loop_output', synthesisCritiqueOutput);
+
+  if (newSessionState.comparison) {
+    const { setup, optionAnalyses } = newSessionState.comparison;
+    const scenarios = newSessionState.sensitivityAnalysisReport?.scenarioTests ?? [];
+    const defaultJudgement: ComparisonJudgement = { ...scoreOptionsHeuristically(setup, optionAnalyses), scenarioAdjustments: heuristicScenarioAdjustments(setup, scenarios) };
+    let judgement = defaultJudgement;
+    try { judgement = await errorCoordinator.callAgentWithRecovery('ComparisonSynthesisAgent', synthesizeComparison, { question: newSessionState.refinedQuery || newSessionState.originalQuery, setup, optionAnalyses, scenarios, synthesisSummary: newSessionState.finalRefinedSynthesisOutput?.summary }, defaultJudgement, { phase: phaseName });
+    } catch (e: any) { processAgentError(e, 'ComparisonSynthesisAgent', `${setup.options.length} option(s), ${setup.criteria.length} criteria`); }
+    const result = buildComparisonResult(setup, judgement, scenarios);
+    newSessionState = { ...newSessionState, comparison: { ...newSessionState.comparison, result } };
+    currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'comparison_synthesis', judgement);
+    console.log(`MasterOrchestrator: [${phaseName}] Comparison ranks ${result.matrix.map(row => row.optionId).join(' > ')}; ranking ${result.robustness.category} across ${result.robustness.scenariosTested} scenario(s).`);
+  }
   newSessionState = { ...newSessionState, artifacts: currentArtifacts, errorsEncountered: currentErrors };
+
+  // Phase 5 is the last phase the budget cuts, so the confidence scored in Phase 4 is lowered here for every cut so far.
+  const scoredConfidence = (currentArtifacts['confidence_scoring'] as ConfidenceScoringOutput | undefined)?.overallConfidence;
+  const degradations = errorCoordinator.budget?.getDegradations() ?? [];
+  if (scoredConfidence && degradations.length > 0) {
+    newSessionState = { ...newSessionState, overallConfidence: penalizeConfidence(scoredConfidence, degradations) };
+    console.log(`MasterOrchestrator: [${phaseName}] ${degradations.length} budget cut(s) lowered the confidence from ${scoredConfidence.numericScore} to ${newSessionState.overallConfidence!.numericScore}.`);
+  }
   console.log(`MasterOrchestrator: [${phaseName}] Completed.`);
   return newSessionState;
 }
 
+/**
+ * Applies a reviewer's decision to the session: approve and modify finalize the synthesis (modify patches
+ * it first), request_more_analysis records the phases for the orchestrator to re-run, reject marks the
+ * session as rejected.
+ */
+function _applyHumanReviewDecision(
+  currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator,
+  review: HumanReviewState, humanInput: HumanReviewOutput['humanInput'],
+): { sessionState: SessionState; humanReviewReason: string } {
+  const phaseName = 'Phase6_HumanReviewAndFinalization';
+  const decision = humanInput?.decision ?? 'approve';
+  let newSessionState: SessionState = { ...currentSessionState };
+  let decidedReview: HumanReviewState = {
+    ...review, decision, decidedAt: new Date().toISOString(), feedback: humanInput?.feedback, additionalGuidance: humanInput?.additionalGuidance,
+  };
+  const synthesis = newSessionState.finalRefinedSynthesisOutput;
+  let humanReviewReason: string;
+
+  switch (decision) {
+    case 'approve':
+    case 'modify': {
+      let patched = synthesis;
+      if (patched && decision === 'modify') {
+        const { synthesis: modified, applied, ignored } = applySynthesisModifications(patched, humanInput?.modifications);
+        patched = modified;
+        decidedReview = { ...decidedReview, appliedModifications: applied, ignoredModifications: ignored };
+        if (ignored.length > 0) console.warn(`MasterOrchestrator: [${phaseName}] Ignored review modifications: ${ignored.join(', ')}`);
+      }
+      if (patched) patched = { ...patched, confidence: adjustConfidence(patched.confidence, humanInput?.confidenceAdjustment) };
+      newSessionState = {
+        ...newSessionState, finalRefinedSynthesisOutput: patched,
+        // Edited statements may no longer match their claims, so re-check what is still backed by a source.
+        citationValidation: patched && decision === 'modify' ? validateCitations(patched, newSessionState.citationSources ?? []) : newSessionState.citationValidation,
+      };
+      decidedReview = { ...decidedReview, status: decision === 'modify' ? 'modified' : 'approved' };
+      humanReviewReason = decision === 'modify'
+        ? `Reviewer modified the synthesis (${decidedReview.appliedModifications?.join(', ') || 'no applicable fields'}).`
+        : 'Reviewer approved the analysis.';
+      break;
+    }
+    case 'request_more_analysis':
+      decidedReview = { ...decidedReview, status: 'reanalysis_requested', rerunPhases: phasesToRerun(humanInput ?? {}) };
+      humanReviewReason = `Reviewer requested more analysis (phases ${decidedReview.rerunPhases!.join(', ')}).`;
+      break;
+    case 'reject':
+      decidedReview = { ...decidedReview, status: 'rejected' };
+      humanReviewReason = `Reviewer rejected the analysis${humanInput?.feedback ? `: ${humanInput.feedback}` : '.'}`;
+      break;
+  }
+
+  const artifacts = errorCoordinator.saveArtifact(newSessionState.artifacts || {}, 'human_review_decision', decidedReview);
+  console.log(`MasterOrchestrator: [${phaseName}] ${humanReviewReason}`);
+  return { sessionState: { ...newSessionState, humanReview: decidedReview, artifacts }, humanReviewReason };
+}
+
 async function _executePhase6_HumanReviewAndFinalization(
   currentSessionState: Readonly<SessionState>, errorCoordinator: ErrorHandlingAndRecoveryCoordinator, 
   parsedInput: MasterOrchestratorInput, 
@@ -569,9 +860,43 @@ async function _executePhase6_HumanReviewAndFinalization(
 
   console.log(`MasterOrchestrator: [${phaseName}] Starting...`);
   let humanReviewRequired = false; let humanReviewReason = ''; let humanReviewResult: HumanReviewOutput | null = null;
-  const synthesisForReview = synthesisEnsembleOutputFromPhase5 || { metaSynthesis: { confidence: 'Low', summary: 'N/A due to prior failure', keyStrengths: [], keyWeaknesses:['Prior phase failed'], howCounterEvidenceWasAddressed:[], actionableRecommendations:[], remainingUncertainties:['Prior phase failed'], perspectiveDivergence:'N/A', synthesisApproach:'Failed' }, individualPerspectives: [], errorHandling: { criticalFailuresDetected: true, failureImpactDescription: 'Prior phase failed'}};
 
-  if (parsedInput.enableHumanReview) {
+  // Resumed while suspended: continue only once the reviewer has decided (or the review expired).
+  const pendingReview = newSessionState.humanReview?.status === 'awaiting_review' ? newSessionState.humanReview : undefined;
+  if (pendingReview) {
+    let collected: Awaited<ReturnType<typeof collectHumanReview>> = { status: 'pending' };
+    try {
+      collected = await collectHumanReview(pendingReview.reviewId);
+    } catch (hrError: any) {
+      const hrErrorMessage = hrError instanceof Error ? hrError.message : String(hrError);
+      currentErrors = [...currentErrors, { agent: 'HumanReviewTool', error: hrErrorMessage, timestamp: new Date().toISOString(), recoveryAttempted: false, phase: phaseName, inputSummary: `reviewId: ${pendingReview.reviewId}`, isCriticalFailure: false, attempt: 1 }];
+    }
+    if (collected.status === 'pending') {
+      console.log(`MasterOrchestrator: [${phaseName}] Review ${pendingReview.reviewId} is still awaiting a decision.`);
+      return { ...newSessionState, errorsEncountered: currentErrors, humanReviewRequired: true, humanReviewReason: pendingReview.reason, humanReviewResult: null };
+    }
+    if (collected.status === 'expired') {
+      humanReviewRequired = true;
+      humanReviewReason = `${pendingReview.reason}. Review ${pendingReview.reviewId} expired without a decision.`;
+      newSessionState = { ...newSessionState, humanReview: { ...pendingReview, status: 'expired', decidedAt: new Date().toISOString() } };
+    } else {
+      humanReviewResult = collected.output ?? null;
+      currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'human_review_output', humanReviewResult);
+      const applied = _applyHumanReviewDecision({ ...newSessionState, artifacts: currentArtifacts }, errorCoordinator, pendingReview, humanReviewResult?.humanInput);
+      newSessionState = applied.sessionState; currentArtifacts = applied.sessionState.artifacts; humanReviewReason = applied.humanReviewReason;
+      humanReviewRequired = newSessionState.humanReview?.status === 'rejected';
+    }
+    newSessionState = { ...newSessionState, artifacts: currentArtifacts, errorsEncountered: currentErrors };
+    console.log(`MasterOrchestrator: [${phaseName}] Completed.`);
+    return { ...newSessionState, humanReviewRequired, humanReviewReason, humanReviewResult };
+  }
+
+  const synthesisForReview = synthesisEnsembleOutputFromPhase5 || { metaSynthesis: { confidence: 'Low', summary: 'N/A due to prior failure', keyStrengths: [], keyWeaknesses:['Prior phase failed'], howCounterEvidenceWasAddressed:[], actionableRecommendations:[], remainingUncertainties:['Prior phase failed'], perspectiveDivergence:'N/A', synthesisApproach:'Failed', claims: [] }, individualPerspectives: [], errorHandling: { criticalFailuresDetected: true, failureImpactDescription: 'Prior phase failed'}};
+
+  // After a requested re-analysis the reviewer has already decided, so the re-run synthesis is not sent back.
+  if (newSessionState.humanReview?.status === 'reanalyzed') {
+    humanReviewReason = `Re-ran phases ${newSessionState.humanReview.rerunPhases?.join(', ')} at the reviewer's request.`;
+  } else if (parsedInput.enableHumanReview) {
     const confidenceLevels = { 'High': 3, 'Medium': 2, 'Low': 1 };
     const thresholdLevel = confidenceLevels[parsedInput.confidenceThresholdForHumanReview];
     const actualLevel = confidenceLevels[synthesisForReview.metaSynthesis.confidence as keyof typeof confidenceLevels] || 1;
@@ -580,7 +905,7 @@ async function _executePhase6_HumanReviewAndFinalization(
     }
     const criticalErrorsInSession = (newSessionState.errorsEncountered || []).filter(e => e.isCriticalFailure || e.agent?.includes('Critical') || e.error?.includes('Critical'));
     if (criticalErrorsInSession.length > 0) {
-      humanReviewRequired = true; const existingReason = humanReviewReason ? `${existingReason}. ` : '';
+      humanReviewRequired = true; const existingReason = humanReviewReason ? `${humanReviewReason}. ` : '';
       humanReviewReason = `${existingReason}Critical errors encountered: ${criticalErrorsInSession.map(e => `${e.agent}: ${String(e.error).substring(0,50)}...`).join('; ')}`;
     }
     if (humanReviewRequired) {
@@ -588,8 +913,21 @@ async function _executePhase6_HumanReviewAndFinalization(
       const specificQuestions = ['Should the analysis proceed despite the identified issues?', 'Are there alternative approaches to address the gaps?', 'What additional data sources should be considered?'];
       if (synthesisForReview.metaSynthesis.confidence === 'Low') { specificQuestions.push('What specific actions would increase confidence?'); }
       try {
-        humanReviewResult = await requestHumanReview(synthesisForReview.metaSynthesis.confidence === 'Low' ? 'low_confidence' : 'critical_decision', newSessionState.originalQuery, synthesisForReview, { score: synthesisForReview.metaSynthesis.confidence, rationale: `Synthesis confidence: ${synthesisForReview.metaSynthesis.confidence}. Summary: ${synthesisForReview.metaSynthesis.summary}` }, criticalIssuesForReview, specificQuestions, criticalErrorsInSession.length > 0 ? 'high' : 'medium');
+        humanReviewResult = await requestHumanReview(synthesisForReview.metaSynthesis.confidence === 'Low' ? 'low_confidence' : 'critical_decision', newSessionState.originalQuery, synthesisForReview, { score: synthesisForReview.metaSynthesis.confidence, rationale: `Synthesis confidence: ${synthesisForReview.metaSynthesis.confidence}. Summary: ${synthesisForReview.metaSynthesis.summary}` }, criticalIssuesForReview, specificQuestions, criticalErrorsInSession.length > 0 ? 'high' : 'medium', parsedInput.sessionId);
         currentArtifacts = errorCoordinator.saveArtifact(currentArtifacts, 'human_review_output', humanReviewResult);
+        if (humanReviewResult.reviewId !== 'error') {
+          const review: HumanReviewState = {
+            status: 'awaiting_review', reviewId: humanReviewResult.reviewId, reason: humanReviewReason, requestedAt: humanReviewResult.timestamp,
+            resumeToken: parsedInput.sessionId ? createResumeToken(parsedInput.sessionId, humanReviewResult.reviewId) : undefined,
+          };
+          if (humanReviewResult.reviewCompleted) {
+            const applied = _applyHumanReviewDecision({ ...newSessionState, artifacts: currentArtifacts }, errorCoordinator, review, humanReviewResult.humanInput);
+            newSessionState = applied.sessionState; currentArtifacts = applied.sessionState.artifacts; humanReviewReason = applied.humanReviewReason;
+            humanReviewRequired = newSessionState.humanReview?.status === 'rejected';
+          } else {
+            newSessionState = { ...newSessionState, humanReview: review };
+          }
+        }
       } catch (hrError: any) {
         const hrErrorMessage = hrError instanceof Error ? hrError.message : String(hrError);
         const errorEntry: ErrorInfo = { agent: 'HumanReviewTool', error: hrErrorMessage, timestamp: new Date().toISOString(), recoveryAttempted: false, phase: phaseName, inputSummary: 'Human review inputs', isCriticalFailure: true, attempt: 1 };
@@ -603,7 +941,74 @@ async function _executePhase6_HumanReviewAndFinalization(
   return { ...newSessionState, humanReviewRequired, humanReviewReason, humanReviewResult };
 }
 
-export async function orchestrateWithMaster(input: MasterOrchestratorInput): Promise<MasterOrchestratorOutput> {
+async function _runPhase<T>(errorCoordinator: ErrorHandlingAndRecoveryCoordinator, phase: string, run: () => Promise<T>): Promise<T> {
+  return withSpan(`phase ${phase}`, { 'ravint.phase': phase }, async () => {
+    const phaseStartTime = Date.now();
+    errorCoordinator.emit({ type: 'phase_started', phase, timestamp: new Date().toISOString() });
+    const result = await run();
+    errorCoordinator.emit({ type: 'phase_finished', phase, durationMs: Date.now() - phaseStartTime, timestamp: new Date().toISOString() });
+    return result;
+  });
+}
+
+/** The event's scalar fields as span event attributes; artifact data and question lists are left out. */
+function _spanEventAttributes(event: OrchestratorEvent): Record<string, string | number | boolean> {
+  return Object.fromEntries(Object.entries(event).filter(([key, value]) =>
+    key !== 'type' && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'))) as Record<string, string | number | boolean>;
+}
+
+function _emptySessionState(originalQuery: string): SessionState {
+  return {
+    originalQuery, refinedQuery: undefined, initialAnswerText: undefined, assumptions: undefined, aggregatedSupportingResearch: undefined,
+    aggregatedCounterResearch: undefined, routingDecision: undefined, executedRoutingPlans: undefined, potentialBiases: undefined, crossReferencedBiasReport: undefined,
+    conflictResolutionAnalysis: undefined, stressTestedArgument: undefined, balancedBrief: undefined, pressureTestedBrief: undefined,
+    impactAssessments: undefined, qualityScores: undefined, overallConfidence: undefined, sensitivityAnalysisReport: undefined,
+    draftSynthesisOutput: undefined, factCheckedSynthesisOutput: undefined, nuancePreservationReport: undefined, finalRefinedSynthesisOutput: undefined,
+    citationSources: undefined, citationValidation: undefined, clarification: undefined, synthesisRefinement: undefined, verifiedClaims: undefined, humanReview: undefined, modelUsage: undefined, budget: undefined, followUps: undefined, comparison: undefined, errorsEncountered: [], artifacts: {},
+  };
+}
+
+async function _saveCheckpoint(repository: SessionRepository | null, checkpoint: SessionCheckpoint): Promise<void> {
+  if (!repository) return;
+  try {
+    await repository.saveCheckpoint(checkpoint);
+  } catch (error: any) {
+    // A failed checkpoint only costs resumability; never fail the analysis over it.
+    console.warn(`MasterOrchestrator: Failed to checkpoint ${checkpoint.phase} for session ${checkpoint.sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function _loadResumeCheckpoint(
+  repository: SessionRepository | null, sessionId: string, fromPhase: number | undefined,
+): Promise<{ checkpoint: SessionCheckpoint } | { error: string }> {
+  if (!repository) return { error: `Cannot resume session ${sessionId}: session checkpointing is disabled.` };
+  if (fromPhase === 1) {
+    // Re-running from Phase 1 needs only the original input, which every checkpoint carries.
+    const latest = await repository.loadCheckpoint(sessionId);
+    if (!latest) return { error: `No checkpoints found for session ${sessionId}.` };
+    return { checkpoint: { ...latest, phaseIndex: 0, phase: 'MasterOrchestrator_Setup', sessionState: _emptySessionState(latest.sessionState.originalQuery), humanReviewRequired: undefined, humanReviewReason: undefined } };
+  }
+  const checkpoint = await repository.loadCheckpoint(sessionId, fromPhase === undefined ? undefined : fromPhase - 1);
+  if (!checkpoint) {
+    return { error: fromPhase === undefined ? `No checkpoints found for session ${sessionId}.` : `Session ${sessionId} has no checkpoint for phase ${fromPhase - 1}; cannot resume from phase ${fromPhase}.` };
+  }
+  return { checkpoint };
+}
+
+export async function orchestrateWithMaster(input: MasterOrchestratorInput, options: MasterOrchestratorOptions = {}): Promise<MasterOrchestratorOutput> {
+  // One trace per run: the phase and agent spans nest under this one. With LLM_CASSETTE_MODE=replay, a prompt
+  // call that missed or drifted fails the run even when the agent fell back to its default output.
+  return withSpan('master_orchestrator session', {}, async () => {
+    const output = await withReplayChecks(() => _orchestrateWithMaster(input, options));
+    setSpanAttributes({
+      'ravint.session_id': output.sessionId ?? 'none', 'ravint.success': output.success,
+      'ravint.awaiting_clarification': output.awaitingClarification, 'ravint.awaiting_review': output.awaitingReview,
+    });
+    return output;
+  });
+}
+
+async function _orchestrateWithMaster(input: MasterOrchestratorInput, options: MasterOrchestratorOptions): Promise<MasterOrchestratorOutput> {
   const orchestratorPhase = "MasterOrchestrator_Setup";
   const parsedInput = MasterOrchestratorInputSchema.safeParse(input);
 
@@ -612,68 +1017,156 @@ export async function orchestrateWithMaster(input: MasterOrchestratorInput): Pro
     console.error(`MasterOrchestrator: [${orchestratorPhase}] Invalid input. Error: ${inputErrorMsg}`, { inputSummary: JSON.stringify(input).substring(0,100), errorDetails: parsedInput.error.flatten(), timestamp: new Date().toISOString() });
     const errorSessionState: SessionState = {
         originalQuery: input.query || 'Invalid Query (Not Provided)', refinedQuery: undefined, initialAnswerText: undefined, assumptions: undefined, aggregatedSupportingResearch: undefined,
-        aggregatedCounterResearch: undefined, routingDecision: undefined, potentialBiases: undefined, crossReferencedBiasReport: undefined,
+        aggregatedCounterResearch: undefined, routingDecision: undefined, executedRoutingPlans: undefined, potentialBiases: undefined, crossReferencedBiasReport: undefined,
         conflictResolutionAnalysis: undefined, stressTestedArgument: undefined, balancedBrief: undefined, pressureTestedBrief: undefined,
         impactAssessments: undefined, qualityScores: undefined, overallConfidence: undefined, sensitivityAnalysisReport: undefined,
         draftSynthesisOutput: undefined, factCheckedSynthesisOutput: undefined, nuancePreservationReport: undefined, finalRefinedSynthesisOutput: undefined,
+        citationSources: undefined, citationValidation: undefined, clarification: undefined, synthesisRefinement: undefined, verifiedClaims: undefined, humanReview: undefined, modelUsage: undefined, budget: undefined, followUps: undefined, comparison: undefined,
         errorsEncountered: [{ agent: 'MasterOrchestrator_InputValidation', error: inputErrorMsg, timestamp: new Date().toISOString(), recoveryAttempted: false, phase: orchestratorPhase, inputSummary: JSON.stringify(input).substring(0,100), attempt: 1, isCriticalFailure: true, }],
         artifacts: {},
     };
-    return { success: false, sessionState: errorSessionState, humanReviewRequired: false };
+    return { success: false, sessionState: errorSessionState, humanReviewRequired: false, awaitingClarification: false, awaitingReview: false, reviewRejected: false };
   }
   
-  let currentSessionState: SessionState = {
-    originalQuery: parsedInput.data.query, refinedQuery: undefined, initialAnswerText: undefined, assumptions: undefined, aggregatedSupportingResearch: undefined,
-    aggregatedCounterResearch: undefined, routingDecision: undefined, potentialBiases: undefined, crossReferencedBiasReport: undefined,
-    conflictResolutionAnalysis: undefined, stressTestedArgument: undefined, balancedBrief: undefined, pressureTestedBrief: undefined,
-    impactAssessments: undefined, qualityScores: undefined, overallConfidence: undefined, sensitivityAnalysisReport: undefined,
-    draftSynthesisOutput: undefined, factCheckedSynthesisOutput: undefined, nuancePreservationReport: undefined, finalRefinedSynthesisOutput: undefined,
-    errorsEncountered: [], artifacts: {},
-  };
-  
-  const errorCoordinator = new ErrorHandlingAndRecoveryCoordinator(parsedInput.data.maxRetries, 3, 30000);
-  
-  try {
-    console.log(`MasterOrchestrator: [${orchestratorPhase}] Starting enhanced analytical workflow for query: "${parsedInput.data.query.substring(0, 50)}..."`);
+  const sessionRepository = options.sessionRepository === undefined ? getSessionRepository() : options.sessionRepository;
+  let runInput: MasterOrchestratorInput = parsedInput.data;
+  let sessionId = parsedInput.data.sessionId || generateSessionId();
+  let startPhaseIndex = 0;
+  let currentSessionState: SessionState = _emptySessionState(parsedInput.data.query || '');
+  let humanReviewRequired = false;
+  let humanReviewReason = '';
 
-    currentSessionState = await _executePhase1_QueryIntakeAndInitialAnswer(currentSessionState, errorCoordinator, parsedInput.data);
-    currentSessionState = await _executePhase2_EvidenceGatheringAndAnalysis(currentSessionState, errorCoordinator);
-    
-    const researchResultFromState = currentSessionState.aggregatedSupportingResearch;
-    const counterEvidenceResultFromState = currentSessionState.aggregatedCounterResearch;
-    const assumptionsResultFromState = currentSessionState.assumptions;
-    const informationGapsResultFromPhase2 = currentSessionState.artifacts['Phase2_EvidenceGatheringAndAnalysis_information_gap_results'] as InformationGapOutput | undefined;
+  // A resume token names the session and the review it was suspended on.
+  const resumeToken = parsedInput.data.resumeToken ? parseResumeToken(parsedInput.data.resumeToken) : undefined;
+  const resumeSessionId = resumeToken ? resumeToken.sessionId : parsedInput.data.resumeSessionId;
+  if (resumeToken === null || resumeSessionId) {
+    let resumed: Awaited<ReturnType<typeof _loadResumeCheckpoint>> = resumeToken === null
+      ? { error: 'Invalid resume token.' }
+      : await _loadResumeCheckpoint(sessionRepository, resumeSessionId!, resumeToken ? undefined : parsedInput.data.fromPhase);
+    if (resumeToken && !('error' in resumed) && resumed.checkpoint.sessionState.humanReview?.reviewId !== resumeToken.reviewId) {
+      resumed = { error: `Session ${resumeSessionId} is not awaiting review ${resumeToken.reviewId}.` };
+    }
+    if ('error' in resumed) {
+      console.error(`MasterOrchestrator: [${orchestratorPhase}] ${resumed.error}`);
+      const errorEntry: ErrorInfo = { agent: 'MasterOrchestrator_Resume', error: resumed.error, timestamp: new Date().toISOString(), recoveryAttempted: false, phase: orchestratorPhase, inputSummary: `resumeSessionId: ${resumeSessionId}`, attempt: 1, isCriticalFailure: true };
+      return { success: false, sessionState: { ...currentSessionState, errorsEncountered: [errorEntry] }, humanReviewRequired: false, sessionId: resumeSessionId, awaitingClarification: false, awaitingReview: false, reviewRejected: false };
+    }
+    sessionId = resumeSessionId!;
+    runInput = {
+      ...resumed.checkpoint.input, sessionId, resumeSessionId: undefined, fromPhase: undefined, resumeToken: undefined,
+      clarification: parsedInput.data.clarification ?? resumed.checkpoint.input.clarification,
+    };
+    currentSessionState = resumed.checkpoint.sessionState;
+    humanReviewRequired = resumed.checkpoint.humanReviewRequired ?? false;
+    humanReviewReason = resumed.checkpoint.humanReviewReason ?? '';
+    startPhaseIndex = resumed.checkpoint.phaseIndex;
+    console.log(`MasterOrchestrator: [${orchestratorPhase}] Resuming session ${sessionId} after ${resumed.checkpoint.phase}.`);
+  }
+  runInput = { ...runInput, sessionId };
 
-    currentSessionState = await _executePhase3_InDepthAnalysisAndChallenge(currentSessionState, errorCoordinator, researchResultFromState, counterEvidenceResultFromState);
-    const critiqueResultFromPhase3 = currentSessionState.artifacts['critique_phase3'] as CritiqueAgentOutput | undefined;
-    const challengeResultFromPhase3 = currentSessionState.artifacts['challenge_phase3'] as ChallengeOutput | undefined;
+  if (!workflowMetricsSystem.getSessionMetrics(sessionId)) workflowMetricsSystem.startSession(sessionId, 'master_orchestrator', currentSessionState.originalQuery);
+  // Usage carries over from the checkpoint, so a resumed session keeps counting from where it stopped.
+  let modelUsage: ModelUsage | undefined = currentSessionState.modelUsage;
+  const recordModelCall = (record: Parameters<typeof addModelCall>[1]) => { modelUsage = addModelCall(modelUsage, record); };
+  // The budget state also carries over: spend, elapsed time and the cuts made before the checkpoint.
+  const budgetTracker = runInput.budget
+    ? new SessionBudgetTracker(currentSessionState.budget ?? initialBudgetState(runInput.budget), () => modelUsage?.total,
+      (degradation) => errorCoordinator.emit({ type: 'budget_degraded', ...degradation }))
+    : undefined;
+  const errorCoordinator = new ErrorHandlingAndRecoveryCoordinator(runInput.maxRetries, 3, 30000, options.onEvent, budgetTracker);
 
-    currentSessionState = await _executePhase4_PreSynthesisStructuringAndQA(currentSessionState, errorCoordinator, critiqueResultFromPhase3, challengeResultFromPhase3, counterEvidenceResultFromState, informationGapsResultFromPhase2, assumptionsResultFromState, researchResultFromState );
-    const qualityCheckOutputFromPhase4 = currentSessionState.artifacts['quality_check'] as QualityCheckOutput | undefined;
+  // Each phase re-derives what it needs from the session state, so a run can start at any phase from a checkpoint.
+  const phases: { name: string; execute: (state: SessionState) => Promise<SessionState> }[] = [
+    { name: 'Phase1_QueryIntakeAndInitialAnswer', execute: (state) => _executePhase1_QueryIntakeAndInitialAnswer(state, errorCoordinator, runInput) },
+    { name: 'Phase2_EvidenceGatheringAndAnalysis', execute: (state) => _executePhase2_EvidenceGatheringAndAnalysis(state, errorCoordinator, runInput) },
+    { name: 'Phase3_InDepthAnalysisAndChallenge', execute: (state) => _executePhase3_InDepthAnalysisAndChallenge(state, errorCoordinator, state.aggregatedSupportingResearch, state.aggregatedCounterResearch) },
+    {
+      name: 'Phase4_PreSynthesisStructuringAndQA',
+      execute: (state) => _executePhase4_PreSynthesisStructuringAndQA(
+        state, errorCoordinator,
+        state.artifacts['critique_phase3'] as CritiqueAgentOutput | undefined,
+        state.artifacts['challenge_phase3'] as ChallengeOutput | undefined,
+        state.aggregatedCounterResearch,
+        state.artifacts['Phase2_EvidenceGatheringAndAnalysis_information_gap_results'] as InformationGapOutput | undefined,
+        state.assumptions, state.aggregatedSupportingResearch,
+      ),
+    },
+    { name: 'Phase5_SynthesisVerificationAndRefinement', execute: (state) => _executePhase5_SynthesisVerificationAndRefinement(state, errorCoordinator, state.aggregatedSupportingResearch, state.aggregatedCounterResearch, state.artifacts['quality_check'] as QualityCheckOutput | undefined, runInput) },
+    {
+      name: 'Phase6_HumanReviewAndFinalization',
+      execute: async (state) => {
+        const phase6FullResult = await _executePhase6_HumanReviewAndFinalization(state, errorCoordinator, runInput, state.draftSynthesisOutput);
+        humanReviewRequired = phase6FullResult.humanReviewRequired;
+        humanReviewReason = phase6FullResult.humanReviewReason;
+        return {
+          originalQuery: phase6FullResult.originalQuery, refinedQuery: phase6FullResult.refinedQuery, initialAnswerText: phase6FullResult.initialAnswerText,
+          assumptions: phase6FullResult.assumptions, aggregatedSupportingResearch: phase6FullResult.aggregatedSupportingResearch, aggregatedCounterResearch: phase6FullResult.aggregatedCounterResearch,
+          routingDecision: phase6FullResult.routingDecision, executedRoutingPlans: phase6FullResult.executedRoutingPlans, potentialBiases: phase6FullResult.potentialBiases, crossReferencedBiasReport: phase6FullResult.crossReferencedBiasReport,
+          conflictResolutionAnalysis: phase6FullResult.conflictResolutionAnalysis, stressTestedArgument: phase6FullResult.stressTestedArgument,
+          balancedBrief: phase6FullResult.balancedBrief, pressureTestedBrief: phase6FullResult.pressureTestedBrief, impactAssessments: phase6FullResult.impactAssessments,
+          qualityScores: phase6FullResult.qualityScores, overallConfidence: phase6FullResult.overallConfidence, sensitivityAnalysisReport: phase6FullResult.sensitivityAnalysisReport,
+          draftSynthesisOutput: phase6FullResult.draftSynthesisOutput, factCheckedSynthesisOutput: phase6FullResult.factCheckedSynthesisOutput,
+          nuancePreservationReport: phase6FullResult.nuancePreservationReport, finalRefinedSynthesisOutput: phase6FullResult.finalRefinedSynthesisOutput,
+          citationSources: phase6FullResult.citationSources, citationValidation: phase6FullResult.citationValidation, clarification: phase6FullResult.clarification,
+          synthesisRefinement: phase6FullResult.synthesisRefinement, verifiedClaims: phase6FullResult.verifiedClaims, humanReview: phase6FullResult.humanReview, modelUsage: phase6FullResult.modelUsage, budget: phase6FullResult.budget, followUps: phase6FullResult.followUps, comparison: phase6FullResult.comparison,
+          errorsEncountered: phase6FullResult.errorsEncountered, artifacts: phase6FullResult.artifacts
+        };
+      },
+    },
+  ];
 
-    currentSessionState = await _executePhase5_SynthesisVerificationAndRefinement(currentSessionState, errorCoordinator, researchResultFromState, counterEvidenceResultFromState, qualityCheckOutputFromPhase4);
-    const synthesisEnsembleOutputFromState = currentSessionState.draftSynthesisOutput;
+  try {
+    console.log(`MasterOrchestrator: [${orchestratorPhase}] Starting enhanced analytical workflow for query: "${currentSessionState.originalQuery.substring(0, 50)}..." (session ${sessionId})`);
 
-    const phase6FullResult = await _executePhase6_HumanReviewAndFinalization(currentSessionState, errorCoordinator, parsedInput.data, synthesisEnsembleOutputFromState);
-    
-    currentSessionState = { 
-        originalQuery: phase6FullResult.originalQuery, refinedQuery: phase6FullResult.refinedQuery, initialAnswerText: phase6FullResult.initialAnswerText,
-        assumptions: phase6FullResult.assumptions, aggregatedSupportingResearch: phase6FullResult.aggregatedSupportingResearch, aggregatedCounterResearch: phase6FullResult.aggregatedCounterResearch,
-        routingDecision: phase6FullResult.routingDecision, potentialBiases: phase6FullResult.potentialBiases, crossReferencedBiasReport: phase6FullResult.crossReferencedBiasReport,
-        conflictResolutionAnalysis: phase6FullResult.conflictResolutionAnalysis, stressTestedArgument: phase6FullResult.stressTestedArgument,
-        balancedBrief: phase6FullResult.balancedBrief, pressureTestedBrief: phase6FullResult.pressureTestedBrief, impactAssessments: phase6FullResult.impactAssessments,
-        qualityScores: phase6FullResult.qualityScores, overallConfidence: phase6FullResult.overallConfidence, sensitivityAnalysisReport: phase6FullResult.sensitivityAnalysisReport,
-        draftSynthesisOutput: phase6FullResult.draftSynthesisOutput, factCheckedSynthesisOutput: phase6FullResult.factCheckedSynthesisOutput,
-        nuancePreservationReport: phase6FullResult.nuancePreservationReport, finalRefinedSynthesisOutput: phase6FullResult.finalRefinedSynthesisOutput,
-        errorsEncountered: phase6FullResult.errorsEncountered, artifacts: phase6FullResult.artifacts 
-    };
-    
-    console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Workflow completed. Success: true. Human Review Required: ${phase6FullResult.humanReviewRequired}`);
+    // A queue rather than a loop counter: a request_more_analysis decision in Phase 6 re-queues earlier phases.
+    const phaseQueue = phases.map((_, index) => index).slice(startPhaseIndex);
+    while (phaseQueue.length > 0) {
+      const phaseIndex = phaseQueue.shift()!;
+      const phase = phases[phaseIndex];
+      currentSessionState = await runWithModelUsageContext({ sessionId, phase: phase.name, onCall: recordModelCall }, () => _runPhase(errorCoordinator, phase.name, () => phase.execute(currentSessionState)));
+      currentSessionState = { ...currentSessionState, modelUsage, budget: budgetTracker?.snapshot() ?? currentSessionState.budget };
+      if (phaseIndex === 0 && currentSessionState.clarification?.status === 'pending') {
+        // Phase 1 is not complete yet, so the pause is checkpointed as phase 0; resuming re-enters Phase 1.
+        await _saveCheckpoint(sessionRepository, { sessionId, phaseIndex: 0, phase: 'Phase1_AwaitingClarification', input: runInput, sessionState: currentSessionState, savedAt: new Date().toISOString() });
+        console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Paused for clarification (session ${sessionId}).`);
+        return { success: true, sessionState: currentSessionState, humanReviewRequired: false, sessionId, awaitingClarification: true, awaitingReview: false, reviewRejected: false };
+      }
+      const review = phaseIndex === phases.length - 1 ? currentSessionState.humanReview : undefined;
+      if (review?.status === 'awaiting_review') {
+        // Like a clarification pause: checkpointed before Phase 6, so resuming re-enters Phase 6 to collect the decision.
+        await _saveCheckpoint(sessionRepository, { sessionId, phaseIndex, phase: 'Phase6_AwaitingHumanReview', input: runInput, sessionState: currentSessionState, humanReviewRequired, humanReviewReason, savedAt: new Date().toISOString() });
+        console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Suspended for human review ${review.reviewId} (session ${sessionId}).`);
+        return {
+          success: true, finalSynthesis: currentSessionState.finalRefinedSynthesisOutput, sessionState: currentSessionState,
+          humanReviewRequired, humanReviewReason, sessionId, awaitingClarification: false, awaitingReview: true, resumeToken: review.resumeToken, reviewRejected: false,
+        };
+      }
+      if (review?.status === 'reanalysis_requested') {
+        // Re-run from the earliest requested phase through synthesis, since every later phase builds on the one
+        // before it, then Phase 6 without requesting another review.
+        const firstRerunIndex = Math.min(...review.rerunPhases!) - 1;
+        phaseQueue.push(...phases.map((_, index) => index).slice(firstRerunIndex, 5), phases.length - 1);
+        currentSessionState = { ...currentSessionState, humanReview: { ...review, status: 'reanalyzed' } };
+        console.log(`MasterOrchestrator: [MasterOrchestrator_Reanalysis] Re-running phases ${review.rerunPhases!.join(', ')} at the reviewer's request (session ${sessionId}).`);
+        continue;
+      }
+      await _saveCheckpoint(sessionRepository, {
+        sessionId, phaseIndex: phaseIndex + 1, phase: phase.name, input: runInput, sessionState: currentSessionState,
+        ...(phaseIndex === phases.length - 1 ? { humanReviewRequired, humanReviewReason } : {}),
+        savedAt: new Date().toISOString(),
+      });
+    }
+
+    console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Workflow completed. Success: true. Human Review Required: ${humanReviewRequired}`);
     return {
       success: true, finalSynthesis: currentSessionState.finalRefinedSynthesisOutput, 
       sessionState: currentSessionState,
-      humanReviewRequired: phase6FullResult.humanReviewRequired,
-      humanReviewReason: phase6FullResult.humanReviewReason,
+      humanReviewRequired,
+      humanReviewReason,
+      sessionId,
+      awaitingClarification: false,
+      awaitingReview: false,
+      reviewRejected: currentSessionState.humanReview?.status === 'rejected',
     };
   } catch (error: any) { 
     const criticalFailureMsg = `Critical failure in orchestration: ${error instanceof Error ? error.message : String(error)}`;
@@ -683,15 +1176,176 @@ export async function orchestrateWithMaster(input: MasterOrchestratorInput): Pro
       recoveryAttempted: false, phase: 'MasterOrchestrator_GlobalCatch',
       inputSummary: `Original Query: ${currentSessionState.originalQuery.substring(0,100)}...`, attempt: 1, isCriticalFailure: true,
     };
-    currentSessionState = { ...currentSessionState, errorsEncountered: [...(currentSessionState.errorsEncountered || []), finalErrorEntry] };
-    console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Workflow completed. Success: false due to critical error. Human Review Required: ${parsedInput.data.enableHumanReview}`);
-    return { success: false, sessionState: currentSessionState, humanReviewRequired: parsedInput.data.enableHumanReview, humanReviewReason: criticalFailureMsg };
+    currentSessionState = { ...currentSessionState, modelUsage, budget: budgetTracker?.snapshot() ?? currentSessionState.budget, errorsEncountered: [...(currentSessionState.errorsEncountered || []), finalErrorEntry] };
+    console.log(`MasterOrchestrator: [MasterOrchestrator_Completion] Workflow completed. Success: false due to critical error. Human Review Required: ${runInput.enableHumanReview}`);
+    return { success: false, sessionState: currentSessionState, humanReviewRequired: runInput.enableHumanReview, humanReviewReason: criticalFailureMsg, sessionId, awaitingClarification: false, awaitingReview: false, reviewRejected: false };
   }
 }
 
+/**
+ * Records a reviewer's decision and, when the review suspended a master orchestrator session, resumes that
+ * session so the decision takes effect. Returns null for reviews not tied to a session.
+ */
+export async function submitHumanReviewAndResume(
+  reviewId: string, humanInput: HumanReviewOutput['humanInput'], reviewer?: string | ReviewerIdentity, options: MasterOrchestratorOptions = {},
+): Promise<MasterOrchestratorOutput | null> {
+  const humanReviewSystem = getHumanReviewSystem();
+  if (!(await humanReviewSystem.submitReviewResult(reviewId, humanInput, reviewer))) {
+    throw new Error(`Review ${reviewId} is not awaiting a decision.`);
+  }
+  const sessionId = (await humanReviewSystem.store.load(reviewId))?.input.context.sessionId;
+  if (!sessionId) return null;
+  return orchestrateWithMaster({
+    resumeToken: createResumeToken(sessionId, reviewId),
+    enableHumanReview: true, confidenceThresholdForHumanReview: 'Low', maxRetries: 3, enableClarification: false,
+  }, options);
+}
+
+/**
+ * Re-runs the agents downstream of the assumptions (sensitivity analysis, confidence scoring and the synthesis
+ * ensemble) for a finished session with the user's assumption changes, and compares the outcome with the
+ * session's own run. The session and its checkpoints are left unchanged.
+ */
+export async function runWhatIfScenario(sessionId: string, changes: AssumptionChange[], options: MasterOrchestratorOptions = {}): Promise<WhatIfResult> {
+  const phaseName = 'WhatIfScenario';
+  const assumptionChanges = z.array(AssumptionChangeSchema).min(1, 'Change at least one assumption.').parse(changes);
+  const sessionRepository = options.sessionRepository === undefined ? getSessionRepository() : options.sessionRepository;
+  if (!sessionRepository) throw new Error(`Cannot run a what-if scenario for session ${sessionId}: session checkpointing is disabled.`);
+  const checkpoint = await sessionRepository.loadCheckpoint(sessionId);
+  if (!checkpoint) throw new Error(`No checkpoints found for session ${sessionId}.`);
+  if (checkpoint.phaseIndex < 5) throw new Error(`Session ${sessionId} has no synthesis yet; what-if scenarios need a completed Phase 5.`);
+  const state = checkpoint.sessionState;
+  const knownAssumptions = new Set((state.assumptions ?? []).map(item => item.assumption));
+  const unknownChange = assumptionChanges.find(change => !knownAssumptions.has(change.assumption));
+  if (unknownChange) throw new Error(`"${unknownChange.assumption}" is not one of the assumptions of session ${sessionId}.`);
+
+  // The scenario outcome is raw agent output, so the baseline is too: the session's ensemble draft rather than its refined or
+  // reviewed synthesis, and the ConfidenceScoringAgent's score before any budget penalty or reviewer adjustment.
+  const scoredConfidence = (state.artifacts['confidence_scoring'] as ConfidenceScoringOutput | undefined)?.overallConfidence ?? state.overallConfidence;
+  const baseline: WhatIfOutcome = { overallConfidence: scoredConfidence, robustness: state.sensitivityAnalysisReport?.overallRobustness, synthesis: state.draftSynthesisOutput?.metaSynthesis };
+  const errorCoordinator = new ErrorHandlingAndRecoveryCoordinator(checkpoint.input.maxRetries, 3, 30000, options.onEvent);
+  const assumptionOverrides = assumptionChanges.map(toAssumptionOverride);
+  console.log(`MasterOrchestrator: [${phaseName}] Session ${sessionId}: re-running downstream agents with ${assumptionChanges.length} changed assumption(s).`);
+
+  // Attributed to the session in the metrics, but not added to its modelUsage: the session itself is unchanged.
+  const { sensitivity, confidence, synthesis } = await runWithModelUsageContext({ sessionId, phase: phaseName }, async () => {
+    const sensitivity = await errorCoordinator.callAgentWithRecovery('SensitivityAnalysisAgent', analyzeSensitivity, { originalConclusions: [state.initialAnswerText!], keyAssumptions: _keyAssumptionsForSensitivity(state.assumptions), synthesisEvidence: state.aggregatedSupportingResearch, assumptionChanges }, state.sensitivityAnalysisReport!, { phase: phaseName });
+    const confidence = await errorCoordinator.callAgentWithRecovery('ConfidenceScoringAgent', scoreConfidence, { pressureTestedBrief: state.pressureTestedBrief, aggregatedSupportingResearch: state.aggregatedSupportingResearch ?? [], aggregatedCounterResearch: state.aggregatedCounterResearch ?? [], critiqueOutput: (state.artifacts['critique_phase3'] as CritiqueAgentOutput | undefined) ?? '', biasReport: state.crossReferencedBiasReport, conflictResolutionAnalysis: state.conflictResolutionAnalysis, impactAssessments: state.impactAssessments, qualityScores: state.qualityScores, assumptionOverrides }, { overallConfidence: scoredConfidence! } as ConfidenceScoringOutput, { phase: phaseName });
+    const scenarioState: SessionState = { ...state, overallConfidence: confidence.overallConfidence, sensitivityAnalysisReport: sensitivity };
+    const synthesis = await errorCoordinator.callAgentWithRecovery('SynthesisEnsembleAgent', runSynthesisEnsemble, { ..._synthesisEnsembleInput(scenarioState, state.aggregatedSupportingResearch, state.aggregatedCounterResearch), assumptionOverrides }, state.draftSynthesisOutput!, { phase: phaseName });
+    return { sensitivity, confidence, synthesis };
+  });
+
+  const scenario: WhatIfOutcome = { overallConfidence: confidence.overallConfidence, robustness: sensitivity.overallRobustness, synthesis: synthesis.metaSynthesis };
+  const comparison = compareOutcomes(baseline, scenario);
+  console.log(`MasterOrchestrator: [${phaseName}] Completed. Confidence adjustment ${comparison.confidenceAdjustment}, ${comparison.conclusionChanges.filter(item => item.change !== 'unchanged').length} conclusion change(s).`);
+  return { sessionId, changes: assumptionChanges, baseline, scenario, scenarioTest: sensitivity.scenarioTests.find(test => test.scenarioId === WHAT_IF_SCENARIO_ID), ...comparison, ranAt: new Date().toISOString() };
+}
+
+/**
+ * Answers a follow-up question on a finished session. The FollowUpPlannerAgent picks the agents the question
+ * needs re-run (new research on a gap, a hypothetical for sensitivity and confidence); the answer otherwise draws
+ * on the session's evidence, assumptions and critiques. The turn is appended to SessionState.followUps, and its
+ * model usage to the session's, in the session's final checkpoint.
+ */
+export async function askFollowUpQuestion(sessionId: string, question: string, options: MasterOrchestratorOptions = {}): Promise<FollowUpTurn> {
+  const phaseName = 'FollowUp';
+  const followUpQuestion = question.trim();
+  if (!followUpQuestion) throw new Error('Ask a follow-up question.');
+  const sessionRepository = options.sessionRepository === undefined ? getSessionRepository() : options.sessionRepository;
+  if (!sessionRepository) throw new Error(`Cannot ask a follow-up on session ${sessionId}: session checkpointing is disabled.`);
+  const checkpoint = await sessionRepository.loadCheckpoint(sessionId);
+  if (!checkpoint) throw new Error(`No checkpoints found for session ${sessionId}.`);
+  if (checkpoint.phaseIndex < 6) throw new Error(`Session ${sessionId} has not finished; follow-up questions need a completed analysis.`);
+  const state = checkpoint.sessionState;
+  const context = buildFollowUpContext(state);
+  const references = resolveReferences(followUpQuestion, context);
+  const errorCoordinator = new ErrorHandlingAndRecoveryCoordinator(checkpoint.input.maxRetries, 3, 30000, options.onEvent);
+  const modelCalls: ModelCallRecord[] = [];
+  const errors: ErrorInfo[] = [];
+  // A failed step leaves its finding out; the answer then relies on the session for that part.
+  const runStep = async <TInput, TOutput>(agentName: string, agentFn: (input: TInput) => Promise<TOutput>, input: TInput): Promise<TOutput | undefined> => {
+    try {
+      return await errorCoordinator.callAgentWithRecovery(agentName, agentFn, input, undefined as TOutput, { phase: phaseName });
+    } catch (e: any) {
+      errors.push({
+        agent: agentName, error: e.message, timestamp: new Date().toISOString(), recoveryAttempted: true, recoveryStrategy: 'finding_omitted',
+        phase: phaseName, inputSummary: `Follow-up: ${followUpQuestion.substring(0, 100)}`, attempt: e instanceof AgentExecutionError ? e.attempt : undefined, isCriticalFailure: false,
+      });
+      return undefined;
+    }
+  };
+
+  const { plan, findings, answer } = await runWithModelUsageContext({ sessionId, phase: phaseName, onCall: record => modelCalls.push(record) }, () => _runPhase(errorCoordinator, phaseName, async () => {
+    const heuristicPlan = planFollowUpHeuristically(followUpQuestion, references);
+    const proposedPlan = await runStep('FollowUpPlannerAgent', planFollowUp, { question: followUpQuestion, references, context }) ?? heuristicPlan;
+    const plan = normalizeFollowUpPlan(proposedPlan, followUpQuestion, context.assumptions);
+    console.log(`MasterOrchestrator: [${phaseName}] Session ${sessionId}: re-running ${plan.steps.length > 0 ? plan.steps.map(step => FOLLOW_UP_STEP_AGENTS[step]).join(', ') : 'no agents'}. ${plan.rationale}`);
+
+    const assumptionChanges = followUpAssumptionChanges(plan);
+    const assumptionOverrides = assumptionChanges.map(toAssumptionOverride);
+    const findings: FollowUpFindings = {};
+    for (const step of plan.steps) {
+      switch (step) {
+        case 'research':
+          findings.supportingEvidence = await runStep('ResearcherAgent', researchEvidence, { claim: plan.focus });
+          break;
+        case 'counter_research':
+          findings.counterEvidence = await runStep('CounterEvidenceResearcherAgent', researchCounterEvidence, { claim: plan.focus });
+          break;
+        case 'information_gaps':
+          findings.informationGaps = await runStep('InformationGapAgent', analyzeInformationGaps, { answer: plan.focus });
+          break;
+        case 'critique':
+          findings.critique = await runStep('CritiqueAgent', critiqueAgent, { answer: plan.focus, evidence: findings.supportingEvidence ?? state.aggregatedSupportingResearch ?? [] });
+          break;
+        case 'devils_advocate':
+          findings.challenges = await runStep('DevilsAdvocateAgent', challenge, { answer: plan.focus, critique: findings.critique ?? context.critique });
+          break;
+        case 'sensitivity':
+          findings.sensitivity = await runStep('SensitivityAnalysisAgent', analyzeSensitivity, { originalConclusions: [state.initialAnswerText ?? context.synthesisSummary], keyAssumptions: _keyAssumptionsForSensitivity(state.assumptions), synthesisEvidence: [...(state.aggregatedSupportingResearch ?? []), ...(findings.supportingEvidence ?? [])], assumptionChanges: assumptionChanges.length > 0 ? assumptionChanges : undefined });
+          break;
+        case 'confidence':
+          findings.overallConfidence = (await runStep('ConfidenceScoringAgent', scoreConfidence, { pressureTestedBrief: state.pressureTestedBrief, aggregatedSupportingResearch: [...(state.aggregatedSupportingResearch ?? []), ...(findings.supportingEvidence ?? [])], aggregatedCounterResearch: [...(state.aggregatedCounterResearch ?? []), ...(findings.counterEvidence ?? [])], critiqueOutput: findings.critique ?? context.critique, biasReport: state.crossReferencedBiasReport, conflictResolutionAnalysis: state.conflictResolutionAnalysis, impactAssessments: state.impactAssessments, qualityScores: state.qualityScores, assumptionOverrides }))?.overallConfidence;
+          break;
+        case 'synthesis': {
+          const scenarioState: SessionState = { ...state, overallConfidence: findings.overallConfidence ?? state.overallConfidence, sensitivityAnalysisReport: findings.sensitivity ?? state.sensitivityAnalysisReport };
+          const research = [...(state.aggregatedSupportingResearch ?? []), ...(findings.supportingEvidence ?? [])];
+          const counterEvidence = [...(state.aggregatedCounterResearch ?? []), ...(findings.counterEvidence ?? [])];
+          findings.synthesis = (await runStep('SynthesisEnsembleAgent', runSynthesisEnsemble, { ..._synthesisEnsembleInput(scenarioState, research, counterEvidence), assumptionOverrides }))?.metaSynthesis;
+          break;
+        }
+      }
+    }
+
+    const answer = await runStep('FollowUpAnswerAgent', answerFollowUp, { question: followUpQuestion, references, context, plan, findings })
+      ?? answerFollowUpHeuristically(context, references, findings);
+    return { plan, findings, answer };
+  }));
+
+  // Re-read the checkpoint so a turn answered meanwhile is kept, then save over it: the session stays finished.
+  const latest = (await sessionRepository.loadCheckpoint(sessionId, checkpoint.phaseIndex)) ?? checkpoint;
+  const followUps = latest.sessionState.followUps ?? [];
+  const turn: FollowUpTurn = {
+    turnId: `turn_${followUps.length + 1}`, question: followUpQuestion, references, plan, findings, answer: answer.answer, keyPoints: answer.keyPoints,
+    modelUsage: modelCalls.reduce<ModelUsage | undefined>(addModelCall, undefined), askedAt: new Date().toISOString(),
+  };
+  await _saveCheckpoint(sessionRepository, {
+    ...latest,
+    sessionState: {
+      ...latest.sessionState, followUps: [...followUps, turn],
+      modelUsage: modelCalls.reduce<ModelUsage | undefined>(addModelCall, latest.sessionState.modelUsage),
+      errorsEncountered: [...(latest.sessionState.errorsEncountered ?? []), ...errors],
+    },
+    savedAt: new Date().toISOString(),
+  });
+  console.log(`MasterOrchestrator: [${phaseName}] Completed with ${plan.steps.length} re-run agent(s) and ${errors.length} error(s).`);
+  return turn;
+}
+
 export const masterOrchestratorFlow = ai.defineFlow(
-  { name: 'masterOrchestratorFlow', inputSchema: MasterOrchestratorInputSchema, outputSchema: MasterOrchestratorOutputSchema },
-  orchestrateWithMaster
+  { name: 'masterOrchestratorFlow', inputSchema: MasterOrchestratorInputSchema, outputSchema: MasterOrchestratorOutputSchema, streamSchema: OrchestratorEventSchema },
+  (input, { sendChunk }) => orchestrateWithMaster(input, { onEvent: sendChunk })
 );
 
 import { toolAuditSystem } from './tool-audit-system';
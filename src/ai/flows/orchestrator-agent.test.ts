@@ -73,8 +73,8 @@ describe('orchestrateQuery', () => {
 
     const mockRespondOutput: RespondOutput = { answer: 'Test Answer' };
     const mockAnalyzeAssumptionsOutput: AnalyzeAssumptionsOutput = [{ assumption: 'Test Assumption', risk: 'Low', alternative: 'Test Alt' }];
-    const mockResearchEvidenceOutput: ResearchEvidenceOutput = [{ claim: 'Test Claim', support: 'Test Support', quality: 'high', source: 'Test Source' }];
-    const mockCounterEvidenceOutput: ResearchCounterEvidenceOutput = [{ claim: 'Counter Claim', support: 'Counter Support', quality: 'moderate', source: 'Counter Source'}]; // New
+    const mockResearchEvidenceOutput: ResearchEvidenceOutput = [{ claim: 'Test Claim', support: 'Test Support', quality: 'high', source: 'Test Source', documentId: 'doc-1', url: 'https://example.org/doc-1', quote: 'Test quote' }];
+    const mockCounterEvidenceOutput: ResearchCounterEvidenceOutput = [{ claim: 'Counter Claim', support: 'Counter Support', quality: 'moderate', source: 'Counter Source', documentId: 'doc-2', url: 'https://example.org/doc-2', quote: 'Counter quote' }]; // New
     const mockCritiqueAgentOutput: CritiqueAgentOutput = 'Test Critique';
     const mockChallengeOutput: ChallengeOutput = ['Test Challenge'];
     const mockAnalyzeFailuresOutput: PremortemOutput = [{ failure: 'Test Failure', probability: 'Low', mitigation: 'Test Mitigation' }];
@@ -181,6 +181,7 @@ describe('orchestrateQuery', () => {
     expect(result.informationGaps).toEqual(defaultInformationGapOutput);
     expect(result.synthesis).toEqual(defaultSynthesisOutput);
     expect(result.finalSummary).toContain('Orchestrator: Critical failure in Responder Agent: Responder Failure. Process halted.');
+    expect(result.errorsEncountered).toEqual([{ agent: 'Responder Agent', error: 'Responder Failure' }]);
   });
 
   test('should continue execution and use default for failed non-critical agent (e.g., analyzeAssumptions)', async () => {
@@ -188,7 +189,7 @@ describe('orchestrateQuery', () => {
     const assumptionsError = new Error('Assumptions Failure');
 
     const mockRespondOutput: RespondOutput = { answer: 'Test Answer for partial' };
-    const mockResearchEvidenceOutput: ResearchEvidenceOutput = [{ claim: 'Test Claim 2', support: 'Test Support 2', quality: 'moderate', source: 'Test Source 2' }];
+    const mockResearchEvidenceOutput: ResearchEvidenceOutput = [{ claim: 'Test Claim 2', support: 'Test Support 2', quality: 'moderate', source: 'Test Source 2', documentId: 'doc-3', url: 'https://example.org/doc-3', quote: 'Test quote 2' }];
     const mockCounterEvidenceOutput: ResearchCounterEvidenceOutput = []; // New, assuming it runs successfully or defaults
     const mockCritiqueAgentOutput: CritiqueAgentOutput = 'Test Critique 2';
     const mockChallengeOutput: ChallengeOutput = ['Test Challenge 2'];
@@ -236,6 +237,7 @@ describe('orchestrateQuery', () => {
 
     expect(result.finalSummary).toContain('Orchestration completed with partial results');
     expect(result.finalSummary).toContain('Assumptions: Analysis unavailable or failed.');
+    expect(result.errorsEncountered).toEqual([{ agent: 'AnalyzeAssumptions Agent', error: 'Assumptions Failure' }]);
   });
    test('should return error summary if input validation fails in orchestrateQuery', async () => {
     const input: any = { invalidQueryField: 'Test query for input validation' }; // Invalid input
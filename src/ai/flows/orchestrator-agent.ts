@@ -3,6 +3,8 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { withReplayChecks } from '@/ai/llm-cassettes';
+import { ModelUsageTotalsSchema, addModelCall, emptyModelUsageTotals, runWithModelUsageContext, type ModelUsage, type ModelUsageTotals } from '@/ai/llm-usage';
 
 // Import functions and types from agent files
 import { respond, type RespondOutput } from './responder-agent';
@@ -32,7 +34,10 @@ const LocalEvidenceSchema = z.object({ // This schema is used for both supportin
   claim: z.string().describe('Specific aspect of the claim being supported/challenged'),
   support: z.string().describe('Detailed evidence with statistics, studies, or expert consensus'),
   quality: z.enum(['high', 'moderate', 'low']).describe('Quality of the evidence'),
-  source: z.string().describe('Credible source citation (journal, institution, etc.)'),
+  source: z.string().describe('Title of the retrieved source document'),
+  documentId: z.string().describe('ID of the retrieved document'),
+  url: z.string().describe('URL of the retrieved document'),
+  quote: z.string().describe('Verbatim span from the retrieved passage'),
 });
 const LocalResearchEvidenceOutputSchema = z.array(LocalEvidenceSchema);
 const LocalResearchCounterEvidenceOutputSchema = z.array(LocalEvidenceSchema); // New
@@ -85,6 +90,8 @@ const OrchestratorOutputSchema = z.object({
   informationGaps: LocalInformationGapOutputSchema,
   synthesis: LocalSynthesisAgentOutputSchema,
   finalSummary: z.string(),
+  errorsEncountered: z.array(z.object({ agent: z.string(), error: z.string() })).describe('Agents that threw and were replaced by their default output'),
+  modelUsage: ModelUsageTotalsSchema.optional(),
 });
 
 // Output type for Orchestrator, using imported agent types
@@ -99,6 +106,9 @@ export type OrchestratorOutput = {
   informationGaps: InformationGapOutput;
   synthesis: SynthesisAgentOutput;
   finalSummary: string;
+  errorsEncountered: { agent: string; error: string }[];
+  /** Totals of the model calls made during the run. */
+  modelUsage?: ModelUsageTotals;
 };
 
 
@@ -142,10 +152,11 @@ const orchestrateQueryFlow = ai.defineFlow(
       informationGaps: defaultInformationGapOutput,
       synthesis: defaultSynthesisOutput,
       finalSummary: "Orchestration started but did not complete fully.",
+      errorsEncountered: [],
     };
 
     let initialAnswerText = "";
-    let errorsEncounteredInfo: { agent: string, error: string }[] = [];
+    const errorsEncounteredInfo = output.errorsEncountered;
 
 
     try {
@@ -323,7 +334,12 @@ export async function orchestrateQuery(
       informationGaps: defaultInformationGapOutput,
       synthesis: defaultSynthesisOutput,
       finalSummary: `Orchestrator: Invalid input provided. ${parsedInput.error.message}`,
+      errorsEncountered: [{ agent: 'Orchestrator', error: `Invalid input: ${parsedInput.error.message}` }],
     };
   }
-  return await orchestrateQueryFlow(parsedInput.data);
+  let modelUsage: ModelUsage | undefined;
+  // In replay mode, fail loudly on any cassette miss or drift rather than return the agents' default outputs.
+  const output = await runWithModelUsageContext({ onCall: record => { modelUsage = addModelCall(modelUsage, record); } },
+    () => withReplayChecks(() => orchestrateQueryFlow(parsedInput.data)));
+  return { ...output, modelUsage: modelUsage?.total ?? emptyModelUsageTotals() };
 }
@@ -0,0 +1,95 @@
+import { z } from 'genkit';
+import { BudgetDegradationSchema } from './session-budget';
+
+/**
+ * @fileOverview Typed progress events emitted by the master orchestrator.
+ *
+ * - OrchestratorEvent - Union of all events (phase, agent, circuit and artifact lifecycle, clarification pauses,
+ *   synthesis revisions, budget cuts).
+ * - OrchestratorEventListener - Callback passed to orchestrateWithMaster via `onEvent`.
+ * - createOrchestratorEventChannel - Adapts the callback into an async iterator for streaming.
+ */
+
+const CircuitStateSchema = z.enum(['CLOSED', 'OPEN', 'HALF_OPEN']);
+
+export const OrchestratorEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('phase_started'), phase: z.string(), timestamp: z.string() }),
+  z.object({ type: z.literal('phase_finished'), phase: z.string(), durationMs: z.number(), timestamp: z.string() }),
+  z.object({
+    type: z.literal('agent_attempt'), agent: z.string(), phase: z.string().optional(),
+    attempt: z.number(), maxAttempts: z.number(), circuitState: CircuitStateSchema, timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal('agent_succeeded'), agent: z.string(), phase: z.string().optional(),
+    attempt: z.number(), durationMs: z.number(), timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal('agent_retry'), agent: z.string(), phase: z.string().optional(),
+    attempt: z.number(), error: z.string(), delayMs: z.number(), timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal('agent_failed'), agent: z.string(), phase: z.string().optional(),
+    attempt: z.number(), error: z.string(), circuitOpen: z.boolean(), timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal('circuit_opened'), agent: z.string(), phase: z.string().optional(),
+    consecutiveFailures: z.number(), timestamp: z.string(),
+  }),
+  z.object({ type: z.literal('circuit_half_open'), agent: z.string(), phase: z.string().optional(), timestamp: z.string() }),
+  z.object({ type: z.literal('circuit_closed'), agent: z.string(), phase: z.string().optional(), timestamp: z.string() }),
+  z.object({ type: z.literal('artifact_saved'), name: z.string(), data: z.unknown(), timestamp: z.string() }),
+  z.object({
+    type: z.literal('clarification_requested'), questions: z.array(z.string()),
+    proposedRefinedQuery: z.string(), timestamp: z.string(),
+  }),
+  z.object({ type: z.literal('synthesis_revised'), iteration: z.number(), overallQualityScore: z.number(), timestamp: z.string() }),
+  BudgetDegradationSchema.extend({ type: z.literal('budget_degraded') }),
+]);
+export type OrchestratorEvent = z.infer<typeof OrchestratorEventSchema>;
+export type OrchestratorEventType = OrchestratorEvent['type'];
+
+export type OrchestratorEventListener = (event: OrchestratorEvent) => void;
+
+/**
+ * Buffers events pushed by a listener and exposes them as an async iterator. The iterator
+ * ends once `close()` is called and the buffer is drained.
+ */
+export function createOrchestratorEventChannel(): {
+  listener: OrchestratorEventListener;
+  close: () => void;
+  events: AsyncIterableIterator<OrchestratorEvent>;
+} {
+  const buffer: OrchestratorEvent[] = [];
+  let closed = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  async function* iterate(): AsyncIterableIterator<OrchestratorEvent> {
+    while (true) {
+      if (buffer.length > 0) {
+        yield buffer.shift()!;
+        continue;
+      }
+      if (closed) return;
+      await new Promise<void>(resolve => { wake = resolve; });
+    }
+  }
+
+  return {
+    listener: (event) => {
+      if (closed) return;
+      buffer.push(event);
+      notify();
+    },
+    close: () => {
+      closed = true;
+      notify();
+    },
+    events: iterate(),
+  };
+}
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'ParallelResearcherEnsemble';
+
 // Input schema for the parallel researcher ensemble
 const ParallelResearcherInputSchema = z.object({
   query: z.string().describe('The research query or claim to investigate'),
@@ -141,7 +144,7 @@ CRITICAL REQUIREMENTS:
 Return your findings as an array of evidence items following the schema.`;
 
         const result = await ai.generate({
-          model: 'claude-3-sonnet',
+          ...modelOptionsFor(AGENT_NAME),
           prompt,
           output: {
             schema: z.array(EvidenceItemSchema),
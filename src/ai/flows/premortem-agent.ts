@@ -9,8 +9,11 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
+const AGENT_NAME = 'PremortemAgent';
+
 const PremortermItemSchema = z.object({ 
   failure: z.string().describe('Specific way this could fail'),
   probability: z
@@ -95,6 +98,7 @@ export async function analyzeFailures(input: PremortermItemInput): Promise<Premo
 
 const prompt = ai.definePrompt({
   name: 'premortemAnalysisPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {schema: PremortermItemInputSchema},
   output: {schema: PremortemOutputSchema},
   prompt: `You are a premortem analysis agent. Consider this advice: {{{answer}}}.
@@ -0,0 +1,57 @@
+import { emptyModelUsageTotals } from '@/ai/llm-usage';
+import { MetricsRegistry, OrchestratorMetrics, renderPrometheusMetrics } from './prometheus-metrics';
+
+describe('OrchestratorMetrics', () => {
+  const timestamp = '2026-01-01T00:00:00.000Z';
+
+  test('should count phase durations, retries, errors and circuit transitions from orchestrator events', () => {
+    const metrics = new OrchestratorMetrics();
+    metrics.observe({ type: 'phase_finished', phase: 'Phase1', durationMs: 12_000, timestamp });
+    metrics.observe({ type: 'agent_retry', agent: 'CritiqueAgent', phase: 'Phase3', attempt: 1, error: 'timeout', delayMs: 1000, timestamp });
+    metrics.observe({ type: 'agent_failed', agent: 'CritiqueAgent', phase: 'Phase3', attempt: 2, error: 'timeout', circuitOpen: false, timestamp });
+    metrics.observe({ type: 'agent_failed', agent: 'CritiqueAgent', phase: 'Phase3', attempt: 0, error: 'Circuit is OPEN', circuitOpen: true, timestamp });
+    metrics.observe({ type: 'circuit_opened', agent: 'CritiqueAgent', phase: 'Phase3', consecutiveFailures: 3, timestamp });
+    metrics.observe({ type: 'circuit_half_open', agent: 'CritiqueAgent', phase: 'Phase4', timestamp });
+    metrics.observe({ type: 'agent_succeeded', agent: 'CritiqueAgent', phase: 'Phase4', attempt: 1, durationMs: 10, timestamp });
+
+    const text = metrics.registry.render();
+
+    expect(text).toContain('# TYPE ravint_phase_duration_seconds histogram');
+    expect(text).toContain('ravint_phase_duration_seconds_bucket{phase="Phase1",le="5"} 0');
+    expect(text).toContain('ravint_phase_duration_seconds_bucket{phase="Phase1",le="15"} 1');
+    expect(text).toContain('ravint_phase_duration_seconds_sum{phase="Phase1"} 12');
+    expect(text).toContain('ravint_agent_retries_total{agent="CritiqueAgent"} 1');
+    expect(text).toContain('ravint_agent_errors_total{agent="CritiqueAgent"} 2');
+    expect(text).toContain('ravint_agent_calls_total{agent="CritiqueAgent",outcome="failure"} 1');
+    expect(text).toContain('ravint_agent_calls_total{agent="CritiqueAgent",outcome="circuit_open"} 1');
+    expect(text).toContain('ravint_agent_calls_total{agent="CritiqueAgent",outcome="success"} 1');
+    expect(text).toContain('ravint_circuit_transitions_total{agent="CritiqueAgent",state="OPEN"} 1');
+    expect(text).toContain('ravint_circuit_transitions_total{agent="CritiqueAgent",state="HALF_OPEN"} 1');
+  });
+});
+
+describe('MetricsRegistry', () => {
+  test('should escape label values and reject unregistered metrics', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_total', 'A test counter.');
+    registry.inc('test_total', { query: 'say "hi"\n' }, 2);
+
+    expect(registry.render()).toBe('# HELP test_total A test counter.\n# TYPE test_total counter\ntest_total{query="say \\"hi\\"\\n"} 2\n');
+    expect(() => registry.inc('missing_total')).toThrow('missing_total');
+    expect(() => registry.observe('test_total', {}, 1)).toThrow('not a registered histogram');
+  });
+});
+
+describe('renderPrometheusMetrics', () => {
+  test('should add model usage and cache hits as of the scrape', () => {
+    const text = renderPrometheusMetrics({
+      modelUsage: { total: emptyModelUsageTotals(), byAgent: {}, byPhase: {}, byModel: { 'googleai/gemini-2.0-flash': { ...emptyModelUsageTotals(), calls: 4, inputTokens: 1000, outputTokens: 200, costUSD: 0.5 } } },
+      toolCache: { totalEntries: 3, totalHits: 7 },
+    }, new OrchestratorMetrics());
+
+    expect(text).toContain('ravint_model_calls_total{model="googleai/gemini-2.0-flash"} 4');
+    expect(text).toContain('ravint_model_tokens_total{model="googleai/gemini-2.0-flash",direction="output"} 200');
+    expect(text).toContain('ravint_llm_cache_requests_total{result="hit"} 0');
+    expect(text).toContain('ravint_tool_cache_hits_total 7');
+  });
+});
@@ -0,0 +1,189 @@
+import { getLlmCacheStats } from '@/ai/llm-cache';
+import type { ModelUsage } from '@/ai/llm-usage';
+import type { OrchestratorEvent } from './orchestrator-events';
+
+/**
+ * @fileOverview Prometheus metrics for the master orchestrator, served by `/api/metrics`.
+ *
+ * OrchestratorMetrics counts the orchestrator's progress events (phase durations, agent calls, retries, errors,
+ * circuit transitions and budget cuts) for the whole process. Model usage and cache hits are read from the
+ * WorkflowMetricsSystem and the caches when the metrics are rendered.
+ *
+ * - MetricsRegistry - Counters and histograms rendered in the Prometheus text exposition format.
+ * - orchestratorMetrics - The process-wide instance the master orchestrator reports to.
+ * - renderPrometheusMetrics - Everything above as one scrape.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+/** Phase durations run from seconds to many minutes. */
+const PHASE_DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600];
+
+interface CounterFamily {
+  type: 'counter' | 'gauge';
+  help: string;
+  series: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+interface HistogramFamily {
+  type: 'histogram';
+  help: string;
+  buckets: number[];
+  series: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>;
+}
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  return entries.length === 0 ? '' : `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+const seriesKey = (labels: MetricLabels) => formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))));
+
+export class MetricsRegistry {
+  private families = new Map<string, CounterFamily | HistogramFamily>();
+
+  counter(name: string, help: string): void {
+    if (!this.families.has(name)) this.families.set(name, { type: 'counter', help, series: new Map() });
+  }
+
+  gauge(name: string, help: string): void {
+    if (!this.families.has(name)) this.families.set(name, { type: 'gauge', help, series: new Map() });
+  }
+
+  histogram(name: string, help: string, buckets: number[]): void {
+    if (!this.families.has(name)) this.families.set(name, { type: 'histogram', help, buckets: [...buckets].sort((a, b) => a - b), series: new Map() });
+  }
+
+  inc(name: string, labels: MetricLabels = {}, by = 1): void {
+    const family = this.scalarFamily(name);
+    const key = seriesKey(labels);
+    const series = family.series.get(key) ?? { labels, value: 0 };
+    series.value += by;
+    family.series.set(key, series);
+  }
+
+  set(name: string, labels: MetricLabels, value: number): void {
+    this.scalarFamily(name).series.set(seriesKey(labels), { labels, value });
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const family = this.families.get(name);
+    if (family?.type !== 'histogram') throw new Error(`Metric ${name} is not a registered histogram.`);
+    const key = seriesKey(labels);
+    const series = family.series.get(key) ?? { labels, counts: family.buckets.map(() => 0), sum: 0, count: 0 };
+    family.buckets.forEach((bound, index) => { if (value <= bound) series.counts[index]++; });
+    series.sum += value;
+    series.count++;
+    family.series.set(key, series);
+  }
+
+  /** The text exposition format (version 0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`);
+      if (family.type === 'histogram') {
+        for (const series of family.series.values()) {
+          family.buckets.forEach((bound, index) => lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.counts[index]}`));
+          lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+          lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`, `${name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+      } else {
+        for (const series of family.series.values()) lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private scalarFamily(name: string): CounterFamily {
+    const family = this.families.get(name);
+    if (!family || family.type === 'histogram') throw new Error(`Metric ${name} is not a registered counter or gauge.`);
+    return family;
+  }
+}
+
+export class OrchestratorMetrics {
+  readonly registry = new MetricsRegistry();
+
+  constructor() {
+    this.registry.histogram('ravint_phase_duration_seconds', 'Duration of master orchestrator phases.', PHASE_DURATION_BUCKETS);
+    this.registry.counter('ravint_agent_calls_total', 'Agent calls by outcome, after retries.');
+    this.registry.counter('ravint_agent_errors_total', 'Failed agent attempts, including ones that were retried.');
+    this.registry.counter('ravint_agent_retries_total', 'Agent attempts retried after an error.');
+    this.registry.counter('ravint_circuit_transitions_total', 'Agent circuit breaker transitions by the state entered.');
+    this.registry.counter('ravint_budget_degradations_total', 'Steps cut to stay within a session budget.');
+  }
+
+  observe(event: OrchestratorEvent): void {
+    switch (event.type) {
+      case 'phase_finished':
+        this.registry.observe('ravint_phase_duration_seconds', { phase: event.phase }, event.durationMs / 1000);
+        break;
+      case 'agent_succeeded':
+        this.registry.inc('ravint_agent_calls_total', { agent: event.agent, outcome: 'success' });
+        break;
+      case 'agent_retry':
+        this.registry.inc('ravint_agent_errors_total', { agent: event.agent });
+        this.registry.inc('ravint_agent_retries_total', { agent: event.agent });
+        break;
+      case 'agent_failed':
+        // Attempt 0 is a call refused by an open circuit; nothing was attempted.
+        if (event.attempt > 0) this.registry.inc('ravint_agent_errors_total', { agent: event.agent });
+        this.registry.inc('ravint_agent_calls_total', { agent: event.agent, outcome: event.attempt === 0 ? 'circuit_open' : 'failure' });
+        break;
+      case 'circuit_opened':
+        this.registry.inc('ravint_circuit_transitions_total', { agent: event.agent, state: 'OPEN' });
+        break;
+      case 'circuit_half_open':
+        this.registry.inc('ravint_circuit_transitions_total', { agent: event.agent, state: 'HALF_OPEN' });
+        break;
+      case 'circuit_closed':
+        this.registry.inc('ravint_circuit_transitions_total', { agent: event.agent, state: 'CLOSED' });
+        break;
+      case 'budget_degraded':
+        this.registry.inc('ravint_budget_degradations_total', { kind: event.kind });
+        break;
+    }
+  }
+}
+
+export const orchestratorMetrics = new OrchestratorMetrics();
+
+export interface ScrapeSources {
+  modelUsage?: ModelUsage;
+  toolCache?: { totalEntries: number; totalHits: number };
+}
+
+/** Model usage and cache hits as of now, in a registry of their own. */
+export function snapshotMetrics(sources: ScrapeSources): MetricsRegistry {
+  const registry = new MetricsRegistry();
+  registry.counter('ravint_model_calls_total', 'Model calls by model.');
+  registry.counter('ravint_model_tokens_total', 'Model input and output tokens by model.');
+  registry.counter('ravint_model_cost_usd_total', 'Cost of priced model calls by model.');
+  for (const [model, totals] of Object.entries(sources.modelUsage?.byModel ?? {})) {
+    registry.set('ravint_model_calls_total', { model }, totals.calls);
+    registry.set('ravint_model_tokens_total', { model, direction: 'input' }, totals.inputTokens);
+    registry.set('ravint_model_tokens_total', { model, direction: 'output' }, totals.outputTokens);
+    registry.set('ravint_model_cost_usd_total', { model }, totals.costUSD);
+  }
+
+  const llmCache = getLlmCacheStats();
+  registry.counter('ravint_llm_cache_requests_total', 'LLM response cache lookups by result.');
+  registry.set('ravint_llm_cache_requests_total', { result: 'hit' }, llmCache.hits);
+  registry.set('ravint_llm_cache_requests_total', { result: 'miss' }, llmCache.misses);
+  registry.set('ravint_llm_cache_requests_total', { result: 'bypassed' }, llmCache.bypassed);
+
+  if (sources.toolCache) {
+    registry.counter('ravint_tool_cache_hits_total', 'Tool calls served from the tool result cache.');
+    registry.set('ravint_tool_cache_hits_total', {}, sources.toolCache.totalHits);
+    registry.gauge('ravint_tool_cache_entries', 'Entries in the tool result cache.');
+    registry.set('ravint_tool_cache_entries', {}, sources.toolCache.totalEntries);
+  }
+  return registry;
+}
+
+export function renderPrometheusMetrics(sources: ScrapeSources, metrics: OrchestratorMetrics = orchestratorMetrics): string {
+  return metrics.registry.render() + snapshotMetrics(sources).render();
+}
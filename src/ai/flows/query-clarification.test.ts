@@ -0,0 +1,23 @@
+import { ClarificationResponseSchema, foldClarificationAnswers } from './query-clarification';
+
+describe('foldClarificationAnswers', () => {
+  test('should append answered questions and skip blank answers', () => {
+    const folded = foldClarificationAnswers('How does remote work affect productivity?', [
+      { question: 'Which industry do you mean?', answer: ' Software engineering ' },
+      { question: 'Over what time frame?', answer: '  ' },
+    ]);
+
+    expect(folded).toBe([
+      'How does remote work affect productivity?',
+      '',
+      'Clarifications provided by the user:',
+      '- Which industry do you mean? -> Software engineering',
+    ].join('\n'));
+  });
+
+  test('should leave the query unchanged when the user only accepts the rewrite', () => {
+    const response = ClarificationResponseSchema.parse({});
+
+    expect(foldClarificationAnswers('Is remote work more productive? ', response.answers)).toBe('Is remote work more productive?');
+  });
+});
@@ -0,0 +1,53 @@
+import { z } from 'genkit';
+
+/**
+ * @fileOverview Optional clarification round between query refinement and the initial answer.
+ *
+ * With `enableClarification`, Phase 1 of the master orchestrator pauses when QueryRefinementAgent returns
+ * clarificationQuestions. The session is checkpointed as awaiting clarification; the caller resumes it
+ * with the same session ID and a ClarificationResponse, whose answers are folded into the refined query
+ * before the initial answer loop runs.
+ *
+ * - ClarificationResponseSchema - What the user sends back: answers and an optionally edited rewrite.
+ * - ClarificationRoundSchema - The round as kept in SessionState (questions, issues, answers, final query).
+ * - foldClarificationAnswers - Appends the answered questions to the refined query.
+ */
+
+export const ClarificationAnswerSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+});
+export type ClarificationAnswer = z.infer<typeof ClarificationAnswerSchema>;
+
+export const ClarificationResponseSchema = z.object({
+  answers: z.array(ClarificationAnswerSchema).default([]).describe('Answers to the clarification questions; unanswered questions may be left out'),
+  refinedQuery: z.string().optional().describe('The refined query as accepted or edited by the user. Defaults to the agent\'s rewrite.'),
+});
+export type ClarificationResponse = z.infer<typeof ClarificationResponseSchema>;
+
+export const ClarificationRoundSchema = z.object({
+  status: z.enum(['pending', 'answered']),
+  questions: z.array(z.string()),
+  identifiedIssues: z.array(z.object({ issueType: z.string(), description: z.string() })),
+  proposedRefinedQuery: z.string().describe('The rewrite QueryRefinementAgent proposed'),
+  answers: z.array(ClarificationAnswerSchema).optional(),
+  finalRefinedQuery: z.string().optional().describe('The refined query with the answers folded in'),
+});
+export type ClarificationRound = z.infer<typeof ClarificationRoundSchema>;
+
+/**
+ * Returns the refined query followed by the non-empty answers, one `question -> answer` line each, so
+ * every later agent sees the user's clarifications as part of the question itself.
+ */
+export function foldClarificationAnswers(refinedQuery: string, answers: readonly ClarificationAnswer[]): string {
+  const answered = answers
+    .map(({ question, answer }) => ({ question: question.trim(), answer: answer.trim() }))
+    .filter(({ answer }) => answer.length > 0);
+  if (answered.length === 0) return refinedQuery.trim();
+  return [
+    refinedQuery.trim(),
+    '',
+    'Clarifications provided by the user:',
+    ...answered.map(({ question, answer }) => `- ${question} -> ${answer}`),
+  ].join('\n');
+}
@@ -1,8 +1,11 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 
+const AGENT_NAME = 'QueryRefinementAgent';
+
 // E1: Query Refinement Agent - Analyzes and refines user queries
 
 const QueryRefinementInputSchema = z.object({
@@ -191,6 +194,7 @@ export async function refineQuery(input: QueryRefinementInput): Promise<QueryRef
 
 const queryRefinementPrompt = ai.definePrompt({
   name: 'queryRefinementPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { 
     schema: z.object({
       query: z.string(),
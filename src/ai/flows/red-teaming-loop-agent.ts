@@ -1,9 +1,12 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
 import { challenge } from './devils-advocate-agent';
 
+const AGENT_NAME = 'RedTeamingLoopAgent';
+
 // E6: Iterative Red Teaming Loop - Stress tests arguments through iterative challenges
 
 const RedTeamingLoopInputSchema = z.object({
@@ -34,6 +37,7 @@ export type RedTeamingLoopOutput = z.infer<typeof RedTeamingLoopOutputSchema>;
 // Argument Refinement Agent for the loop
 const argumentRefinementPrompt = ai.definePrompt({
   name: 'redTeamArgumentRefinementPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {
     schema: z.object({
       currentArgument: z.string(),
@@ -115,6 +119,7 @@ async function refineArgumentAgainstChallenges(
 // Challenge Assessment to determine if we should continue
 const challengeAssessmentPrompt = ai.definePrompt({
   name: 'challengeAssessmentPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {
     schema: z.object({
       challenges: z.array(z.string()),
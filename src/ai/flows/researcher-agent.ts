@@ -9,7 +9,9 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
+import {getEvidenceRetriever, groundEvidenceDrafts, type RetrievedPassage} from './evidence-retriever';
 
 /**
  * Defines the schema for a single piece of evidence.
@@ -18,13 +20,43 @@ const EvidenceSchema = z.object({
   claim: z.string().describe('Specific aspect of the claim being supported/challenged'),
   support: z.string().describe('Detailed evidence with statistics, studies, or expert consensus'),
   quality: z.enum(['high', 'moderate', 'low']).describe('Quality of the evidence'),
-  source: z.string().describe('Credible source citation (journal, institution, etc.)'),
+  source: z.string().describe('Title of the retrieved source document'),
+  documentId: z.string().describe('ID of the retrieved document this evidence is drawn from'),
+  url: z.string().describe('URL of the retrieved document'),
+  quote: z.string().describe('Verbatim span from the retrieved passage that backs this evidence'),
 });
 /**
  * Represents a single piece of evidence related to a claim.
  */
 export type Evidence = z.infer<typeof EvidenceSchema>;
 
+/**
+ * Defines the schema the language model fills in. URL and source are not asked of the
+ * model; they are copied from the retrieved passage during grounding.
+ */
+const EvidenceDraftSchema = z.object({
+  claim: z.string().describe('Specific aspect of the claim being supported'),
+  support: z.string().describe('Summary of what the quoted passage establishes'),
+  quality: z.enum(['high', 'moderate', 'low']).describe('Quality of the evidence'),
+  documentId: z.string().describe('documentId of the passage the evidence is drawn from'),
+  quote: z.string().describe('Exact span copied from that passage'),
+});
+const EvidenceDraftOutputSchema = z.array(EvidenceDraftSchema);
+
+/**
+ * Defines the schema for the internal prompt input: the claim plus retrieved passages.
+ */
+const ResearchEvidencePromptInputSchema = z.object({
+  claim: z.string(),
+  passages: z.array(z.object({
+    documentId: z.string(),
+    title: z.string(),
+    url: z.string(),
+    text: z.string(),
+  })),
+});
+type ResearchEvidencePromptInput = z.infer<typeof ResearchEvidencePromptInputSchema>;
+
 /**
  * Defines the schema for the input to the researchEvidence agent.
  */
@@ -46,11 +78,14 @@ const ResearchEvidenceOutputSchema = z.array(EvidenceSchema);
 export type ResearchEvidenceOutput = z.infer<typeof ResearchEvidenceOutputSchema>;
 
 const MAX_RETRY_ATTEMPTS = 3; // Consistent naming
+const RETRIEVAL_LIMIT = 8;
 const AGENT_NAME = "ResearcherAgent (Supporting)"; // Consistent agent name for logging
 const DEFAULT_OUTPUT: ResearchEvidenceOutput = []; // Default is an empty array
 
 /**
  * Researches and provides evidence supporting a given claim.
+ * Passages are fetched from the configured EvidenceRetriever first; the model only
+ * summarizes those passages, and any item that does not quote a retrieved passage is dropped.
  * This function includes input validation, retry logic with exponential backoff,
  * and output validation to ensure reliable and structured evidence is returned.
  * 
@@ -77,13 +112,34 @@ export async function researchEvidence(input: ResearchEvidenceInput): Promise<Re
   }
   const validInput: ResearchEvidenceInput = parseResult.data;
 
-  // 2. Retry Logic for Core Operation
+  // 2. Retrieval
+  let passages: RetrievedPassage[];
+  try {
+    passages = await getEvidenceRetriever().retrieve(validInput.claim, { limit: RETRIEVAL_LIMIT, stance: 'supporting' });
+  } catch (retrievalError: unknown) {
+    console.error(`${AGENT_NAME}: Evidence retrieval failed. Returning default output.`, {
+      error: retrievalError instanceof Error ? retrievalError.message : String(retrievalError),
+      inputSummary,
+      timestamp: new Date().toISOString(),
+    });
+    return DEFAULT_OUTPUT;
+  }
+  if (passages.length === 0) {
+    console.log(`${AGENT_NAME}: Retriever returned no passages. Returning no evidence.`, { inputSummary });
+    return DEFAULT_OUTPUT;
+  }
+  const promptInput: ResearchEvidencePromptInput = {
+    claim: validInput.claim,
+    passages: passages.map(({ documentId, title, url, text }) => ({ documentId, title, url, text })),
+  };
+
+  // 3. Retry Logic for Core Operation
   for (let attempt = 0; attempt < MAX_RETRY_ATTEMPTS; attempt++) {
     try {
       console.log(`${AGENT_NAME}: Calling researchEvidenceInternalFlow. Attempt ${attempt + 1}/${MAX_RETRY_ATTEMPTS}.`, { inputSummary });
-      const result: unknown = await researchEvidenceInternalFlow(validInput);
+      const result: unknown = await researchEvidenceInternalFlow(promptInput);
       
-      // 3. Output Validation and Processing
+      // 4. Output Validation, Processing and Grounding
       let parsedOutputFromResult: unknown = result;
 
       // Handle cases where LLM might return a string that needs parsing
@@ -106,11 +162,15 @@ export async function researchEvidence(input: ResearchEvidenceInput): Promise<Re
         }
       }
       
-      const validation = ResearchEvidenceOutputSchema.safeParse(parsedOutputFromResult);
+      const validation = EvidenceDraftOutputSchema.safeParse(parsedOutputFromResult);
       if (validation.success) {
         // For this agent, an empty array can be a valid response (no specific evidence found).
-        console.log(`${AGENT_NAME}: Attempt ${attempt + 1}: Successfully generated and validated evidence.`, { inputSummary, count: validation.data.length });
-        return validation.data;
+        const grounded: ResearchEvidenceOutput = groundEvidenceDrafts(validation.data, passages);
+        if (grounded.length < validation.data.length) {
+          console.warn(`${AGENT_NAME}: Attempt ${attempt + 1}: Dropped ${validation.data.length - grounded.length} evidence item(s) that did not quote a retrieved passage.`, { inputSummary });
+        }
+        console.log(`${AGENT_NAME}: Attempt ${attempt + 1}: Successfully generated and validated evidence.`, { inputSummary, count: grounded.length });
+        return grounded;
       } else {
         console.warn(`${AGENT_NAME}: Attempt ${attempt + 1}: Output validation failed.`, { 
           errors: validation.error.flatten(), 
@@ -168,23 +228,35 @@ export async function researchEvidence(input: ResearchEvidenceInput): Promise<Re
  */
 const researchEvidencePromptTemplate = `You are a research agent analyzing this claim: "{{{claim}}}"
 
-Find and analyze evidence *supporting* this claim. Provide up to 10 pieces of evidence. Focus on quality and relevance for the supporting evidence.
+You are given passages retrieved from source documents. Using ONLY these passages, identify evidence *supporting* this claim. Provide up to 10 pieces of evidence. Focus on quality and relevance for the supporting evidence.
+
+Retrieved passages:
+{{#each passages}}
+---
+documentId: {{{documentId}}}
+title: {{{title}}}
+{{{text}}}
+{{/each}}
+---
 
 You must return a valid JSON array with exactly this structure:
 [
     {
         "claim": "Specific aspect of the claim being supported",
-        "support": "Detailed evidence with statistics, studies, or expert consensus",
+        "support": "Summary of what the quoted passage establishes",
         "quality": "high|moderate|low",
-        "source": "Credible source citation (journal, institution, etc.)"
+        "documentId": "documentId of the passage used",
+        "quote": "Exact sentence or phrase copied verbatim from that passage"
     }
 ]
 
 Ensure each piece:
 - Addresses a specific aspect of the claim
-- Includes concrete data or expert backing
+- Is drawn from exactly one retrieved passage, identified by its documentId
+- Quotes that passage verbatim; do not paraphrase inside "quote"
 - Has realistic quality assessment
-- Cites plausible sources
+
+Do not use outside knowledge and do not invent sources. If no passage supports the claim, return an empty array.
 
 Return ONLY a valid JSON array with the exact structure shown above. Do not include any explanatory text before or after the JSON.`;
 
@@ -193,8 +265,9 @@ Return ONLY a valid JSON array with the exact structure shown above. Do not incl
  */
 const researchEvidencePrompt = ai.definePrompt({
   name: 'researchSupportingEvidencePrompt',
-  input: {schema: ResearchEvidenceInputSchema},
-  output: {schema: ResearchEvidenceOutputSchema},
+  ...modelOptionsFor(AGENT_NAME),
+  input: {schema: ResearchEvidencePromptInputSchema},
+  output: {schema: EvidenceDraftOutputSchema},
   prompt: researchEvidencePromptTemplate,
 });
 
@@ -202,19 +275,19 @@ const researchEvidencePrompt = ai.definePrompt({
  * Internal Genkit flow that makes the actual call to the language model.
  * This flow is wrapped by the main `researchEvidence` function for added robustness.
  * @async
- * @param {ResearchEvidenceInput} input - The input object containing the claim.
- * @returns {Promise<ResearchEvidenceOutput>} A promise that resolves to the LLM's structured output,
- *                                            or an empty array if the LLM output is null/undefined.
+ * @param {ResearchEvidencePromptInput} input - The claim and the retrieved passages.
+ * @returns {Promise<unknown[]>} A promise that resolves to the LLM's ungrounded evidence drafts,
+ *                               or an empty array if the LLM output is null/undefined.
  */
 const researchEvidenceInternalFlow = ai.defineFlow(
   {
     name: 'researchSupportingEvidenceInternalFlow',
-    inputSchema: ResearchEvidenceInputSchema,
-    outputSchema: ResearchEvidenceOutputSchema,
-    description: 'Internal flow to research supporting evidence using the researchSupportingEvidencePrompt.'
+    inputSchema: ResearchEvidencePromptInputSchema,
+    outputSchema: EvidenceDraftOutputSchema,
+    description: 'Internal flow to summarize retrieved passages into supporting evidence using the researchSupportingEvidencePrompt.'
   },
-  async (input: ResearchEvidenceInput): Promise<ResearchEvidenceOutput> => {
+  async (input: ResearchEvidencePromptInput) => {
     const {output} = await researchEvidencePrompt(input);
-    return output ?? DEFAULT_OUTPUT; // Return default if LLM output is null/undefined
+    return output ?? []; // Return no drafts if LLM output is null/undefined
   }
 );
@@ -1,8 +1,11 @@
 'use server';
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
+const AGENT_NAME = 'ResponderAgent';
+
 /**
  * Defines the schema for the input to the responder agent.
  */
@@ -193,6 +196,7 @@ Do not include any explanatory text before or after the JSON.`;
 const prompt = ai.definePrompt(
   {
     name: 'respondPrompt',
+    ...modelOptionsFor(AGENT_NAME),
     input: {schema: RespondInputSchema},
     output: {schema: RespondOutputSchema}, 
     prompt: respondPromptTemplate, 
@@ -0,0 +1,90 @@
+import {
+  adjustConfidence,
+  applySynthesisModifications,
+  createResumeToken,
+  parseResumeToken,
+  phasesToRerun,
+} from './review-decisions';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+const synthesis: SynthesisEnsembleOutput['metaSynthesis'] = {
+  summary: 'Remote work modestly improves productivity for focused tasks.',
+  confidence: 'Medium',
+  keyStrengths: ['Several large studies'],
+  keyWeaknesses: ['Self-reported measures'],
+  howCounterEvidenceWasAddressed: ['Weighed the office-collaboration studies'],
+  actionableRecommendations: ['Pilot hybrid schedules'],
+  remainingUncertainties: ['Long-term effects'],
+  perspectiveDivergence: 'Economists and managers disagree on measurement.',
+  synthesisApproach: 'Weighted by study quality',
+  claims: [],
+};
+
+describe('resume tokens', () => {
+  test('should round-trip the session and review IDs', () => {
+    expect(parseResumeToken(createResumeToken('session_1', 'review_1'))).toEqual({ sessionId: 'session_1', reviewId: 'review_1' });
+  });
+
+  test('should reject tokens that are not ours', () => {
+    expect(parseResumeToken('not-a-token')).toBeNull();
+    expect(parseResumeToken(Buffer.from(JSON.stringify({ sessionId: 'session_1', reviewId: 'review_1' })).toString('base64url'))).toBeNull();
+    expect(parseResumeToken(createResumeToken('session_1', 'review_1', 'other-secret'))).toBeNull();
+  });
+
+  test('should reject a token whose IDs were edited after signing', () => {
+    const [, signature] = createResumeToken('session_1', 'review_1', 'secret').split('.');
+    const edited = `${Buffer.from(JSON.stringify({ sessionId: 'session_2', reviewId: 'review_1' })).toString('base64url')}.${signature}`;
+
+    expect(parseResumeToken(createResumeToken('session_1', 'review_1', 'secret'), 'secret')).toEqual({ sessionId: 'session_1', reviewId: 'review_1' });
+    expect(parseResumeToken(edited, 'secret')).toBeNull();
+  });
+});
+
+describe('adjustConfidence', () => {
+  test('should move one level and stop at the ends', () => {
+    expect(adjustConfidence('Medium', 'increase')).toBe('High');
+    expect(adjustConfidence('Low', 'decrease')).toBe('Low');
+    expect(adjustConfidence('High', 'maintain')).toBe('High');
+    expect(adjustConfidence('Medium', undefined)).toBe('Medium');
+  });
+});
+
+describe('applySynthesisModifications', () => {
+  test('should patch text fields, replace or append to lists, and report unknown keys', () => {
+    const { synthesis: patched, applied, ignored } = applySynthesisModifications(synthesis, {
+      summary: 'Remote work helps focused tasks but hurts onboarding.',
+      keyWeaknesses: ['Few randomized trials'],
+      remainingUncertainties: 'Effects on junior staff',
+      confidence: 'Low',
+      tone: 'softer',
+      actionableRecommendations: 42,
+    });
+
+    expect(patched.summary).toBe('Remote work helps focused tasks but hurts onboarding.');
+    expect(patched.keyWeaknesses).toEqual(['Few randomized trials']);
+    expect(patched.remainingUncertainties).toEqual(['Long-term effects', 'Effects on junior staff']);
+    expect(patched.confidence).toBe('Low');
+    expect(patched.actionableRecommendations).toEqual(synthesis.actionableRecommendations);
+    expect(applied).toEqual(['summary', 'keyWeaknesses', 'remainingUncertainties', 'confidence']);
+    expect(ignored).toEqual(['tone', 'actionableRecommendations']);
+    expect(synthesis.keyWeaknesses).toEqual(['Self-reported measures']);
+  });
+});
+
+describe('phasesToRerun', () => {
+  test('should read phase numbers and names from modifications and guidance', () => {
+    expect(phasesToRerun({
+      modifications: { rerunPhases: [3, 'Phase2_EvidenceGatheringAndAnalysis', 'Phase9'] },
+      additionalGuidance: ['Redo phase 4 with the new sources'],
+    })).toEqual([2, 3, 4, 5]);
+    expect(phasesToRerun({ additionalGuidance: ['Redo phase 4 with the new sources'] })).toEqual([4, 5]);
+  });
+
+  test('should re-run every phase after the earliest one named, up to synthesis', () => {
+    expect(phasesToRerun({ modifications: { rerunPhases: [2] } })).toEqual([2, 3, 4, 5]);
+  });
+
+  test('should default to evidence gathering onwards', () => {
+    expect(phasesToRerun({ decision: 'request_more_analysis' })).toEqual([2, 3, 4, 5]);
+  });
+});
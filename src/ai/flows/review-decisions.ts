@@ -0,0 +1,167 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { z } from 'genkit';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview How a human reviewer's decision changes a suspended master orchestrator session.
+ *
+ * When Phase 6 submits a review, the session is checkpointed in the `awaiting_review` state and the
+ * caller receives a resume token. Resuming after `submitReviewResult` applies the decision:
+ *
+ * - approve - Finalizes the session, applying any confidenceAdjustment.
+ * - modify - Patches the final synthesis with `modifications` (see applySynthesisModifications).
+ * - request_more_analysis - Re-runs the phases from the earliest one named (phasesToRerun) through synthesis, then review.
+ * - reject - Marks the session as rejected.
+ *
+ * - HumanReviewDecisionSchema - A reviewer's decision (HumanReviewOutput['humanInput']).
+ * - HumanReviewStateSchema - The review as kept in SessionState.humanReview.
+ * - createResumeToken / parseResumeToken - HMAC-signed token naming the session and the review it waits for.
+ */
+
+export const HumanReviewDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject', 'modify', 'request_more_analysis']).optional(),
+  feedback: z.string().optional(),
+  modifications: z.record(z.string(), z.any()).optional(),
+  additionalGuidance: z.array(z.string()).optional(),
+  confidenceAdjustment: z.enum(['increase', 'decrease', 'maintain']).optional(),
+});
+export type HumanReviewDecision = z.infer<typeof HumanReviewDecisionSchema>;
+
+export const HumanReviewStatusSchema = z.enum([
+  'awaiting_review', 'approved', 'modified', 'rejected', 'reanalysis_requested', 'reanalyzed', 'expired',
+]);
+export type HumanReviewStatus = z.infer<typeof HumanReviewStatusSchema>;
+
+export const HumanReviewStateSchema = z.object({
+  status: HumanReviewStatusSchema,
+  reviewId: z.string(),
+  reason: z.string().describe('Why the review was requested'),
+  requestedAt: z.string(),
+  resumeToken: z.string().optional(),
+  decidedAt: z.string().optional(),
+  decision: HumanReviewDecisionSchema.shape.decision,
+  feedback: z.string().optional(),
+  additionalGuidance: z.array(z.string()).optional(),
+  appliedModifications: z.array(z.string()).optional().describe('Synthesis fields changed by a modify decision'),
+  ignoredModifications: z.array(z.string()).optional().describe('Modification keys that did not name a patchable synthesis field'),
+  rerunPhases: z.array(z.number().int().min(1).max(5)).optional().describe('Phases re-run for request_more_analysis'),
+});
+export type HumanReviewState = z.infer<typeof HumanReviewStateSchema>;
+
+type MetaSynthesis = SynthesisEnsembleOutput['metaSynthesis'];
+
+const RESUME_TOKEN_SECRET_FILE = path.join('.data', 'resume-token-secret');
+let storedResumeTokenSecret: string | undefined;
+
+// Without RESUME_TOKEN_SECRET, a secret is generated once and kept on disk, so a token issued by one CLI run
+// still resumes the session in the next. Deployments with several instances must set the variable.
+function resumeTokenSecret(): string {
+  if (process.env.RESUME_TOKEN_SECRET) return process.env.RESUME_TOKEN_SECRET;
+  if (storedResumeTokenSecret) return storedResumeTokenSecret;
+  try {
+    storedResumeTokenSecret = readFileSync(RESUME_TOKEN_SECRET_FILE, 'utf8').trim();
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+    mkdirSync(path.dirname(RESUME_TOKEN_SECRET_FILE), { recursive: true });
+    const secret = randomBytes(32).toString('hex');
+    try {
+      writeFileSync(RESUME_TOKEN_SECRET_FILE, secret, { flag: 'wx', mode: 0o600 });
+      storedResumeTokenSecret = secret;
+    } catch (writeError: any) {
+      // Another process created it first; use theirs.
+      if (writeError?.code !== 'EEXIST') throw writeError;
+      storedResumeTokenSecret = readFileSync(RESUME_TOKEN_SECRET_FILE, 'utf8').trim();
+    }
+  }
+  return storedResumeTokenSecret;
+}
+
+function signResumeToken(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/** `<payload>.<signature>`: the IDs as base64url JSON, and an HMAC-SHA256 of that payload under RESUME_TOKEN_SECRET. */
+export function createResumeToken(sessionId: string, reviewId: string, secret = resumeTokenSecret()): string {
+  const payload = Buffer.from(JSON.stringify({ sessionId, reviewId }), 'utf8').toString('base64url');
+  return `${payload}.${signResumeToken(payload, secret)}`;
+}
+
+/** Returns null for a malformed token, or one whose signature does not match, so an edited token cannot resume another session. */
+export function parseResumeToken(token: string, secret = resumeTokenSecret()): { sessionId: string; reviewId: string } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(signResumeToken(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof parsed?.sessionId === 'string' && typeof parsed?.reviewId === 'string' ? { sessionId: parsed.sessionId, reviewId: parsed.reviewId } : null;
+  } catch {
+    return null;
+  }
+}
+
+const CONFIDENCE_LEVELS = ['Low', 'Medium', 'High'] as const;
+
+export function adjustConfidence(confidence: MetaSynthesis['confidence'], adjustment: HumanReviewDecision['confidenceAdjustment']): MetaSynthesis['confidence'] {
+  const index = CONFIDENCE_LEVELS.indexOf(confidence);
+  if (index < 0 || !adjustment || adjustment === 'maintain') return confidence;
+  return CONFIDENCE_LEVELS[Math.max(0, Math.min(CONFIDENCE_LEVELS.length - 1, index + (adjustment === 'increase' ? 1 : -1)))];
+}
+
+const STRING_FIELDS = ['summary', 'perspectiveDivergence', 'synthesisApproach'] as const;
+const LIST_FIELDS = ['keyStrengths', 'keyWeaknesses', 'howCounterEvidenceWasAddressed', 'actionableRecommendations', 'remainingUncertainties'] as const;
+
+/**
+ * Applies a reviewer's `modifications` to the synthesis. Keys name metaSynthesis fields: text fields take a
+ * string, list fields take a string array (replacing the list) or a string (appended as one item), and
+ * `confidence` takes High, Medium or Low. `rerunPhases` is reserved for request_more_analysis; any other
+ * key, or a value of the wrong type, is reported as ignored.
+ */
+export function applySynthesisModifications(
+  synthesis: MetaSynthesis, modifications: Record<string, unknown> | undefined,
+): { synthesis: MetaSynthesis; applied: string[]; ignored: string[] } {
+  const patched: MetaSynthesis = { ...synthesis };
+  const applied: string[] = [];
+  const ignored: string[] = [];
+
+  for (const [key, value] of Object.entries(modifications ?? {})) {
+    if (key === 'rerunPhases') continue;
+    if ((STRING_FIELDS as readonly string[]).includes(key) && typeof value === 'string') {
+      patched[key as typeof STRING_FIELDS[number]] = value;
+    } else if ((LIST_FIELDS as readonly string[]).includes(key) && Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      patched[key as typeof LIST_FIELDS[number]] = value as string[];
+    } else if ((LIST_FIELDS as readonly string[]).includes(key) && typeof value === 'string') {
+      patched[key as typeof LIST_FIELDS[number]] = [...synthesis[key as typeof LIST_FIELDS[number]], value];
+    } else if (key === 'confidence' && (CONFIDENCE_LEVELS as readonly unknown[]).includes(value)) {
+      patched.confidence = value as MetaSynthesis['confidence'];
+    } else {
+      ignored.push(key);
+      continue;
+    }
+    applied.push(key);
+  }
+  return { synthesis: patched, applied, ignored };
+}
+
+/**
+ * Phases (1-5) a request_more_analysis decision asks for, from `modifications.rerunPhases` (numbers such as
+ * 2 or names such as "Phase3_InDepthAnalysisAndChallenge") and from "Phase N" mentions in the guidance.
+ * Each phase builds on the ones before it, so every phase from the earliest named one through synthesis (5)
+ * is returned. Without any named phase, evidence gathering onwards (2-5) is re-run.
+ */
+export function phasesToRerun(humanInput: HumanReviewDecision): number[] {
+  const named = new Set<number>();
+  const requested = humanInput.modifications?.['rerunPhases'];
+  for (const phase of Array.isArray(requested) ? requested : []) {
+    const number = typeof phase === 'number' ? phase : Number(/^\s*(?:phase\s*)?(\d)/i.exec(String(phase))?.[1]);
+    if (Number.isInteger(number) && number >= 1 && number <= 5) named.add(number);
+  }
+  for (const guidance of humanInput.additionalGuidance ?? []) {
+    for (const match of guidance.matchAll(/\bphase\s*([1-5])\b/gi)) named.add(Number(match[1]));
+  }
+  const first = named.size > 0 ? Math.min(...named) : 2;
+  return Array.from({ length: 6 - first }, (_, index) => first + index);
+}
@@ -0,0 +1,201 @@
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import {
+  SmtpEmailNotifier,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookNotifier,
+  createReviewNotifiersFromEnv,
+  verifyWebhookSignature,
+} from './review-notifiers';
+import type { ReviewRecord } from './review-store';
+
+const record: ReviewRecord = {
+  id: 'review_1_abc',
+  status: 'pending',
+  submittedAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: '2024-01-01T00:30:00.000Z',
+  input: {
+    reviewType: 'low_confidence',
+    context: {
+      query: 'Is remote work more productive?',
+      currentAnalysis: {},
+      confidence: { score: 'Low', rationale: 'Conflicting studies\n.NET shops were excluded' },
+      criticalIssues: ['Contradiction between productivity studies'],
+    },
+    reviewRequest: {
+      specificQuestions: ['Which study design is more credible?'],
+      areasNeedingExpertise: ['Conflict resolution and evidence evaluation'],
+      suggestedActions: ['Validate analytical approach'],
+      urgency: 'high',
+    },
+  },
+};
+
+/** Speaks just enough SMTP to accept one message, and records the commands and the message data. */
+function startMockSmtpServer(): Promise<{ port: number; commands: string[]; messages: string[]; close: () => Promise<void> }> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 mock ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+          continue;
+        }
+        const end = buffer.indexOf('\r\n');
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-mock\r\n250 AUTH PLAIN LOGIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+        else if (verb === 'QUIT') { socket.write('221 bye\r\n'); socket.end(); }
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () => new Promise(done => server.close(() => done())),
+  })));
+}
+
+describe('SmtpEmailNotifier', () => {
+  test('should authenticate and deliver a plain-text review notification', async () => {
+    const smtp = await startMockSmtpServer();
+    // The mock server offers no STARTTLS.
+    const notifier = new SmtpEmailNotifier({
+      host: '127.0.0.1', port: smtp.port, user: 'bot', pass: 'secret', allowInsecureAuth: true, from: 'bot@example.com', to: ['a@example.com', 'b@example.com'],
+    });
+
+    await notifier.notify(record);
+    await smtp.close();
+
+    expect(smtp.commands).toEqual(expect.arrayContaining([
+      `AUTH PLAIN ${Buffer.from('\0bot\0secret').toString('base64')}`,
+      'MAIL FROM:<bot@example.com>',
+      'RCPT TO:<a@example.com>',
+      'RCPT TO:<b@example.com>',
+      'QUIT',
+    ]));
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toContain('Subject: [high] Human review required: low_confidence');
+    expect(smtp.messages[0]).toContain('Review ID: review_1_abc');
+    expect(smtp.messages[0]).toContain('\r\n..NET shops were excluded\r\n');
+  });
+
+  test('should refuse to send credentials when the server offers no STARTTLS', async () => {
+    const smtp = await startMockSmtpServer();
+    const notifier = new SmtpEmailNotifier({ host: '127.0.0.1', port: smtp.port, user: 'bot', pass: 'secret', from: 'bot@example.com', to: ['a@example.com'] });
+
+    await expect(notifier.notify(record)).rejects.toThrow('refusing to send credentials in cleartext');
+    await smtp.close();
+    expect(smtp.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  test('should give up connecting when the handshake never completes', async () => {
+    // Accepts the TCP connection but never answers the TLS handshake, like a blackholed relay.
+    const sockets: net.Socket[] = [];
+    const server = net.createServer(socket => { sockets.push(socket); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const notifier = new SmtpEmailNotifier({
+      host: '127.0.0.1', port: (server.address() as AddressInfo).port, secure: true, timeoutMs: 200, from: 'bot@example.com', to: ['a@example.com'],
+    });
+
+    await expect(notifier.notify(record)).rejects.toThrow('within 200ms');
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(done => server.close(done));
+  });
+
+  test('should give up upgrading when the server accepts STARTTLS but never completes the handshake', async () => {
+    const sockets: net.Socket[] = [];
+    const server = net.createServer(socket => {
+      sockets.push(socket);
+      socket.write('220 mock\r\n');
+      socket.on('data', chunk => {
+        const verb = chunk.toString('utf8').split(/[ \r]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-mock\r\n250 STARTTLS\r\n');
+        // After this the server reads the client hello and never answers it.
+        else if (verb === 'STARTTLS') socket.write('220 ready\r\n');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const notifier = new SmtpEmailNotifier({
+      host: '127.0.0.1', port: (server.address() as AddressInfo).port, timeoutMs: 200, from: 'bot@example.com', to: ['a@example.com'],
+    });
+
+    await expect(notifier.notify(record)).rejects.toThrow('did not complete the TLS handshake within 200ms');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(sockets[0].destroyed).toBe(true);
+    await new Promise(done => server.close(done));
+  });
+
+  test('should reject when the server refuses a recipient', async () => {
+    const server = net.createServer(socket => {
+      socket.write('220 mock\r\n');
+      socket.on('data', chunk => {
+        const line = chunk.toString('utf8');
+        socket.write(line.startsWith('RCPT') ? '550 no such user\r\n' : '250 ok\r\n');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const notifier = new SmtpEmailNotifier({ host: '127.0.0.1', port: (server.address() as AddressInfo).port, from: 'bot@example.com', to: ['nobody@example.com'] });
+
+    await expect(notifier.notify(record)).rejects.toThrow('550');
+    await new Promise(done => server.close(done));
+  });
+});
+
+describe('WebhookNotifier', () => {
+  test('should POST the review with a verifiable HMAC signature', async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/review`;
+
+    await new WebhookNotifier({ url, secret: 'shh' }).notify(record);
+    await new Promise(done => server.close(done));
+
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(expect.objectContaining({ event: 'review.submitted', review: expect.objectContaining({ id: 'review_1_abc', urgency: 'high' }) }));
+    const timestamp = headers[WEBHOOK_TIMESTAMP_HEADER] as string;
+    const signature = headers[WEBHOOK_SIGNATURE_HEADER] as string;
+    expect(verifyWebhookSignature('shh', timestamp, body, signature)).toBe(true);
+    expect(verifyWebhookSignature('wrong', timestamp, body, signature)).toBe(false);
+  });
+});
+
+describe('createReviewNotifiersFromEnv', () => {
+  test('should only enable email when an SMTP host is configured', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createReviewNotifiersFromEnv({ REVIEW_NOTIFICATION_EMAIL: 'a@example.com' })).toEqual([]);
+    expect(createReviewNotifiersFromEnv({
+      REVIEW_NOTIFICATION_EMAIL: 'a@example.com', SMTP_HOST: 'localhost', REVIEW_WEBHOOK_URL: 'http://localhost/hook',
+    }).map(notifier => notifier.name)).toEqual(['smtp', 'webhook']);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,342 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { ReviewRecord } from './review-store';
+
+/**
+ * @fileOverview Notifies reviewers that a human review is waiting.
+ *
+ * - ReviewNotifier - Transport interface; HumanReviewSystem calls every configured notifier.
+ * - SmtpEmailNotifier - Plain-text email over SMTP (STARTTLS and AUTH PLAIN/LOGIN when offered; credentials only over TLS).
+ * - WebhookNotifier - JSON POST signed with HMAC-SHA256 (see signWebhookPayload / verifyWebhookSignature).
+ * - createReviewNotifiersFromEnv - Selection from REVIEW_NOTIFICATION_EMAIL/SMTP_* and REVIEW_WEBHOOK_*.
+ */
+
+export interface ReviewNotifier {
+  readonly name: string;
+  notify(record: ReviewRecord): Promise<void>;
+}
+
+export function formatReviewNotification(record: ReviewRecord): { subject: string; text: string } {
+  const { input } = record;
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `  - ${item}`).join('\n') : '  (none)';
+  return {
+    subject: `[${input.reviewRequest.urgency}] Human review required: ${input.reviewType}`,
+    text: [
+      `Review ID: ${record.id}`,
+      `Query: ${input.context.query}`,
+      `Confidence: ${input.context.confidence.score} - ${input.context.confidence.rationale}`,
+      '',
+      'Critical issues:',
+      list(input.context.criticalIssues),
+      '',
+      'Questions for the reviewer:',
+      list(input.reviewRequest.specificQuestions),
+      '',
+      'Expertise needed:',
+      list(input.reviewRequest.areasNeedingExpertise),
+      '',
+      `Submitted: ${record.submittedAt}`,
+      `Expires: ${record.expiresAt}`,
+    ].join('\n'),
+  };
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  /** Send the credentials even when the server offers no STARTTLS; only for a trusted relay on a private network. */
+  allowInsecureAuth?: boolean;
+  from: string;
+  to: string[];
+  /** Limit for connecting and for each reply (default 15000). */
+  timeoutMs?: number;
+  /** Passed to tls.connect, e.g. `{ rejectUnauthorized: false }` for a local relay. */
+  tls?: tls.ConnectionOptions;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** One SMTP conversation: writes commands and reads (possibly multi-line) replies in order. */
+class SmtpConnection {
+  private buffer = '';
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError(`SMTP server did not answer within ${this.timeoutMs}ms`)));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed unexpectedly')));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    // A reply is any number of "250-..." continuation lines followed by a "250 ..." final line.
+    const match = /^(?:\d{3}-[^\n]*\n)*(\d{3})(?:[ \r][^\n]*)?\n/.exec(this.buffer);
+    if (!match) return;
+    this.buffer = this.buffer.slice(match[0].length);
+    const lines = match[0].split('\n').filter(Boolean).map(line => line.replace(/\r$/, '').slice(4));
+    const { resolve } = this.waiting;
+    this.waiting = null;
+    resolve({ code: Number(match[1]), lines });
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async command(line: string | null, expected: number[], redacted?: string): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${redacted ?? line ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /** Switches the conversation to TLS after a successful STARTTLS. */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secure = tls.connect({ ...options, socket: plain });
+    // The same limit as every other step, so a server that accepts STARTTLS and then stalls cannot hang the notifier.
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        secure.destroy(new SmtpError(`SMTP server did not complete the TLS handshake within ${this.timeoutMs}ms`));
+        plain.destroy();
+      }, this.timeoutMs);
+      secure.once('secureConnect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      secure.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+    this.buffer = '';
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export class SmtpEmailNotifier implements ReviewNotifier {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async notify(record: ReviewRecord): Promise<void> {
+    const { subject, text } = formatReviewNotification(record);
+    await this.send(subject, text, `<${record.id}@${os.hostname()}>`);
+  }
+
+  async send(subject: string, text: string, messageId?: string): Promise<void> {
+    const { host, port, secure, user, pass, from, to } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? 15000;
+    const tlsOptions: tls.ConnectionOptions = { servername: net.isIP(host) ? undefined : host, ...this.config.tls };
+    // SmtpConnection's timeout only starts once connected; without this a blackholed host waits for the OS TCP timeout.
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const timer = setTimeout(() => connected.destroy(new SmtpError(`Could not connect to SMTP server ${host}:${port} within ${timeoutMs}ms`)), timeoutMs);
+      const onConnect = () => {
+        clearTimeout(timer);
+        resolve(connected);
+      };
+      const connected = secure ? tls.connect({ ...tlsOptions, host, port }, onConnect) : net.connect({ host, port }, onConnect);
+      connected.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+    const connection = new SmtpConnection(socket, timeoutMs);
+
+    try {
+      await connection.command(null, [220]);
+      let capabilities = (await connection.command(`EHLO ${os.hostname()}`, [250])).lines;
+      let encrypted = !!secure;
+      if (!secure && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(tlsOptions);
+        encrypted = true;
+        capabilities = (await connection.command(`EHLO ${os.hostname()}`, [250])).lines;
+      }
+
+      if (user && !encrypted && !this.config.allowInsecureAuth) {
+        throw new SmtpError(`SMTP server ${host}:${port} does not offer STARTTLS; refusing to send credentials in cleartext (set SMTP_ALLOW_INSECURE_AUTH=true for a trusted relay).`);
+      }
+      if (user) {
+        const mechanisms = capabilities.find(line => /^AUTH\b/i.test(line))?.toUpperCase().split(/\s+/) ?? [];
+        if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+          const token = Buffer.from(`\0${user}\0${pass ?? ''}`, 'utf8').toString('base64');
+          await connection.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+        } else {
+          await connection.command('AUTH LOGIN', [334]);
+          await connection.command(Buffer.from(user, 'utf8').toString('base64'), [334], 'AUTH LOGIN user');
+          await connection.command(Buffer.from(pass ?? '', 'utf8').toString('base64'), [235], 'AUTH LOGIN password');
+        }
+      }
+
+      await connection.command(`MAIL FROM:<${from}>`, [250]);
+      for (const recipient of to) await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      const headers = [
+        `From: ${from}`,
+        `To: ${to.join(', ')}`,
+        `Subject: ${encodeHeader(subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        ...(messageId ? [`Message-ID: ${messageId}`] : []),
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+      ];
+      // Normalize line endings and dot-stuff lines that start with "." (RFC 5321 section 4.5.2).
+      const body = text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+      await connection.command(`${headers.join('\r\n')}\r\n\r\n${body}\r\n.`, [250], 'message body');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-review-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-review-timestamp';
+
+/** `sha256=<hex>` HMAC of `<timestamp>.<body>`; including the timestamp lets receivers reject replays. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface WebhookConfig {
+  url: string;
+  /** Signs each delivery when set. */
+  secret?: string;
+  timeoutMs?: number;
+}
+
+export class WebhookNotifier implements ReviewNotifier {
+  readonly name = 'webhook';
+
+  constructor(private config: WebhookConfig) {}
+
+  async notify(record: ReviewRecord): Promise<void> {
+    const { input } = record;
+    const body = JSON.stringify({
+      event: 'review.submitted',
+      review: {
+        id: record.id,
+        reviewType: input.reviewType,
+        urgency: input.reviewRequest.urgency,
+        query: input.context.query,
+        confidence: input.context.confidence,
+        criticalIssues: input.context.criticalIssues,
+        specificQuestions: input.reviewRequest.specificQuestions,
+        areasNeedingExpertise: input.reviewRequest.areasNeedingExpertise,
+        suggestedActions: input.reviewRequest.suggestedActions,
+        submittedAt: record.submittedAt,
+        expiresAt: record.expiresAt,
+      },
+      text: formatReviewNotification(record).text,
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', [WEBHOOK_TIMESTAMP_HEADER]: timestamp };
+    if (this.config.secret) headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(this.config.secret, timestamp, body);
+
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 10000),
+    });
+    if (!response.ok) {
+      throw new Error(`Review webhook ${this.config.url} responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Email is sent when REVIEW_NOTIFICATION_EMAIL (comma-separated) and SMTP_HOST are set; SMTP_PORT
+ * (default 587, or 465 with SMTP_SECURE=true), SMTP_USER, SMTP_PASS, SMTP_ALLOW_INSECURE_AUTH and SMTP_FROM
+ * are optional.
+ * A webhook is called when REVIEW_WEBHOOK_URL is set, signed with REVIEW_WEBHOOK_SECRET if present.
+ */
+export function createReviewNotifiersFromEnv(env: Record<string, string | undefined> = process.env): ReviewNotifier[] {
+  const notifiers: ReviewNotifier[] = [];
+  const recipients = (env.REVIEW_NOTIFICATION_EMAIL ?? '').split(',').map(address => address.trim()).filter(Boolean);
+
+  if (recipients.length > 0) {
+    if (!env.SMTP_HOST) {
+      console.warn('ReviewNotifiers: REVIEW_NOTIFICATION_EMAIL is set but SMTP_HOST is not; email notifications are disabled.');
+    } else {
+      const secure = env.SMTP_SECURE === 'true';
+      notifiers.push(new SmtpEmailNotifier({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : secure ? 465 : 587,
+        secure,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+        from: env.SMTP_FROM || env.SMTP_USER || `ravint@${os.hostname()}`,
+        to: recipients,
+      }));
+    }
+  }
+
+  if (env.REVIEW_WEBHOOK_URL) {
+    notifiers.push(new WebhookNotifier({ url: env.REVIEW_WEBHOOK_URL, secret: env.REVIEW_WEBHOOK_SECRET }));
+  }
+
+  return notifiers;
+}
@@ -0,0 +1,355 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { HumanReviewInput, HumanReviewOutput } from './human-review-tool';
+import { withFileLock } from './tool-audit-sink';
+
+/**
+ * @fileOverview Persistence for human reviews, so a review submitted before a restart can still be
+ * answered and looked up afterwards.
+ *
+ * - ReviewStore - Storage interface for ReviewRecords, whose `transition` changes a review's status atomically.
+ * - FileSystemReviewStore - One JSON file per review under `<dir>/`.
+ * - SqliteReviewStore - A single `human_reviews` table (better-sqlite3).
+ * - InMemoryReviewStore - Non-persistent store for tests.
+ * - ReviewQueue - Hand-off of new reviews to the reviewers' task queue, backed by a directory
+ *   (FileSystemReviewQueue) or a `review_queue` table (SqliteReviewQueue).
+ * - createReviewStoreFromEnv / createReviewQueueFromEnv - Selection from REVIEW_STORE and REVIEW_QUEUE_URL.
+ */
+
+export type ReviewStatus = 'pending' | 'completed' | 'expired' | 'failed';
+
+/**
+ * How a decision's reviewer was identified: `auth_proxy` is a header set by the deployment's authenticating
+ * proxy, `self_reported` is whatever label the caller supplied and proves nothing about who decided.
+ */
+export type ReviewerIdentitySource = 'auth_proxy' | 'self_reported';
+
+export interface ReviewerIdentity {
+  name: string;
+  source: ReviewerIdentitySource;
+}
+
+/** One step in a review's history: who did what, and when. */
+export interface ReviewAuditEntry {
+  at: string;
+  /** The reviewer for decisions; `system` for submission and expiry. */
+  actor: string;
+  /** For decisions: whether `actor` came from the auth proxy or was self-reported. */
+  actorSource?: ReviewerIdentitySource;
+  action: 'submitted' | 'decided' | 'expired';
+  decision?: NonNullable<HumanReviewOutput['humanInput']>['decision'];
+  confidenceAdjustment?: NonNullable<HumanReviewOutput['humanInput']>['confidenceAdjustment'];
+  modifiedFields?: string[];
+}
+
+export interface ReviewRecord {
+  id: string;
+  input: HumanReviewInput;
+  status: ReviewStatus;
+  submittedAt: string;
+  expiresAt: string;
+  completedAt?: string;
+  result?: HumanReviewOutput['humanInput'];
+  decidedBy?: string;
+  decidedBySource?: ReviewerIdentitySource;
+  /** Oldest first; absent on records saved before the audit trail existed. */
+  auditTrail?: ReviewAuditEntry[];
+}
+
+export interface ReviewStore {
+  readonly name: string;
+  save(record: ReviewRecord): Promise<void>;
+  load(reviewId: string): Promise<ReviewRecord | null>;
+  /**
+   * Saves the record only if the stored one still has status `from`, as one atomic step. Returns false when
+   * the review is missing or another writer changed its status first, so of two concurrent decisions one wins.
+   */
+  transition(record: ReviewRecord, from: ReviewStatus): Promise<boolean>;
+  /** Newest first, optionally restricted to one status. */
+  list(status?: ReviewStatus): Promise<ReviewRecord[]>;
+}
+
+/** The task-queue message for a new review; reviewers load the full record from the store. */
+export interface ReviewQueueMessage {
+  reviewId: string;
+  type: HumanReviewInput['reviewType'];
+  urgency: HumanReviewInput['reviewRequest']['urgency'];
+  questions: string[];
+  expiresAt: string;
+  enqueuedAt: string;
+}
+
+export interface ReviewQueue {
+  readonly name: string;
+  enqueue(message: ReviewQueueMessage): Promise<void>;
+  /** Removes and returns the oldest message, or null when the queue is empty. */
+  dequeue(): Promise<ReviewQueueMessage | null>;
+}
+
+const SAFE_REVIEW_ID = /^[A-Za-z0-9_-]+$/;
+// How long a file-system transition waits for another process to finish changing the same review.
+const LOCK_TIMEOUT_MS = 5000;
+
+function assertSafeReviewId(reviewId: string): void {
+  if (!SAFE_REVIEW_ID.test(reviewId)) {
+    throw new Error(`Invalid review ID "${reviewId}": only letters, digits, "_" and "-" are allowed.`);
+  }
+}
+
+function byNewest(a: ReviewRecord, b: ReviewRecord): number {
+  return b.submittedAt.localeCompare(a.submittedAt);
+}
+
+// Write-then-rename so a crash mid-write never leaves a truncated file behind.
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, contents, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+// better-sqlite3 is a native module; load it on first use so other backends never need it.
+function openSqlite(dbPath: string, schema: string): Promise<Database.Database> {
+  return (async () => {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    if (dbPath !== ':memory:') await fs.mkdir(path.dirname(path.resolve(dbPath)), { recursive: true });
+    const db = new BetterSqlite3(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.exec(schema);
+    return db;
+  })();
+}
+
+export class InMemoryReviewStore implements ReviewStore {
+  readonly name = 'memory';
+  private records = new Map<string, ReviewRecord>();
+
+  async save(record: ReviewRecord): Promise<void> {
+    // Round-trip through JSON so later mutations by the caller cannot leak into the store.
+    this.records.set(record.id, JSON.parse(JSON.stringify(record)));
+  }
+
+  async load(reviewId: string): Promise<ReviewRecord | null> {
+    const record = this.records.get(reviewId);
+    return record ? JSON.parse(JSON.stringify(record)) : null;
+  }
+
+  async transition(record: ReviewRecord, from: ReviewStatus): Promise<boolean> {
+    if (this.records.get(record.id)?.status !== from) return false;
+    this.records.set(record.id, JSON.parse(JSON.stringify(record)));
+    return true;
+  }
+
+  async list(status?: ReviewStatus): Promise<ReviewRecord[]> {
+    return [...this.records.values()]
+      .filter(record => !status || record.status === status)
+      .map(record => JSON.parse(JSON.stringify(record)) as ReviewRecord)
+      .sort(byNewest);
+  }
+}
+
+export class FileSystemReviewStore implements ReviewStore {
+  readonly name = 'fs';
+
+  constructor(private baseDir: string) {}
+
+  private fileFor(reviewId: string): string {
+    assertSafeReviewId(reviewId);
+    return path.join(this.baseDir, `${reviewId}.json`);
+  }
+
+  async save(record: ReviewRecord): Promise<void> {
+    await writeFileAtomic(this.fileFor(record.id), JSON.stringify(record, null, 2));
+  }
+
+  async load(reviewId: string): Promise<ReviewRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(reviewId), 'utf8')) as ReviewRecord;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async transition(record: ReviewRecord, from: ReviewStatus): Promise<boolean> {
+    const filePath = this.fileFor(record.id);
+    return withFileLock(`${filePath}.lock`, LOCK_TIMEOUT_MS, async () => {
+      if ((await this.load(record.id))?.status !== from) return false;
+      await writeFileAtomic(filePath, JSON.stringify(record, null, 2));
+      return true;
+    });
+  }
+
+  async list(status?: ReviewStatus): Promise<ReviewRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    const records: ReviewRecord[] = [];
+    for (const file of files) {
+      const reviewId = /^(.+)\.json$/.exec(file)?.[1];
+      if (!reviewId || !SAFE_REVIEW_ID.test(reviewId)) continue;
+      const record = await this.load(reviewId).catch(() => null);
+      if (record && (!status || record.status === status)) records.push(record);
+    }
+    return records.sort(byNewest);
+  }
+}
+
+export class SqliteReviewStore implements ReviewStore {
+  readonly name = 'sqlite';
+  private dbPromise: Promise<Database.Database> | null = null;
+
+  constructor(private dbPath: string) {}
+
+  private db(): Promise<Database.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = openSqlite(this.dbPath, `CREATE TABLE IF NOT EXISTS human_reviews (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        review_type TEXT NOT NULL,
+        submitted_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        record_json TEXT NOT NULL
+      )`);
+    }
+    return this.dbPromise;
+  }
+
+  async save(record: ReviewRecord): Promise<void> {
+    const db = await this.db();
+    db.prepare(`INSERT OR REPLACE INTO human_reviews (id, status, review_type, submitted_at, expires_at, record_json)
+      VALUES (?, ?, ?, ?, ?, ?)`).run(
+      record.id, record.status, record.input.reviewType, record.submittedAt, record.expiresAt, JSON.stringify(record),
+    );
+  }
+
+  async load(reviewId: string): Promise<ReviewRecord | null> {
+    const db = await this.db();
+    const row = db.prepare('SELECT record_json FROM human_reviews WHERE id = ?').get(reviewId) as { record_json: string } | undefined;
+    return row ? JSON.parse(row.record_json) as ReviewRecord : null;
+  }
+
+  async transition(record: ReviewRecord, from: ReviewStatus): Promise<boolean> {
+    const db = await this.db();
+    const { changes } = db.prepare('UPDATE human_reviews SET status = ?, record_json = ? WHERE id = ? AND status = ?')
+      .run(record.status, JSON.stringify(record), record.id, from);
+    return changes === 1;
+  }
+
+  async list(status?: ReviewStatus): Promise<ReviewRecord[]> {
+    const db = await this.db();
+    const rows = (status
+      ? db.prepare('SELECT record_json FROM human_reviews WHERE status = ? ORDER BY submitted_at DESC').all(status)
+      : db.prepare('SELECT record_json FROM human_reviews ORDER BY submitted_at DESC').all()
+    ) as { record_json: string }[];
+    return rows.map(row => JSON.parse(row.record_json) as ReviewRecord);
+  }
+}
+
+export class FileSystemReviewQueue implements ReviewQueue {
+  readonly name = 'fs';
+  private sequence = 0;
+
+  constructor(private dir: string) {}
+
+  async enqueue(message: ReviewQueueMessage): Promise<void> {
+    assertSafeReviewId(message.reviewId);
+    // Zero-padded time and sequence keep a plain directory listing in FIFO order.
+    const name = `${String(Date.now()).padStart(15, '0')}-${String(this.sequence++).padStart(6, '0')}-${message.reviewId}.json`;
+    await writeFileAtomic(path.join(this.dir, name), JSON.stringify(message, null, 2));
+  }
+
+  async dequeue(): Promise<ReviewQueueMessage | null> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(file => file.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+    for (const file of files) {
+      const filePath = path.join(this.dir, file);
+      try {
+        const message = JSON.parse(await fs.readFile(filePath, 'utf8')) as ReviewQueueMessage;
+        await fs.unlink(filePath);
+        return message;
+      } catch (error: any) {
+        // Another consumer claimed this message first; try the next one.
+        if (error?.code === 'ENOENT') continue;
+        throw error;
+      }
+    }
+    return null;
+  }
+}
+
+export class SqliteReviewQueue implements ReviewQueue {
+  readonly name = 'sqlite';
+  private dbPromise: Promise<Database.Database> | null = null;
+
+  constructor(private dbPath: string) {}
+
+  private db(): Promise<Database.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = openSqlite(this.dbPath, `CREATE TABLE IF NOT EXISTS review_queue (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id TEXT NOT NULL,
+        message_json TEXT NOT NULL,
+        enqueued_at TEXT NOT NULL
+      )`);
+    }
+    return this.dbPromise;
+  }
+
+  async enqueue(message: ReviewQueueMessage): Promise<void> {
+    const db = await this.db();
+    db.prepare('INSERT INTO review_queue (review_id, message_json, enqueued_at) VALUES (?, ?, ?)')
+      .run(message.reviewId, JSON.stringify(message), message.enqueuedAt);
+  }
+
+  async dequeue(): Promise<ReviewQueueMessage | null> {
+    const db = await this.db();
+    const take = db.transaction(() => {
+      const row = db.prepare('SELECT seq, message_json FROM review_queue ORDER BY seq LIMIT 1').get() as { seq: number; message_json: string } | undefined;
+      if (!row) return null;
+      db.prepare('DELETE FROM review_queue WHERE seq = ?').run(row.seq);
+      return JSON.parse(row.message_json) as ReviewQueueMessage;
+    });
+    return take();
+  }
+}
+
+/**
+ * Builds the store selected by REVIEW_STORE (fs | sqlite | memory).
+ * Defaults to the file system under REVIEW_STORE_PATH (default `.data/reviews`).
+ */
+export function createReviewStoreFromEnv(env: Record<string, string | undefined> = process.env): ReviewStore {
+  const kind = env.REVIEW_STORE || 'fs';
+  switch (kind) {
+    case 'fs':
+      return new FileSystemReviewStore(env.REVIEW_STORE_PATH || path.join('.data', 'reviews'));
+    case 'sqlite':
+      return new SqliteReviewStore(env.REVIEW_STORE_PATH || path.join('.data', 'reviews.db'));
+    case 'memory':
+      return new InMemoryReviewStore();
+    default:
+      throw new Error(`Unknown REVIEW_STORE "${kind}". Expected fs, sqlite or memory.`);
+  }
+}
+
+/**
+ * Builds the queue named by REVIEW_QUEUE_URL: `file:<dir>` for one JSON file per message, or
+ * `sqlite:<path>` for a `review_queue` table. Returns null when the variable is unset.
+ */
+export function createReviewQueueFromEnv(env: Record<string, string | undefined> = process.env): ReviewQueue | null {
+  const url = env.REVIEW_QUEUE_URL;
+  if (!url) return null;
+  const match = /^(file|sqlite):(?:\/\/)?(.+)$/.exec(url);
+  if (!match) throw new Error(`Unsupported REVIEW_QUEUE_URL "${url}". Expected file:<dir> or sqlite:<path>.`);
+  return match[1] === 'file' ? new FileSystemReviewQueue(match[2]) : new SqliteReviewQueue(match[2]);
+}
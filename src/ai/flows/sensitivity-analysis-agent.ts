@@ -2,6 +2,7 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { AssumptionChangeSchema, WHAT_IF_SCENARIO_ID, toAssumptionOverride, type AssumptionChange } from './what-if';
 
 // F4 Part 2: Sensitivity Analysis Agent - Tests robustness of conclusions under different assumption scenarios
 
@@ -14,6 +15,7 @@ const SensitivityAnalysisInputSchema = z.object({
     riskLevel: z.enum(['High', 'Medium', 'Low']),
   })).describe('Key assumptions to vary in sensitivity analysis'),
   synthesisEvidence: z.any().describe('Available evidence for alternate scenarios'),
+  assumptionChanges: z.array(AssumptionChangeSchema).optional().describe('User-chosen changes, tested together as one scenario instead of the generated ones'),
 });
 
 export type SensitivityAnalysisInput = z.infer<typeof SensitivityAnalysisInputSchema>;
@@ -162,36 +164,52 @@ function generateReversalScenario(assumption: string, index: number): ScenarioTe
   };
 }
 
+function generateUserScenario(changes: AssumptionChange[]): ScenarioTest {
+  return {
+    scenarioId: WHAT_IF_SCENARIO_ID,
+    scenarioName: 'What-If Scenario',
+    changedAssumptions: changes.map(change => ({
+      originalAssumption: change.assumption,
+      modifiedAssumption: toAssumptionOverride(change).modifiedAssumption,
+      changeType: change.changeType,
+      changeRationale: 'Changed by the user',
+    })),
+    impactOnConclusions: [],
+    scenarioViability: {
+      plausibility: 'moderate',
+      evidenceSupport: 'moderate',
+      rationalExplanation: 'Scenario specified by the user',
+    },
+  };
+}
+
 // Analysis functions
+const CHANGE_ADJUSTMENTS: Record<ScenarioTest['changedAssumptions'][number]['changeType'], number> = {
+  weakened: -15,
+  strengthened: 10,
+  reversed: -50,
+  replaced: -25,
+};
+
 function assessConclusionImpact(conclusion: string, scenario: ScenarioTest): any {
-  // Simplified impact assessment based on scenario type
+  // Simplified impact assessment: each changed assumption adds the adjustment for its type of change
+  const changeTypes = scenario.changedAssumptions.map(ca => ca.changeType);
+  const confidenceAdjustment = Math.max(-100, Math.min(100, changeTypes.reduce((sum, changeType) => sum + CHANGE_ADJUSTMENTS[changeType], 0)));
+  const magnitude = Math.abs(confidenceAdjustment);
+
   let changeLevel: any;
-  let confidenceAdjustment: number;
-
-  switch (scenario.changedAssumptions[0]?.changeType) {
-    case 'weakened':
-      changeLevel = 'minor';
-      confidenceAdjustment = -15;
-      break;
-    case 'strengthened':
-      changeLevel = 'minor';
-      confidenceAdjustment = 10;
-      break;
-    case 'reversed':
-      changeLevel = 'major';
-      confidenceAdjustment = -50;
-      break;
-    default:
-      changeLevel = 'moderate';
-      confidenceAdjustment = -25;
-  }
+  if (magnitude >= 100) changeLevel = 'complete_reversal';
+  else if (magnitude >= 50) changeLevel = 'major';
+  else if (magnitude >= 25) changeLevel = 'moderate';
+  else if (magnitude > 0) changeLevel = 'minor';
+  else changeLevel = 'none';
 
   return {
     originalConclusion: conclusion,
     revisedConclusion: `${conclusion} (modified under ${scenario.scenarioName})`,
     changeLevel,
     confidenceAdjustment,
-    reasoning: `Impact assessed based on ${scenario.changedAssumptions[0]?.changeType} assumption change`,
+    reasoning: `Impact assessed based on ${changeTypes.join(' and ')} assumption change`,
   };
 }
 
@@ -292,21 +310,25 @@ export async function analyzeSensitivity(input: SensitivityAnalysisInput): Promi
       };
     }
 
-    // Generate test scenarios for each assumption
+    // Generate test scenarios for each assumption, unless the user chose the changes to test
     const scenarios: ScenarioTest[] = [];
 
-    input.keyAssumptions.forEach((assumption, index) => {
-      // Generate different types of scenarios based on assumption risk level
-      if (assumption.riskLevel === 'High' || assumption.impact === 'High') {
-        scenarios.push(generateWeakeningScenario(assumption.assumption, index));
-        scenarios.push(generateReversalScenario(assumption.assumption, index));
-      } else if (assumption.riskLevel === 'Medium') {
-        scenarios.push(generateWeakeningScenario(assumption.assumption, index));
-        scenarios.push(generateStrengtheningScenario(assumption.assumption, index));
-      } else {
-        scenarios.push(generateWeakeningScenario(assumption.assumption, index));
-      }
-    });
+    if (input.assumptionChanges?.length) {
+      scenarios.push(generateUserScenario(input.assumptionChanges));
+    } else {
+      input.keyAssumptions.forEach((assumption, index) => {
+        // Generate different types of scenarios based on assumption risk level
+        if (assumption.riskLevel === 'High' || assumption.impact === 'High') {
+          scenarios.push(generateWeakeningScenario(assumption.assumption, index));
+          scenarios.push(generateReversalScenario(assumption.assumption, index));
+        } else if (assumption.riskLevel === 'Medium') {
+          scenarios.push(generateWeakeningScenario(assumption.assumption, index));
+          scenarios.push(generateStrengtheningScenario(assumption.assumption, index));
+        } else {
+          scenarios.push(generateWeakeningScenario(assumption.assumption, index));
+        }
+      });
+    }
 
     // Test impact on each conclusion for each scenario
     scenarios.forEach(scenario => {
@@ -0,0 +1,100 @@
+import { emptyModelUsageTotals } from '@/ai/llm-usage';
+import {
+  budgetConfidencePenalty,
+  budgetPressure,
+  initialBudgetState,
+  penalizeConfidence,
+  SessionBudgetTracker,
+  type BudgetDegradation,
+} from './session-budget';
+
+describe('SessionBudgetTracker', () => {
+  let clock: number;
+  let totalTokens: number;
+
+  const makeTracker = (onDegradation?: (degradation: BudgetDegradation) => void) => new SessionBudgetTracker(
+    initialBudgetState({ maxTokens: 10_000, maxDurationMs: 60_000 }),
+    () => ({ ...emptyModelUsageTotals(), totalTokens }),
+    onDegradation,
+    () => clock,
+  );
+
+  beforeEach(() => {
+    clock = 0;
+    totalTokens = 0;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep the plan while under half of every limit', () => {
+    const tracker = makeTracker();
+    totalTokens = 4000;
+    clock = 20_000;
+
+    expect(tracker.capIterations('Phase1', 'InitialAnswerLoopAgent', 3)).toBe(3);
+    expect(tracker.capPerspectives('Phase5', 'SynthesisEnsembleAgent', 5)).toBe(5);
+    expect(tracker.shouldSkipAgent('Phase2', 'InformationGapAgent')).toBe(false);
+    expect(tracker.snapshot().degradations).toEqual([]);
+  });
+
+  test('should cut more as the tightest limit is spent and record every cut', () => {
+    const degradations: BudgetDegradation[] = [];
+    const tracker = makeTracker(degradation => degradations.push(degradation));
+
+    totalTokens = 6000;
+    expect(tracker.capPerspectives('Phase5', 'SynthesisEnsembleAgent', 5)).toBe(3);
+    expect(tracker.shouldSkipAgent('Phase5', 'NuancePreservationCheckAgent')).toBe(false);
+
+    clock = 54_000;
+    expect(tracker.capIterations('Phase5', 'SynthesisRevisionAgent', 2)).toBe(0);
+    expect(tracker.shouldSkipAgent('Phase5', 'NuancePreservationCheckAgent')).toBe(true);
+    expect(tracker.shouldSkipAgent('Phase5', 'FactVerificationLoopAgent')).toBe(false);
+
+    expect(degradations.map(({ kind, agent, planned, allowed, pressure }) => ({ kind, agent, planned, allowed, pressure }))).toEqual([
+      { kind: 'dropped_perspectives', agent: 'SynthesisEnsembleAgent', planned: 5, allowed: 3, pressure: 'tight' },
+      { kind: 'reduced_iterations', agent: 'SynthesisRevisionAgent', planned: 2, allowed: 0, pressure: 'critical' },
+      { kind: 'skipped_agent', agent: 'NuancePreservationCheckAgent', planned: 1, allowed: 0, pressure: 'critical' },
+    ]);
+    expect(tracker.snapshot()).toEqual(expect.objectContaining({ elapsedMs: 54_000, budgetUsed: 0.9, confidencePenalty: 13 }));
+  });
+
+  test('should continue from the elapsed time and cuts of an earlier run', () => {
+    const earlier = makeTracker();
+    clock = 40_000;
+    earlier.capPerspectives('Phase5', 'SynthesisEnsembleAgent', 5);
+
+    const resumed = new SessionBudgetTracker(earlier.snapshot(), () => undefined, undefined, () => clock + 10_000);
+
+    expect(resumed.budgetUsed()).toBeCloseTo(40_000 / 60_000);
+    expect(resumed.snapshot().degradations).toHaveLength(1);
+  });
+});
+
+describe('budgetPressure', () => {
+  test('should turn tight from half and critical from 80% of the budget', () => {
+    expect([0.49, 0.5, 0.79, 0.8, 1.3].map(budgetPressure)).toEqual(['normal', 'tight', 'tight', 'critical', 'critical']);
+  });
+});
+
+describe('penalizeConfidence', () => {
+  const degradation = (kind: BudgetDegradation['kind'], planned: number, allowed: number): BudgetDegradation => ({
+    phase: 'Phase5', agent: 'SynthesisEnsembleAgent', kind, planned, allowed, pressure: 'critical', budgetUsed: 0.9, timestamp: '2026-01-01T00:00:00.000Z',
+  });
+
+  test('should lower the score by the penalty and the level only when the score leaves its band', () => {
+    const confidence = { score: 'High' as const, numericScore: 86, rationale: 'Strong evidence.' };
+
+    const penalized = penalizeConfidence(confidence, [degradation('dropped_perspectives', 5, 1)]);
+
+    expect(penalized).toEqual(expect.objectContaining({ score: 'Medium', numericScore: 78 }));
+    expect(penalized.rationale).toMatch(/^Strong evidence\. Lowered by 8 point\(s\)/);
+    expect(penalizeConfidence({ ...confidence, score: 'Medium' }, [degradation('reduced_iterations', 2, 1)]).score).toBe('Medium');
+  });
+
+  test('should cap the penalty', () => {
+    expect(budgetConfidencePenalty(Array.from({ length: 10 }, () => degradation('skipped_agent', 1, 0)))).toBe(30);
+  });
+});
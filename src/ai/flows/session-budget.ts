@@ -0,0 +1,190 @@
+import { z } from 'genkit';
+import type { ModelUsageTotals } from '@/ai/llm-usage';
+import type { ConfidenceScoringOutput } from './confidence-scoring-agent';
+
+/**
+ * @fileOverview Token, cost and wall-clock budgets for one master orchestrator session.
+ *
+ * The orchestrator asks the tracker before each step it can cut: the initial answer loop, the synthesis
+ * refinement loop, the synthesis ensemble's perspectives and the low-priority agents. The more of the
+ * tightest limit is spent, the more is cut (see BUDGET_POLICIES). Every cut is recorded as a degradation,
+ * and the degradations are taken off the overall confidence score.
+ *
+ * - SessionBudgetSchema - The limits, passed as MasterOrchestratorInput.budget.
+ * - SessionBudgetStateSchema - Spend and degradations, kept in SessionState.budget across checkpoints.
+ * - SessionBudgetTracker - Measures the spend and decides each cut.
+ * - penalizeConfidence - The scored confidence less the points for what was cut.
+ */
+
+export const SessionBudgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional().describe('Input plus output tokens over all model calls'),
+  maxCostUSD: z.number().positive().optional().describe('Cost of the priced model calls (see `pricing` in the model config)'),
+  maxDurationMs: z.number().int().positive().optional().describe('Wall-clock time spent running phases'),
+});
+export type SessionBudget = z.infer<typeof SessionBudgetSchema>;
+
+export const BudgetPressureSchema = z.enum(['normal', 'tight', 'critical']);
+export type BudgetPressure = z.infer<typeof BudgetPressureSchema>;
+
+export const BudgetDegradationSchema = z.object({
+  phase: z.string(),
+  agent: z.string(),
+  kind: z.enum(['reduced_iterations', 'dropped_perspectives', 'skipped_agent']),
+  planned: z.number().describe('Iterations or perspectives planned; 1 for a skipped agent'),
+  allowed: z.number().describe('What the budget allowed; 0 for a skipped agent'),
+  pressure: BudgetPressureSchema,
+  budgetUsed: z.number().describe('Share of the tightest limit spent when the cut was made (above 1 when over budget)'),
+  timestamp: z.string(),
+});
+export type BudgetDegradation = z.infer<typeof BudgetDegradationSchema>;
+
+export const SessionBudgetStateSchema = z.object({
+  budget: SessionBudgetSchema,
+  elapsedMs: z.number().describe('Time spent running phases; pauses for clarification or review are not counted'),
+  budgetUsed: z.number().describe('Share of the tightest limit spent so far'),
+  degradations: z.array(BudgetDegradationSchema),
+  confidencePenalty: z.number().describe('Points taken off the overall confidence score for the degradations'),
+});
+export type SessionBudgetState = z.infer<typeof SessionBudgetStateSchema>;
+
+export interface BudgetPolicy {
+  /** Cap on loop iterations, or undefined to keep what was planned. */
+  maxLoopIterations?: number;
+  maxPerspectives?: number;
+  skipLowPriorityAgents: boolean;
+}
+
+/** Pressure by share of the tightest limit spent: tight from half, critical from 80%. */
+const PRESSURE_THRESHOLDS: [BudgetPressure, number][] = [['critical', 0.8], ['tight', 0.5]];
+
+export const BUDGET_POLICIES: Record<BudgetPressure, BudgetPolicy> = {
+  normal: { skipLowPriorityAgents: false },
+  tight: { maxLoopIterations: 1, maxPerspectives: 3, skipLowPriorityAgents: false },
+  critical: { maxLoopIterations: 0, maxPerspectives: 1, skipLowPriorityAgents: true },
+};
+
+/** Agents whose output only enriches the analysis; the phases fall back to their defaults when skipped. */
+export const LOW_PRIORITY_AGENTS = [
+  'InformationGapAgent', 'PremortemAgent', 'DevilsAdvocateAgent', 'ImpactAssessmentAgent', 'NuancePreservationCheckAgent',
+] as const;
+
+// Confidence points per skipped agent, dropped perspective and cut loop iteration, and the most taken off in total.
+const CONFIDENCE_PENALTIES: Record<BudgetDegradation['kind'], number> = { skipped_agent: 5, dropped_perspectives: 2, reduced_iterations: 2 };
+const MAX_CONFIDENCE_PENALTY = 30;
+
+export function initialBudgetState(budget: SessionBudget): SessionBudgetState {
+  return { budget, elapsedMs: 0, budgetUsed: 0, degradations: [], confidencePenalty: 0 };
+}
+
+export function budgetUsed(budget: SessionBudget, spend: { totalTokens: number; costUSD: number; elapsedMs: number }): number {
+  const shares = [
+    budget.maxTokens ? spend.totalTokens / budget.maxTokens : 0,
+    budget.maxCostUSD ? spend.costUSD / budget.maxCostUSD : 0,
+    budget.maxDurationMs ? spend.elapsedMs / budget.maxDurationMs : 0,
+  ];
+  return Math.max(...shares);
+}
+
+export function budgetPressure(used: number): BudgetPressure {
+  return PRESSURE_THRESHOLDS.find(([, threshold]) => used >= threshold)?.[0] ?? 'normal';
+}
+
+export function budgetConfidencePenalty(degradations: readonly BudgetDegradation[]): number {
+  const penalty = degradations.reduce((total, degradation) =>
+    total + CONFIDENCE_PENALTIES[degradation.kind] * (degradation.planned - degradation.allowed), 0);
+  return Math.min(MAX_CONFIDENCE_PENALTY, penalty);
+}
+
+type OverallConfidence = ConfidenceScoringOutput['overallConfidence'];
+
+// The score bands of the ConfidenceScoringAgent prompt.
+const levelFor = (numericScore: number): OverallConfidence['score'] => numericScore >= 80 ? 'High' : numericScore >= 50 ? 'Medium' : 'Low';
+const LEVEL_ORDER: OverallConfidence['score'][] = ['Low', 'Medium', 'High'];
+
+/** Lowers the score by the penalty; the level only drops, when the lowered score leaves its band. */
+export function penalizeConfidence(confidence: OverallConfidence, degradations: readonly BudgetDegradation[]): OverallConfidence {
+  const penalty = budgetConfidencePenalty(degradations);
+  if (penalty === 0) return confidence;
+  const numericScore = Math.max(0, confidence.numericScore - penalty);
+  const score = LEVEL_ORDER[Math.min(LEVEL_ORDER.indexOf(confidence.score), LEVEL_ORDER.indexOf(levelFor(numericScore)))];
+  const agents = [...new Set(degradations.map(degradation => degradation.agent))].join(', ');
+  return {
+    ...confidence, score, numericScore,
+    rationale: `${confidence.rationale} Lowered by ${penalty} point(s) because the session budget cut work from: ${agents}.`,
+  };
+}
+
+/**
+ * Tracks one run of a session against its budget. Spend is read live from the session's model usage, so
+ * calls made earlier in the same phase count; elapsed time adds to that of earlier runs of the session.
+ */
+export class SessionBudgetTracker {
+  private readonly runStartedAt: number;
+  private readonly degradations: BudgetDegradation[];
+
+  constructor(
+    private readonly state: SessionBudgetState,
+    private readonly spend: () => ModelUsageTotals | undefined,
+    private readonly onDegradation?: (degradation: BudgetDegradation) => void,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.runStartedAt = now();
+    this.degradations = [...state.degradations];
+  }
+
+  budgetUsed(): number {
+    const totals = this.spend();
+    return budgetUsed(this.state.budget, {
+      totalTokens: totals?.totalTokens ?? 0, costUSD: totals?.costUSD ?? 0,
+      elapsedMs: this.state.elapsedMs + this.now() - this.runStartedAt,
+    });
+  }
+
+  /** The loop iterations the budget allows, at most `planned`. */
+  capIterations(phase: string, agent: string, planned: number): number {
+    return this.cap(phase, agent, 'reduced_iterations', planned, policy => policy.maxLoopIterations);
+  }
+
+  /** The synthesis ensemble perspectives the budget allows, at most `planned`. */
+  capPerspectives(phase: string, agent: string, planned: number): number {
+    return this.cap(phase, agent, 'dropped_perspectives', planned, policy => policy.maxPerspectives);
+  }
+
+  shouldSkipAgent(phase: string, agent: string): boolean {
+    if (!(LOW_PRIORITY_AGENTS as readonly string[]).includes(agent)) return false;
+    const used = this.budgetUsed();
+    const pressure = budgetPressure(used);
+    if (!BUDGET_POLICIES[pressure].skipLowPriorityAgents) return false;
+    this.record({ phase, agent, kind: 'skipped_agent', planned: 1, allowed: 0, pressure, budgetUsed: used, timestamp: new Date(this.now()).toISOString() });
+    return true;
+  }
+
+  snapshot(): SessionBudgetState {
+    return {
+      budget: this.state.budget,
+      elapsedMs: this.state.elapsedMs + this.now() - this.runStartedAt,
+      budgetUsed: this.budgetUsed(),
+      degradations: [...this.degradations],
+      confidencePenalty: budgetConfidencePenalty(this.degradations),
+    };
+  }
+
+  getDegradations(): readonly BudgetDegradation[] {
+    return this.degradations;
+  }
+
+  private cap(phase: string, agent: string, kind: BudgetDegradation['kind'], planned: number, limitOf: (policy: BudgetPolicy) => number | undefined): number {
+    const used = this.budgetUsed();
+    const pressure = budgetPressure(used);
+    const limit = limitOf(BUDGET_POLICIES[pressure]);
+    if (limit === undefined || limit >= planned) return planned;
+    this.record({ phase, agent, kind, planned, allowed: limit, pressure, budgetUsed: used, timestamp: new Date(this.now()).toISOString() });
+    return limit;
+  }
+
+  private record(degradation: BudgetDegradation): void {
+    this.degradations.push(degradation);
+    console.warn(`SessionBudget: [${degradation.phase}] ${degradation.kind.replace(/_/g, ' ')} for ${degradation.agent} (${degradation.planned} -> ${degradation.allowed}) at ${Math.round(degradation.budgetUsed * 100)}% of the budget.`);
+    this.onDegradation?.(degradation);
+  }
+}
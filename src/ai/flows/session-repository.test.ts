@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileSystemSessionRepository,
+  InMemorySessionRepository,
+  SqliteSessionRepository,
+  createSessionRepositoryFromEnv,
+  type SessionCheckpoint,
+  type SessionRepository,
+} from './session-repository';
+
+const makeCheckpoint = (phaseIndex: number): SessionCheckpoint => ({
+  sessionId: 'session_test',
+  phaseIndex,
+  phase: `Phase${phaseIndex}`,
+  input: { query: 'Is remote work more productive?', enableHumanReview: false, confidenceThresholdForHumanReview: 'Low', maxRetries: 3, enableClarification: false },
+  sessionState: { originalQuery: 'Is remote work more productive?', errorsEncountered: [], artifacts: { [`phase_${phaseIndex}`]: { ok: true } } },
+  savedAt: new Date(Date.UTC(2024, 0, phaseIndex)).toISOString(),
+});
+
+describe.each<[string, () => Promise<SessionRepository>]>([
+  ['InMemorySessionRepository', async () => new InMemorySessionRepository()],
+  ['FileSystemSessionRepository', async () => new FileSystemSessionRepository(await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-')))],
+  ['SqliteSessionRepository', async () => new SqliteSessionRepository(':memory:')],
+])('%s', (_name, createRepository) => {
+  test('should load the latest checkpoint by default and a specific phase on request', async () => {
+    const repository = await createRepository();
+    await repository.saveCheckpoint(makeCheckpoint(1));
+    await repository.saveCheckpoint(makeCheckpoint(2));
+
+    expect((await repository.loadCheckpoint('session_test'))?.phaseIndex).toBe(2);
+    expect((await repository.loadCheckpoint('session_test', 1))?.sessionState.artifacts).toEqual({ phase_1: { ok: true } });
+    expect(await repository.loadCheckpoint('session_test', 4)).toBeNull();
+    expect(await repository.listSessions()).toEqual([expect.objectContaining({ sessionId: 'session_test', lastPhaseIndex: 2 })]);
+  });
+
+  test('should forget a session once deleted', async () => {
+    const repository = await createRepository();
+    await repository.saveCheckpoint(makeCheckpoint(1));
+    await repository.deleteSession('session_test');
+
+    expect(await repository.loadCheckpoint('session_test')).toBeNull();
+  });
+});
+
+describe('createSessionRepositoryFromEnv', () => {
+  test('should select a store from environment variables', () => {
+    expect(createSessionRepositoryFromEnv({})?.name).toBe('fs');
+    expect(createSessionRepositoryFromEnv({ SESSION_STORE: 'sqlite' })?.name).toBe('sqlite');
+    expect(createSessionRepositoryFromEnv({ SESSION_STORE: 'none' })).toBeNull();
+    expect(() => createSessionRepositoryFromEnv({ SESSION_STORE: 'redis' })).toThrow('SESSION_STORE');
+  });
+});
@@ -0,0 +1,268 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { MasterOrchestratorInput, SessionState } from './master-orchestrator-agent';
+
+/**
+ * @fileOverview Persistent checkpoints for the master orchestrator.
+ *
+ * After every phase the orchestrator saves a SessionCheckpoint, so a crash late in the
+ * pipeline can be resumed from the last completed phase instead of re-paying for every
+ * earlier LLM call.
+ *
+ * - SessionRepository - Storage interface for checkpoints.
+ * - FileSystemSessionRepository - One JSON file per phase under `<dir>/<sessionId>/`.
+ * - SqliteSessionRepository - A single `session_checkpoints` table (better-sqlite3).
+ * - InMemorySessionRepository - Non-persistent store for tests.
+ * - getSessionRepository / setSessionRepository - Process-wide repository selection.
+ */
+
+export interface SessionCheckpoint {
+  sessionId: string;
+  /** 1-based index of the last completed phase (1-6); 0 while Phase 1 waits for clarification answers. */
+  phaseIndex: number;
+  phase: string;
+  input: MasterOrchestratorInput;
+  sessionState: SessionState;
+  /** Only set on the Phase 6 checkpoint. */
+  humanReviewRequired?: boolean;
+  humanReviewReason?: string;
+  savedAt: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  query: string;
+  lastPhaseIndex: number;
+  lastPhase: string;
+  updatedAt: string;
+}
+
+export interface SessionRepository {
+  readonly name: string;
+  saveCheckpoint(checkpoint: SessionCheckpoint): Promise<void>;
+  /** Returns the checkpoint for `phaseIndex`, or the most recent one when omitted. */
+  loadCheckpoint(sessionId: string, phaseIndex?: number): Promise<SessionCheckpoint | null>;
+  listSessions(): Promise<SessionSummary[]>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+export function generateSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function assertSafeSessionId(sessionId: string): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(sessionId) || sessionId.includes('..')) {
+    throw new Error(`Invalid session ID "${sessionId}". Use letters, digits, '.', '_' or '-'.`);
+  }
+}
+
+function toSummary(checkpoint: SessionCheckpoint): SessionSummary {
+  return {
+    sessionId: checkpoint.sessionId,
+    query: checkpoint.sessionState.originalQuery,
+    lastPhaseIndex: checkpoint.phaseIndex,
+    lastPhase: checkpoint.phase,
+    updatedAt: checkpoint.savedAt,
+  };
+}
+
+export class InMemorySessionRepository implements SessionRepository {
+  readonly name = 'memory';
+  private sessions = new Map<string, Map<number, SessionCheckpoint>>();
+
+  async saveCheckpoint(checkpoint: SessionCheckpoint): Promise<void> {
+    if (!this.sessions.has(checkpoint.sessionId)) this.sessions.set(checkpoint.sessionId, new Map());
+    // Round-trip through JSON so later mutations by the caller cannot leak into the store.
+    this.sessions.get(checkpoint.sessionId)!.set(checkpoint.phaseIndex, JSON.parse(JSON.stringify(checkpoint)));
+  }
+
+  async loadCheckpoint(sessionId: string, phaseIndex?: number): Promise<SessionCheckpoint | null> {
+    const phases = this.sessions.get(sessionId);
+    if (!phases || phases.size === 0) return null;
+    const index = phaseIndex ?? Math.max(...phases.keys());
+    return phases.get(index) ?? null;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    for (const sessionId of this.sessions.keys()) {
+      const latest = await this.loadCheckpoint(sessionId);
+      if (latest) summaries.push(toSummary(latest));
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export class FileSystemSessionRepository implements SessionRepository {
+  readonly name = 'fs';
+
+  constructor(private baseDir: string) {}
+
+  private sessionDir(sessionId: string): string {
+    assertSafeSessionId(sessionId);
+    return path.join(this.baseDir, sessionId);
+  }
+
+  async saveCheckpoint(checkpoint: SessionCheckpoint): Promise<void> {
+    const dir = this.sessionDir(checkpoint.sessionId);
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, `phase-${checkpoint.phaseIndex}.json`);
+    // Write-then-rename so a crash mid-write never leaves a truncated checkpoint behind.
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(checkpoint, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async loadCheckpoint(sessionId: string, phaseIndex?: number): Promise<SessionCheckpoint | null> {
+    const dir = this.sessionDir(sessionId);
+    let index = phaseIndex;
+    if (index === undefined) {
+      const phases = await this.listPhaseIndexes(dir);
+      if (phases.length === 0) return null;
+      index = Math.max(...phases);
+    }
+    try {
+      return JSON.parse(await fs.readFile(path.join(dir, `phase-${index}.json`), 'utf8')) as SessionCheckpoint;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    const summaries: SessionSummary[] = [];
+    for (const sessionId of entries) {
+      const latest = await this.loadCheckpoint(sessionId).catch(() => null);
+      if (latest) summaries.push(toSummary(latest));
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await fs.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  private async listPhaseIndexes(dir: string): Promise<number[]> {
+    try {
+      const files = await fs.readdir(dir);
+      return files
+        .map(file => /^phase-(\d+)\.json$/.exec(file)?.[1])
+        .filter((match): match is string => !!match)
+        .map(Number);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+export class SqliteSessionRepository implements SessionRepository {
+  readonly name = 'sqlite';
+  private dbPromise: Promise<Database.Database> | null = null;
+
+  constructor(private dbPath: string) {}
+
+  // better-sqlite3 is a native module; load it on first use so other backends never need it.
+  private db(): Promise<Database.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = (async () => {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        if (this.dbPath !== ':memory:') await fs.mkdir(path.dirname(path.resolve(this.dbPath)), { recursive: true });
+        const db = new BetterSqlite3(this.dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(`CREATE TABLE IF NOT EXISTS session_checkpoints (
+          session_id TEXT NOT NULL,
+          phase_index INTEGER NOT NULL,
+          phase TEXT NOT NULL,
+          query TEXT NOT NULL,
+          checkpoint_json TEXT NOT NULL,
+          saved_at TEXT NOT NULL,
+          PRIMARY KEY (session_id, phase_index)
+        )`);
+        return db;
+      })();
+    }
+    return this.dbPromise;
+  }
+
+  async saveCheckpoint(checkpoint: SessionCheckpoint): Promise<void> {
+    const db = await this.db();
+    db.prepare(`INSERT OR REPLACE INTO session_checkpoints (session_id, phase_index, phase, query, checkpoint_json, saved_at)
+      VALUES (?, ?, ?, ?, ?, ?)`).run(
+      checkpoint.sessionId, checkpoint.phaseIndex, checkpoint.phase, checkpoint.sessionState.originalQuery,
+      JSON.stringify(checkpoint), checkpoint.savedAt,
+    );
+  }
+
+  async loadCheckpoint(sessionId: string, phaseIndex?: number): Promise<SessionCheckpoint | null> {
+    const db = await this.db();
+    const row = (phaseIndex === undefined
+      ? db.prepare('SELECT checkpoint_json FROM session_checkpoints WHERE session_id = ? ORDER BY phase_index DESC LIMIT 1').get(sessionId)
+      : db.prepare('SELECT checkpoint_json FROM session_checkpoints WHERE session_id = ? AND phase_index = ?').get(sessionId, phaseIndex)
+    ) as { checkpoint_json: string } | undefined;
+    return row ? JSON.parse(row.checkpoint_json) as SessionCheckpoint : null;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const db = await this.db();
+    const rows = db.prepare(`SELECT session_id, query, phase_index, phase, saved_at FROM session_checkpoints c
+      WHERE phase_index = (SELECT MAX(phase_index) FROM session_checkpoints WHERE session_id = c.session_id)
+      ORDER BY saved_at DESC`).all() as { session_id: string; query: string; phase_index: number; phase: string; saved_at: string }[];
+    return rows.map(row => ({ sessionId: row.session_id, query: row.query, lastPhaseIndex: row.phase_index, lastPhase: row.phase, updatedAt: row.saved_at }));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.db();
+    db.prepare('DELETE FROM session_checkpoints WHERE session_id = ?').run(sessionId);
+  }
+}
+
+/**
+ * Builds the repository selected by SESSION_STORE (fs | sqlite | memory | none).
+ * Defaults to the file system under SESSION_STORE_PATH (default `.data/sessions`).
+ */
+export function createSessionRepositoryFromEnv(env: Record<string, string | undefined> = process.env): SessionRepository | null {
+  const kind = env.SESSION_STORE || 'fs';
+  switch (kind) {
+    case 'fs':
+      return new FileSystemSessionRepository(env.SESSION_STORE_PATH || path.join('.data', 'sessions'));
+    case 'sqlite':
+      return new SqliteSessionRepository(env.SESSION_STORE_PATH || path.join('.data', 'sessions.db'));
+    case 'memory':
+      return new InMemorySessionRepository();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown SESSION_STORE "${kind}". Expected fs, sqlite, memory or none.`);
+  }
+}
+
+let activeRepository: SessionRepository | null | undefined;
+
+export function getSessionRepository(): SessionRepository | null {
+  if (activeRepository === undefined) {
+    activeRepository = createSessionRepositoryFromEnv();
+    console.log(`SessionRepository: Using ${activeRepository?.name ?? 'no'} session store.`);
+  }
+  return activeRepository;
+}
+
+/**
+ * Overrides the process-wide repository (null disables checkpointing).
+ * Passing undefined restores environment-based selection on next use.
+ */
+export function setSessionRepository(repository: SessionRepository | null | undefined): void {
+  activeRepository = repository;
+}
@@ -9,6 +9,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import {z} from 'genkit';
 
 // Import types from other agents to define the input structure
@@ -21,6 +22,8 @@ import type { ChallengeOutput } from './devils-advocate-agent';
 import type { PremortemOutput } from './premortem-agent';
 import type { InformationGapOutput } from './information-gap-agent';
 
+const AGENT_NAME = 'SynthesisAgent';
+
 // Local Zod schemas for imported types for SynthesisAgentInputSchema
 const LocalRespondOutputSchema = z.object({
   answer: z.string(),
@@ -150,6 +153,7 @@ export async function synthesizeAnalysis(input: SynthesisAgentInput): Promise<Sy
 
 const synthesisAgentPrompt = ai.definePrompt({
   name: 'synthesisAgentPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: {schema: SynthesisAgentInputSchema},
   output: {schema: SynthesisAgentOutputSchema},
   prompt: `You are a master synthesis AI agent. Your task is to integrate findings from multiple specialized AI agents into a cohesive and insightful final analysis.
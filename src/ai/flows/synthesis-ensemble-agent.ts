@@ -1,7 +1,13 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { modelOptionsFor } from '@/ai/model-registry';
 import { z } from 'genkit';
+import { SYNTHESIS_PERSPECTIVES, SYNTHESIS_PERSPECTIVE_COUNT } from './synthesis-perspectives';
+import { CitationSourceSchema, SynthesisClaimSchema } from './citation-graph';
+import { AssumptionOverrideSchema } from './what-if';
+
+const AGENT_NAME = 'SynthesisEnsembleAgent';
 
 // E14/F7: Synthesis Ensemble - Multi-perspective synthesis with parallel processing
 
@@ -32,6 +38,9 @@ const SynthesisEnsembleInputSchema = z.object({
     agent: z.string(),
     error: z.string(),
   })).optional().default([]),
+  citationSources: z.array(CitationSourceSchema).optional().default([]).describe('Evidence, assumptions, gaps, critique and challenges with the IDs claims must cite'),
+  assumptionOverrides: z.array(AssumptionOverrideSchema).optional().describe('What-if changes to key assumptions to synthesize under'),
+  maxPerspectives: z.number().int().min(1).optional().describe('Run only the first N perspectives, most likely first (set by the session budget)'),
 });
 export type SynthesisEnsembleInput = z.infer<typeof SynthesisEnsembleInputSchema>;
 
@@ -45,21 +54,25 @@ const SynthesisPerspectiveSchema = z.object({
   actionableRecommendations: z.array(z.string()),
   remainingUncertainties: z.array(z.string()),
   criticalAssumptions: z.array(z.string()).optional(),
+  claims: z.array(SynthesisClaimSchema).default([]).describe('One entry per summary sentence and list item, citing source IDs'),
+});
+
+const MetaSynthesisOutputSchema = z.object({
+  confidence: z.enum(['High', 'Medium', 'Low']),
+  summary: z.string(),
+  keyStrengths: z.array(z.string()),
+  keyWeaknesses: z.array(z.string()),
+  howCounterEvidenceWasAddressed: z.array(z.string()),
+  actionableRecommendations: z.array(z.string()),
+  remainingUncertainties: z.array(z.string()),
+  perspectiveDivergence: z.string().describe('Analysis of where perspectives differed'),
+  synthesisApproach: z.string().describe('How perspectives were integrated'),
+  claims: z.array(SynthesisClaimSchema).default([]).describe('One entry per summary sentence and list item, citing source IDs'),
 });
 
 const SynthesisEnsembleOutputSchema = z.object({
   individualPerspectives: z.array(SynthesisPerspectiveSchema),
-  metaSynthesis: z.object({
-    confidence: z.enum(['High', 'Medium', 'Low']),
-    summary: z.string(),
-    keyStrengths: z.array(z.string()),
-    keyWeaknesses: z.array(z.string()),
-    howCounterEvidenceWasAddressed: z.array(z.string()),
-    actionableRecommendations: z.array(z.string()),
-    remainingUncertainties: z.array(z.string()),
-    perspectiveDivergence: z.string().describe('Analysis of where perspectives differed'),
-    synthesisApproach: z.string().describe('How perspectives were integrated'),
-  }),
+  metaSynthesis: MetaSynthesisOutputSchema,
   errorHandling: z.object({
     criticalFailuresDetected: z.boolean(),
     failureImpactDescription: z.string().optional(),
@@ -72,6 +85,7 @@ export type SynthesisEnsembleOutput = z.infer<typeof SynthesisEnsembleOutputSche
 const createPerspectivePrompt = (perspectiveType: string, perspectiveInstructions: string) => 
   ai.definePrompt({
     name: `synthesis${perspectiveType}Prompt`,
+    ...modelOptionsFor(AGENT_NAME),
     input: { schema: SynthesisEnsembleInputSchema },
     output: { schema: SynthesisPerspectiveSchema },
     prompt: `You are a synthesis agent with a ${perspectiveType} perspective.
@@ -113,6 +127,20 @@ Conflict Analysis: {{{conflictResolutionAnalysis}}}
 Sensitivity Analysis: {{{sensitivityAnalysisReport}}}
 {{/if}}
 
+{{#if assumptionOverrides.length}}
+What-If Scenario - synthesize as if these assumptions were changed as stated:
+{{#each assumptionOverrides}}
+- Instead of "{{{this.originalAssumption}}}": {{{this.modifiedAssumption}}}
+{{/each}}
+{{/if}}
+
+{{#if citationSources.length}}
+Citable Sources (cite these IDs):
+{{#each citationSources}}
+[{{this.id}}] ({{this.kind}}) {{this.text}}{{#if this.detail}} - {{this.detail}}{{/if}}
+{{/each}}
+{{/if}}
+
 {{#if errorsEncountered.length}}
 IMPORTANT - Critical Errors Encountered:
 {{#each errorsEncountered}}
@@ -128,6 +156,7 @@ Create a synthesis that:
 4. Provides actionable recommendations based on your perspective
 5. Clearly states remaining uncertainties and their impact
 6. Adjusts confidence based on errors or missing data
+7. Backs every summary sentence and every list item with a claim citing the IDs of the sources it rests on
 
 Return a JSON object with:
 {
@@ -142,39 +171,22 @@ Return a JSON object with:
   ],
   "actionableRecommendations": ["Recommendation 1", "Recommendation 2"],
   "remainingUncertainties": ["Uncertainty 1", "Uncertainty 2"],
-  "criticalAssumptions": ["Assumption 1", "Assumption 2"]
+  "criticalAssumptions": ["Assumption 1", "Assumption 2"],
+  "claims": [
+    { "section": "summary", "statement": "First sentence of the summary.", "citations": ["EV-1", "CE-2"] },
+    { "section": "keyStrengths", "statement": "Strength 1", "citations": ["EV-3"] }
+  ]
 }
 
+Every claim's statement must repeat the sentence or list item word for word, and cite only IDs from the Citable Sources.
+
 Return ONLY the JSON object.`,
   });
 
-// Define different perspective prompts
-const perspectiveDefinitions = [
-  {
-    type: 'most_likely',
-    instructions: 'Focus on the most probable outcomes based on evidence weight and historical patterns. Be realistic and grounded.',
-  },
-  {
-    type: 'worst_case',
-    instructions: 'Focus on potential negative outcomes and risks. Consider what could go wrong and emphasize caution.',
-  },
-  {
-    type: 'best_case',
-    instructions: 'Focus on positive potential and opportunities. Be optimistic but still evidence-based.',
-  },
-  {
-    type: 'high_agreement_focus',
-    instructions: 'Focus on areas where evidence strongly agrees and build conclusions from points of consensus.',
-  },
-  {
-    type: 'high_disagreement_focus',
-    instructions: 'Focus on areas of conflict and disagreement. Highlight where evidence diverges and uncertainty is highest.',
-  },
-];
-
 // Meta-synthesis prompt
 const metaSynthesisPrompt = ai.definePrompt({
   name: 'metaSynthesisPrompt',
+  ...modelOptionsFor(AGENT_NAME),
   input: { 
     schema: z.object({
       perspectives: z.array(SynthesisPerspectiveSchema),
@@ -191,14 +203,30 @@ Individual Perspectives:
 - Key Strengths: {{#each this.keyStrengths}}{{this}}, {{/each}}
 - Key Weaknesses: {{#each this.keyWeaknesses}}{{this}}, {{/each}}
 - Counter-Evidence Handling: {{#each this.howCounterEvidenceWasAddressed}}{{this}}; {{/each}}
+- Cited Claims: {{#each this.claims}}"{{this.statement}}" [{{#each this.citations}}{{this}} {{/each}}]; {{/each}}
 {{/each}}
 
+{{#if originalInput.assumptionOverrides.length}}
+What-If Scenario - integrate the perspectives as if these assumptions were changed as stated:
+{{#each originalInput.assumptionOverrides}}
+- Instead of "{{{this.originalAssumption}}}": {{{this.modifiedAssumption}}}
+{{/each}}
+{{/if}}
+
+{{#if originalInput.citationSources.length}}
+Citable Sources:
+{{#each originalInput.citationSources}}
+[{{this.id}}] ({{this.kind}}) {{this.text}}
+{{/each}}
+{{/if}}
+
 Your task is to:
 1. Review all perspective syntheses
 2. Identify where they agree and diverge
 3. Create a final meta-synthesis that best represents the overall analysis
 4. Explain how you integrated different perspectives
 5. Note any critical failures that affected the synthesis
+6. Give metaSynthesis.claims: one claim per summary sentence and list item, repeating it word for word and citing source IDs (reuse the perspectives' citations)
 
 Consider:
 - Which perspectives align with the evidence best?
@@ -227,6 +255,7 @@ const DEFAULT_OUTPUT: SynthesisEnsembleOutput = {
     remainingUncertainties: ['Complete synthesis was not possible'],
     perspectiveDivergence: 'Unable to analyze perspective differences',
     synthesisApproach: 'Synthesis failed',
+    claims: [],
   },
   errorHandling: {
     criticalFailuresDetected: true,
@@ -258,7 +287,7 @@ export async function runSynthesisEnsemble(input: SynthesisEnsembleInput): Promi
   // Generate individual perspectives in parallel
   console.log('SynthesisEnsembleAgent: Generating multiple perspective syntheses...');
   
-  const perspectivePromises = perspectiveDefinitions.map(async (def) => {
+  const perspectivePromises = SYNTHESIS_PERSPECTIVES.slice(0, input.maxPerspectives ?? SYNTHESIS_PERSPECTIVE_COUNT).map(async (def) => {
     for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
       try {
         const prompt = createPerspectivePrompt(def.type, def.instructions);
@@ -289,6 +318,7 @@ export async function runSynthesisEnsemble(input: SynthesisEnsembleInput): Promi
       howCounterEvidenceWasAddressed: [],
       actionableRecommendations: [],
       remainingUncertainties: ['Perspective could not be generated'],
+      claims: [],
     };
   });
   
@@ -335,6 +365,70 @@ export async function runSynthesisEnsemble(input: SynthesisEnsembleInput): Promi
   return DEFAULT_OUTPUT;
 }
 
+const SynthesisRevisionInputSchema = z.object({
+  previousSynthesis: MetaSynthesisOutputSchema,
+  revisionGuidance: z.array(z.string()).describe('Weaknesses and refinement suggestions from the synthesis critique'),
+  iteration: z.number().int().min(1),
+  initialAnswerText: z.string(),
+  citationSources: z.array(CitationSourceSchema).optional().default([]),
+});
+export type SynthesisRevisionInput = z.infer<typeof SynthesisRevisionInputSchema>;
+
+const synthesisRevisionPrompt = ai.definePrompt({
+  name: 'synthesisRevisionPrompt',
+  ...modelOptionsFor(AGENT_NAME),
+  input: { schema: SynthesisRevisionInputSchema },
+  output: { schema: MetaSynthesisOutputSchema },
+  prompt: `You are the Meta-Synthesis Agent revising your synthesis (revision {{iteration}}) after a quality critique.
+
+Current synthesis:
+- Confidence: {{previousSynthesis.confidence}}
+- Summary: {{{previousSynthesis.summary}}}
+- Key Strengths: {{#each previousSynthesis.keyStrengths}}{{this}}; {{/each}}
+- Key Weaknesses: {{#each previousSynthesis.keyWeaknesses}}{{this}}; {{/each}}
+- Counter-Evidence Handling: {{#each previousSynthesis.howCounterEvidenceWasAddressed}}{{this}}; {{/each}}
+- Recommendations: {{#each previousSynthesis.actionableRecommendations}}{{this}}; {{/each}}
+- Remaining Uncertainties: {{#each previousSynthesis.remainingUncertainties}}{{this}}; {{/each}}
+- Perspective Divergence: {{{previousSynthesis.perspectiveDivergence}}}
+- Cited Claims: {{#each previousSynthesis.claims}}"{{this.statement}}" [{{#each this.citations}}{{this}} {{/each}}]; {{/each}}
+
+The critique asks you to address:
+{{#each revisionGuidance}}
+- {{this}}
+{{/each}}
+
+Original answer being synthesized: {{{initialAnswerText}}}
+
+{{#if citationSources.length}}
+Citable Sources:
+{{#each citationSources}}
+[{{this.id}}] ({{this.kind}}) {{this.text}}
+{{/each}}
+{{/if}}
+
+Revise the synthesis to address the critique without inventing evidence. Keep what the critique did not question,
+lower the confidence if a weakness cannot be fixed with the available sources, and give claims for every summary
+sentence and list item, repeating it word for word and citing only the IDs above.
+
+Return ONLY the revised metaSynthesis JSON object.`,
+});
+
+/**
+ * Rewrites a meta-synthesis to address critique feedback, for the Phase 5 refinement loop. On failure the
+ * previous synthesis is returned unchanged, which the loop treats as no improvement.
+ */
+export async function reviseSynthesis(input: SynthesisRevisionInput): Promise<SynthesisEnsembleOutput['metaSynthesis']> {
+  for (let attempt = 0; attempt < RETRY_ATTEMPTS; attempt++) {
+    try {
+      const { output } = await synthesisRevisionPrompt(input);
+      if (output) return output;
+    } catch (error: any) {
+      console.error(`SynthesisEnsembleAgent: Revision ${input.iteration} failed (attempt ${attempt + 1})`, { error: error.message });
+    }
+  }
+  return input.previousSynthesis;
+}
+
 // Export the flow
 export const synthesisEnsembleFlow = ai.defineFlow(
   {
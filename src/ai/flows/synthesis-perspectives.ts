@@ -0,0 +1,27 @@
+// The perspectives the SynthesisEnsembleAgent synthesizes from, in the order a capped ensemble keeps them.
+// Kept out of the 'use server' agent module so the orchestrator can size its budget caps from the same list.
+
+export const SYNTHESIS_PERSPECTIVES = [
+  {
+    type: 'most_likely',
+    instructions: 'Focus on the most probable outcomes based on evidence weight and historical patterns. Be realistic and grounded.',
+  },
+  {
+    type: 'worst_case',
+    instructions: 'Focus on potential negative outcomes and risks. Consider what could go wrong and emphasize caution.',
+  },
+  {
+    type: 'best_case',
+    instructions: 'Focus on positive potential and opportunities. Be optimistic but still evidence-based.',
+  },
+  {
+    type: 'high_agreement_focus',
+    instructions: 'Focus on areas where evidence strongly agrees and build conclusions from points of consensus.',
+  },
+  {
+    type: 'high_disagreement_focus',
+    instructions: 'Focus on areas of conflict and disagreement. Highlight where evidence diverges and uncertainty is highest.',
+  },
+];
+
+export const SYNTHESIS_PERSPECTIVE_COUNT = SYNTHESIS_PERSPECTIVES.length;
@@ -0,0 +1,112 @@
+import { refineSynthesis, revisionGuidanceFromCritique, synthesisToText, type SynthesisRefinementSteps } from './synthesis-refinement';
+import type { SynthesisCritiqueLoopOutput } from './synthesis-critique-loop-agent';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+const draft: SynthesisEnsembleOutput['metaSynthesis'] = {
+  summary: 'Remote work improves productivity.',
+  confidence: 'Medium',
+  keyStrengths: ['Large surveys'],
+  keyWeaknesses: [],
+  howCounterEvidenceWasAddressed: [],
+  actionableRecommendations: ['Pilot hybrid schedules'],
+  remainingUncertainties: [],
+  perspectiveDivergence: 'Little divergence.',
+  synthesisApproach: 'Meta-synthesis',
+  claims: [],
+};
+
+/** A critique scoring the synthesis `score`, with one high-severity weakness. */
+function critiqueScoring(score: number, overrides: Partial<SynthesisCritiqueLoopOutput['critiqueResults']['iterativeImprovements']> = {}): SynthesisCritiqueLoopOutput {
+  return {
+    critiqueResults: {
+      overallAssessment: `Scored ${score}`,
+      strengths: [],
+      weaknesses: [{ category: 'evidence_gaps', description: 'Claims lack evidence', severity: 'high', suggestedFix: 'Cite the surveys' }],
+      gapAnalysis: { evidenceGaps: [], logicalGaps: ['No causal reasoning'], perspectiveGaps: [] },
+      refinementSuggestions: [{ area: 'evidence', suggestion: 'Cite the surveys', priority: 'high', expectedImpact: 'Stronger support' }],
+      iterativeImprovements: {
+        currentIteration: 1, convergenceAssessment: '', recommendNextIteration: true,
+        stoppingCriteria: { qualityThresholdMet: false, diminishingReturns: false, maxIterationsReached: false },
+        ...overrides,
+      },
+    },
+    qualityMetrics: { completenessScore: score, coherenceScore: score, evidenceQualityScore: score, clarityScore: score, balanceScore: score, overallQualityScore: score },
+    recommendations: { immediateActions: [], structuralChanges: [], contentEnhancements: [], methodologyImprovements: [] },
+    nextSteps: { requiresRevision: true, revisionPriority: 'high', focusAreas: [], estimatedEffort: 'moderate' },
+  };
+}
+
+/** Critiques return `scores` in order; each revision appends its iteration number to the summary. */
+function scriptedSteps(scores: number[]): SynthesisRefinementSteps & { revisedWith: string[][] } {
+  const revisedWith: string[][] = [];
+  let call = 0;
+  return {
+    revisedWith,
+    critique: async () => critiqueScoring(scores[call++]),
+    revise: async (synthesis, guidance, iteration) => {
+      revisedWith.push(guidance);
+      return { ...synthesis, summary: `${synthesis.summary} (revision ${iteration})` };
+    },
+  };
+}
+
+describe('refineSynthesis', () => {
+  test('should revise until the quality threshold is met and keep every revision', async () => {
+    const steps = scriptedSteps([50, 70, 85]);
+
+    const { synthesis, refinement } = await refineSynthesis(draft, steps, { maxIterations: 5, qualityThreshold: 80 });
+
+    expect(refinement.stopReason).toBe('quality_threshold_met');
+    expect(refinement.revisions.map(revision => revision.qualityMetrics.overallQualityScore)).toEqual([50, 70, 85]);
+    expect(refinement.selectedIteration).toBe(2);
+    expect(synthesis.summary).toBe('Remote work improves productivity. (revision 1) (revision 2)');
+    expect(steps.revisedWith[0]).toContain('[high] Claims lack evidence: Cite the surveys');
+    expect(refinement.revisions[2].guidance).toEqual([]);
+  });
+
+  test('should stop on diminishing returns and keep the best-scoring revision', async () => {
+    const { synthesis, refinement } = await refineSynthesis(draft, scriptedSteps([60, 58]), { maxIterations: 5 });
+
+    expect(refinement.stopReason).toBe('diminishing_returns');
+    expect(refinement.selectedIteration).toBe(0);
+    expect(synthesis).toBe(draft);
+  });
+
+  test('should stop after maxIterations revisions', async () => {
+    const steps = scriptedSteps([10, 30, 50, 70]);
+
+    const { refinement } = await refineSynthesis(draft, steps, { maxIterations: 2 });
+
+    expect(refinement.stopReason).toBe('max_iterations');
+    expect(refinement.revisions).toHaveLength(3);
+    expect(steps.revisedWith).toHaveLength(2);
+  });
+
+  test('should not revise when the critique does not ask for another iteration', async () => {
+    const steps: SynthesisRefinementSteps = {
+      critique: async () => ({ ...critiqueScoring(40, { recommendNextIteration: false }), nextSteps: { requiresRevision: false, revisionPriority: 'low', focusAreas: [], estimatedEffort: 'minimal' } }),
+      revise: async () => { throw new Error('should not revise'); },
+    };
+
+    expect((await refineSynthesis(draft, steps)).refinement.stopReason).toBe('no_revision_recommended');
+  });
+});
+
+describe('revisionGuidanceFromCritique / synthesisToText', () => {
+  test('should list weaknesses, suggestions and gaps once each', () => {
+    expect(revisionGuidanceFromCritique(critiqueScoring(50))).toEqual([
+      '[high] Claims lack evidence: Cite the surveys',
+      '[high] evidence: Cite the surveys',
+      '[gap] No causal reasoning',
+    ]);
+  });
+
+  test('should render the summary and non-empty lists', () => {
+    expect(synthesisToText(draft)).toBe([
+      'Remote work improves productivity.',
+      'Strengths:\n- Large surveys',
+      'Recommendations:\n- Pilot hybrid schedules',
+      'Little divergence.',
+    ].join('\n\n'));
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from 'genkit';
+import type { SynthesisCritiqueLoopInput, SynthesisCritiqueLoopOutput } from './synthesis-critique-loop-agent';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview Bounded critique-and-revise loop for the Phase 5 synthesis.
+ *
+ * The draft meta-synthesis is critiqued; while the critique asks for another iteration, its weaknesses and
+ * refinement suggestions are handed to a reviser and the revision is critiqued in turn. The loop stops when
+ * the quality threshold is met, when a revision improves the overall quality score by less than
+ * `minImprovement`, or after `maxIterations` revisions. The best-scoring revision is kept.
+ *
+ * - SynthesisRefinementSchema - Every revision with its qualityMetrics, as kept in SessionState.
+ * - revisionGuidanceFromCritique - Turns a critique into instructions for the reviser.
+ * - refineSynthesis - Runs the loop with injected critique and revise steps.
+ */
+
+type MetaSynthesis = SynthesisEnsembleOutput['metaSynthesis'];
+type QualityMetrics = SynthesisCritiqueLoopOutput['qualityMetrics'];
+
+export const RefinementStopReasonSchema = z.enum([
+  'quality_threshold_met', 'diminishing_returns', 'max_iterations', 'no_revision_recommended',
+]);
+export type RefinementStopReason = z.infer<typeof RefinementStopReasonSchema>;
+
+export const SynthesisRevisionSchema = z.object({
+  iteration: z.number().int().describe('0 is the synthesis ensemble draft'),
+  synthesis: z.custom<MetaSynthesis>(),
+  qualityMetrics: z.custom<QualityMetrics>(),
+  overallAssessment: z.string(),
+  weaknesses: z.array(z.string()).describe('Weaknesses the critique found in this revision'),
+  guidance: z.array(z.string()).describe('Instructions given to the reviser to produce the next revision; empty for the last one'),
+});
+export type SynthesisRevision = z.infer<typeof SynthesisRevisionSchema>;
+
+export const SynthesisRefinementSchema = z.object({
+  revisions: z.array(SynthesisRevisionSchema),
+  selectedIteration: z.number().int().describe('The revision used as the final synthesis'),
+  stopReason: RefinementStopReasonSchema,
+});
+export type SynthesisRefinement = z.infer<typeof SynthesisRefinementSchema>;
+
+export interface SynthesisRefinementOptions {
+  /** Revisions after the draft; 0 only critiques the draft. */
+  maxIterations: number;
+  /** overallQualityScore (0-100) at which the synthesis is good enough. */
+  qualityThreshold: number;
+  /** A revision that gains fewer points than this ends the loop. */
+  minImprovement: number;
+}
+
+export const DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS: SynthesisRefinementOptions = { maxIterations: 2, qualityThreshold: 80, minImprovement: 2 };
+
+export interface SynthesisRefinementSteps {
+  critique: (synthesisText: string, previousCritiques: NonNullable<SynthesisCritiqueLoopInput['previousCritiques']>) => Promise<SynthesisCritiqueLoopOutput>;
+  revise: (synthesis: MetaSynthesis, guidance: string[], iteration: number) => Promise<MetaSynthesis>;
+  onRevision?: (revision: SynthesisRevision) => void;
+}
+
+const PRIORITY_ORDER = ['critical', 'high', 'medium', 'low'] as const;
+
+/** The whole meta-synthesis as text, so the critique sees the lists as well as the summary. */
+export function synthesisToText(synthesis: MetaSynthesis): string {
+  const section = (title: string, items: string[]) => items.length > 0 ? [`${title}:`, ...items.map(item => `- ${item}`)].join('\n') : '';
+  return [
+    synthesis.summary,
+    section('Strengths', synthesis.keyStrengths),
+    section('Weaknesses', synthesis.keyWeaknesses),
+    section('Counter-evidence', synthesis.howCounterEvidenceWasAddressed),
+    section('Recommendations', synthesis.actionableRecommendations),
+    section('Uncertainties', synthesis.remainingUncertainties),
+    synthesis.perspectiveDivergence,
+  ].filter(Boolean).join('\n\n');
+}
+
+/** Weaknesses first, then refinement suggestions, most severe first and without repeats. */
+export function revisionGuidanceFromCritique(critique: SynthesisCritiqueLoopOutput): string[] {
+  const rank = (priority: typeof PRIORITY_ORDER[number]) => PRIORITY_ORDER.indexOf(priority);
+  const weaknesses = [...critique.critiqueResults.weaknesses]
+    .sort((a, b) => rank(a.severity) - rank(b.severity))
+    .map(weakness => `[${weakness.severity}] ${weakness.description}: ${weakness.suggestedFix}`);
+  const suggestions = [...critique.critiqueResults.refinementSuggestions]
+    .sort((a, b) => rank(a.priority) - rank(b.priority))
+    .map(suggestion => `[${suggestion.priority}] ${suggestion.area}: ${suggestion.suggestion}`);
+  const gaps = [
+    ...critique.critiqueResults.gapAnalysis.evidenceGaps,
+    ...critique.critiqueResults.gapAnalysis.logicalGaps,
+    ...critique.critiqueResults.gapAnalysis.perspectiveGaps,
+  ].map(gap => `[gap] ${gap}`);
+  return [...new Set([...weaknesses, ...suggestions, ...gaps])];
+}
+
+function stopReason(
+  revisions: SynthesisRevision[], critique: SynthesisCritiqueLoopOutput, guidance: string[], options: SynthesisRefinementOptions,
+): RefinementStopReason | null {
+  const current = revisions[revisions.length - 1];
+  const previous = revisions[revisions.length - 2];
+  if (current.qualityMetrics.overallQualityScore >= options.qualityThreshold) return 'quality_threshold_met';
+  if (previous && current.qualityMetrics.overallQualityScore - previous.qualityMetrics.overallQualityScore < options.minImprovement) return 'diminishing_returns';
+  if (current.iteration >= options.maxIterations) return 'max_iterations';
+  const { recommendNextIteration, stoppingCriteria } = critique.critiqueResults.iterativeImprovements;
+  if (stoppingCriteria.diminishingReturns) return 'diminishing_returns';
+  if ((!recommendNextIteration && !critique.nextSteps.requiresRevision) || guidance.length === 0) return 'no_revision_recommended';
+  return null;
+}
+
+/**
+ * Critiques `draft` and revises it until a stopping rule fires. Returns the best-scoring revision (the
+ * latest on ties), the full history and the critique of the selected revision.
+ */
+export async function refineSynthesis(
+  draft: MetaSynthesis, steps: SynthesisRefinementSteps, options: Partial<SynthesisRefinementOptions> = {},
+): Promise<{ synthesis: MetaSynthesis; refinement: SynthesisRefinement; critique: SynthesisCritiqueLoopOutput }> {
+  const settings: SynthesisRefinementOptions = {
+    maxIterations: options.maxIterations ?? DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS.maxIterations,
+    qualityThreshold: options.qualityThreshold ?? DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS.qualityThreshold,
+    minImprovement: options.minImprovement ?? DEFAULT_SYNTHESIS_REFINEMENT_OPTIONS.minImprovement,
+  };
+  const revisions: SynthesisRevision[] = [];
+  const critiques: SynthesisCritiqueLoopOutput[] = [];
+  let synthesis = draft;
+
+  while (true) {
+    const previousCritiques = revisions.map(revision => ({
+      critique: [revision.overallAssessment, ...revision.weaknesses].join(' | '),
+      addressed: true,
+      resolution: `Revised in iteration ${revision.iteration + 1}`,
+    }));
+    const critique = await steps.critique(synthesisToText(synthesis), previousCritiques);
+    const guidance = revisionGuidanceFromCritique(critique);
+    const revision: SynthesisRevision = {
+      iteration: revisions.length,
+      synthesis,
+      qualityMetrics: critique.qualityMetrics,
+      overallAssessment: critique.critiqueResults.overallAssessment,
+      weaknesses: critique.critiqueResults.weaknesses.map(weakness => weakness.description),
+      guidance: [],
+    };
+    revisions.push(revision);
+    critiques.push(critique);
+
+    const reason = stopReason(revisions, critique, guidance, settings);
+    if (!reason) revision.guidance = guidance;
+    steps.onRevision?.(revision);
+    if (reason) {
+      const best = revisions.reduce((best, candidate) =>
+        candidate.qualityMetrics.overallQualityScore >= best.qualityMetrics.overallQualityScore ? candidate : best);
+      return {
+        synthesis: best.synthesis,
+        refinement: { revisions, selectedIteration: best.iteration, stopReason: reason },
+        critique: critiques[best.iteration],
+      };
+    }
+
+    synthesis = await steps.revise(synthesis, guidance, revision.iteration + 1);
+  }
+}
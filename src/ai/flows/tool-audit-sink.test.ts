@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryToolAuditSink,
+  JsonlToolAuditSink,
+  SqliteToolAuditSink,
+  createToolAuditSinkFromEnv,
+  signAuditHead,
+  verifyAuditChain,
+  type ToolAuditSink,
+} from './tool-audit-sink';
+import type { ToolAuditEvent } from './tool-audit-system';
+
+const makeEvent = (index: number, overrides: Partial<ToolAuditEvent> = {}): ToolAuditEvent => ({
+  eventId: `event_${index}`,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+  agentName: 'ResearcherAgent',
+  toolName: 'webSearch',
+  eventType: 'before_tool',
+  sessionId: 'session_a',
+  toolInput: { query: `query ${index}` },
+  ...overrides,
+});
+
+describe.each<[string, () => Promise<ToolAuditSink>]>([
+  ['InMemoryToolAuditSink', async () => new InMemoryToolAuditSink()],
+  ['JsonlToolAuditSink', async () => new JsonlToolAuditSink(path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'tool-audit-')), 'events.jsonl'))],
+  ['SqliteToolAuditSink', async () => new SqliteToolAuditSink(':memory:')],
+])('%s', (_name, createSink) => {
+  test('should chain appended events and filter them by session, agent, tool, type and time', async () => {
+    const sink = await createSink();
+    await Promise.all([
+      sink.append(makeEvent(1)),
+      sink.append(makeEvent(2, { eventType: 'after_tool', toolOutput: ['result'] })),
+      sink.append(makeEvent(3, { sessionId: 'session_b', agentName: 'CritiqueAgent' })),
+      sink.append(makeEvent(4, { eventType: 'tool_error', error: 'timeout' })),
+    ]);
+
+    expect(await sink.verify()).toEqual(expect.objectContaining({ valid: true, checkedEvents: 4, issues: [] }));
+    expect((await sink.query()).map(event => event.sequence)).toEqual([1, 2, 3, 4]);
+    expect((await sink.query({ sessionId: 'session_a' })).map(event => event.eventId)).toEqual(['event_1', 'event_2', 'event_4']);
+    expect((await sink.query({ agentName: 'CritiqueAgent' })).map(event => event.eventId)).toEqual(['event_3']);
+    expect((await sink.query({ eventType: 'tool_error', toolName: 'webSearch' })).map(event => event.eventId)).toEqual(['event_4']);
+    expect((await sink.query({ from: makeEvent(2).timestamp, to: makeEvent(3).timestamp })).map(event => event.eventId)).toEqual(['event_2', 'event_3']);
+    expect((await sink.query({ sessionId: 'session_a', limit: 2 })).map(event => event.eventId)).toEqual(['event_2', 'event_4']);
+  });
+});
+
+describe('verifyAuditChain', () => {
+  test('should report edited events, gaps and broken links', async () => {
+    const sink = new InMemoryToolAuditSink();
+    for (let index = 1; index <= 4; index++) await sink.append(makeEvent(index));
+    const events = await sink.query();
+
+    const edited = events.map(event => event.sequence === 2 ? { ...event, toolInput: { query: 'something else' } } : event);
+    expect(verifyAuditChain(edited).issues).toEqual([expect.objectContaining({ sequence: 2, kind: 'edited' })]);
+
+    const withoutThird = events.filter(event => event.sequence !== 3);
+    expect(verifyAuditChain(withoutThird).issues.map(issue => issue.kind)).toEqual(['gap', 'broken_link']);
+  });
+
+  test('should detect a line edited in a JSONL file and continue the chain after a restart', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'tool-audit-')), 'events.jsonl');
+    await new JsonlToolAuditSink(filePath).append(makeEvent(1));
+    const reopened = new JsonlToolAuditSink(filePath);
+    await reopened.append(makeEvent(2));
+    expect(await reopened.verify()).toEqual(expect.objectContaining({ valid: true, checkedEvents: 2 }));
+
+    const contents = await fs.readFile(filePath, 'utf8');
+    await fs.writeFile(filePath, contents.replace('query 1', 'query 9'), 'utf8');
+
+    expect((await reopened.verify()).issues).toEqual([expect.objectContaining({ sequence: 1, kind: 'edited' })]);
+  });
+
+  test('should keep one chain when two sinks in different processes append to the same JSONL file', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'tool-audit-')), 'events.jsonl');
+    // Two instances stand in for two processes: neither sees the other's in-process queue.
+    const first = new JsonlToolAuditSink(filePath);
+    const second = new JsonlToolAuditSink(filePath);
+    await Promise.all([1, 2, 3, 4, 5, 6].map(index => (index % 2 ? first : second).append(makeEvent(index))));
+
+    expect(await first.verify()).toEqual(expect.objectContaining({ valid: true, checkedEvents: 6 }));
+    await expect(fs.access(`${filePath}.lock`)).rejects.toThrow();
+  });
+
+  test('should detect the newest JSONL events being removed, and a head rewritten without the key', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'tool-audit-')), 'events.jsonl');
+    const sink = new JsonlToolAuditSink(filePath, { headKey: 'secret' });
+    for (let index = 1; index <= 3; index++) await sink.append(makeEvent(index));
+    expect(await sink.verify()).toEqual(expect.objectContaining({ valid: true }));
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    await fs.writeFile(filePath, `${lines.slice(0, 2).join('\n')}\n`, 'utf8');
+    expect((await sink.verify()).issues).toEqual([expect.objectContaining({ sequence: 3, kind: 'truncated' })]);
+    await expect(sink.append(makeEvent(4))).rejects.toThrow('events were removed');
+
+    const second = JSON.parse(lines[1]);
+    await fs.writeFile(`${filePath}.head`, JSON.stringify({ sequence: 2, hash: second.hash, signature: signAuditHead(second, 'guess') }), 'utf8');
+    expect((await sink.verify()).issues).toEqual([expect.objectContaining({ kind: 'head_mismatch', detail: expect.stringContaining('not signed') })]);
+  });
+
+  test('should reject updates and deletes in SQLite', async () => {
+    const sink = new SqliteToolAuditSink(':memory:');
+    await sink.append(makeEvent(1));
+    const db = await (sink as any).db();
+
+    expect(() => db.prepare('DELETE FROM tool_audit_events').run()).toThrow('append-only');
+    expect(() => db.prepare("UPDATE tool_audit_events SET agent_name = 'x'").run()).toThrow('append-only');
+  });
+
+  test('should detect indexed SQLite columns rewritten to hide events from queries', async () => {
+    const sink = new SqliteToolAuditSink(':memory:');
+    for (let index = 1; index <= 2; index++) await sink.append(makeEvent(index));
+    const db = await (sink as any).db();
+    db.exec("DROP TRIGGER tool_audit_events_no_update; UPDATE tool_audit_events SET session_id = 'other', tool_name = 'x' WHERE sequence = 2");
+
+    expect((await sink.query({ sessionId: 'session_a' })).map(event => event.sequence)).toEqual([1]);
+    expect((await sink.verify()).issues).toEqual([
+      expect.objectContaining({ sequence: 2, kind: 'column_mismatch', detail: expect.stringContaining('session_id, tool_name') }),
+    ]);
+  });
+
+  test('should detect the newest SQLite events being removed', async () => {
+    const sink = new SqliteToolAuditSink(':memory:');
+    for (let index = 1; index <= 3; index++) await sink.append(makeEvent(index));
+    const db = await (sink as any).db();
+    db.exec('DROP TRIGGER tool_audit_events_no_delete; DELETE FROM tool_audit_events WHERE sequence = 3');
+
+    expect((await sink.verify()).issues).toEqual([expect.objectContaining({ sequence: 3, kind: 'truncated' })]);
+    await expect(sink.append(makeEvent(4))).rejects.toThrow('ends before its head record at sequence 3');
+  });
+});
+
+describe('createToolAuditSinkFromEnv', () => {
+  test('should select a sink from environment variables', () => {
+    expect(createToolAuditSinkFromEnv({})?.name).toBe('jsonl');
+    expect(createToolAuditSinkFromEnv({ TOOL_AUDIT_STORE: 'sqlite' })?.name).toBe('sqlite');
+    expect(createToolAuditSinkFromEnv({ TOOL_AUDIT_STORE: 'none' })).toBeNull();
+    expect(() => createToolAuditSinkFromEnv({ TOOL_AUDIT_STORE: 'postgres' })).toThrow('TOOL_AUDIT_STORE');
+  });
+});
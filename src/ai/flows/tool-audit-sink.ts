@@ -0,0 +1,491 @@
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { z } from 'genkit';
+import { hashValue } from '@/ai/llm-cassettes';
+import type { ToolAuditEvent } from './tool-audit-system';
+
+/**
+ * @fileOverview Append-only, tamper-evident storage for ToolAuditSystem events.
+ *
+ * Each stored event gets the next sequence number and the hash of the event before it, and its own hash
+ * covers both, so the events form a hash chain: editing, removing or reordering a stored event breaks the
+ * chain at that point, which verifyAuditChain reports. A head record kept next to the events holds the newest
+ * sequence and hash, so removing the newest events is reported too; with TOOL_AUDIT_HEAD_KEY set it is signed,
+ * and a head rewritten to match a truncated log is reported as well.
+ *
+ * - ToolAuditSink - Append, query and verify interface.
+ * - JsonlToolAuditSink - One JSON line per event in a single file, appended under a lock file.
+ * - SqliteToolAuditSink - A `tool_audit_events` table whose triggers reject updates and deletes (better-sqlite3).
+ * - InMemoryToolAuditSink - Non-persistent sink for tests.
+ * - verifyAuditChain - Finds gaps, edits and broken links in a chain of stored events.
+ * - createToolAuditSinkFromEnv - Selection from TOOL_AUDIT_STORE and TOOL_AUDIT_HEAD_KEY.
+ */
+
+export interface ChainedToolAuditEvent extends ToolAuditEvent {
+  /** 1 for the first event of the sink, then consecutive. */
+  sequence: number;
+  previousHash: string;
+  /** SHA-256 of the event, its sequence and previousHash. */
+  hash: string;
+}
+
+export const AuditQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  agentName: z.string().optional(),
+  toolName: z.string().optional(),
+  eventType: z.enum(['before_tool', 'after_tool', 'tool_error']).optional(),
+  from: z.string().optional().describe('ISO timestamp; events at or after it'),
+  to: z.string().optional().describe('ISO timestamp; events at or before it'),
+  limit: z.number().int().positive().optional().describe('Return only the newest N matches'),
+});
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+export interface AuditChainIssue {
+  /** Sequence of the event the issue was found at, or the line number for unreadable JSONL lines. */
+  sequence: number;
+  kind: 'gap' | 'edited' | 'broken_link' | 'unreadable' | 'column_mismatch' | 'truncated' | 'head_mismatch';
+  detail: string;
+}
+
+/** The newest event's sequence and hash, stored apart from the events so that removing the newest ones is detected. */
+export interface AuditHead {
+  sequence: number;
+  hash: string;
+  /** HMAC-SHA256 of the sequence and hash under the sink's head key, when it has one. */
+  signature?: string;
+}
+
+export interface ToolAuditSinkOptions {
+  /** Secret that signs the head record; without it, a head rewritten along with a truncated log goes unnoticed. */
+  headKey?: string;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  checkedEvents: number;
+  lastHash: string;
+  issues: AuditChainIssue[];
+}
+
+export interface ToolAuditSink {
+  readonly name: string;
+  append(event: ToolAuditEvent): Promise<ChainedToolAuditEvent>;
+  /** Matching events, oldest first. */
+  query(query?: AuditQuery): Promise<ChainedToolAuditEvent[]>;
+  verify(): Promise<AuditChainReport>;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export function hashAuditEvent(event: Omit<ChainedToolAuditEvent, 'hash'>): string {
+  return hashValue(event);
+}
+
+function chain(event: ToolAuditEvent, sequence: number, previousHash: string): ChainedToolAuditEvent {
+  // Stored events are JSON, so the hash is taken over what JSON keeps of the event.
+  const stored: Omit<ChainedToolAuditEvent, 'hash'> = { ...JSON.parse(JSON.stringify(event)), sequence, previousHash };
+  return { ...stored, hash: hashAuditEvent(stored) };
+}
+
+export function signAuditHead(head: Pick<AuditHead, 'sequence' | 'hash'>, key: string): string {
+  return createHmac('sha256', key).update(`${head.sequence}:${head.hash}`).digest('hex');
+}
+
+function headIssues(last: ChainedToolAuditEvent | undefined, head: AuditHead | null, headKey: string | undefined): AuditChainIssue[] {
+  if (!head) {
+    return last ? [{ sequence: last.sequence, kind: 'head_mismatch', detail: 'The log has events but no head record.' }] : [];
+  }
+  const issues: AuditChainIssue[] = [];
+  if (headKey && head.signature !== signAuditHead(head, headKey)) {
+    issues.push({ sequence: head.sequence, kind: 'head_mismatch', detail: 'The head record is not signed with the head key.' });
+  }
+  const lastSequence = last?.sequence ?? 0;
+  if (lastSequence < head.sequence) {
+    issues.push({ sequence: head.sequence, kind: 'truncated', detail: `The head record is at sequence ${head.sequence} but the log ends at ${lastSequence}; the newest events were removed.` });
+  } else if (lastSequence > head.sequence) {
+    issues.push({ sequence: lastSequence, kind: 'head_mismatch', detail: `The log continues past the head record at sequence ${head.sequence}.` });
+  } else if (last && last.hash !== head.hash) {
+    issues.push({ sequence: lastSequence, kind: 'head_mismatch', detail: `Event ${lastSequence} does not match the hash in the head record.` });
+  }
+  return issues;
+}
+
+/**
+ * Checks that sequences are consecutive, every hash matches its event and every event links to the one before.
+ * When `head` is given (null for a missing head record), also checks that the chain ends where the head says.
+ */
+export function verifyAuditChain(
+  events: readonly ChainedToolAuditEvent[],
+  options: { issues?: AuditChainIssue[]; head?: AuditHead | null; headKey?: string } = {},
+): AuditChainReport {
+  const issues: AuditChainIssue[] = [...(options.issues ?? [])];
+  let previous: ChainedToolAuditEvent | undefined;
+  for (const event of events) {
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+    if (event.sequence !== expectedSequence) {
+      issues.push({ sequence: event.sequence, kind: 'gap', detail: `Expected sequence ${expectedSequence}; ${event.sequence - expectedSequence} event(s) missing or reordered.` });
+    }
+    const { hash, ...content } = event;
+    if (hashAuditEvent(content) !== hash) {
+      issues.push({ sequence: event.sequence, kind: 'edited', detail: `Event ${event.eventId} no longer matches its hash.` });
+    }
+    const expectedPreviousHash = previous?.hash ?? GENESIS_HASH;
+    if (event.previousHash !== expectedPreviousHash) {
+      issues.push({ sequence: event.sequence, kind: 'broken_link', detail: 'previousHash does not match the hash of the event before it.' });
+    }
+    previous = event;
+  }
+  if (options.head !== undefined) issues.push(...headIssues(previous, options.head, options.headKey));
+  return { valid: issues.length === 0, checkedEvents: events.length, lastHash: previous?.hash ?? GENESIS_HASH, issues };
+}
+
+export function matchesAuditQuery(event: ToolAuditEvent, query: AuditQuery): boolean {
+  return (!query.sessionId || event.sessionId === query.sessionId)
+    && (!query.agentName || event.agentName === query.agentName)
+    && (!query.toolName || event.toolName === query.toolName)
+    && (!query.eventType || event.eventType === query.eventType)
+    && (!query.from || event.timestamp >= query.from)
+    && (!query.to || event.timestamp <= query.to);
+}
+
+function applyLimit<T>(events: T[], limit: number | undefined): T[] {
+  return limit ? events.slice(-limit) : events;
+}
+
+type ChainLink = Pick<ChainedToolAuditEvent, 'sequence' | 'hash'>;
+
+/**
+ * Refuses to extend a log that ends before its head record: the next append would move the head and hide the
+ * removal. A log ending past its head is left to continue; that happens when a process stops between the two writes.
+ */
+function assertTailReachesHead(last: ChainLink | null, head: AuditHead | null, store: string): void {
+  if (!head) return;
+  if ((last?.sequence ?? 0) < head.sequence || (last?.sequence === head.sequence && last.hash !== head.hash)) {
+    throw new Error(`${store} ends before its head record at sequence ${head.sequence}; events were removed, so the chain is not extended.`);
+  }
+}
+
+/**
+ * Appends one at a time, in call order: each append needs the hash of the one before it. The last stored event
+ * is read again on every append, under the store's lock, so other processes writing to the same store extend
+ * the same chain instead of forking it.
+ */
+abstract class ChainedSink implements ToolAuditSink {
+  abstract readonly name: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(protected options: ToolAuditSinkOptions = {}) {}
+
+  /** Reads the last stored event, then stores `next(last)` and its head record, with no other writer in between. */
+  protected abstract appendAtTail(next: (last: ChainLink | null) => ChainedToolAuditEvent): Promise<ChainedToolAuditEvent>;
+  abstract query(query?: AuditQuery): Promise<ChainedToolAuditEvent[]>;
+  abstract verify(): Promise<AuditChainReport>;
+
+  protected headFor(event: ChainLink): AuditHead {
+    const head: AuditHead = { sequence: event.sequence, hash: event.hash };
+    return this.options.headKey ? { ...head, signature: signAuditHead(head, this.options.headKey) } : head;
+  }
+
+  append(event: ToolAuditEvent): Promise<ChainedToolAuditEvent> {
+    const appended = this.pending.then(() =>
+      this.appendAtTail(last => chain(event, (last?.sequence ?? 0) + 1, last?.hash ?? GENESIS_HASH)));
+    // A failed write leaves the chain where it was, so later appends still link up.
+    this.pending = appended.catch(() => undefined);
+    return appended;
+  }
+}
+
+export class InMemoryToolAuditSink extends ChainedSink {
+  readonly name = 'memory';
+  private events: ChainedToolAuditEvent[] = [];
+  private head: AuditHead | null = null;
+
+  protected async appendAtTail(next: (last: ChainLink | null) => ChainedToolAuditEvent): Promise<ChainedToolAuditEvent> {
+    const event = next(this.events[this.events.length - 1] ?? null);
+    this.events.push(event);
+    this.head = this.headFor(event);
+    return event;
+  }
+
+  async query(query: AuditQuery = {}): Promise<ChainedToolAuditEvent[]> {
+    return applyLimit(this.events.filter(event => matchesAuditQuery(event, query)), query.limit).map(event => JSON.parse(JSON.stringify(event)));
+  }
+
+  async verify(): Promise<AuditChainReport> {
+    return verifyAuditChain(this.events, { head: this.head, headKey: this.options.headKey });
+  }
+}
+
+const LOCK_RETRY_MS = 25;
+/** A lock file older than this was left by a process that died while appending. */
+const STALE_LOCK_MS = 30_000;
+const TAIL_CHUNK_BYTES = 16 * 1024;
+
+/** Runs `fn` holding an exclusive lock file, so processes sharing a file change it one at a time. */
+export async function withFileLock<T>(lockPath: string, timeoutMs: number, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error;
+      const lock = await fs.stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out after ${timeoutMs}ms waiting for the lock ${lockPath}.`);
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/** The last non-empty line of the file, read backwards in chunks so that appends stay cheap as the log grows. */
+async function readLastLine(filePath: string): Promise<string | null> {
+  let handle: Awaited<ReturnType<typeof fs.open>>;
+  try {
+    handle = await fs.open(filePath, 'r');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    const chunks: Buffer[] = [];
+    let position = (await handle.stat()).size;
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      chunks.unshift(chunk);
+      const text = Buffer.concat(chunks).toString('utf8').trimEnd();
+      const newline = text.lastIndexOf('\n');
+      if (newline >= 0) return text.slice(newline + 1);
+    }
+    return Buffer.concat(chunks).toString('utf8').trim() || null;
+  } finally {
+    await handle.close();
+  }
+}
+
+export class JsonlToolAuditSink extends ChainedSink {
+  readonly name = 'jsonl';
+  private lockTimeoutMs: number;
+
+  /** The head record is kept in `<filePath>.head` and the append lock in `<filePath>.lock`. */
+  constructor(private filePath: string, options: ToolAuditSinkOptions & { lockTimeoutMs?: number } = {}) {
+    super(options);
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+  }
+
+  private async readAll(): Promise<{ events: ChainedToolAuditEvent[]; unreadable: AuditChainIssue[] }> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return { events: [], unreadable: [] };
+      throw error;
+    }
+    const events: ChainedToolAuditEvent[] = [];
+    const unreadable: AuditChainIssue[] = [];
+    contents.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        events.push(JSON.parse(line) as ChainedToolAuditEvent);
+      } catch {
+        unreadable.push({ sequence: index + 1, kind: 'unreadable', detail: `Line ${index + 1} is not valid JSON.` });
+      }
+    });
+    return { events, unreadable };
+  }
+
+  protected async appendAtTail(next: (last: ChainLink | null) => ChainedToolAuditEvent): Promise<ChainedToolAuditEvent> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    return withFileLock(`${this.filePath}.lock`, this.lockTimeoutMs, async () => {
+      const lastLine = await readLastLine(this.filePath);
+      let last: ChainLink | null = null;
+      try {
+        last = lastLine ? JSON.parse(lastLine) as ChainedToolAuditEvent : null;
+      } catch {
+        throw new Error(`The last line of ${this.filePath} is not valid JSON; the chain cannot be extended.`);
+      }
+      let head: AuditHead | null = null;
+      try {
+        head = JSON.parse(await fs.readFile(`${this.filePath}.head`, 'utf8')) as AuditHead;
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+      assertTailReachesHead(last, head, this.filePath);
+      const event = next(last);
+      await fs.appendFile(this.filePath, `${JSON.stringify(event)}\n`, 'utf8');
+      // Written to a temporary file and renamed, so a reader never sees half a head record.
+      await fs.writeFile(`${this.filePath}.head.tmp`, JSON.stringify(this.headFor(event)), 'utf8');
+      await fs.rename(`${this.filePath}.head.tmp`, `${this.filePath}.head`);
+      return event;
+    });
+  }
+
+  async query(query: AuditQuery = {}): Promise<ChainedToolAuditEvent[]> {
+    const { events } = await this.readAll();
+    return applyLimit(events.filter(event => matchesAuditQuery(event, query)), query.limit);
+  }
+
+  async verify(): Promise<AuditChainReport> {
+    const { events, unreadable } = await this.readAll();
+    let head: AuditHead | null = null;
+    try {
+      head = JSON.parse(await fs.readFile(`${this.filePath}.head`, 'utf8')) as AuditHead;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') unreadable.push({ sequence: 0, kind: 'unreadable', detail: `The head record ${this.filePath}.head cannot be read.` });
+    }
+    return verifyAuditChain(events, { issues: unreadable, head, headKey: this.options.headKey });
+  }
+}
+
+/** The columns stored next to event_json, and the event fields they copy. */
+const INDEXED_COLUMNS = {
+  sequence: 'sequence', event_id: 'eventId', timestamp: 'timestamp', session_id: 'sessionId', agent_name: 'agentName',
+  tool_name: 'toolName', event_type: 'eventType', previous_hash: 'previousHash', hash: 'hash',
+} as const;
+
+export class SqliteToolAuditSink extends ChainedSink {
+  readonly name = 'sqlite';
+  private dbPromise: Promise<Database.Database> | null = null;
+
+  constructor(private dbPath: string, options: ToolAuditSinkOptions = {}) { super(options); }
+
+  // better-sqlite3 is a native module; load it on first use so other sinks never need it.
+  private db(): Promise<Database.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = (async () => {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        if (this.dbPath !== ':memory:') await fs.mkdir(path.dirname(path.resolve(this.dbPath)), { recursive: true });
+        const db = new BetterSqlite3(this.dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(`CREATE TABLE IF NOT EXISTS tool_audit_events (
+          sequence INTEGER PRIMARY KEY,
+          event_id TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          session_id TEXT,
+          agent_name TEXT NOT NULL,
+          tool_name TEXT NOT NULL,
+          event_type TEXT NOT NULL,
+          previous_hash TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          event_json TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS tool_audit_events_session ON tool_audit_events (session_id);
+        CREATE INDEX IF NOT EXISTS tool_audit_events_timestamp ON tool_audit_events (timestamp);
+        CREATE TRIGGER IF NOT EXISTS tool_audit_events_no_update BEFORE UPDATE ON tool_audit_events
+          BEGIN SELECT RAISE(ABORT, 'tool_audit_events is append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS tool_audit_events_no_delete BEFORE DELETE ON tool_audit_events
+          BEGIN SELECT RAISE(ABORT, 'tool_audit_events is append-only'); END;
+        CREATE TABLE IF NOT EXISTS tool_audit_head (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          sequence INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          signature TEXT
+        );`);
+        return db;
+      })();
+    }
+    return this.dbPromise;
+  }
+
+  protected async appendAtTail(next: (last: ChainLink | null) => ChainedToolAuditEvent): Promise<ChainedToolAuditEvent> {
+    const db = await this.db();
+    const append = db.transaction(() => {
+      const last = (db.prepare('SELECT sequence, hash FROM tool_audit_events ORDER BY sequence DESC LIMIT 1').get() as ChainLink | undefined) ?? null;
+      assertTailReachesHead(last, (db.prepare('SELECT sequence, hash FROM tool_audit_head WHERE id = 1').get() as ChainLink | undefined) ?? null, 'tool_audit_events');
+      const event = next(last);
+      db.prepare(`INSERT INTO tool_audit_events (sequence, event_id, timestamp, session_id, agent_name, tool_name, event_type, previous_hash, hash, event_json)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+        event.sequence, event.eventId, event.timestamp, event.sessionId ?? null, event.agentName, event.toolName, event.eventType,
+        event.previousHash, event.hash, JSON.stringify(event),
+      );
+      const head = this.headFor(event);
+      db.prepare(`INSERT INTO tool_audit_head (id, sequence, hash, signature) VALUES (1, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET sequence = excluded.sequence, hash = excluded.hash, signature = excluded.signature`)
+        .run(head.sequence, head.hash, head.signature ?? null);
+      return event;
+    });
+    // IMMEDIATE takes the write lock before the tail is read, so another process cannot append in between.
+    return append.immediate();
+  }
+
+  // Filters on the indexed columns; verify() reports any column that no longer matches its hashed event.
+  async query(query: AuditQuery = {}): Promise<ChainedToolAuditEvent[]> {
+    const db = await this.db();
+    const filters: [string, string | undefined][] = [
+      ['session_id = ?', query.sessionId], ['agent_name = ?', query.agentName], ['tool_name = ?', query.toolName],
+      ['event_type = ?', query.eventType], ['timestamp >= ?', query.from], ['timestamp <= ?', query.to],
+    ];
+    const applied = filters.filter(([, value]) => value !== undefined);
+    const where = applied.length > 0 ? `WHERE ${applied.map(([clause]) => clause).join(' AND ')}` : '';
+    // Newest first to apply the limit, then back to oldest first.
+    const rows = db.prepare(`SELECT event_json FROM tool_audit_events ${where} ORDER BY sequence DESC${query.limit ? ' LIMIT ?' : ''}`)
+      .all(...applied.map(([, value]) => value), ...(query.limit ? [query.limit] : [])) as { event_json: string }[];
+    return rows.reverse().map(row => JSON.parse(row.event_json) as ChainedToolAuditEvent);
+  }
+
+  async verify(): Promise<AuditChainReport> {
+    const db = await this.db();
+    const rows = db.prepare(`SELECT ${Object.keys(INDEXED_COLUMNS).join(', ')}, event_json FROM tool_audit_events ORDER BY sequence`).all() as
+      (Record<keyof typeof INDEXED_COLUMNS, string | number | null> & { event_json: string })[];
+    const events: ChainedToolAuditEvent[] = [];
+    const issues: AuditChainIssue[] = [];
+    for (const row of rows) {
+      let event: ChainedToolAuditEvent;
+      try {
+        event = JSON.parse(row.event_json) as ChainedToolAuditEvent;
+      } catch {
+        issues.push({ sequence: Number(row.sequence), kind: 'unreadable', detail: `Row ${row.sequence} has no valid event JSON.` });
+        continue;
+      }
+      // The hash covers only event_json, so the columns query() filters on are checked against it.
+      const mismatched = (Object.keys(INDEXED_COLUMNS) as (keyof typeof INDEXED_COLUMNS)[])
+        .filter(column => row[column] !== (event[INDEXED_COLUMNS[column]] ?? null));
+      if (mismatched.length > 0) {
+        issues.push({ sequence: Number(row.sequence), kind: 'column_mismatch', detail: `Column(s) ${mismatched.join(', ')} no longer match the hashed event.` });
+      }
+      events.push(event);
+    }
+    const head = db.prepare('SELECT sequence, hash, signature FROM tool_audit_head WHERE id = 1').get() as
+      { sequence: number; hash: string; signature: string | null } | undefined;
+    return verifyAuditChain(events, {
+      issues,
+      head: head ? { sequence: head.sequence, hash: head.hash, signature: head.signature ?? undefined } : null,
+      headKey: this.options.headKey,
+    });
+  }
+}
+
+/**
+ * Builds the sink selected by TOOL_AUDIT_STORE (jsonl | sqlite | memory | none), at TOOL_AUDIT_STORE_PATH, signing
+ * its head record with TOOL_AUDIT_HEAD_KEY when set. Defaults to JSONL at `.data/audit/tool-events.jsonl`;
+ * returns null for `none`.
+ */
+export function createToolAuditSinkFromEnv(env: Record<string, string | undefined> = process.env): ToolAuditSink | null {
+  const kind = env.TOOL_AUDIT_STORE || 'jsonl';
+  const options: ToolAuditSinkOptions = { headKey: env.TOOL_AUDIT_HEAD_KEY || undefined };
+  switch (kind) {
+    case 'jsonl':
+      return new JsonlToolAuditSink(env.TOOL_AUDIT_STORE_PATH || path.join('.data', 'audit', 'tool-events.jsonl'), options);
+    case 'sqlite':
+      return new SqliteToolAuditSink(env.TOOL_AUDIT_STORE_PATH || path.join('.data', 'audit', 'tool-events.db'), options);
+    case 'memory':
+      return new InMemoryToolAuditSink(options);
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown TOOL_AUDIT_STORE "${kind}". Expected jsonl, sqlite, memory or none.`);
+  }
+}
@@ -1,6 +1,8 @@
 'use server';
 
 import { z } from 'genkit';
+import { hashValue } from '@/ai/llm-cassettes';
+import { createToolAuditSinkFromEnv, matchesAuditQuery, type AuditChainReport, type AuditQuery, type ToolAuditSink } from './tool-audit-sink';
 
 // Tool audit event schemas
 const ToolAuditEventSchema = z.object({
@@ -39,30 +41,27 @@ class ToolAuditSystem {
   private maxEventHistory: number = 10000;
   private enableCaching: boolean = true;
   private enableAuditing: boolean = true;
+  // Durable copy of every event; `events` only keeps the recent history for the statistics.
+  private sink: ToolAuditSink | null;
 
   constructor(options: {
     maxCacheSize?: number;
     maxEventHistory?: number;
     enableCaching?: boolean;
     enableAuditing?: boolean;
+    sink?: ToolAuditSink | null;
   } = {}) {
     this.maxCacheSize = options.maxCacheSize ?? 1000;
     this.maxEventHistory = options.maxEventHistory ?? 10000;
     this.enableCaching = options.enableCaching ?? true;
     this.enableAuditing = options.enableAuditing ?? true;
+    this.sink = options.sink ?? null;
   }
 
-  // Generate a hash for tool inputs to use as cache key
+  // SHA-256 of the input with keys sorted at every depth, used as cache key
   private hashInput(input: any): string {
     try {
-      const serialized = JSON.stringify(input, Object.keys(input).sort());
-      let hash = 0;
-      for (let i = 0; i < serialized.length; i++) {
-        const char = serialized.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32-bit integer
-      }
-      return Math.abs(hash).toString(36);
+      return hashValue(input);
     } catch (error) {
       return 'hash_error_' + Date.now();
     }
@@ -197,6 +196,15 @@ class ToolAuditSystem {
 
     this.events.push(auditEvent);
 
+    // A failed write is logged and never fails the tool call; the gap it leaves shows in verifyAuditTrail.
+    this.sink?.append(auditEvent).catch((error: any) => {
+      console.error('ToolAuditSystem: Failed to persist audit event', {
+        eventId: auditEvent.eventId,
+        sink: this.sink?.name,
+        error: error?.message,
+      });
+    });
+
     // Limit event history size
     if (this.events.length > this.maxEventHistory) {
       this.events = this.events.slice(-this.maxEventHistory);
@@ -391,6 +399,18 @@ class ToolAuditSystem {
     };
   }
 
+  // Query audit events for compliance reviews, oldest first; from the durable sink when there is one
+  public async queryAuditEvents(query: AuditQuery = {}): Promise<ToolAuditEvent[]> {
+    if (this.sink) return this.sink.query(query);
+    const matches = this.events.filter(event => matchesAuditQuery(event, query));
+    return query.limit ? matches.slice(-query.limit) : matches;
+  }
+
+  // Check the durable audit trail for gaps and edits; null when events are only kept in memory
+  public async verifyAuditTrail(): Promise<AuditChainReport | null> {
+    return this.sink ? this.sink.verify() : null;
+  }
+
   // Clear cache
   public clearCache(): void {
     this.cache.clear();
@@ -460,6 +480,7 @@ export const toolAuditSystem = new ToolAuditSystem({
   maxEventHistory: 10000,
   enableCaching: true,
   enableAuditing: true,
+  sink: createToolAuditSinkFromEnv(),
 });
 
 // Helper functions for easy integration with agents
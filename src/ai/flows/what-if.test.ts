@@ -0,0 +1,53 @@
+import { AssumptionChangeSchema, compareOutcomes, diffConclusions, toAssumptionOverride } from './what-if';
+
+function synthesis(summary: string, keyStrengths: string[] = [], actionableRecommendations: string[] = []) {
+  return { summary, keyStrengths, keyWeaknesses: [], actionableRecommendations };
+}
+
+describe('toAssumptionOverride', () => {
+  test('should describe weakened and reversed assumptions and use the replacement as given', () => {
+    expect(toAssumptionOverride({ assumption: 'Demand keeps growing', changeType: 'weakened' }).modifiedAssumption).toContain('Demand keeps growing');
+    expect(toAssumptionOverride({ assumption: 'Demand keeps growing', changeType: 'reversed' }).modifiedAssumption).toMatch(/^The opposite is true/);
+    expect(toAssumptionOverride({ assumption: 'Demand keeps growing', changeType: 'replaced', replacement: ' Demand stays flat ' })).toEqual({
+      originalAssumption: 'Demand keeps growing', modifiedAssumption: 'Demand stays flat',
+    });
+  });
+
+  test('should require a replacement for replaced assumptions', () => {
+    expect(AssumptionChangeSchema.safeParse({ assumption: 'Demand keeps growing', changeType: 'replaced' }).success).toBe(false);
+  });
+});
+
+describe('diffConclusions', () => {
+  test('should mark identical statements unchanged, similar ones revised and the rest removed or added', () => {
+    const changes = diffConclusions(
+      synthesis('Remote work raises output. Offices stay relevant.', ['Large remote work samples show higher output']),
+      synthesis('Remote work raises output. Collaboration suffers.', ['Large remote work samples show slightly higher output']),
+    );
+
+    expect(changes.map(change => [change.section, change.change])).toEqual([
+      ['summary', 'unchanged'],
+      ['summary', 'removed'],
+      ['summary', 'added'],
+      ['keyStrengths', 'revised'],
+    ]);
+    expect(changes[3].scenario).toBe('Large remote work samples show slightly higher output');
+  });
+
+  test('should report every scenario statement as added when there is no baseline synthesis', () => {
+    expect(diffConclusions(undefined, synthesis('One. Two.')).map(change => change.change)).toEqual(['added', 'added']);
+  });
+});
+
+describe('compareOutcomes', () => {
+  test('should give the confidence adjustment as scenario minus baseline score', () => {
+    const confidence = (numericScore: number) => ({ score: 'Medium' as const, numericScore, rationale: '' });
+
+    const comparison = compareOutcomes(
+      { overallConfidence: confidence(72) },
+      { overallConfidence: confidence(55) },
+    );
+
+    expect(comparison).toEqual({ conclusionChanges: [], confidenceAdjustment: -17 });
+  });
+});
@@ -0,0 +1,132 @@
+import { z } from 'genkit';
+import { splitSentences } from '@/lib/citations';
+import { CLAIM_SECTIONS, type ClaimSection } from './atomic-claims';
+import type { ConfidenceScoringOutput } from './confidence-scoring-agent';
+import type { ScenarioTest, SensitivityAnalysisOutput } from './sensitivity-analysis-agent';
+import type { SynthesisEnsembleOutput } from './synthesis-ensemble-agent';
+
+/**
+ * @fileOverview User-steered what-if scenarios on a finished analysis.
+ *
+ * The user weakens, reverses or replaces assumptions found by the AnalyzeAssumptionsAgent. Only the agents
+ * downstream of the assumptions (sensitivity analysis, confidence scoring and the synthesis ensemble) run
+ * again, and their output is compared with the baseline run of the session.
+ *
+ * - AssumptionChangeSchema - One assumption and how the user changed it.
+ * - toAssumptionOverride - The changed assumption as prompt text.
+ * - diffConclusions - Statement-level diff between the baseline and the scenario synthesis.
+ * - compareOutcomes - The diff plus the confidence adjustment against the baseline.
+ */
+
+type MetaSynthesis = SynthesisEnsembleOutput['metaSynthesis'];
+
+/** scenarioId of the SensitivityAnalysisAgent scenario built from the user's changes. */
+export const WHAT_IF_SCENARIO_ID = 'what_if';
+
+export const AssumptionChangeSchema = z.object({
+  assumption: z.string().describe('The assumption exactly as the AnalyzeAssumptionsAgent stated it'),
+  changeType: z.enum(['weakened', 'reversed', 'replaced']),
+  replacement: z.string().optional().describe('With changeType replaced: the assumption to use instead'),
+}).refine(change => change.changeType !== 'replaced' || !!change.replacement?.trim(), {
+  message: 'A replaced assumption needs its replacement.', path: ['replacement'],
+});
+export type AssumptionChange = z.infer<typeof AssumptionChangeSchema>;
+
+export const AssumptionOverrideSchema = z.object({
+  originalAssumption: z.string(),
+  modifiedAssumption: z.string(),
+});
+export type AssumptionOverride = z.infer<typeof AssumptionOverrideSchema>;
+
+export function toAssumptionOverride(change: AssumptionChange): AssumptionOverride {
+  const modifiedAssumption = {
+    weakened: `${change.assumption} - holds only partly, or cannot be relied on`,
+    reversed: `The opposite is true: it is not the case that ${change.assumption}`,
+    replaced: change.replacement?.trim() ?? '',
+  }[change.changeType];
+  return { originalAssumption: change.assumption, modifiedAssumption };
+}
+
+export const ConclusionChangeSchema = z.object({
+  section: z.enum(CLAIM_SECTIONS),
+  change: z.enum(['unchanged', 'revised', 'added', 'removed']),
+  baseline: z.string().optional(),
+  scenario: z.string().optional(),
+});
+export type ConclusionChange = z.infer<typeof ConclusionChangeSchema>;
+
+/** What one run concluded: the confidence score, robustness and synthesis the diff is taken between. */
+export interface WhatIfOutcome {
+  overallConfidence?: ConfidenceScoringOutput['overallConfidence'];
+  robustness?: SensitivityAnalysisOutput['overallRobustness'];
+  synthesis?: MetaSynthesis;
+}
+
+export interface WhatIfResult {
+  sessionId: string;
+  changes: AssumptionChange[];
+  baseline: WhatIfOutcome;
+  scenario: WhatIfOutcome;
+  /** The sensitivity agent's test of the user's changes, with its estimated confidenceAdjustment per conclusion. */
+  scenarioTest?: ScenarioTest;
+  conclusionChanges: ConclusionChange[];
+  /** Scenario minus baseline overall confidence (0-100 points). */
+  confidenceAdjustment: number;
+  ranAt: string;
+}
+
+// Statements sharing at least this share of their terms count as the same conclusion, revised.
+const REVISION_SIMILARITY = 0.5;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function termSet(text: string): Set<string> {
+  return new Set(normalize(text).split(/[^a-z0-9%]+/).filter(term => term.length > 2));
+}
+
+function similarity(a: string, b: string): number {
+  const termsA = termSet(a);
+  const termsB = termSet(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  const shared = [...termsA].filter(term => termsB.has(term)).length;
+  return shared / (termsA.size + termsB.size - shared);
+}
+
+function statementsOf(synthesis: Pick<MetaSynthesis, ClaimSection> | undefined, section: ClaimSection): string[] {
+  if (!synthesis) return [];
+  return section === 'summary' ? splitSentences(synthesis.summary || '') : synthesis[section] ?? [];
+}
+
+/**
+ * Pairs the baseline and scenario statements of each section: identical statements are unchanged, the most
+ * similar remaining pairs are revised, and whatever is left was removed from or added by the scenario.
+ */
+export function diffConclusions(
+  baseline: Pick<MetaSynthesis, ClaimSection> | undefined, scenario: Pick<MetaSynthesis, ClaimSection> | undefined,
+): ConclusionChange[] {
+  return CLAIM_SECTIONS.flatMap(section => {
+    const changes: ConclusionChange[] = [];
+    let remaining = statementsOf(scenario, section);
+    const unmatched: string[] = [];
+    for (const statement of statementsOf(baseline, section)) {
+      const index = remaining.findIndex(candidate => normalize(candidate) === normalize(statement));
+      if (index === -1) { unmatched.push(statement); continue; }
+      changes.push({ section, change: 'unchanged', baseline: statement, scenario: remaining[index] });
+      remaining = remaining.filter((_, i) => i !== index);
+    }
+    for (const statement of unmatched) {
+      const scored = remaining.map((candidate, i) => ({ i, score: similarity(statement, candidate) })).sort((a, b) => b.score - a.score)[0];
+      if (!scored || scored.score < REVISION_SIMILARITY) { changes.push({ section, change: 'removed', baseline: statement }); continue; }
+      changes.push({ section, change: 'revised', baseline: statement, scenario: remaining[scored.i] });
+      remaining = remaining.filter((_, i) => i !== scored.i);
+    }
+    return [...changes, ...remaining.map(statement => ({ section, change: 'added' as const, scenario: statement }))];
+  });
+}
+
+export function compareOutcomes(baseline: WhatIfOutcome, scenario: WhatIfOutcome): Pick<WhatIfResult, 'conclusionChanges' | 'confidenceAdjustment'> {
+  return {
+    conclusionChanges: diffConclusions(baseline.synthesis, scenario.synthesis),
+    confidenceAdjustment: (scenario.overallConfidence?.numericScore ?? 0) - (baseline.overallConfidence?.numericScore ?? 0),
+  };
+}
@@ -1,6 +1,7 @@
 'use server';
 
 import { z } from 'genkit';
+import { ModelUsageSchema, addModelCall, emptyModelUsage, type ModelCallRecord, type ModelUsage } from '@/ai/llm-usage';
 
 // Workflow phase metrics schema
 const PhaseMetricsSchema = z.object({
@@ -46,6 +47,7 @@ const WorkflowSessionMetricsSchema = z.object({
     totalAPICallsMade: z.number().default(0),
     totalTokensUsed: z.number().default(0),
     estimatedCostUSD: z.number().optional(),
+    modelUsage: ModelUsageSchema.optional().describe('Model calls by agent, phase and model'),
   }).optional().describe('Resource usage statistics'),
   performanceInsights: z.array(z.object({
     type: z.enum(['bottleneck', 'optimization', 'warning', 'success']),
@@ -65,6 +67,7 @@ class WorkflowMetricsSystem {
   private currentPhase: Map<string, string> = new Map(); // sessionId -> currentPhaseId
   private phaseStartTimes: Map<string, number> = new Map(); // phaseId -> startTime
   private maxSessionHistory: number = 100;
+  private modelUsage: ModelUsage = emptyModelUsage(); // every model call in this process, with or without a session
 
   constructor(options: { maxSessionHistory?: number } = {}) {
     this.maxSessionHistory = options.maxSessionHistory ?? 100;
@@ -271,6 +274,23 @@ class WorkflowMetricsSystem {
     }
   }
 
+  // Record a model call; its tokens, latency and cost roll up into the session's resource usage
+  public recordModelCall(record: ModelCallRecord): void {
+    this.modelUsage = addModelCall(this.modelUsage, record);
+
+    const session = record.sessionId ? this.sessions.get(record.sessionId) : undefined;
+    if (!session) return;
+
+    const modelUsage = addModelCall(session.resourceUsage?.modelUsage, record);
+    session.resourceUsage = {
+      ...session.resourceUsage,
+      totalAPICallsMade: (session.resourceUsage?.totalAPICallsMade ?? 0) + 1,
+      totalTokensUsed: modelUsage.total.totalTokens,
+      estimatedCostUSD: modelUsage.total.costUSD,
+      modelUsage,
+    };
+  }
+
   // Record an error in the current phase
   public recordError(sessionId: string, errorMessage: string, agentName?: string, phaseId?: string): void {
     const session = this.sessions.get(sessionId);
@@ -473,6 +493,7 @@ class WorkflowMetricsSystem {
   // Export all metrics data
   public exportMetrics(): {
     sessions: WorkflowSessionMetrics[];
+    modelUsage: ModelUsage;
     summary: {
       totalSessions: number;
       averageDuration: number;
@@ -484,6 +505,7 @@ class WorkflowMetricsSystem {
   } {
     return {
       sessions: Array.from(this.sessions.values()),
+      modelUsage: this.modelUsage,
       summary: this.getPerformanceSummary(),
     };
   }
@@ -1,19 +1,54 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {defaultModelName, getModelRegistryConfig, googleAIApiKey, modelCallCost, registerConfiguredModels} from './model-registry';
+import {createCassetteOptionsFromEnv, installCassettes} from './llm-cassettes';
+import {installModelUsageTracking} from './llm-usage';
+import {createLlmCacheOptionsFromEnv, installLlmCache} from './llm-cache';
+import {createTracingOptionsFromEnv, installTracing} from './telemetry';
+import {workflowMetricsSystem} from './flows/workflow-metrics-system';
 
-// Validate required environment variables
-const GOOGLE_AI_API_KEY = process.env.GOOGLE_AI_API_KEY;
+// Models are selected per agent by the model registry (see model-registry.ts and models.config.example.json).
+const modelRegistryConfig = getModelRegistryConfig();
+const GOOGLE_AI_API_KEY = googleAIApiKey(modelRegistryConfig);
+const usesGoogleAI = Object.values(modelRegistryConfig.providers).some(provider => provider.type === 'googleai');
+const cassetteOptions = createCassetteOptionsFromEnv();
 
-if (!GOOGLE_AI_API_KEY) {
-  throw new Error(
-    'GOOGLE_AI_API_KEY environment variable is required. ' +
-    'Please create a .env file based on env.example and set your API key.'
+if (usesGoogleAI && !GOOGLE_AI_API_KEY && cassetteOptions?.mode !== 'replay') {
+  console.warn(
+    'ModelRegistry: GOOGLE_AI_API_KEY is not set, so Google AI models are unavailable and calls to them will fail. ' +
+    'Set the key (see env.example), or configure a local model with OLLAMA_MODEL or MODEL_CONFIG_PATH.'
   );
 }
 
 export const ai = genkit({
-  plugins: [googleAI({
+  plugins: GOOGLE_AI_API_KEY ? [googleAI({
     apiKey: GOOGLE_AI_API_KEY,
-  })],
-  model: 'googleai/gemini-2.0-flash',
+  })] : [],
+  model: defaultModelName(modelRegistryConfig),
 });
+
+registerConfiguredModels(ai, modelRegistryConfig);
+
+// Record or replay LLM calls (LLM_CASSETTE_MODE); must wrap `ai` before any agent defines its prompts.
+if (cassetteOptions) {
+  installCassettes(ai, cassetteOptions);
+}
+
+// Token, latency and cost accounting for every call, rolled up by the WorkflowMetricsSystem.
+installModelUsageTracking(ai, {
+  defaultModel: defaultModelName(modelRegistryConfig),
+  costOf: (model, inputTokens, outputTokens) => modelCallCost(model, inputTokens, outputTokens, modelRegistryConfig),
+  onCall: record => workflowMetricsSystem.recordModelCall(record),
+});
+
+// Serve repeated calls from the response cache (LLM_CACHE); installed last so hits are not billed as model calls.
+const llmCacheOptions = createLlmCacheOptionsFromEnv();
+if (llmCacheOptions) {
+  installLlmCache(ai, llmCacheOptions);
+}
+
+// OTLP traces of sessions, phases and agent calls when OTEL_EXPORTER_OTLP_ENDPOINT is set (see telemetry.ts).
+const tracingOptions = createTracingOptionsFromEnv();
+if (tracingOptions) {
+  installTracing(tracingOptions);
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { genkit, z } from 'genkit';
+import {
+  createLlmCacheOptionsFromEnv,
+  FsLlmCacheStore,
+  getLlmCacheStats,
+  InMemoryLlmCacheStore,
+  installLlmCache,
+  resetLlmCacheStats,
+  SqliteLlmCacheStore,
+  type LlmCacheOptions,
+  type LlmCacheStore,
+} from './llm-cache';
+import { runWithModelUsageContext } from './llm-usage';
+
+describe('installLlmCache', () => {
+  let modelCalls: number;
+  let clock: number;
+
+  const makePrompt = (options: Omit<LlmCacheOptions, 'now'>, template = 'Answer: {{question}}') => {
+    const ai = genkit({});
+    ai.defineModel({ name: 'test/fake' }, async () => {
+      modelCalls++;
+      return { message: { role: 'model', content: [{ text: JSON.stringify({ answer: `answer ${modelCalls}` }) }] }, finishReason: 'stop' };
+    });
+    installLlmCache(ai, { ...options, now: () => clock });
+    return ai.definePrompt({
+      name: 'testPrompt',
+      model: 'test/fake',
+      input: { schema: z.object({ question: z.string(), context: z.object({ a: z.number(), b: z.number() }).optional() }) },
+      output: { schema: z.object({ answer: z.string() }) },
+      prompt: template,
+    });
+  };
+
+  beforeEach(() => {
+    modelCalls = 0;
+    clock = 0;
+    resetLlmCacheStats();
+  });
+
+  test('should serve identical calls from the cache whatever the key order of the input', async () => {
+    const store = new InMemoryLlmCacheStore();
+    const prompt = makePrompt({ store });
+
+    const first = await prompt({ question: 'Why?', context: { a: 1, b: 2 } });
+    const second = await prompt({ context: { b: 2, a: 1 }, question: 'Why?' });
+    await prompt({ question: 'Why not?' });
+
+    expect(second.output).toEqual(first.output);
+    expect(modelCalls).toBe(2);
+    expect(getLlmCacheStats()).toEqual(expect.objectContaining({ hits: 1, misses: 2, writes: 2, byFlow: { testPrompt: { hits: 1, misses: 2 } } }));
+  });
+
+  test('should miss when the prompt template changes or the entry is past its TTL', async () => {
+    const store = new InMemoryLlmCacheStore();
+    await makePrompt({ store, ttlMs: 1000 })({ question: 'Why?' });
+    await makePrompt({ store, ttlMs: 1000 }, 'Answer briefly: {{question}}')({ question: 'Why?' });
+    expect(modelCalls).toBe(2);
+
+    clock = 999;
+    await makePrompt({ store, ttlMs: 1000 })({ question: 'Why?' });
+    expect(modelCalls).toBe(2);
+
+    clock = 1000;
+    await makePrompt({ store, ttlMs: 1000 })({ question: 'Why?' });
+    expect(modelCalls).toBe(3);
+    expect(getLlmCacheStats()).toEqual(expect.objectContaining({ hits: 1, misses: 3, expired: 1 }));
+  });
+
+  test('should bypass the cache for excluded prompts and agents', async () => {
+    const store = new InMemoryLlmCacheStore();
+    const byPrompt = makePrompt({ store, exclude: ['testPrompt'] });
+    await byPrompt({ question: 'Why?' });
+    await byPrompt({ question: 'Why?' });
+
+    const byAgent = makePrompt({ store, exclude: ['CritiqueAgent'] });
+    await runWithModelUsageContext({ agent: 'CritiqueAgent' }, async () => {
+      await byAgent({ question: 'Why?' });
+      await byAgent({ question: 'Why?' });
+    });
+
+    expect(modelCalls).toBe(4);
+    expect(getLlmCacheStats()).toEqual(expect.objectContaining({ hits: 0, bypassed: 4 }));
+  });
+});
+
+describe.each<[string, () => Promise<LlmCacheStore>]>([
+  ['InMemoryLlmCacheStore', async () => new InMemoryLlmCacheStore()],
+  ['FsLlmCacheStore', async () => new FsLlmCacheStore(await fs.mkdtemp(path.join(os.tmpdir(), 'llm-cache-')))],
+  ['SqliteLlmCacheStore', async () => new SqliteLlmCacheStore(':memory:')],
+])('%s', (_name, createStore) => {
+  test('should store, overwrite and return entries by key', async () => {
+    const store = await createStore();
+    const entry = { key: 'ab12', flow: 'testPrompt', promptVersion: 'v1', output: { answer: 'yes' }, text: '{"answer":"yes"}', createdAt: '2026-01-01T00:00:00.000Z' };
+
+    expect(await store.get('ab12')).toBeUndefined();
+    await store.put(entry);
+    await store.put({ ...entry, output: { answer: 'no' } });
+
+    expect(await store.get('ab12')).toEqual({ ...entry, output: { answer: 'no' } });
+  });
+});
+
+describe('createLlmCacheOptionsFromEnv', () => {
+  test('should select a store, TTL and opt-outs from environment variables', () => {
+    expect(createLlmCacheOptionsFromEnv({})).toBeUndefined();
+    expect(createLlmCacheOptionsFromEnv({ LLM_CACHE: 'sqlite', LLM_CACHE_TTL_SECONDS: '60', LLM_CACHE_EXCLUDE: 'devilsAdvocatePrompt, PremortemAgent' }))
+      .toEqual(expect.objectContaining({ ttlMs: 60_000, exclude: ['devilsAdvocatePrompt', 'PremortemAgent'] }));
+    expect(createLlmCacheOptionsFromEnv({ LLM_CACHE: 'fs' })?.store.name).toBe('fs');
+    expect(() => createLlmCacheOptionsFromEnv({ LLM_CACHE: 'redis' })).toThrow('LLM_CACHE');
+    expect(() => createLlmCacheOptionsFromEnv({ LLM_CACHE: 'memory', LLM_CACHE_TTL_SECONDS: 'soon' })).toThrow('LLM_CACHE_TTL_SECONDS');
+  });
+});
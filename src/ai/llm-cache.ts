@@ -0,0 +1,292 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { Genkit } from 'genkit';
+import { hashValue, promptFingerprint } from './llm-cassettes';
+import { currentModelUsageContext } from './llm-usage';
+import { wrapPromptCalls } from './prompt-calls';
+
+/**
+ * @fileOverview Content-addressed, persistent cache of LLM responses.
+ *
+ * installLlmCache wraps `ai.definePrompt` prompts and `ai.generate` with wrapPromptCalls, like the cassette
+ * and usage layers.
+ * Each call is keyed by the SHA-256 of its model, sampling config, prompt template version (a hash of the
+ * template text and output schema, so editing a prompt invalidates its entries) and canonicalized input.
+ * A hit returns the stored output without calling the model; a miss calls it and stores the response.
+ * Unlike cassettes the cache never fails a call: misses go to the model and store errors are logged.
+ *
+ * - installLlmCache - Wraps an `ai` instance (called from genkit.ts when LLM_CACHE is not `off`).
+ * - LlmCacheStore - In-memory, file-per-entry and SQLite backends.
+ * - getLlmCacheStats - Hits, misses and writes since the last reset, in total and per prompt.
+ */
+
+export interface LlmCacheEntry {
+  key: string;
+  /** Prompt name, or `generate` for direct ai.generate calls. */
+  flow: string;
+  model?: string;
+  promptVersion: string;
+  output: unknown;
+  text: string;
+  createdAt: string;
+  /** Undefined when the entry never expires. */
+  expiresAt?: string;
+}
+
+export interface LlmCacheStore {
+  readonly name: string;
+  get(key: string): Promise<LlmCacheEntry | undefined>;
+  put(entry: LlmCacheEntry): Promise<void>;
+}
+
+export class InMemoryLlmCacheStore implements LlmCacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, LlmCacheEntry>();
+
+  async get(key: string): Promise<LlmCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async put(entry: LlmCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+}
+
+/** One JSON file per entry, fanned out by the first two hex digits of the key. */
+export class FsLlmCacheStore implements LlmCacheStore {
+  readonly name = 'fs';
+
+  constructor(private dir: string) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  async get(key: string): Promise<LlmCacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async put(entry: LlmCacheEntry): Promise<void> {
+    const file = this.fileFor(entry.key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempFile, file);
+  }
+}
+
+export class SqliteLlmCacheStore implements LlmCacheStore {
+  readonly name = 'sqlite';
+  private dbPromise: Promise<Database.Database> | null = null;
+
+  constructor(private dbPath: string) {}
+
+  // better-sqlite3 is a native module; load it on first use so other stores never need it.
+  private db(): Promise<Database.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = (async () => {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        if (this.dbPath !== ':memory:') await fs.mkdir(path.dirname(path.resolve(this.dbPath)), { recursive: true });
+        const db = new BetterSqlite3(this.dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(`CREATE TABLE IF NOT EXISTS llm_cache (
+          key TEXT PRIMARY KEY,
+          flow TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT,
+          entry_json TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS llm_cache_expires_at ON llm_cache (expires_at);`);
+        return db;
+      })();
+    }
+    return this.dbPromise;
+  }
+
+  async get(key: string): Promise<LlmCacheEntry | undefined> {
+    const db = await this.db();
+    const row = db.prepare('SELECT entry_json FROM llm_cache WHERE key = ?').get(key) as { entry_json: string } | undefined;
+    return row ? JSON.parse(row.entry_json) : undefined;
+  }
+
+  async put(entry: LlmCacheEntry): Promise<void> {
+    const db = await this.db();
+    db.prepare(`INSERT OR REPLACE INTO llm_cache (key, flow, created_at, expires_at, entry_json) VALUES (?, ?, ?, ?, ?)`)
+      .run(entry.key, entry.flow, entry.createdAt, entry.expiresAt ?? null, JSON.stringify(entry));
+  }
+}
+
+export interface LlmCacheCounts {
+  hits: number;
+  misses: number;
+}
+
+export interface LlmCacheStats extends LlmCacheCounts {
+  /** Misses caused by an entry past its TTL; also counted in `misses`. */
+  expired: number;
+  writes: number;
+  /** Calls that skipped the cache because their prompt or agent opted out. */
+  bypassed: number;
+  /** Reads and writes that failed; the call went to the model instead. */
+  errors: number;
+  byFlow: Record<string, LlmCacheCounts>;
+}
+
+const emptyStats = (): LlmCacheStats => ({ hits: 0, misses: 0, expired: 0, writes: 0, bypassed: 0, errors: 0, byFlow: {} });
+
+let stats = emptyStats();
+
+export function getLlmCacheStats(): LlmCacheStats {
+  return { ...stats, byFlow: Object.fromEntries(Object.entries(stats.byFlow).map(([flow, counts]) => [flow, { ...counts }])) };
+}
+
+export function resetLlmCacheStats(): void {
+  stats = emptyStats();
+}
+
+function count(flow: string, outcome: keyof LlmCacheCounts): void {
+  stats[outcome]++;
+  const counts = stats.byFlow[flow] ?? (stats.byFlow[flow] = { hits: 0, misses: 0 });
+  counts[outcome]++;
+}
+
+export interface LlmCacheOptions {
+  store: LlmCacheStore;
+  /** Entries older than this are refetched; undefined keeps them forever. */
+  ttlMs?: number;
+  /** Prompt names (e.g. `devilsAdvocatePrompt`) or agent names (e.g. `DevilsAdvocateAgent`) never served from the cache. */
+  exclude?: string[];
+  now?: () => number;
+}
+
+const sourceOf = (value: unknown) => typeof value === 'function' ? value.toString() : value;
+
+/** Hash of a prompt's template text, message builder and output schema; changes whenever the prompt is edited. */
+export function promptTemplateVersion(config: any): string {
+  return hashValue(promptFingerprint({
+    ...config,
+    system: sourceOf(config.system),
+    prompt: sourceOf(config.prompt),
+    messages: sourceOf(config.messages),
+  }));
+}
+
+export function llmCacheKey(parts: { model?: string; config?: unknown; promptVersion: string; input: unknown }): string {
+  return hashValue(parts);
+}
+
+function modelName(model: unknown): string | undefined {
+  return typeof model === 'string' ? model : (model as { name?: string } | undefined)?.name;
+}
+
+/** Minimal stand-in for a GenerateResponse; agents only read `output` and `text`. */
+function cachedResponse(entry: LlmCacheEntry): any {
+  return { output: entry.output, text: entry.text };
+}
+
+async function callThroughCache(
+  options: LlmCacheOptions,
+  flow: string,
+  key: { model?: string; config?: unknown; promptVersion: string; input: unknown },
+  call: () => Promise<any>,
+): Promise<any> {
+  const agent = currentModelUsageContext()?.agent;
+  if (options.exclude?.some(name => name === flow || name === agent)) {
+    stats.bypassed++;
+    return call();
+  }
+
+  const now = options.now ?? Date.now;
+  const cacheKey = llmCacheKey(key);
+  try {
+    const entry = await options.store.get(cacheKey);
+    if (entry && (!entry.expiresAt || Date.parse(entry.expiresAt) > now())) {
+      count(flow, 'hits');
+      return cachedResponse(entry);
+    }
+    if (entry) stats.expired++;
+  } catch (error: any) {
+    stats.errors++;
+    console.warn(`LlmCache: Could not read ${flow} from the ${options.store.name} store. Calling the model.`, { error: error?.message });
+  }
+  count(flow, 'misses');
+
+  const response = await call();
+  if (response?.output == null && !response?.text) return response;
+  const createdAt = now();
+  try {
+    await options.store.put({
+      key: cacheKey,
+      flow,
+      model: key.model,
+      promptVersion: key.promptVersion,
+      output: response.output ?? null,
+      text: response.text ?? '',
+      createdAt: new Date(createdAt).toISOString(),
+      expiresAt: options.ttlMs !== undefined ? new Date(createdAt + options.ttlMs).toISOString() : undefined,
+    });
+    stats.writes++;
+  } catch (error: any) {
+    stats.errors++;
+    console.warn(`LlmCache: Could not store ${flow} in the ${options.store.name} store.`, { error: error?.message });
+  }
+  return response;
+}
+
+/**
+ * Routes prompt and `ai.generate` calls through the cache. genkit.ts installs it after usage tracking, so
+ * hits are not recorded as model calls and do not count against session budgets. Streaming calls bypass
+ * the cache.
+ */
+export function installLlmCache(ai: Genkit, options: LlmCacheOptions): void {
+  // Hashing a template renders its schema, so each prompt's version is computed once, on its first call.
+  const promptVersions = new WeakMap<object, string>();
+  const promptVersionOf = (prompt: object) => {
+    if (!promptVersions.has(prompt)) promptVersions.set(prompt, promptTemplateVersion(prompt));
+    return promptVersions.get(prompt)!;
+  };
+  wrapPromptCalls(ai, (flow, model, call) => callThroughCache(options, flow, {
+    model: modelName(model),
+    config: call.config,
+    promptVersion: call.prompt ? promptVersionOf(call.prompt) : 'generate',
+    input: call.prompt ? call.input : promptFingerprint(call.input),
+  }, call.invoke));
+}
+
+/**
+ * Builds the cache selected by LLM_CACHE (off | fs | sqlite | memory), at LLM_CACHE_PATH, with
+ * LLM_CACHE_TTL_SECONDS and the comma-separated opt-outs of LLM_CACHE_EXCLUDE. Returns undefined for `off`,
+ * the default.
+ */
+export function createLlmCacheOptionsFromEnv(env: Record<string, string | undefined> = process.env): LlmCacheOptions | undefined {
+  const kind = env.LLM_CACHE || 'off';
+  let store: LlmCacheStore;
+  switch (kind) {
+    case 'off':
+      return undefined;
+    case 'fs':
+      store = new FsLlmCacheStore(env.LLM_CACHE_PATH || path.join('.data', 'llm-cache'));
+      break;
+    case 'sqlite':
+      store = new SqliteLlmCacheStore(env.LLM_CACHE_PATH || path.join('.data', 'llm-cache.db'));
+      break;
+    case 'memory':
+      store = new InMemoryLlmCacheStore();
+      break;
+    default:
+      throw new Error(`Unknown LLM_CACHE "${kind}". Expected off, fs, sqlite or memory.`);
+  }
+
+  const ttlSeconds = env.LLM_CACHE_TTL_SECONDS ? Number(env.LLM_CACHE_TTL_SECONDS) : undefined;
+  if (ttlSeconds !== undefined && !(ttlSeconds > 0)) {
+    throw new Error(`Invalid LLM_CACHE_TTL_SECONDS "${env.LLM_CACHE_TTL_SECONDS}". Expected a positive number of seconds.`);
+  }
+  const exclude = (env.LLM_CACHE_EXCLUDE ?? '').split(',').map(name => name.trim()).filter(Boolean);
+  return { store, ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined, exclude };
+}
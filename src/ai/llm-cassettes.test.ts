@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { genkit, z } from 'genkit';
+import {
+  assertMatchesRecordedResult,
+  CassetteDriftError,
+  CassetteMissError,
+  CassetteReplayError,
+  CassetteStore,
+  getCassetteViolations,
+  installCassettes,
+  resetCassetteViolations,
+  withReplayChecks,
+  type CassetteMode,
+} from './llm-cassettes';
+
+describe('installCassettes', () => {
+  let dir: string;
+  let modelCalls: number;
+
+  const makePrompt = (mode: CassetteMode, template: string) => {
+    const ai = genkit({});
+    ai.defineModel({ name: 'test/fake' }, async () => {
+      modelCalls++;
+      return { message: { role: 'model', content: [{ text: JSON.stringify({ answer: `answer ${modelCalls}` }) }] }, finishReason: 'stop' };
+    });
+    installCassettes(ai, { mode, store: new CassetteStore(dir) });
+    return ai.definePrompt({
+      name: 'testPrompt',
+      model: 'test/fake',
+      input: { schema: z.object({ question: z.string() }) },
+      output: { schema: z.object({ answer: z.string() }) },
+      prompt: template,
+    });
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+    modelCalls = 0;
+    resetCassetteViolations();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('should replay recorded outputs without calling the model', async () => {
+    const recorded = await makePrompt('record', 'Answer {{question}}')({ question: 'Why?' });
+    const replayed = await makePrompt('replay', 'Answer {{question}}')({ question: 'Why?' });
+
+    expect(replayed.output).toEqual(recorded.output);
+    expect(modelCalls).toBe(1);
+    expect(getCassetteViolations()).toHaveLength(0);
+  });
+
+  test('should fail loudly when the prompt drifts or the input was never recorded', async () => {
+    await makePrompt('record', 'Answer {{question}}')({ question: 'Why?' });
+    const drifted = makePrompt('replay', 'Answer carefully: {{question}}');
+
+    await expect(drifted({ question: 'Why?' })).rejects.toBeInstanceOf(CassetteDriftError);
+    await expect(drifted({ question: 'How?' })).rejects.toBeInstanceOf(CassetteMissError);
+    expect(getCassetteViolations()).toHaveLength(2);
+  });
+
+  test('should replay a recorded model failure as the same error', async () => {
+    const brokenPrompt = (mode: CassetteMode) => {
+      const ai = genkit({});
+      ai.defineModel({ name: 'test/broken' }, async () => {
+        modelCalls++;
+        throw new Error('model unavailable');
+      });
+      installCassettes(ai, { mode, store: new CassetteStore(dir) });
+      return ai.definePrompt({ name: 'brokenPrompt', model: 'test/broken', prompt: 'Answer' });
+    };
+
+    await expect(brokenPrompt('record')({})).rejects.toThrow('model unavailable');
+    await expect(brokenPrompt('replay')({})).rejects.toThrow('model unavailable');
+    expect(modelCalls).toBe(1);
+    expect(getCassetteViolations()).toHaveLength(0);
+  });
+
+  test('should fail a replayed run whose agent swallowed a drift and fell back to a default', async () => {
+    await makePrompt('record', 'Answer {{question}}')({ question: 'Why?' });
+    const drifted = makePrompt('replay', 'Answer carefully: {{question}}');
+    const agent = () => drifted({ question: 'Why?' }).then(response => response.output, () => ({ answer: 'default' }));
+    const store = new CassetteStore(dir);
+
+    await expect(withReplayChecks(agent, { mode: 'replay', store })).rejects.toThrow(CassetteReplayError);
+    await expect(withReplayChecks(agent, { mode: 'record', store })).resolves.toEqual({ answer: 'default' });
+  });
+});
+
+describe('assertMatchesRecordedResult', () => {
+  test('should ignore timestamps but reject any other difference', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+    const store = new CassetteStore(dir);
+    resetCassetteViolations();
+
+    assertMatchesRecordedResult('run', { answer: 'A', timestamp: '2024-01-01T00:00:00Z' }, { mode: 'record', store });
+
+    expect(() => assertMatchesRecordedResult('run', { answer: 'A', timestamp: '2025-01-01T00:00:00Z' }, { mode: 'replay', store })).not.toThrow();
+    expect(() => assertMatchesRecordedResult('run', { answer: 'B' }, { mode: 'replay', store })).toThrow(CassetteDriftError);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,291 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { Genkit } from 'genkit';
+import { toJsonSchema } from 'genkit/schema';
+import { wrapPromptCalls } from './prompt-calls';
+
+/**
+ * @fileOverview Record/replay layer for LLM calls, used to run the orchestrators offline and deterministically.
+ *
+ * With LLM_CASSETTE_MODE=record every prompt call made through `ai.definePrompt` prompts and `ai.generate`
+ * is stored in a cassette (one JSON file per prompt under LLM_CASSETTE_DIR, default `cassettes`), keyed by
+ * a hash of the prompt input. Each entry keeps the input, the rendered prompt, a hash of that render and
+ * the structured output, or the error message when the call failed. With LLM_CASSETTE_MODE=replay the
+ * outputs are served from the cassettes, recorded failures are thrown again, and no model is called.
+ *
+ * Replay fails loudly: a call without a recorded entry raises CassetteMissError, and a prompt whose
+ * rendered text or output schema changed since recording raises CassetteDriftError. Agents retry and then
+ * fall back to default outputs, so violations are also collected, and the orchestrator entry points run
+ * inside withReplayChecks, which throws CassetteReplayError when their run saw any.
+ *
+ * - installCassettes - Wraps an `ai` instance (called from genkit.ts when the mode is not `off`).
+ * - withReplayChecks - Fails a whole run in replay mode when any of its prompt calls missed or drifted.
+ * - CassetteStore - Reads and writes cassette files.
+ * - stripVolatileFields / assertMatchesRecordedResult - Compare a whole flow result against a recording.
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  flow: string;
+  inputHash: string;
+  input: unknown;
+  promptHash: string;
+  renderedPrompt: unknown;
+  model?: string;
+  output: unknown;
+  text: string;
+  /** Message of the error the call failed with, replayed as the same failure. */
+  error?: string;
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly flow: string, public readonly inputHash: string) {
+    super(`No cassette entry for ${flow} with input hash ${inputHash}. Re-record with LLM_CASSETTE_MODE=record.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class CassetteDriftError extends Error {
+  constructor(public readonly flow: string, public readonly inputHash: string, public readonly recordedHash: string, public readonly currentHash: string) {
+    super(`${flow} drifted from its cassette (input ${inputHash}): recorded prompt hash ${recordedHash}, current ${currentHash}. Re-record with LLM_CASSETTE_MODE=record.`);
+    this.name = 'CassetteDriftError';
+  }
+}
+
+export class CassetteReplayError extends Error {
+  constructor(public readonly violations: readonly Error[]) {
+    super(`Cassette replay failed with ${violations.length} violation(s):\n${violations.map(error => `- ${error.message}`).join('\n')}`);
+    this.name = 'CassetteReplayError';
+  }
+}
+
+/** JSON with object keys sorted, so equal values always serialize (and hash) identically. */
+export function stableStringify(value: unknown, indent?: number): string {
+  const normalize = (current: unknown): unknown => {
+    if (Array.isArray(current)) return current.map(normalize);
+    if (current && typeof current === 'object' && !(current instanceof Date)) {
+      return Object.fromEntries(
+        Object.keys(current as object).sort()
+          .filter(key => (current as Record<string, unknown>)[key] !== undefined)
+          .map(key => [key, normalize((current as Record<string, unknown>)[key])]),
+      );
+    }
+    return current;
+  };
+  return JSON.stringify(normalize(value), null, indent);
+}
+
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+export function cassetteModeFromEnv(env: Record<string, string | undefined> = process.env): CassetteMode {
+  const mode = env.LLM_CASSETTE_MODE || 'off';
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown LLM_CASSETTE_MODE "${mode}". Expected off, record or replay.`);
+  }
+  return mode;
+}
+
+export class CassetteStore {
+  private readonly cache = new Map<string, Record<string, CassetteEntry>>();
+
+  constructor(readonly dir: string) {}
+
+  private fileFor(flow: string): string {
+    return path.join(this.dir, `${flow.replace(/[^A-Za-z0-9_.-]/g, '_')}.json`);
+  }
+
+  private entriesFor(flow: string): Record<string, CassetteEntry> {
+    if (!this.cache.has(flow)) {
+      const file = this.fileFor(flow);
+      this.cache.set(flow, existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {});
+    }
+    return this.cache.get(flow)!;
+  }
+
+  get(flow: string, inputHash: string): CassetteEntry | undefined {
+    return this.entriesFor(flow)[inputHash];
+  }
+
+  put(entry: CassetteEntry): void {
+    const entries = this.entriesFor(entry.flow);
+    entries[entry.inputHash] = entry;
+    mkdirSync(this.dir, { recursive: true });
+    const file = this.fileFor(entry.flow);
+    const tempFile = `${file}.${process.pid}.tmp`;
+    writeFileSync(tempFile, stableStringify(entries, 2) + '\n');
+    renameSync(tempFile, file);
+  }
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  store: CassetteStore;
+}
+
+const violations: Error[] = [];
+
+/** Misses and drifts seen since the last reset, including ones an agent's retry loop swallowed. */
+export function getCassetteViolations(): readonly Error[] {
+  return violations;
+}
+
+export function resetCassetteViolations(): void {
+  violations.length = 0;
+}
+
+export function assertCassettesClean(): void {
+  if (violations.length > 0) throw new CassetteReplayError([...violations]);
+}
+
+function violation<E extends Error>(error: E): E {
+  violations.push(error);
+  console.error(`LLMCassettes: ${error.message}`);
+  return error;
+}
+
+/** The parts of a rendered request that determine the model's answer, minus model and sampling config. */
+export function promptFingerprint(request: any): unknown {
+  const output = request.output ?? {};
+  return {
+    system: request.system,
+    prompt: request.prompt,
+    messages: request.messages,
+    docs: request.docs,
+    tools: request.tools,
+    output: {
+      format: output.format,
+      schema: output.jsonSchema ?? (output.schema ? toJsonSchema({ schema: output.schema }) : undefined),
+    },
+  };
+}
+
+function modelName(request: any): string | undefined {
+  return typeof request.model === 'string' ? request.model : request.model?.name;
+}
+
+/** Minimal stand-in for a GenerateResponse; agents only read `output` and `text`. */
+function replayedResponse(entry: CassetteEntry): any {
+  return { output: entry.output, text: entry.text };
+}
+
+async function callThroughCassette(
+  options: CassetteOptions,
+  flow: string,
+  input: unknown,
+  rendered: unknown,
+  call: () => Promise<any>,
+): Promise<any> {
+  const inputHash = hashValue(input);
+  const promptHash = hashValue(promptFingerprint(rendered));
+
+  if (options.mode === 'replay') {
+    const entry = options.store.get(flow, inputHash);
+    if (!entry) throw violation(new CassetteMissError(flow, inputHash));
+    if (entry.promptHash !== promptHash) throw violation(new CassetteDriftError(flow, inputHash, entry.promptHash, promptHash));
+    if (entry.error !== undefined) throw new Error(entry.error);
+    return replayedResponse(entry);
+  }
+
+  const recorded = { flow, inputHash, input, promptHash, renderedPrompt: JSON.parse(stableStringify(promptFingerprint(rendered))), model: modelName(rendered) };
+  let response: any;
+  try {
+    response = await call();
+  } catch (error: any) {
+    // Failures are part of the run too: an agent falls back on them, and replay has to do the same.
+    options.store.put({ ...recorded, output: null, text: '', error: error?.message ?? String(error) });
+    throw error;
+  }
+  options.store.put({ ...recorded, output: response.output ?? null, text: response.text ?? '' });
+  return response;
+}
+
+/**
+ * Routes prompt and `ai.generate` calls through the cassette store. Prompt calls are keyed by the prompt
+ * name; direct `ai.generate` calls are keyed under `generate` by their whole request, so a changed request
+ * is reported as a miss.
+ */
+export function installCassettes(ai: Genkit, options: CassetteOptions): void {
+  if (options.mode === 'off') return;
+
+  wrapPromptCalls(ai, async (flow, _model, call) => {
+    const rendered = await call.render();
+    return callThroughCassette(options, flow, call.prompt ? call.input : promptFingerprint(rendered), rendered, call.invoke);
+  });
+}
+
+const VOLATILE_KEYS = new Set([
+  'timestamp', 'startedAt', 'completedAt', 'submittedAt', 'savedAt', 'expiresAt',
+  'durationMs', 'totalDurationMs', 'latencyMs', 'executionTime', 'totalExecutionTime',
+  'sessionId', 'reviewId', 'eventId',
+]);
+
+/** Drops wall-clock times, durations and generated IDs, which legitimately differ between runs. */
+export function stripVolatileFields<T>(value: T): T {
+  const strip = (current: unknown): unknown => {
+    if (Array.isArray(current)) return current.map(strip);
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(
+        Object.entries(current as Record<string, unknown>)
+          .filter(([key]) => !VOLATILE_KEYS.has(key))
+          .map(([key, child]) => [key, strip(child)]),
+      );
+    }
+    return current;
+  };
+  return strip(value) as T;
+}
+
+/**
+ * Records a flow result next to the cassettes (`results/<name>.json`) in record mode, and in replay mode
+ * throws CassetteDriftError unless the result is byte-identical to the recording once volatile fields
+ * are stripped. Also throws if any prompt call missed or drifted during the run.
+ */
+export function assertMatchesRecordedResult(name: string, result: unknown, options: CassetteOptions): void {
+  const file = path.join(options.store.dir, 'results', `${name.replace(/[^A-Za-z0-9_.-]/g, '_')}.json`);
+  const serialized = stableStringify(stripVolatileFields(result), 2) + '\n';
+
+  if (options.mode === 'record') {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, serialized);
+    return;
+  }
+  if (options.mode === 'replay') {
+    assertCassettesClean();
+    if (!existsSync(file)) throw new CassetteMissError(`results/${name}`, hashValue(name));
+    const recorded = readFileSync(file, 'utf8');
+    if (recorded !== serialized) {
+      throw new CassetteDriftError(`results/${name}`, hashValue(name), hashValue(recorded), hashValue(serialized));
+    }
+  }
+}
+
+let activeOptions: CassetteOptions | undefined;
+
+/**
+ * Runs an orchestrator entry point. In replay mode, throws CassetteReplayError once it returns if any prompt
+ * call missed or drifted meanwhile, even when an agent's retries turned the violation into a default output.
+ * Runs replayed at the same time share the violations, so one run's drift fails both.
+ */
+export async function withReplayChecks<T>(run: () => Promise<T>, options: CassetteOptions | undefined = activeOptions): Promise<T> {
+  if (options?.mode !== 'replay') return run();
+  const seenBefore = violations.length;
+  const result = await run();
+  if (violations.length > seenBefore) throw new CassetteReplayError(violations.slice(seenBefore));
+  return result;
+}
+
+/** The options installed by genkit.ts, or undefined when LLM_CASSETTE_MODE is off. */
+export function getActiveCassetteOptions(): CassetteOptions | undefined {
+  return activeOptions;
+}
+
+export function createCassetteOptionsFromEnv(env: Record<string, string | undefined> = process.env): CassetteOptions | undefined {
+  const mode = cassetteModeFromEnv(env);
+  if (mode === 'off') return undefined;
+  activeOptions = { mode, store: new CassetteStore(path.resolve(env.LLM_CASSETTE_DIR || 'cassettes')) };
+  return activeOptions;
+}
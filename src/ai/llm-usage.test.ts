@@ -0,0 +1,78 @@
+import { genkit, z } from 'genkit';
+import {
+  addModelCall,
+  installModelUsageTracking,
+  runWithModelUsageContext,
+  type ModelCallRecord,
+} from './llm-usage';
+
+describe('installModelUsageTracking', () => {
+  let calls: ModelCallRecord[];
+
+  const makePrompt = () => {
+    const ai = genkit({});
+    ai.defineModel({ name: 'test/fake' }, async () => ({
+      message: { role: 'model', content: [{ text: JSON.stringify({ answer: 'yes' }) }] },
+      finishReason: 'stop',
+      usage: { inputTokens: 1200, outputTokens: 300 },
+    }));
+    installModelUsageTracking(ai, {
+      defaultModel: 'test/default',
+      costOf: (model, inputTokens, outputTokens) => model === 'test/fake' ? (inputTokens + outputTokens) / 1_000_000 : undefined,
+      onCall: record => calls.push(record),
+    });
+    return ai.definePrompt({
+      name: 'testPrompt',
+      model: 'test/fake',
+      input: { schema: z.object({ question: z.string() }) },
+      output: { schema: z.object({ answer: z.string() }) },
+      prompt: 'Answer {{question}}',
+    });
+  };
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  test('should record the tokens, model and cost the response reports', async () => {
+    const response = await makePrompt()({ question: 'Why?' });
+
+    expect(response.output).toEqual({ answer: 'yes' });
+    expect(calls).toEqual([expect.objectContaining({
+      flow: 'testPrompt', model: 'test/fake', inputTokens: 1200, outputTokens: 300, costUSD: 0.0015, success: true,
+    })]);
+  });
+
+  test('should attribute calls to the enclosing context and pass them to its listeners', async () => {
+    const prompt = makePrompt();
+    const sessionCalls: ModelCallRecord[] = [];
+
+    await runWithModelUsageContext({ sessionId: 's1', phase: 'Phase 1', onCall: record => sessionCalls.push(record) }, () =>
+      runWithModelUsageContext({ agent: 'CriticAgent' }, () => prompt({ question: 'Why?' })));
+    await prompt({ question: 'How?' });
+
+    expect(sessionCalls).toEqual([expect.objectContaining({ sessionId: 's1', phase: 'Phase 1', agent: 'CriticAgent' })]);
+    expect(calls[1]).toEqual(expect.objectContaining({ sessionId: undefined, phase: undefined, agent: undefined }));
+  });
+});
+
+describe('addModelCall', () => {
+  const call = (overrides: Partial<ModelCallRecord>): ModelCallRecord => ({
+    flow: 'criticPrompt', model: 'googleai/gemini-2.0-flash', inputTokens: 100, outputTokens: 50, latencyMs: 10,
+    costUSD: 0.001, success: true, timestamp: '2026-01-01T00:00:00.000Z', ...overrides,
+  });
+
+  test('should roll calls up by agent, phase and model and count unpriced and failed calls', () => {
+    let usage = addModelCall(undefined, call({ agent: 'CriticAgent', phase: 'Phase 3' }));
+    usage = addModelCall(usage, call({ agent: 'CriticAgent', phase: 'Phase 3', model: 'local/llama3.1', costUSD: undefined }));
+    usage = addModelCall(usage, call({ inputTokens: 0, outputTokens: 0, success: false }));
+
+    expect(usage.total).toEqual({
+      calls: 3, failedCalls: 1, inputTokens: 200, outputTokens: 100, totalTokens: 300, latencyMs: 30, costUSD: 0.002, unpricedCalls: 1,
+    });
+    expect(usage.byAgent.CriticAgent.calls).toBe(2);
+    expect(usage.byAgent.criticPrompt.failedCalls).toBe(1);
+    expect(usage.byPhase.unattributed.calls).toBe(1);
+    expect(usage.byModel['local/llama3.1'].unpricedCalls).toBe(1);
+  });
+});
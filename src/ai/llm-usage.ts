@@ -0,0 +1,170 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z, type Genkit } from 'genkit';
+import { wrapPromptCalls } from './prompt-calls';
+
+/**
+ * @fileOverview Token, latency and cost accounting for every LLM call.
+ *
+ * installModelUsageTracking wraps `ai.definePrompt` prompts and `ai.generate` with wrapPromptCalls, like the
+ * cassette layer, and records each call's input and output tokens (from the response's `usage`), latency
+ * and model ID. Calls are attributed to whatever session, phase and agent the caller declared with
+ * runWithModelUsageContext; the master orchestrator declares the session around each phase and the agent
+ * around each agent call.
+ *
+ * - installModelUsageTracking - Wraps an `ai` instance (called from genkit.ts).
+ * - runWithModelUsageContext - Attributes the calls made inside a function, and optionally collects them.
+ * - ModelUsageSchema / addModelCall - Totals per agent, phase and model, plus the grand total.
+ */
+
+export interface ModelCallRecord {
+  /** Prompt name, or `generate` for direct ai.generate calls. */
+  flow: string;
+  model: string;
+  sessionId?: string;
+  phase?: string;
+  agent?: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** Undefined when the price table has no entry for the model. */
+  costUSD?: number;
+  success: boolean;
+  timestamp: string;
+}
+
+export const ModelUsageTotalsSchema = z.object({
+  calls: z.number(),
+  failedCalls: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  totalTokens: z.number(),
+  latencyMs: z.number(),
+  costUSD: z.number().describe('Cost of the priced calls'),
+  unpricedCalls: z.number().describe('Calls to models without a price, left out of costUSD'),
+});
+export type ModelUsageTotals = z.infer<typeof ModelUsageTotalsSchema>;
+
+export const ModelUsageSchema = z.object({
+  total: ModelUsageTotalsSchema,
+  byAgent: z.record(z.string(), ModelUsageTotalsSchema),
+  byPhase: z.record(z.string(), ModelUsageTotalsSchema),
+  byModel: z.record(z.string(), ModelUsageTotalsSchema),
+});
+export type ModelUsage = z.infer<typeof ModelUsageSchema>;
+
+export function emptyModelUsageTotals(): ModelUsageTotals {
+  return { calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, costUSD: 0, unpricedCalls: 0 };
+}
+
+export function emptyModelUsage(): ModelUsage {
+  return { total: emptyModelUsageTotals(), byAgent: {}, byPhase: {}, byModel: {} };
+}
+
+function addToTotals(totals: ModelUsageTotals | undefined, record: ModelCallRecord): ModelUsageTotals {
+  const current = totals ?? emptyModelUsageTotals();
+  return {
+    calls: current.calls + 1,
+    failedCalls: current.failedCalls + (record.success ? 0 : 1),
+    inputTokens: current.inputTokens + record.inputTokens,
+    outputTokens: current.outputTokens + record.outputTokens,
+    totalTokens: current.totalTokens + record.inputTokens + record.outputTokens,
+    latencyMs: current.latencyMs + record.latencyMs,
+    costUSD: current.costUSD + (record.costUSD ?? 0),
+    unpricedCalls: current.unpricedCalls + (record.costUSD === undefined ? 1 : 0),
+  };
+}
+
+/** Calls without an agent are attributed to their prompt, calls outside a phase to `unattributed`. */
+export function addModelCall(usage: ModelUsage | undefined, record: ModelCallRecord): ModelUsage {
+  const current = usage ?? emptyModelUsage();
+  const agent = record.agent ?? record.flow;
+  const phase = record.phase ?? 'unattributed';
+  return {
+    total: addToTotals(current.total, record),
+    byAgent: { ...current.byAgent, [agent]: addToTotals(current.byAgent[agent], record) },
+    byPhase: { ...current.byPhase, [phase]: addToTotals(current.byPhase[phase], record) },
+    byModel: { ...current.byModel, [record.model]: addToTotals(current.byModel[record.model], record) },
+  };
+}
+
+export interface ModelUsageContext {
+  sessionId?: string;
+  phase?: string;
+  agent?: string;
+  /** Receives the calls made inside this context, including nested ones. */
+  onCall?: (record: ModelCallRecord) => void;
+}
+
+interface ActiveContext extends Omit<ModelUsageContext, 'onCall'> {
+  listeners: ((record: ModelCallRecord) => void)[];
+}
+
+const contextStorage = new AsyncLocalStorage<ActiveContext>();
+
+/** Runs `fn` with the given attribution; fields left out are inherited from the enclosing context. */
+export function runWithModelUsageContext<T>(context: ModelUsageContext, fn: () => T): T {
+  const parent = contextStorage.getStore();
+  const { onCall, ...attribution } = context;
+  const defined = Object.fromEntries(Object.entries(attribution).filter(([, value]) => value !== undefined));
+  return contextStorage.run({
+    ...parent, ...defined,
+    listeners: [...(parent?.listeners ?? []), ...(onCall ? [onCall] : [])],
+  }, fn);
+}
+
+/** The session, phase and agent the current call would be attributed to. */
+export function currentModelUsageContext(): Omit<ModelUsageContext, 'onCall'> | undefined {
+  const context = contextStorage.getStore();
+  return context && { sessionId: context.sessionId, phase: context.phase, agent: context.agent };
+}
+
+export interface ModelUsageTrackingOptions {
+  /** Model reported for prompts and generate calls that do not name one. */
+  defaultModel: string;
+  /** USD cost of one call, or undefined when the model has no price. */
+  costOf?: (model: string, inputTokens: number, outputTokens: number) => number | undefined;
+  /** Receives every call, wherever it was made. */
+  onCall?: (record: ModelCallRecord) => void;
+}
+
+function modelOf(model: unknown, fallback: string): string {
+  if (typeof model === 'string') return model;
+  return (model as { name?: string } | undefined)?.name ?? fallback;
+}
+
+async function trackCall(options: ModelUsageTrackingOptions, flow: string, model: string, call: () => Promise<any>): Promise<any> {
+  const context = contextStorage.getStore();
+  const startTime = Date.now();
+  const record = (success: boolean, usage: { inputTokens?: number; outputTokens?: number } | undefined) => {
+    const inputTokens = usage?.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? 0;
+    const entry: ModelCallRecord = {
+      flow, model, sessionId: context?.sessionId, phase: context?.phase, agent: context?.agent,
+      inputTokens, outputTokens, latencyMs: Date.now() - startTime,
+      costUSD: options.costOf?.(model, inputTokens, outputTokens),
+      success, timestamp: new Date().toISOString(),
+    };
+    // Accounting must never fail the call it accounts for.
+    for (const listener of [...(options.onCall ? [options.onCall] : []), ...(context?.listeners ?? [])]) {
+      try { listener(entry); } catch (error: any) {
+        console.warn(`ModelUsage: Listener threw while recording ${flow}. Ignoring.`, { error: error?.message });
+      }
+    }
+  };
+  try {
+    const response = await call();
+    record(true, response?.usage);
+    return response;
+  } catch (error) {
+    record(false, undefined);
+    throw error;
+  }
+}
+
+/**
+ * Records every prompt and `ai.generate` call. genkit.ts installs it after the cassette layer, so replayed
+ * calls are recorded too (without tokens, since cassettes keep no usage).
+ */
+export function installModelUsageTracking(ai: Genkit, options: ModelUsageTrackingOptions): void {
+  wrapPromptCalls(ai, (flow, model, call) => trackCall(options, flow, modelOf(model, options.defaultModel), call.invoke));
+}
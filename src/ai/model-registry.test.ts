@@ -0,0 +1,68 @@
+import path from 'path';
+import {
+  exampleForJsonSchema,
+  loadModelRegistryConfig,
+  modelCallCost,
+  modelNameForProfile,
+  resolveModelProfile,
+} from './model-registry';
+
+const EXAMPLE_CONFIG_PATH = path.join(__dirname, '..', '..', 'models.config.example.json');
+
+describe('loadModelRegistryConfig', () => {
+  test('should fall back to Gemini when neither a config file nor a local model is configured', () => {
+    const config = loadModelRegistryConfig({ MODEL_CONFIG_PATH: undefined });
+
+    expect(modelNameForProfile(resolveModelProfile('CriticAgent', config), config)).toBe('googleai/gemini-2.0-flash');
+  });
+
+  test('should select a local Ollama model from the environment', () => {
+    const config = loadModelRegistryConfig({ OLLAMA_MODEL: 'llama3.1' });
+
+    expect(config.providers.ollama).toEqual(expect.objectContaining({ type: 'ollama', baseUrl: 'http://localhost:11434' }));
+    expect(modelNameForProfile(resolveModelProfile('CriticAgent', config), config)).toBe('ollama/llama3.1');
+  });
+
+  test('should reject a missing config file named by MODEL_CONFIG_PATH', () => {
+    expect(() => loadModelRegistryConfig({ MODEL_CONFIG_PATH: '/nonexistent/models.json' })).toThrow('MODEL_CONFIG_PATH');
+  });
+});
+
+describe('resolveModelProfile', () => {
+  const config = loadModelRegistryConfig({ MODEL_CONFIG_PATH: EXAMPLE_CONFIG_PATH });
+
+  test('should resolve named profiles, partial overrides and the default', () => {
+    expect(resolveModelProfile('DynamicRoutingCoordinator', config)).toEqual({ provider: 'local', model: 'llama3.1', temperature: 0.2 });
+    expect(resolveModelProfile('CriticAgent', config)).toEqual({ provider: 'google', model: 'gemini-2.0-flash', temperature: 0.2 });
+    expect(resolveModelProfile('UnlistedAgent', config)).toEqual({ provider: 'google', model: 'gemini-2.0-flash', temperature: 0.7 });
+  });
+
+  test('should name non-Google models after their provider ID', () => {
+    expect(modelNameForProfile(resolveModelProfile('SynthesisEnsembleAgent', config), config)).toBe('vllm/Qwen/Qwen2.5-72B-Instruct');
+  });
+});
+
+describe('modelCallCost', () => {
+  const config = loadModelRegistryConfig({ MODEL_CONFIG_PATH: EXAMPLE_CONFIG_PATH });
+
+  test('should price input and output tokens per million and leave unpriced models undefined', () => {
+    expect(modelCallCost('googleai/gemini-2.0-flash', 1_000_000, 500_000, config)).toBeCloseTo(0.3);
+    expect(modelCallCost('local/llama3.1', 2000, 1000, config)).toBe(0);
+    expect(modelCallCost('vllm/Qwen/Qwen2.5-72B-Instruct', 2000, 1000, config)).toBeUndefined();
+  });
+});
+
+describe('exampleForJsonSchema', () => {
+  test('should produce a value the stub model can return for a structured output schema', () => {
+    const example = exampleForJsonSchema({
+      type: 'object',
+      properties: {
+        severity: { type: 'string', enum: ['high', 'low'] },
+        score: { type: 'number', minimum: 1, maximum: 10 },
+        sources: { type: 'array', items: { type: 'string' }, minItems: 2 },
+      },
+    });
+
+    expect(example).toEqual({ severity: 'high', score: 1, sources: ['stub', 'stub'] });
+  });
+});
@@ -0,0 +1,338 @@
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { z, type Genkit, type GenerateRequest, type GenerateResponseData, type MessageData } from 'genkit';
+
+/**
+ * @fileOverview Maps each agent (by its AGENT_NAME) to a provider/model/temperature profile.
+ *
+ * The registry is read from the JSON file at MODEL_CONFIG_PATH (default `models.config.json`).
+ * Without a file it is derived from the environment: USE_STUB_MODEL=true selects the offline stub model,
+ * OLLAMA_MODEL selects a local Ollama model, OPENAI_COMPAT_BASE_URL + OPENAI_COMPAT_MODEL select an
+ * OpenAI-compatible endpoint, and otherwise Google AI `gemini-2.0-flash` is used.
+ *
+ * - loadModelRegistryConfig / getModelRegistryConfig - Read and validate the configuration.
+ * - resolveModelProfile - The effective profile for an agent (default profile + agent override).
+ * - defaultModelName - The Genkit default model.
+ * - modelOptionsFor - `{ model, config }` to spread into ai.definePrompt / ai.generate.
+ * - registerConfiguredModels - Defines the OpenAI-compatible, Ollama and stub models with Genkit.
+ * - modelCallCost - USD cost of a call from the `pricing` table.
+ */
+
+const ProviderSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('googleai'), apiKeyEnv: z.string().default('GOOGLE_AI_API_KEY') }),
+  z.object({
+    type: z.literal('openai-compatible'),
+    baseUrl: z.string().url().describe('Base URL including the version segment, e.g. https://api.openai.com/v1'),
+    apiKeyEnv: z.string().optional(),
+    timeoutMs: z.number().int().positive().default(120000),
+  }),
+  z.object({
+    type: z.literal('ollama'),
+    baseUrl: z.string().url().default('http://localhost:11434'),
+    timeoutMs: z.number().int().positive().default(300000),
+  }),
+  z.object({ type: z.literal('stub') }).describe('Offline model that answers with a minimal value matching the requested output schema'),
+]);
+export type ModelProvider = z.infer<typeof ProviderSchema>;
+
+const ModelProfileSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+});
+export type ModelProfile = z.infer<typeof ModelProfileSchema>;
+
+const ModelPriceSchema = z.object({
+  inputPerMillionTokens: z.number().min(0),
+  outputPerMillionTokens: z.number().min(0),
+});
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+const ModelRegistryConfigSchema = z.object({
+  providers: z.record(z.string(), ProviderSchema),
+  profiles: z.record(z.string(), ModelProfileSchema).default({}),
+  /** Profile name or inline profile used by every agent without an override. */
+  default: z.union([z.string(), ModelProfileSchema]),
+  /** Keyed by AGENT_NAME: a profile name, or fields that override the default profile. */
+  agents: z.record(z.string(), z.union([z.string(), ModelProfileSchema.partial()])).default({}),
+  /** USD per million tokens, keyed by Genkit model name (e.g. `googleai/gemini-2.0-flash`); unlisted models are not costed. */
+  pricing: z.record(z.string(), ModelPriceSchema).optional(),
+});
+export type ModelRegistryConfig = z.infer<typeof ModelRegistryConfigSchema>;
+
+const GOOGLE_AI_PLUGIN_PREFIX = 'googleai';
+
+function validateConfig(config: ModelRegistryConfig, source: string): ModelRegistryConfig {
+  const profileNames = new Set(Object.keys(config.profiles));
+  const checkProfile = (profile: Partial<ModelProfile> | string, where: string) => {
+    if (typeof profile === 'string') {
+      if (!profileNames.has(profile)) throw new Error(`${source}: ${where} references unknown profile "${profile}".`);
+      return;
+    }
+    if (profile.provider && !config.providers[profile.provider]) {
+      throw new Error(`${source}: ${where} references unknown provider "${profile.provider}".`);
+    }
+  };
+  for (const [id, provider] of Object.entries(config.providers)) {
+    if (provider.type !== 'googleai' && id === GOOGLE_AI_PLUGIN_PREFIX) {
+      throw new Error(`${source}: provider ID "${GOOGLE_AI_PLUGIN_PREFIX}" is reserved for the Google AI plugin.`);
+    }
+  }
+  Object.entries(config.profiles).forEach(([name, profile]) => checkProfile(profile, `profile "${name}"`));
+  checkProfile(config.default, 'default');
+  Object.entries(config.agents).forEach(([agent, profile]) => checkProfile(profile, `agent "${agent}"`));
+  return config;
+}
+
+function configFromEnv(env: Record<string, string | undefined>): ModelRegistryConfig {
+  if (env.USE_STUB_MODEL === 'true') {
+    return {
+      providers: { stub: { type: 'stub' } },
+      profiles: {}, agents: {},
+      default: { provider: 'stub', model: 'schema-example' },
+    };
+  }
+  if (env.OLLAMA_MODEL) {
+    return {
+      providers: { ollama: { type: 'ollama', baseUrl: env.OLLAMA_BASE_URL || 'http://localhost:11434', timeoutMs: 300000 } },
+      profiles: {}, agents: {},
+      default: { provider: 'ollama', model: env.OLLAMA_MODEL },
+    };
+  }
+  if (env.OPENAI_COMPAT_BASE_URL && env.OPENAI_COMPAT_MODEL) {
+    return {
+      providers: { openai: { type: 'openai-compatible', baseUrl: env.OPENAI_COMPAT_BASE_URL, apiKeyEnv: 'OPENAI_COMPAT_API_KEY', timeoutMs: 120000 } },
+      profiles: {}, agents: {},
+      default: { provider: 'openai', model: env.OPENAI_COMPAT_MODEL },
+    };
+  }
+  return {
+    providers: { google: { type: 'googleai', apiKeyEnv: 'GOOGLE_AI_API_KEY' } },
+    profiles: {}, agents: {},
+    default: { provider: 'google', model: 'gemini-2.0-flash' },
+  };
+}
+
+/**
+ * Reads the registry from MODEL_CONFIG_PATH (or `models.config.json` in the working directory),
+ * falling back to an environment-derived single-model configuration.
+ */
+export function loadModelRegistryConfig(env: Record<string, string | undefined> = process.env): ModelRegistryConfig {
+  const configPath = path.resolve(env.MODEL_CONFIG_PATH || 'models.config.json');
+  if (!existsSync(configPath)) {
+    if (env.MODEL_CONFIG_PATH) throw new Error(`MODEL_CONFIG_PATH points to ${configPath}, which does not exist.`);
+    return configFromEnv(env);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read model registry config ${configPath}: ${error?.message ?? String(error)}`);
+  }
+  const parsed = ModelRegistryConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid model registry config ${configPath}: ${parsed.error.message}`);
+  }
+  return validateConfig(parsed.data, configPath);
+}
+
+let activeConfig: ModelRegistryConfig | undefined;
+
+export function getModelRegistryConfig(): ModelRegistryConfig {
+  if (!activeConfig) activeConfig = loadModelRegistryConfig();
+  return activeConfig;
+}
+
+/** Overrides the process-wide configuration (undefined reloads it on next use). Must run before genkit.ts is imported to affect registered models. */
+export function setModelRegistryConfig(config: ModelRegistryConfig | undefined): void {
+  activeConfig = config === undefined ? undefined : validateConfig(config, 'setModelRegistryConfig');
+}
+
+function defaultProfile(config: ModelRegistryConfig): ModelProfile {
+  return typeof config.default === 'string' ? config.profiles[config.default] : config.default;
+}
+
+export function resolveModelProfile(agentName: string, config: ModelRegistryConfig = getModelRegistryConfig()): ModelProfile {
+  const base = defaultProfile(config);
+  const override = config.agents[agentName];
+  if (override === undefined) return base;
+  return typeof override === 'string' ? config.profiles[override] : { ...base, ...override };
+}
+
+/** Genkit model name for a profile, e.g. `googleai/gemini-2.0-flash` or `local/llama3.1`. */
+export function modelNameForProfile(profile: ModelProfile, config: ModelRegistryConfig = getModelRegistryConfig()): string {
+  const provider = config.providers[profile.provider];
+  return provider?.type === 'googleai' ? `${GOOGLE_AI_PLUGIN_PREFIX}/${profile.model}` : `${profile.provider}/${profile.model}`;
+}
+
+/** Genkit model name used when an agent has no override (and for calls without an agent). */
+export function defaultModelName(config: ModelRegistryConfig = getModelRegistryConfig()): string {
+  return modelNameForProfile(defaultProfile(config), config);
+}
+
+/** Model and generation config for an agent, ready to spread into ai.definePrompt or ai.generate options. */
+export function modelOptionsFor(agentName: string): { model: string; config: { temperature?: number; maxOutputTokens?: number } } {
+  const config = getModelRegistryConfig();
+  const profile = resolveModelProfile(agentName, config);
+  const generationConfig: { temperature?: number; maxOutputTokens?: number } = {};
+  if (profile.temperature !== undefined) generationConfig.temperature = profile.temperature;
+  if (profile.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = profile.maxOutputTokens;
+  return { model: modelNameForProfile(profile, config), config: generationConfig };
+}
+
+/** USD cost of one call, or undefined when the pricing table has no entry for the model. */
+export function modelCallCost(model: string, inputTokens: number, outputTokens: number, config: ModelRegistryConfig = getModelRegistryConfig()): number | undefined {
+  const price = config.pricing?.[model];
+  if (!price) return undefined;
+  return (inputTokens * price.inputPerMillionTokens + outputTokens * price.outputPerMillionTokens) / 1_000_000;
+}
+
+/** API key for the Google AI plugin, or undefined when no Google AI provider is configured or its key is unset. */
+export function googleAIApiKey(config: ModelRegistryConfig = getModelRegistryConfig(), env: Record<string, string | undefined> = process.env): string | undefined {
+  const provider = Object.values(config.providers).find(p => p.type === 'googleai');
+  return provider?.type === 'googleai' ? env[provider.apiKeyEnv] : undefined;
+}
+
+function allProfiles(config: ModelRegistryConfig): ModelProfile[] {
+  const profiles = [...Object.values(config.profiles), defaultProfile(config)];
+  for (const agentName of Object.keys(config.agents)) profiles.push(resolveModelProfile(agentName, config));
+  return profiles;
+}
+
+function messageText(message: MessageData): string {
+  return message.content.map(part => part.text ?? '').join('');
+}
+
+function toChatMessages(messages: MessageData[]): { role: string; content: string }[] {
+  return messages.map(message => ({
+    role: message.role === 'model' ? 'assistant' : message.role === 'tool' ? 'user' : message.role,
+    content: messageText(message),
+  }));
+}
+
+function toFinishReason(reason: string | undefined): 'stop' | 'length' | 'other' {
+  if (reason === 'stop') return 'stop';
+  if (reason === 'length') return 'length';
+  return 'other';
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, timeoutMs: number, providerLabel: string): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${providerLabel} request failed with status ${response.status}: ${detail.substring(0, 300)}`);
+  }
+  return response.json();
+}
+
+async function callOpenAICompatible(provider: Extract<ModelProvider, { type: 'openai-compatible' }>, model: string, request: GenerateRequest, env: Record<string, string | undefined>): Promise<GenerateResponseData> {
+  const apiKey = provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined;
+  const config = (request.config ?? {}) as { temperature?: number; maxOutputTokens?: number };
+  const data = await postJson(`${provider.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    model,
+    messages: toChatMessages(request.messages),
+    temperature: config.temperature,
+    max_tokens: config.maxOutputTokens,
+  }, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, provider.timeoutMs, `OpenAI-compatible endpoint ${provider.baseUrl}`);
+  const choice = data?.choices?.[0];
+  return {
+    message: { role: 'model', content: [{ text: choice?.message?.content ?? '' }] },
+    finishReason: toFinishReason(choice?.finish_reason),
+    usage: { inputTokens: data?.usage?.prompt_tokens, outputTokens: data?.usage?.completion_tokens },
+  };
+}
+
+async function callOllama(provider: Extract<ModelProvider, { type: 'ollama' }>, model: string, request: GenerateRequest): Promise<GenerateResponseData> {
+  const config = (request.config ?? {}) as { temperature?: number; maxOutputTokens?: number };
+  const data = await postJson(`${provider.baseUrl.replace(/\/$/, '')}/api/chat`, {
+    model,
+    messages: toChatMessages(request.messages),
+    stream: false,
+    options: { temperature: config.temperature, num_predict: config.maxOutputTokens },
+  }, {}, provider.timeoutMs, `Ollama at ${provider.baseUrl}`);
+  return {
+    message: { role: 'model', content: [{ text: data?.message?.content ?? '' }] },
+    finishReason: toFinishReason(data?.done_reason),
+    usage: { inputTokens: data?.prompt_eval_count, outputTokens: data?.eval_count },
+  };
+}
+
+/**
+ * Smallest value that satisfies a JSON schema: the first enum/const/union option, minimums for numbers,
+ * `minItems` copies of the item example for arrays (at least one), and every declared property for objects.
+ */
+export function exampleForJsonSchema(schema: any): unknown {
+  if (!schema || typeof schema !== 'object') return null;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  const options = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(options) && options.length > 0) return exampleForJsonSchema(options.find((option: any) => option?.type !== 'null') ?? options[0]);
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) return exampleForJsonSchema(Object.assign({}, ...schema.allOf));
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') ?? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => [key, exampleForJsonSchema(property)]));
+    case 'array':
+      return Array.from({ length: Math.max(1, schema.minItems ?? 0) }, () => exampleForJsonSchema(schema.items));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0);
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'string': {
+      const text = schema.format === 'date-time' ? new Date(0).toISOString() : schema.format === 'uri' || schema.format === 'url' ? 'https://example.com' : 'stub';
+      return text.padEnd(schema.minLength ?? 0, '.');
+    }
+    default:
+      return 'stub';
+  }
+}
+
+function callStub(request: GenerateRequest): GenerateResponseData {
+  const schema = request.output?.schema;
+  const text = schema ? JSON.stringify(exampleForJsonSchema(schema)) : 'Stub model response.';
+  return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+}
+
+/**
+ * Defines a Genkit model for every OpenAI-compatible, Ollama or stub (provider, model) pair referenced
+ * by the configuration. Google AI models come from the googleAI plugin instead.
+ *
+ * The remote models do not declare constrained output: not every OpenAI-compatible server accepts a JSON
+ * schema, so Genkit injects the output schema into the prompt and extracts JSON from the reply. The stub
+ * does, so that it receives the schema it has to satisfy.
+ */
+export function registerConfiguredModels(ai: Genkit, config: ModelRegistryConfig = getModelRegistryConfig(), env: Record<string, string | undefined> = process.env): string[] {
+  const registered: string[] = [];
+  for (const profile of allProfiles(config)) {
+    const provider = config.providers[profile.provider];
+    const name = modelNameForProfile(profile, config);
+    if (!provider || provider.type === 'googleai' || registered.includes(name)) continue;
+    if (provider.type === 'stub') {
+      ai.defineModel({
+        name,
+        label: `Stub - ${profile.model}`,
+        supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'all' },
+      }, async (request) => callStub(request));
+      registered.push(name);
+      continue;
+    }
+    ai.defineModel({
+      name,
+      label: `${provider.type === 'ollama' ? 'Ollama' : 'OpenAI-compatible'} - ${profile.model}`,
+      supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'] },
+    }, (request) => provider.type === 'ollama'
+      ? callOllama(provider, profile.model, request)
+      : callOpenAICompatible(provider, profile.model, request, env));
+    registered.push(name);
+  }
+  return registered;
+}
@@ -0,0 +1,61 @@
+import { genkit, z } from 'genkit';
+import { wrapPromptCalls } from './prompt-calls';
+
+describe('wrapPromptCalls', () => {
+  const makeAi = () => {
+    const ai = genkit({ model: 'test/fake' });
+    ai.defineModel({ name: 'test/fake' }, async () => ({
+      message: { role: 'model', content: [{ text: JSON.stringify({ answer: 'yes' }) }] },
+      finishReason: 'stop',
+    }));
+    return ai;
+  };
+
+  test('should run the last installed wrapper first and pass it the prompt, model, input and merged config', async () => {
+    const ai = makeAi();
+    const seen: string[] = [];
+    wrapPromptCalls(ai, (flow, model, call) => {
+      seen.push(`inner ${flow} ${model} ${JSON.stringify(call.input)} ${JSON.stringify(call.config)}`);
+      return call.invoke();
+    });
+    wrapPromptCalls(ai, (flow, _model, call) => {
+      seen.push(`outer ${flow}`);
+      return call.invoke();
+    });
+    const prompt = ai.definePrompt({
+      name: 'testPrompt',
+      model: 'test/fake',
+      config: { temperature: 0.2 },
+      input: { schema: z.object({ question: z.string() }) },
+      output: { schema: z.object({ answer: z.string() }) },
+      prompt: 'Answer {{question}}',
+    });
+
+    const response = await prompt({ question: 'Why?' }, { config: { maxOutputTokens: 10 } });
+
+    expect(response.output).toEqual({ answer: 'yes' });
+    expect(seen).toEqual([
+      'outer testPrompt',
+      'inner testPrompt test/fake {"question":"Why?"} {"temperature":0.2,"maxOutputTokens":10}',
+    ]);
+    expect(typeof prompt.render).toBe('function');
+  });
+
+  test('should pass ai.generate calls as one normalized request under `generate`', async () => {
+    const ai = makeAi();
+    const requests: unknown[] = [];
+    wrapPromptCalls(ai, async (flow, model, call) => {
+      requests.push({ flow, model, input: call.input, rendered: await call.render() });
+      return call.invoke();
+    });
+
+    const response = await ai.generate({ model: 'test/fake', prompt: 'Hello' });
+    await ai.generate('Hi');
+
+    expect(response.text).toBe(JSON.stringify({ answer: 'yes' }));
+    expect(requests).toEqual([
+      { flow: 'generate', model: 'test/fake', input: { model: 'test/fake', prompt: 'Hello' }, rendered: { model: 'test/fake', prompt: 'Hello' } },
+      { flow: 'generate', model: undefined, input: { prompt: 'Hi' }, rendered: { prompt: 'Hi' } },
+    ]);
+  });
+});
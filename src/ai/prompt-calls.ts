@@ -0,0 +1,67 @@
+import type { GenerateOptions, GenerateResponse, Genkit, ModelArgument, Part, PromptConfig, z } from 'genkit';
+
+/**
+ * @fileOverview The one place that wraps `ai.definePrompt` and `ai.generate`.
+ *
+ * The cassette, usage and cache layers each see every model call made through a prompt or `ai.generate`
+ * by installing a PromptCallWrapper with wrapPromptCalls. A wrapper must be installed before any prompt is
+ * defined; the last one installed runs first and reaches the model through the ones installed before it.
+ * Streaming calls and `asTool` are passed through unwrapped.
+ *
+ * - wrapPromptCalls - Routes the calls of an `ai` instance through a wrapper.
+ * - PromptCall - What a wrapper is given about one call.
+ */
+
+export interface PromptCall {
+  /** The prompt input (null when there is none), or the request itself for `ai.generate`. */
+  input: unknown;
+  /** The prompt's definition; undefined for `ai.generate`. */
+  prompt?: PromptConfig<any, any, any>;
+  /** Model config of the call: the prompt's, overridden per call. */
+  config?: unknown;
+  /** The request the model receives. */
+  render(): Promise<GenerateOptions>;
+  /** Makes the call through the layers installed before this one. */
+  invoke(): Promise<GenerateResponse>;
+}
+
+/** Receives the prompt name (`generate` for `ai.generate`) and the model the call names, if any. */
+export type PromptCallWrapper = (flow: string, model: ModelArgument | undefined, call: PromptCall) => Promise<GenerateResponse>;
+
+type GenerateRequest = string | Part[] | GenerateOptions | PromiseLike<GenerateOptions>;
+
+export function wrapPromptCalls(ai: Genkit, wrap: PromptCallWrapper): void {
+  const definePrompt = ai.definePrompt.bind(ai);
+  ai.definePrompt = <I extends z.ZodTypeAny, O extends z.ZodTypeAny, CustomOptions extends z.ZodTypeAny>(
+    config: PromptConfig<I, O, CustomOptions>,
+    templateOrFn?: Parameters<typeof definePrompt<I, O, CustomOptions>>[1],
+  ) => {
+    const prompt = definePrompt(config, templateOrFn);
+    type Input = Parameters<typeof prompt>[0];
+    type Options = Parameters<typeof prompt>[1];
+    const call = (input?: Input, opts?: Options) => wrap(config.name, opts?.model ?? config.model, {
+      input: input ?? null,
+      prompt: config,
+      config: { ...config.config, ...opts?.config },
+      render: () => prompt.render(input, opts),
+      invoke: () => prompt(input, opts),
+    });
+    return Object.assign(call, {
+      render: prompt.render.bind(prompt),
+      stream: prompt.stream.bind(prompt),
+      asTool: prompt.asTool.bind(prompt),
+    }) as typeof prompt;
+  };
+
+  const generate = ai.generate.bind(ai);
+  ai.generate = async (request: GenerateRequest) => {
+    const resolved = await request;
+    const normalized: GenerateOptions = typeof resolved === 'string' || Array.isArray(resolved) ? { prompt: resolved } : resolved;
+    return wrap('generate', normalized.model, {
+      input: normalized,
+      config: normalized.config,
+      render: async () => normalized,
+      invoke: () => generate(normalized),
+    });
+  };
+}
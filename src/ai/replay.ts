@@ -0,0 +1,65 @@
+import { config } from 'dotenv';
+config();
+
+/**
+ * Replay regression: runs orchestrateQuery and orchestrateWithMaster end to end, offline, against the
+ * cassettes committed under `cassettes/`.
+ *
+ *   npm run replay -- [--record]
+ *
+ * Both runs use the stub model and the fixture evidence corpus. Each result must be byte-identical to its
+ * recording under `cassettes/results/`, ignoring timestamps, durations and generated IDs. A prompt call with
+ * no cassette entry, or a prompt whose rendered text or output schema changed, fails the run. After an
+ * intended prompt or output change, --record re-records the cassettes and results; review and commit the diff.
+ * Exits non-zero on any miss or drift.
+ */
+const REPLAY_QUERIES = {
+  orchestrateQuery: 'Does remote work make software teams more productive?',
+  orchestrateWithMaster: 'Should our engineering team stay remote-first?',
+};
+
+async function main() {
+  const mode = process.argv.slice(2).includes('--record') ? 'record' : 'replay';
+
+  // The model registry, cassettes and stores are configured when genkit.ts is first imported, so this must precede the imports below.
+  Object.assign(process.env, {
+    USE_STUB_MODEL: 'true',
+    EVIDENCE_RETRIEVER: 'fixture',
+    LLM_CASSETTE_MODE: mode,
+    LLM_CASSETTE_DIR: process.env.LLM_CASSETTE_DIR || 'cassettes',
+    LLM_CACHE: 'off',
+    SESSION_STORE: 'memory',
+    REVIEW_STORE: 'memory',
+    TOOL_AUDIT_STORE: 'none',
+    OTEL_TRACES_EXPORTER: 'none',
+  });
+
+  const { assertMatchesRecordedResult, getActiveCassetteOptions } = await import('@/ai/llm-cassettes');
+  const { orchestrateQuery } = await import('@/ai/flows/orchestrator-agent');
+  const { orchestrateWithMaster } = await import('@/ai/flows/master-orchestrator-agent');
+  const options = getActiveCassetteOptions()!;
+
+  const runs: [name: keyof typeof REPLAY_QUERIES, run: () => Promise<unknown>][] = [
+    ['orchestrateQuery', () => orchestrateQuery({ query: REPLAY_QUERIES.orchestrateQuery })],
+    ['orchestrateWithMaster', () => orchestrateWithMaster({
+      query: REPLAY_QUERIES.orchestrateWithMaster,
+      enableHumanReview: false, confidenceThresholdForHumanReview: 'Low', enableClarification: false, maxRetries: 3,
+    }, { sessionRepository: null })],
+  ];
+  let failed = 0;
+  for (const [name, run] of runs) {
+    try {
+      assertMatchesRecordedResult(name, await run(), options);
+      console.log(`Replay: ${name} ${mode === 'record' ? 'recorded' : 'matches its recording'}.`);
+    } catch (error: any) {
+      failed++;
+      console.error(`Replay: ${name} failed.\n${error.message}`);
+    }
+  }
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,51 @@
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { addSpanEvent, createTracingOptionsFromEnv, installTracing, setSpanAttributes, uninstallTracing, withSpan } from './telemetry';
+
+describe('withSpan', () => {
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    installTracing({ serviceName: 'ravint-test', spanProcessor: new SimpleSpanProcessor(exporter) });
+  });
+
+  afterEach(() => {
+    uninstallTracing();
+  });
+
+  test('should nest phase and agent spans under the session span, including parallel agent calls', async () => {
+    await withSpan('session', {}, async () => {
+      setSpanAttributes({ 'ravint.session_id': 'session_a' });
+      await withSpan('phase Phase2', { 'ravint.phase': 'Phase2' }, () => Promise.all([
+        withSpan('agent ResearcherAgent', {}, async () => addSpanEvent('agent_retry', { attempt: 1 })),
+        withSpan('agent CritiqueAgent', {}, async () => undefined),
+      ]));
+    });
+
+    const spans = Object.fromEntries(exporter.getFinishedSpans().map(span => [span.name, span]));
+    expect(Object.keys(spans).sort()).toEqual(['agent CritiqueAgent', 'agent ResearcherAgent', 'phase Phase2', 'session']);
+    const traceId = spans['session'].spanContext().traceId;
+    expect(Object.values(spans).every(span => span.spanContext().traceId === traceId)).toBe(true);
+    expect(spans['phase Phase2'].parentSpanId).toBe(spans['session'].spanContext().spanId);
+    expect(spans['agent CritiqueAgent'].parentSpanId).toBe(spans['phase Phase2'].spanContext().spanId);
+    expect(spans['agent ResearcherAgent'].events.map(event => event.name)).toEqual(['agent_retry']);
+    expect(spans['session'].attributes['ravint.session_id']).toBe('session_a');
+    expect(spans['session'].resource.attributes['service.name']).toBe('ravint-test');
+  });
+
+  test('should mark the span as failed and rethrow', async () => {
+    await expect(withSpan('agent CritiqueAgent', {}, async () => { throw new Error('model timeout'); })).rejects.toThrow('model timeout');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status).toEqual({ code: 2, message: 'model timeout' });
+    expect(span.events.map(event => event.name)).toEqual(['exception']);
+  });
+});
+
+describe('createTracingOptionsFromEnv', () => {
+  test('should export only when an OTLP endpoint is configured', () => {
+    expect(createTracingOptionsFromEnv({})).toBeUndefined();
+    expect(createTracingOptionsFromEnv({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318', OTEL_TRACES_EXPORTER: 'none' })).toBeUndefined();
+    expect(createTracingOptionsFromEnv({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318/' })?.serviceName).toBe('ravint');
+  });
+});
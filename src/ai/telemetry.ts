@@ -0,0 +1,81 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ROOT_CONTEXT, SpanStatusCode, trace, type Attributes, type Span, type Tracer } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor, type SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * @fileOverview OpenTelemetry traces for the master orchestrator.
+ *
+ * withSpan runs a function inside a span nested under whichever span is active, so the orchestrator's session,
+ * phase and agent spans form one trace per session run. Tracing has its own provider and does not touch the
+ * global OpenTelemetry API, which Genkit configures for its own telemetry. Until installTracing is called
+ * (from genkit.ts when an OTLP endpoint is configured) every function here is a no-op.
+ *
+ * - installTracing - Exports spans through a span processor.
+ * - withSpan / addSpanEvent / setSpanAttributes - Create and annotate spans.
+ * - createTracingOptionsFromEnv - OTLP/HTTP export configured by the standard OTEL_* variables.
+ */
+
+const TRACER_NAME = 'ravint';
+
+let tracer: Tracer | undefined;
+const activeSpan = new AsyncLocalStorage<Span>();
+
+export interface TracingOptions {
+  serviceName: string;
+  spanProcessor: SpanProcessor;
+}
+
+/** Starts exporting spans; returns the provider so callers can flush or shut it down. */
+export function installTracing(options: TracingOptions): BasicTracerProvider {
+  const provider = new BasicTracerProvider({ resource: new Resource({ 'service.name': options.serviceName }) });
+  provider.addSpanProcessor(options.spanProcessor);
+  tracer = provider.getTracer(TRACER_NAME);
+  return provider;
+}
+
+/** Stops creating spans; spans already started still end and export. */
+export function uninstallTracing(): void {
+  tracer = undefined;
+}
+
+/** Runs `fn` in a child span of the active one; the span ends with `fn` and records its error, if any. */
+export async function withSpan<T>(name: string, attributes: Attributes, fn: () => Promise<T>): Promise<T> {
+  if (!tracer) return fn();
+  const parent = activeSpan.getStore();
+  const span = tracer.startSpan(name, { attributes }, parent ? trace.setSpan(ROOT_CONTEXT, parent) : ROOT_CONTEXT);
+  try {
+    return await activeSpan.run(span, fn);
+  } catch (error: any) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+export function addSpanEvent(name: string, attributes?: Attributes): void {
+  activeSpan.getStore()?.addEvent(name, attributes);
+}
+
+export function setSpanAttributes(attributes: Attributes): void {
+  activeSpan.getStore()?.setAttributes(attributes);
+}
+
+/**
+ * Builds OTLP/HTTP export from OTEL_EXPORTER_OTLP_TRACES_ENDPOINT (the full URL) or OTEL_EXPORTER_OTLP_ENDPOINT
+ * (the collector base URL, `/v1/traces` is appended), named by OTEL_SERVICE_NAME (default `ravint`).
+ * Returns undefined when neither endpoint is set or OTEL_TRACES_EXPORTER is `none`.
+ */
+export function createTracingOptionsFromEnv(env: Record<string, string | undefined> = process.env): TracingOptions | undefined {
+  if (env.OTEL_TRACES_EXPORTER === 'none') return undefined;
+  const url = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (env.OTEL_EXPORTER_OTLP_ENDPOINT ? `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces` : undefined);
+  if (!url) return undefined;
+  return {
+    serviceName: env.OTEL_SERVICE_NAME || TRACER_NAME,
+    spanProcessor: new BatchSpanProcessor(new OTLPTraceExporter({ url })),
+  };
+}
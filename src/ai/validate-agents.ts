@@ -0,0 +1,40 @@
+import { config } from 'dotenv';
+config();
+
+/**
+ * Runs the agent contract tests and writes JSON and JUnit reports.
+ *
+ *   npm run validate:agents -- [--stub] [--quick] [--out <dir>]
+ *
+ * --stub runs offline against the stub model, --quick runs only the first test of the critical agents,
+ * and --out sets the report directory (default `.data/validation`). Exits non-zero if any agent fails.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const outDir = outIndex >= 0 ? args[outIndex + 1] : '.data/validation';
+
+  // The model registry is read when genkit.ts is first imported, so this must precede the imports below.
+  if (args.includes('--stub')) process.env.USE_STUB_MODEL = 'true';
+
+  const { AgentValidationFramework, writeValidationReport } = await import('@/ai/flows/agent-validation-framework');
+  const framework = new AgentValidationFramework();
+
+  if (args.includes('--quick')) {
+    const health = await framework.quickHealthCheck();
+    console.log(JSON.stringify(health, null, 2));
+    process.exitCode = health.status === 'critical' ? 1 : 0;
+    return;
+  }
+
+  const output = await framework.runFullSystemValidation();
+  const { jsonPath, junitPath } = writeValidationReport(output, outDir);
+  const { totalAgents, passedAgents, warningAgents, failedAgents } = output.validationSummary;
+  console.log(`Agent validation: ${passedAgents}/${totalAgents} passed, ${warningAgents} warning, ${failedAgents} failed. Reports: ${jsonPath}, ${junitPath}`);
+  process.exitCode = failedAgents > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
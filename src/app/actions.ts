@@ -1,7 +1,15 @@
 
 "use server";
 
+import { headers } from 'next/headers';
 import { orchestrateQuery, type OrchestratorInput, type OrchestratorOutput } from '@/ai/flows/orchestrator-agent';
+import { askFollowUpQuestion, orchestrateWithMaster, runWhatIfScenario, submitHumanReviewAndResume, type MasterOrchestratorInput, type MasterOrchestratorOutput } from '@/ai/flows/master-orchestrator-agent';
+import { getHumanReviewSystem } from '@/ai/flows/human-review-system';
+import { HumanReviewDecisionSchema, type HumanReviewDecision, type HumanReviewStatus } from '@/ai/flows/review-decisions';
+import type { ReviewerIdentity, ReviewRecord } from '@/ai/flows/review-store';
+import type { AssumptionChange, WhatIfResult } from '@/ai/flows/what-if';
+import type { FollowUpTurn } from '@/ai/flows/follow-up';
+import { toMasterAnalysisResults, type MasterAnalysisResults } from '@/lib/analysis-results';
 import type { RespondOutput } from '@/ai/flows/responder-agent';
 import type { ResearchEvidenceOutput } from '@/ai/flows/researcher-agent';
 import type { ResearchCounterEvidenceOutput } from '@/ai/flows/counter-evidence-researcher-agent'; // New
@@ -12,6 +20,8 @@ import type { AnalyzeAssumptionsOutput } from '@/ai/flows/assumption-analyzer-ag
 import type { InformationGapOutput } from '@/ai/flows/information-gap-agent';
 import type { SynthesisAgentOutput } from '@/ai/flows/synthesis-agent';
 
+export type { MasterAnalysisResults, MasterPhaseArtifacts } from '@/lib/analysis-results';
+
 
 // This interface aligns with the structure returned by the orchestrator-agent.
 export interface FullAnalysisResults {
@@ -27,7 +37,6 @@ export interface FullAnalysisResults {
   orchestrationSummary: string;
 }
 
-
 export async function runAnalysisPipelineAction(query: string): Promise<FullAnalysisResults> {
   console.log(`runAnalysisPipelineAction: Starting for query - ${query.substring(0,100)}...`);
   
@@ -60,3 +69,120 @@ export async function runAnalysisPipelineAction(query: string): Promise<FullAnal
     throw new Error(fullErrorMessage);
   }
 }
+
+
+export async function runMasterAnalysisPipelineAction(
+  query: string,
+  options: Omit<Partial<MasterOrchestratorInput>, 'query'> = {}
+): Promise<MasterAnalysisResults> {
+  console.log(`runMasterAnalysisPipelineAction: Starting for query - ${query.substring(0,100)}...`);
+
+  try {
+    const masterInput: MasterOrchestratorInput = {
+      query,
+      enableHumanReview: options.enableHumanReview ?? false,
+      confidenceThresholdForHumanReview: options.confidenceThresholdForHumanReview ?? 'Low',
+      maxRetries: options.maxRetries ?? 3,
+      sessionId: options.sessionId,
+      resumeSessionId: options.resumeSessionId,
+      fromPhase: options.fromPhase,
+      enableClarification: options.enableClarification ?? false,
+      clarification: options.clarification,
+      resumeToken: options.resumeToken,
+      maxRefinementIterations: options.maxRefinementIterations,
+      refinementQualityThreshold: options.refinementQualityThreshold,
+      budget: options.budget,
+      comparison: options.comparison,
+    };
+    const masterResult: MasterOrchestratorOutput = await orchestrateWithMaster(masterInput);
+
+    const results: MasterAnalysisResults = toMasterAnalysisResults(masterResult);
+
+    console.log(`runMasterAnalysisPipelineAction: Orchestration finished. Success: ${results.success}, errors: ${results.sessionState.errorsEncountered.length}`);
+    return results;
+
+  } catch (error: any) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`runMasterAnalysisPipelineAction: Critical pipeline error - ${errorMessage}`, { query, error });
+
+    const fullErrorMessage = `Pipeline error: ${errorMessage || 'An unexpected error occurred in the master analysis pipeline.'}`;
+    throw new Error(fullErrorMessage);
+  }
+}
+
+
+export async function runWhatIfAction(sessionId: string, changes: AssumptionChange[]): Promise<WhatIfResult> {
+  console.log(`runWhatIfAction: Session ${sessionId}, ${changes.length} changed assumption(s)`);
+  try {
+    return await runWhatIfScenario(sessionId, changes);
+  } catch (error: any) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`runWhatIfAction: What-if scenario failed - ${errorMessage}`, { sessionId });
+    throw new Error(`What-if error: ${errorMessage}`);
+  }
+}
+
+export async function askFollowUpAction(sessionId: string, question: string): Promise<FollowUpTurn> {
+  console.log(`askFollowUpAction: Session ${sessionId}, question "${question.substring(0, 50)}..."`);
+  try {
+    return await askFollowUpQuestion(sessionId, question);
+  } catch (error: any) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`askFollowUpAction: Follow-up failed - ${errorMessage}`, { sessionId });
+    throw new Error(`Follow-up error: ${errorMessage}`);
+  }
+}
+
+
+export interface ReviewWorkspaceData {
+  /** Most urgent first, then soonest to expire. */
+  pending: ReviewRecord[];
+  /** Decided and expired reviews with their audit trails, most recent first. */
+  closed: ReviewRecord[];
+  /** Decisions are attributed to the auth proxy's identity header, so no reviewer label is needed. */
+  identityFromAuthProxy: boolean;
+}
+
+export async function listReviewsAction(): Promise<ReviewWorkspaceData> {
+  const humanReviewSystem = getHumanReviewSystem();
+  return {
+    pending: await humanReviewSystem.listPendingReviews(),
+    closed: await humanReviewSystem.listClosedReviews(),
+    identityFromAuthProxy: !!process.env.REVIEWER_IDENTITY_HEADER?.trim(),
+  };
+}
+
+/**
+ * The reviewer to attribute a decision to. With REVIEWER_IDENTITY_HEADER set, the name comes from that request
+ * header, which the deployment's authenticating proxy must set (and strip from client requests); the client's
+ * label is ignored. Otherwise the label is recorded as self-reported.
+ */
+async function resolveReviewer(reviewerLabel: string): Promise<ReviewerIdentity> {
+  const identityHeader = process.env.REVIEWER_IDENTITY_HEADER?.trim();
+  if (identityHeader) {
+    const name = (await headers()).get(identityHeader)?.trim();
+    if (!name) throw new Error(`The request has no ${identityHeader} header, so the decision cannot be attributed. Sign in through the review proxy.`);
+    return { name, source: 'auth_proxy' };
+  }
+  if (!reviewerLabel.trim()) throw new Error('Enter your name so the decision can be attributed.');
+  return { name: reviewerLabel.trim(), source: 'self_reported' };
+}
+
+export interface ReviewDecisionOutcome {
+  /** The suspended session the decision was applied to, if the review belonged to one. */
+  sessionId?: string;
+  sessionStatus?: HumanReviewStatus;
+  sessionSucceeded?: boolean;
+}
+
+export async function submitReviewDecisionAction(reviewId: string, reviewerLabel: string, humanInput: HumanReviewDecision): Promise<ReviewDecisionOutcome> {
+  const reviewer = await resolveReviewer(reviewerLabel);
+  const parsedInput = HumanReviewDecisionSchema.safeParse(humanInput);
+  if (!parsedInput.success) throw new Error(`Invalid review decision: ${parsedInput.error.message}`);
+  console.log(`submitReviewDecisionAction: ${reviewer.name} (${reviewer.source.replace('_', ' ')}) decided ${parsedInput.data.decision ?? 'approve'} on ${reviewId}`);
+
+  const resumed = await submitHumanReviewAndResume(reviewId, parsedInput.data, reviewer);
+  return resumed
+    ? { sessionId: resumed.sessionId, sessionStatus: resumed.sessionState.humanReview?.status, sessionSucceeded: resumed.success }
+    : {};
+}
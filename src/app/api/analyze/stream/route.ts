@@ -0,0 +1,89 @@
+import { orchestrateWithMaster, type MasterOrchestratorInput } from '@/ai/flows/master-orchestrator-agent';
+import { createOrchestratorEventChannel } from '@/ai/flows/orchestrator-events';
+import { toMasterAnalysisResults } from '@/lib/analysis-results';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Runs the master orchestrator and streams its progress as Server-Sent Events:
+ * - `event: progress` for every OrchestratorEvent
+ * - `event: result` once with the MasterAnalysisResults
+ * - `event: error` if the pipeline throws
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: Partial<MasterOrchestratorInput>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+  const hasQuery = typeof body.query === 'string' && !!body.query.trim();
+  const hasResume = [body.resumeSessionId, body.resumeToken].some(value => typeof value === 'string' && !!value.trim());
+  if (!hasQuery && !hasResume) {
+    return Response.json({ error: 'A non-empty "query" (or a "resumeSessionId" or "resumeToken") is required.' }, { status: 400 });
+  }
+
+  const masterInput: MasterOrchestratorInput = {
+    query: body.query,
+    enableHumanReview: body.enableHumanReview ?? false,
+    confidenceThresholdForHumanReview: body.confidenceThresholdForHumanReview ?? 'Low',
+    maxRetries: body.maxRetries ?? 3,
+    sessionId: body.sessionId,
+    resumeSessionId: body.resumeSessionId,
+    fromPhase: body.fromPhase,
+    enableClarification: body.enableClarification ?? false,
+    clarification: body.clarification,
+    resumeToken: body.resumeToken,
+    maxRefinementIterations: body.maxRefinementIterations,
+    refinementQualityThreshold: body.refinementQualityThreshold,
+    budget: body.budget,
+    comparison: body.comparison,
+  };
+  console.log(masterInput.resumeToken
+    ? 'AnalyzeStreamRoute: Resuming a session suspended for human review...'
+    : masterInput.resumeSessionId
+    ? `AnalyzeStreamRoute: Resuming session ${masterInput.resumeSessionId}${masterInput.fromPhase ? ` from phase ${masterInput.fromPhase}` : ''}...`
+    : `AnalyzeStreamRoute: Starting for query - ${masterInput.query!.substring(0, 100)}...`);
+
+  const encoder = new TextEncoder();
+  const channel = createOrchestratorEventChannel();
+  let clientDisconnected = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (clientDisconnected) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const run = orchestrateWithMaster(masterInput, { onEvent: channel.listener }).finally(() => channel.close());
+
+      for await (const event of channel.events) {
+        send('progress', event);
+      }
+
+      try {
+        send('result', toMasterAnalysisResults(await run));
+      } catch (error: any) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`AnalyzeStreamRoute: Critical pipeline error - ${errorMessage}`, { query: masterInput.query });
+        send('error', { message: `Pipeline error: ${errorMessage || 'An unexpected error occurred in the master analysis pipeline.'}` });
+      }
+      if (!clientDisconnected) controller.close();
+    },
+    cancel() {
+      // The orchestrator keeps running to completion; we just stop forwarding its events.
+      clientDisconnected = true;
+      channel.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
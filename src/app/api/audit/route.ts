@@ -0,0 +1,19 @@
+import { toolAuditSystem } from '@/ai/flows/tool-audit-system';
+import { AuditQuerySchema } from '@/ai/flows/tool-audit-sink';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Tool audit events for compliance reviews, oldest first. Filters are query parameters:
+ * `sessionId`, `agentName`, `toolName`, `eventType`, `from` and `to` (ISO timestamps) and `limit`.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const query = AuditQuerySchema.safeParse({ ...params, limit: params.limit ? Number(params.limit) : undefined });
+  if (!query.success) {
+    return Response.json({ error: `Invalid audit query: ${query.error.message}` }, { status: 400 });
+  }
+  const events = await toolAuditSystem.queryAuditEvents(query.data);
+  return Response.json({ events });
+}
@@ -0,0 +1,13 @@
+import { toolAuditSystem } from '@/ai/flows/tool-audit-system';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Verifies the hash chain of the durable tool audit trail; 409 when it has gaps or edits. */
+export async function GET(): Promise<Response> {
+  const report = await toolAuditSystem.verifyAuditTrail();
+  if (!report) {
+    return Response.json({ error: 'Tool audit events are not persisted (TOOL_AUDIT_STORE=none).' }, { status: 404 });
+  }
+  return Response.json(report, { status: report.valid ? 200 : 409 });
+}
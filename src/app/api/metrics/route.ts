@@ -0,0 +1,15 @@
+import { renderPrometheusMetrics } from '@/ai/flows/prometheus-metrics';
+import { toolAuditSystem } from '@/ai/flows/tool-audit-system';
+import { workflowMetricsSystem } from '@/ai/flows/workflow-metrics-system';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Orchestrator, model usage and cache metrics in the Prometheus text format, for scraping. */
+export async function GET(): Promise<Response> {
+  const body = renderPrometheusMetrics({
+    modelUsage: workflowMetricsSystem.exportMetrics().modelUsage,
+    toolCache: toolAuditSystem.getAuditStats().cacheStats,
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' } });
+}
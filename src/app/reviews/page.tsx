@@ -0,0 +1,12 @@
+import type { Metadata } from 'next';
+import ReviewWorkspace from '@/components/review-workspace';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Review Workspace · Critical Insights AI',
+};
+
+export default function ReviewsPage() {
+  return <ReviewWorkspace />;
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ClarificationResponse, ClarificationRound } from '@/ai/flows/query-clarification';
+import { HelpCircle } from 'lucide-react';
+
+interface ClarificationRoundViewProps {
+  round: ClarificationRound;
+  disabled?: boolean;
+  onSubmit: (response: ClarificationResponse) => void;
+}
+
+const formatIssueType = (issueType: string) => issueType.replace(/_/g, ' ');
+
+/**
+ * Shown when the master orchestrator pauses after query refinement: the user answers the agent's
+ * questions and/or edits its rewrite, or accepts the rewrite as is, and the session resumes.
+ */
+export default function ClarificationRoundView({ round, disabled, onSubmit }: ClarificationRoundViewProps) {
+  const [answers, setAnswers] = useState<string[]>(() => round.questions.map(() => ''));
+  const [refinedQuery, setRefinedQuery] = useState(round.proposedRefinedQuery);
+
+  const submitAnswers = () => onSubmit({
+    answers: round.questions.map((question, index) => ({ question, answer: answers[index] ?? '' })).filter(({ answer }) => answer.trim()),
+    refinedQuery,
+  });
+
+  return (
+    <Card className="mb-6 shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <HelpCircle className="mr-2 h-5 w-5 text-primary" />
+          Clarify Your Question
+        </CardTitle>
+        <CardDescription>
+          The query refinement agent found issues with the question. Answer any of its questions, or accept its rewrite, to continue the analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {round.identifiedIssues.length > 0 && (
+          <div className="space-y-1">
+            {round.identifiedIssues.map((issue, index) => (
+              <p key={`issue-${index}`} className="text-sm">
+                <Badge variant="secondary" className="mr-2 capitalize">{formatIssueType(issue.issueType)}</Badge>
+                {issue.description}
+              </p>
+            ))}
+          </div>
+        )}
+        {round.questions.map((question, index) => (
+          <div key={`question-${index}`} className="space-y-1">
+            <Label htmlFor={`clarification-${index}`}>{question}</Label>
+            <Textarea
+              id={`clarification-${index}`}
+              value={answers[index]}
+              onChange={(e) => setAnswers(prev => prev.map((answer, i) => i === index ? e.target.value : answer))}
+              placeholder="Your answer (optional)"
+              className="h-16"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label htmlFor="clarification-refined-query">Refined query</Label>
+          <Textarea
+            id="clarification-refined-query"
+            value={refinedQuery}
+            onChange={(e) => setRefinedQuery(e.target.value)}
+            className="h-20"
+            disabled={disabled}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-3">
+        <Button onClick={submitAnswers} disabled={disabled || !refinedQuery.trim()}>Continue with answers</Button>
+        <Button variant="outline" onClick={() => onSubmit({ answers: [], refinedQuery: round.proposedRefinedQuery })} disabled={disabled}>
+          Accept rewrite and continue
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
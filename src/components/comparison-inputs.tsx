@@ -0,0 +1,81 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_COMPARISON_CRITERIA, MAX_COMPARISON_OPTIONS, MIN_COMPARISON_OPTIONS, type ComparisonRequest } from '@/ai/flows/comparison';
+import { Plus, X } from 'lucide-react';
+
+export interface ComparisonDraft {
+  options: { name: string; description: string }[];
+  criteria: { name: string; weight: string }[];
+}
+
+export const EMPTY_COMPARISON_DRAFT: ComparisonDraft = {
+  options: [{ name: '', description: '' }, { name: '', description: '' }],
+  criteria: [{ name: '', weight: '1' }],
+};
+
+/** The draft as a request; blank rows are dropped, and the orchestrator validates the rest. */
+export function toComparisonRequest(draft: ComparisonDraft): ComparisonRequest {
+  return {
+    options: draft.options.filter(option => option.name.trim()).map(option => ({ name: option.name, description: option.description.trim() || undefined })),
+    criteria: draft.criteria.filter(criterion => criterion.name.trim()).map(criterion => ({ name: criterion.name, weight: Number(criterion.weight) })),
+  };
+}
+
+interface ComparisonInputsProps {
+  draft: ComparisonDraft;
+  onChange: (draft: ComparisonDraft) => void;
+  disabled?: boolean;
+}
+
+/** Options (2-5) and weighted criteria for the comparative decision mode. */
+export default function ComparisonInputs({ draft, onChange, disabled }: ComparisonInputsProps) {
+  const setOption = (index: number, patch: Partial<ComparisonDraft['options'][number]>) =>
+    onChange({ ...draft, options: draft.options.map((option, i) => i === index ? { ...option, ...patch } : option) });
+  const setCriterion = (index: number, patch: Partial<ComparisonDraft['criteria'][number]>) =>
+    onChange({ ...draft, criteria: draft.criteria.map((criterion, i) => i === index ? { ...criterion, ...patch } : criterion) });
+
+  return (
+    <div className="mt-4 grid gap-6 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label>Options</Label>
+        {draft.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-4 text-sm font-semibold text-muted-foreground">{String.fromCharCode(65 + index)}</span>
+            <Input value={option.name} onChange={(event) => setOption(index, { name: event.target.value })} placeholder="Option, e.g. Buy a vendor tool" disabled={disabled} />
+            <Input value={option.description} onChange={(event) => setOption(index, { description: event.target.value })} placeholder="Details (optional)" disabled={disabled} />
+            <Button variant="ghost" size="icon" aria-label="Remove option" disabled={disabled || draft.options.length <= MIN_COMPARISON_OPTIONS}
+              onClick={() => onChange({ ...draft, options: draft.options.filter((_, i) => i !== index) })}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" disabled={disabled || draft.options.length >= MAX_COMPARISON_OPTIONS}
+          onClick={() => onChange({ ...draft, options: [...draft.options, { name: '', description: '' }] })}>
+          <Plus className="mr-1 h-4 w-4" /> Add option
+        </Button>
+      </div>
+      <div className="space-y-2">
+        <Label>Criteria and weights</Label>
+        {draft.criteria.map((criterion, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input value={criterion.name} onChange={(event) => setCriterion(index, { name: event.target.value })} placeholder="Criterion, e.g. Total cost" disabled={disabled} />
+            <Input type="number" min="0" step="0.5" value={criterion.weight} onChange={(event) => setCriterion(index, { weight: event.target.value })} className="w-24" aria-label="Weight" disabled={disabled} />
+            <Button variant="ghost" size="icon" aria-label="Remove criterion" disabled={disabled || draft.criteria.length <= 1}
+              onClick={() => onChange({ ...draft, criteria: draft.criteria.filter((_, i) => i !== index) })}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" disabled={disabled || draft.criteria.length >= MAX_COMPARISON_CRITERIA}
+          onClick={() => onChange({ ...draft, criteria: [...draft.criteria, { name: '', weight: '1' }] })}>
+          <Plus className="mr-1 h-4 w-4" /> Add criterion
+        </Button>
+        <p className="text-xs text-muted-foreground">Weights are relative; they are scaled to add up to 100%.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { ComparisonState } from '@/ai/flows/comparison';
+
+const ROBUSTNESS_VARIANTS = {
+  robust: 'default', moderately_robust: 'secondary', fragile: 'destructive', untested: 'outline',
+} as const;
+
+/**
+ * The comparative decision: the weighted criteria matrix (best option first), which options are dominated,
+ * how the ranking holds up under the sensitivity scenarios, and each option's own evidence.
+ */
+export default function ComparisonMatrix({ comparison }: { comparison: ComparisonState }) {
+  const { setup, optionAnalyses, result } = comparison;
+  const optionName = (optionId: string) => setup.options.find(option => option.id === optionId)?.name ?? optionId;
+
+  if (!result) return <p className="text-muted-foreground">The options were analyzed, but the comparison synthesis has not run yet.</p>;
+  const dominatedBy = (optionId: string) => result.dominance.relations.filter(relation => relation.dominatedId === optionId).map(relation => relation.dominantId);
+
+  return (
+    <div className="space-y-6">
+      <p>{result.recommendation}</p>
+
+      <TooltipProvider>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rank</TableHead>
+              <TableHead>Option</TableHead>
+              {setup.criteria.map(criterion => (
+                <TableHead key={criterion.name} className="text-right">{criterion.name} <span className="text-xs font-normal">({Math.round(criterion.weight * 100)}%)</span></TableHead>
+              ))}
+              <TableHead className="text-right">Weighted total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.matrix.map(row => (
+              <TableRow key={row.optionId}>
+                <TableCell>{row.rank}</TableCell>
+                <TableCell>
+                  <span className="font-medium">{row.optionId}. {row.name}</span>
+                  {dominatedBy(row.optionId).length > 0 && (
+                    <Badge variant="destructive" className="ml-2">dominated by {dominatedBy(row.optionId).join(', ')}</Badge>
+                  )}
+                </TableCell>
+                {row.scores.map(item => (
+                  <TableCell key={item.criterion} className="text-right">
+                    <Tooltip>
+                      <TooltipTrigger className="underline decoration-dotted">{item.score}</TooltipTrigger>
+                      <TooltipContent className="max-w-xs">{item.rationale}</TooltipContent>
+                    </Tooltip>
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-semibold">{row.weightedTotal.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TooltipProvider>
+      <p className="text-xs text-muted-foreground">
+        Scores run from 0 to 10 (hover for the rationale). An option is dominated when another scores at least as well on every criterion and better on one; only {result.dominance.nonDominatedIds.map(optionName).join(', ')} can come out first whatever the weights.
+      </p>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Ranking robustness <Badge variant={ROBUSTNESS_VARIANTS[result.robustness.category]}>{result.robustness.category.replace(/_/g, ' ')}</Badge></h3>
+        <p className="text-sm">{result.robustness.summary}</p>
+        {result.robustness.scenarios.some(scenario => scenario.rankingChanged) && (
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            {result.robustness.scenarios.filter(scenario => scenario.rankingChanged).map(scenario => (
+              <li key={scenario.scenarioId}>{scenario.scenarioName}: {scenario.ranking.join(' > ')}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {result.tradeoffs.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Tradeoffs</h3>
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            {result.tradeoffs.map((tradeoff, index) => <li key={index}>{tradeoff}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <Accordion type="single" collapsible className="w-full">
+        {optionAnalyses.map(analysis => (
+          <AccordionItem value={analysis.optionId} key={analysis.optionId}>
+            <AccordionTrigger className="text-base hover:no-underline">
+              {analysis.optionId}. {optionName(analysis.optionId)}
+              <span className="ml-2 text-xs text-muted-foreground">
+                ({analysis.supportingEvidence.length} supporting, {analysis.counterEvidence.length} counter, {analysis.premortem.length} failure modes)
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3 text-sm">
+              {[
+                { title: 'Supporting evidence', items: analysis.supportingEvidence.map(ev => `${ev.claim}: ${ev.support} (${ev.quality})`) },
+                { title: 'Counter-evidence', items: analysis.counterEvidence.map(ev => `${ev.claim}: ${ev.support} (${ev.quality})`) },
+                { title: 'Assumptions', items: analysis.assumptions.map(item => `${item.assumption} (risk ${item.risk})`) },
+                { title: 'Premortem', items: analysis.premortem.map(item => `${item.failure} (${item.probability}). Mitigation: ${item.mitigation}`) },
+              ].filter(section => section.items.length > 0).map(section => (
+                <div key={section.title}>
+                  <p className="font-medium">{section.title}</p>
+                  <ul className="list-disc pl-5 space-y-1">{section.items.map((item, index) => <li key={index}>{item}</li>)}</ul>
+                </div>
+              ))}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
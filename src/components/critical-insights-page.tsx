@@ -10,13 +10,28 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { runAnalysisPipelineAction, FullAnalysisResults } from '@/app/actions';
+import { runAnalysisPipelineAction, FullAnalysisResults, MasterAnalysisResults } from '@/app/actions';
+import { streamMasterAnalysis } from '@/lib/analysis-stream';
+import MasterAnalysisResultsView from '@/components/master-analysis-results';
+import ClarificationRoundView from '@/components/clarification-round';
+import FollowUpThread from '@/components/follow-up-thread';
+import ComparisonInputs, { EMPTY_COMPARISON_DRAFT, toComparisonRequest, type ComparisonDraft } from '@/components/comparison-inputs';
+import { ComparisonRequestSchema } from '@/ai/flows/comparison';
+import ReportExportButtons from '@/components/report-export-buttons';
+import { buildReportFromClassicResults, buildReportFromSession } from '@/lib/analysis-report';
+import OrchestrationProgress, { applyOrchestratorEvent, getOrchestrationProgressPercent, initialOrchestrationProgress, type OrchestrationProgressState } from '@/components/orchestration-progress';
 import type { Evidence } from '@/ai/flows/researcher-agent'; // Used for both supporting and counter evidence
 import type { PremortermItem } from '@/ai/flows/premortem-agent';
 import type { AssumptionItem } from '@/ai/flows/assumption-analyzer-agent';
 import type { InformationGapItem } from '@/ai/flows/information-gap-agent';
 import type { SynthesisAgentOutput } from '@/ai/flows/synthesis-agent';
+import type { MasterOrchestratorInput } from '@/ai/flows/master-orchestrator-agent';
+import type { ClarificationResponse } from '@/ai/flows/query-clarification';
+import type { FollowUpTurn } from '@/ai/flows/follow-up';
 
 
 import {
@@ -50,14 +65,68 @@ const agentInfo = [
   { name: "Synthesis Agent", icon: Brain, description: "Synthesizes all analyses into a final insight." },
 ];
 
+const masterPhaseInfo = [
+  { name: "Phase 1: Query Refinement & Initial Answer", icon: MessageSquare, description: "Refines the query and iterates on an initial answer." },
+  { name: "Phase 2: Evidence Gathering", icon: Search, description: "Researches supporting and counter-evidence, assumptions and gaps." },
+  { name: "Phase 3: Critical Analysis", icon: ShieldAlert, description: "Routes to bias, critique, challenge and premortem agents." },
+  { name: "Phase 4: Argument Reconstruction", icon: Lightbulb, description: "Builds a balanced, pressure-tested brief and assesses impact." },
+  { name: "Phase 5: Quality & Confidence", icon: Activity, description: "Scores quality, confidence and sensitivity to assumptions." },
+  { name: "Phase 6: Synthesis & Verification", icon: Brain, description: "Ensemble synthesis, fact verification, nuance and critique loops." },
+];
+
+type AnalysisMode = 'master' | 'classic';
+
 export default function CriticalInsightsPage() {
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [statusText, setStatusText] = useState('');
+  const [mode, setMode] = useState<AnalysisMode>('master');
+  const [askClarification, setAskClarification] = useState(false);
+  const [compareOptions, setCompareOptions] = useState(false);
+  const [comparisonDraft, setComparisonDraft] = useState<ComparisonDraft>(EMPTY_COMPARISON_DRAFT);
   const [results, setResults] = useState<FullAnalysisResults | null>(null);
+  // The classic results do not carry the query, so the report takes it from here rather than the editable textarea.
+  const [analyzedQuery, setAnalyzedQuery] = useState('');
+  const [masterResults, setMasterResults] = useState<MasterAnalysisResults | null>(null);
+  const [orchestrationProgress, setOrchestrationProgress] = useState<OrchestrationProgressState>(initialOrchestrationProgress);
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("initial-response");
+  const stepInfo = mode === 'master' ? masterPhaseInfo : agentInfo;
+
+  const streamMaster = async (options: Omit<Partial<MasterOrchestratorInput>, 'query'>) => {
+    let progressState = initialOrchestrationProgress;
+    setOrchestrationProgress(progressState);
+    const analysisResults = await streamMasterAnalysis(query, (event) => {
+      progressState = applyOrchestratorEvent(progressState, event);
+      setOrchestrationProgress(progressState);
+      setProgress(getOrchestrationProgressPercent(progressState));
+      setStatusText(progressState.lastMessage);
+    }, options);
+    setMasterResults(analysisResults);
+    return analysisResults;
+  };
+
+  const reportAnalysisComplete = () => {
+    setProgress(100);
+    setStatusText('✅ Analysis complete!');
+    toast({
+      title: "Analysis Complete",
+      description: "Results are now available in the tabs below.",
+    });
+  };
+
+  const reportAnalysisError = (error: any) => {
+    console.error("Analysis error:", error);
+    setProgress(100); 
+    const errorMessage = error.message || 'An unexpected error occurred.';
+    setStatusText(`❌ Error: ${errorMessage.length > 100 ? errorMessage.substring(0,100) + "..." : errorMessage}`);
+    toast({
+      title: "Analysis Failed",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  };
 
   const handleAnalyze = async () => {
     if (!query.trim()) {
@@ -68,17 +137,30 @@ export default function CriticalInsightsPage() {
       });
       return;
     }
+    const comparison = mode === 'master' && compareOptions ? ComparisonRequestSchema.safeParse(toComparisonRequest(comparisonDraft)) : undefined;
+    if (comparison && !comparison.success) {
+      toast({
+        title: "Check the Comparison",
+        description: comparison.error.issues[0]?.message ?? 'The options or criteria are incomplete.',
+        variant: "destructive",
+      });
+      return;
+    }
 
     setIsLoading(true);
     setProgress(0);
     setStatusText('Kicking off analysis pipeline...');
     setResults(null);
-    setActiveTab("initial-response"); 
+    setMasterResults(null);
+    setAnalyzedQuery(query);
+    setActiveTab(mode === 'master' ? (comparison ? "comparison" : "final-synthesis") : "initial-response");
 
-    const totalSteps = agentInfo.length;
+    const totalSteps = stepInfo.length;
     let completedSteps = 0;
 
-    const interval = setInterval(() => {
+    // The classic pipeline reports nothing until it finishes, so its progress is simulated.
+    // The master pipeline streams real progress events instead.
+    const interval = mode === 'classic' ? setInterval(() => {
       setProgress(prev => {
         if (prev >= 90) { 
           return prev;
@@ -89,42 +171,61 @@ export default function CriticalInsightsPage() {
       });
        // Update status text based on which agent might be running
       if (completedSteps < totalSteps) {
-          const currentAgent = agentInfo[completedSteps % totalSteps];
+          const currentAgent = stepInfo[completedSteps % totalSteps];
           setStatusText(`Processing: ${currentAgent.name}...`);
       }
       completedSteps++;
 
-    }, 600); // Faster interval for more granular progress/status
+    }, 600) : undefined; // Faster interval for more granular progress/status
 
 
     try {
-      const analysisResults = await runAnalysisPipelineAction(query);
-      clearInterval(interval);
-      setResults(analysisResults);
-      setProgress(100);
-      setStatusText('✅ Analysis complete!');
-      toast({
-        title: "Analysis Complete",
-        description: "Results are now available in the tabs below.",
-      });
-      if (analysisResults.synthesis && analysisResults.synthesis.summary !== "Final synthesis could not be generated.") {
-        setActiveTab("final-synthesis");
+      if (mode === 'master') {
+        const analysisResults = await streamMaster({ enableClarification: askClarification, comparison: comparison?.data });
+        if (analysisResults.awaitingClarification) {
+          toast({
+            title: "Clarification Needed",
+            description: "Answer the questions below, or accept the rewritten query, to continue.",
+          });
+          return;
+        }
+      } else {
+        const analysisResults = await runAnalysisPipelineAction(query);
+        clearInterval(interval);
+        setResults(analysisResults);
+        if (analysisResults.synthesis && analysisResults.synthesis.summary !== "Final synthesis could not be generated.") {
+          setActiveTab("final-synthesis");
+        }
       }
+      reportAnalysisComplete();
     } catch (error: any) {
       clearInterval(interval);
-      console.error("Analysis error:", error);
-      setProgress(100); 
-      const errorMessage = error.message || 'An unexpected error occurred.';
-      setStatusText(`❌ Error: ${errorMessage.length > 100 ? errorMessage.substring(0,100) + "..." : errorMessage}`);
-      toast({
-        title: "Analysis Failed",
-        description: errorMessage,
-        variant: "destructive",
-      });
+      reportAnalysisError(error);
     } finally {
       setIsLoading(false);
     }
   };
+
+  // Resumes the paused session; the orchestrator folds the answers into the refined query.
+  const handleClarification = async (clarification: ClarificationResponse) => {
+    if (!masterResults?.sessionId) return;
+    setIsLoading(true);
+    setProgress(0);
+    setStatusText('Resuming analysis with your clarification...');
+    try {
+      await streamMaster({ resumeSessionId: masterResults.sessionId, clarification });
+      reportAnalysisComplete();
+    } catch (error: any) {
+      reportAnalysisError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The turn is already saved with the session; keep the local copy in step rather than reloading it.
+  const handleFollowUpTurn = (turn: FollowUpTurn) => {
+    setMasterResults(prev => prev && { ...prev, sessionState: { ...prev.sessionState, followUps: [...(prev.sessionState.followUps ?? []), turn] } });
+  };
   
   const getEvidenceQualityClass = (quality: string) => {
     if (quality.toLowerCase() === 'high') return 'evidence-high';
@@ -158,9 +259,10 @@ export default function CriticalInsightsPage() {
         </CardHeader>
         <CardContent>
           <p><strong>Support/Details:</strong> {ev.support}</p>
+          {ev.quote && <blockquote className="mt-2 border-l-2 pl-3 text-sm italic text-muted-foreground">&ldquo;{ev.quote}&rdquo;</blockquote>}
         </CardContent>
         <CardFooter className="text-sm text-muted-foreground">
-          <p><strong>Quality:</strong> <Badge variant={ev.quality === 'high' ? 'default' : ev.quality === 'moderate' ? 'secondary' : 'destructive'} className="mr-1">{ev.quality}</Badge> | <strong>Source:</strong> {ev.source}</p>
+          <p><strong>Quality:</strong> <Badge variant={ev.quality === 'high' ? 'default' : ev.quality === 'moderate' ? 'secondary' : 'destructive'} className="mr-1">{ev.quality}</Badge> | <strong>Source:</strong> {ev.url ? <a href={ev.url} target="_blank" rel="noopener noreferrer" className="underline">{ev.source}</a> : ev.source} <span className="font-mono text-xs">[{ev.documentId}]</span></p>
         </CardFooter>
       </Card>
     ));
@@ -335,9 +437,9 @@ export default function CriticalInsightsPage() {
         </h2>
         <p className="mb-4 text-xs text-sidebar-foreground/80">Multi-Agent Analysis System</p>
         <div className="mb-4 h-px bg-sidebar-border"></div>
-        <h3 className="mb-3 text-sm font-medium text-sidebar-foreground">Active Agents</h3>
+        <h3 className="mb-3 text-sm font-medium text-sidebar-foreground">{mode === 'master' ? 'Orchestration Phases' : 'Active Agents'}</h3>
         <div className="space-y-3 overflow-y-auto pr-2 flex-grow">
-          {agentInfo.map(agent => (
+          {stepInfo.map(agent => (
             <div key={agent.name} className="flex items-start p-2 rounded-md hover:bg-sidebar-accent/10 transition-colors">
               <agent.icon size={20} className="mr-3 mt-1 text-sidebar-primary shrink-0" />
               <div>
@@ -374,16 +476,65 @@ export default function CriticalInsightsPage() {
                 {isLoading ? 'Analyzing...' : '🔍 Analyze Query'}
               </Button>
             </div>
+            <RadioGroup
+              value={mode}
+              onValueChange={(value) => setMode(value as AnalysisMode)}
+              className="mt-4 flex flex-wrap gap-6"
+              disabled={isLoading}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="master" id="mode-master" />
+                <Label htmlFor="mode-master">Six-phase orchestration</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="classic" id="mode-classic" />
+                <Label htmlFor="mode-classic">Classic pipeline</Label>
+              </div>
+            </RadioGroup>
+            {mode === 'master' && (
+              <div className="mt-3 flex items-center space-x-2">
+                <Switch id="ask-clarification" checked={askClarification} onCheckedChange={setAskClarification} disabled={isLoading} />
+                <Label htmlFor="ask-clarification">Ask clarifying questions before answering</Label>
+              </div>
+            )}
+            {mode === 'master' && (
+              <div className="mt-3 flex items-center space-x-2">
+                <Switch id="compare-options" checked={compareOptions} onCheckedChange={setCompareOptions} disabled={isLoading} />
+                <Label htmlFor="compare-options">Compare options side by side</Label>
+              </div>
+            )}
+            {mode === 'master' && compareOptions && (
+              <ComparisonInputs draft={comparisonDraft} onChange={setComparisonDraft} disabled={isLoading} />
+            )}
             {isLoading && (
               <div className="mt-4">
                 <Progress value={progress} className="w-full" />
                 <p className="mt-2 text-sm text-center text-muted-foreground">{statusText}</p>
+                {mode === 'master' && <OrchestrationProgress state={orchestrationProgress} />}
               </div>
             )}
           </CardContent>
         </Card>
 
-        {results && !isLoading && (
+        {mode === 'master' && masterResults && !isLoading && (
+          masterResults.awaitingClarification && masterResults.sessionState.clarification ? (
+            <ClarificationRoundView key={masterResults.sessionId} round={masterResults.sessionState.clarification} onSubmit={handleClarification} />
+          ) : (
+            <>
+              <ReportExportButtons getReport={() => buildReportFromSession(masterResults.sessionState, { sessionId: masterResults.sessionId })} />
+              {masterResults.success && !masterResults.awaitingReview && (
+                <FollowUpThread sessionId={masterResults.sessionId} turns={masterResults.sessionState.followUps ?? []} onTurn={handleFollowUpTurn} />
+              )}
+              <MasterAnalysisResultsView results={masterResults} activeTab={activeTab} onTabChange={setActiveTab} />
+            </>
+          )
+        )}
+
+        {mode === 'classic' && results && !isLoading && (
+          <ReportExportButtons getReport={() => buildReportFromClassicResults(results, analyzedQuery)} />
+        )}
+
+        {mode === 'classic' && results && !isLoading && (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-3 sm:grid-cols-4 lg:grid-cols-7 mb-4">
               <TabsTrigger value="initial-response">Initial Response</TabsTrigger>
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { askFollowUpAction } from '@/app/actions';
+import { FOLLOW_UP_STEP_AGENTS, type FollowUpTurn } from '@/ai/flows/follow-up';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+
+interface FollowUpThreadProps {
+  sessionId?: string;
+  turns: FollowUpTurn[];
+  onTurn: (turn: FollowUpTurn) => void;
+}
+
+function FollowUpTurnView({ turn }: { turn: FollowUpTurn }) {
+  return (
+    <div className="space-y-2">
+      <div className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">{turn.question}</div>
+      <div className="max-w-[85%] rounded-lg border bg-muted/40 px-3 py-2 text-sm space-y-2">
+        <p className="whitespace-pre-wrap">{turn.answer}</p>
+        {turn.keyPoints.length > 0 && (
+          <ul className="list-disc pl-5 space-y-1">
+            {turn.keyPoints.map((point, index) => <li key={index}>{point}</li>)}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-1 pt-1 text-xs text-muted-foreground">
+          {turn.plan.steps.length > 0
+            ? <>Re-ran: {turn.plan.steps.map(step => <Badge key={step} variant="outline">{FOLLOW_UP_STEP_AGENTS[step]}</Badge>)}</>
+            : <span>Answered from the session</span>}
+          {turn.modelUsage && <span className="ml-2">{turn.modelUsage.total.totalTokens.toLocaleString()} tokens</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Follow-up questions on a finished session, threaded above the results. Each question re-runs only the agents
+ * the planner picks and is answered from the session's evidence, assumptions and critiques otherwise.
+ */
+export default function FollowUpThread({ sessionId, turns, onTurn }: FollowUpThreadProps) {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+
+  const handleAsk = async () => {
+    if (!sessionId || !question.trim()) return;
+    setPendingQuestion(question.trim());
+    try {
+      onTurn(await askFollowUpAction(sessionId, question.trim()));
+      setQuestion('');
+    } catch (error: any) {
+      console.error('Follow-up failed:', error);
+      toast({ title: "Follow-Up Failed", description: error.message || 'The follow-up could not be answered.', variant: "destructive" });
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  if (!sessionId) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg"><MessageSquare className="h-5 w-5" /> Follow-up questions</CardTitle>
+        <CardDescription>
+          Ask about this analysis ("What if the budget is halved?", "Expand on gap #2"). Only the agents the question needs are re-run.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {turns.map(turn => <FollowUpTurnView key={turn.turnId} turn={turn} />)}
+        {pendingQuestion && (
+          <div className="space-y-2">
+            <div className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">{pendingQuestion}</div>
+            <p className="flex items-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Planning and running the follow-up…</p>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={question}
+            onChange={(event) => setQuestion(event.target.value)}
+            onKeyDown={(event) => { if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) handleAsk(); }}
+            placeholder="Ask a follow-up question"
+            rows={2}
+            disabled={!!pendingQuestion}
+          />
+          <Button onClick={handleAsk} disabled={!!pendingQuestion || !question.trim()} aria-label="Ask follow-up">
+            {pendingQuestion ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,1000 @@
+
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { MasterAnalysisResults } from '@/app/actions';
+import WhatIfPanel from '@/components/what-if-panel';
+import ComparisonMatrix from '@/components/comparison-matrix';
+import type { Evidence } from '@/ai/flows/researcher-agent';
+import type { CitationSource, SynthesisClaim } from '@/ai/flows/citation-graph';
+import type { VerifiedClaim } from '@/ai/flows/atomic-claims';
+import type { ModelUsageTotals } from '@/ai/llm-usage';
+import { citationsForStatement, claimMatchesStatement, numberFootnotes, splitSentences } from '@/lib/citations';
+
+import {
+  AlertTriangle,
+  Info,
+  Search,
+  SearchX,
+  Sparkles,
+  ThumbsUp,
+  ThumbsDown,
+  ListChecks,
+  EyeOff,
+  UserCheck,
+} from 'lucide-react';
+
+interface MasterAnalysisResultsViewProps {
+  results: MasterAnalysisResults;
+  activeTab: string;
+  onTabChange: (tab: string) => void;
+}
+
+const getLevelVariant = (level: string): "default" | "secondary" | "destructive" | "outline" => {
+  const lowerVal = level.toLowerCase();
+  if (['high', 'strong', 'excellent', 'verified', 'fully_preserved'].includes(lowerVal)) return 'default';
+  if (['medium', 'moderate', 'good', 'partially_verified', 'partially_preserved'].includes(lowerVal)) return 'secondary';
+  if (['low', 'weak', 'poor', 'critical', 'contradicted', 'lost', 'distorted'].includes(lowerVal)) return 'destructive';
+  return 'outline';
+};
+
+const getRiskColor = (riskOrImpact: string) => {
+  const lowerVal = riskOrImpact.toLowerCase();
+  if (lowerVal === "critical" || lowerVal === "high") return "text-red-500";
+  if (lowerVal === "medium") return "text-yellow-500";
+  if (lowerVal === "low") return "text-green-500";
+  return "text-gray-500";
+};
+
+const getEvidenceQualityClass = (quality: string) => {
+  if (quality.toLowerCase() === 'high') return 'evidence-high';
+  if (quality.toLowerCase() === 'moderate') return 'evidence-moderate';
+  if (quality.toLowerCase() === 'low') return 'evidence-low';
+  return 'bg-muted';
+};
+
+const renderUnavailable = (agentName: string) => (
+  <p className="text-muted-foreground">No output available. The {agentName} did not run or did not return data.</p>
+);
+
+const renderStringList = (items: string[] | undefined, emptyText: string) => {
+  if (!items || items.length === 0) {
+    return <p className="text-muted-foreground text-sm">{emptyText}</p>;
+  }
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+};
+
+interface CitationContext {
+  claims: SynthesisClaim[];
+  footnotes: Map<string, number>;
+  sourcesById: Map<string, CitationSource>;
+}
+
+const CITATION_KIND_LABELS: Record<CitationSource['kind'], string> = {
+  supporting_evidence: 'Supporting evidence',
+  counter_evidence: 'Counter-evidence',
+  assumption: 'Assumption',
+  information_gap: 'Information gap',
+  critique: 'Critique',
+  challenge: "Devil's advocate challenge",
+};
+
+const renderCitationMarkers = (statement: string, citations: CitationContext | null) => {
+  if (!citations) return null;
+  const ids = citationsForStatement(statement, citations.claims).filter(id => citations.footnotes.has(id));
+  if (ids.length === 0) {
+    return <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px] text-muted-foreground">no source</Badge>;
+  }
+  return ids.map(id => {
+    const source = citations.sourcesById.get(id)!;
+    return (
+      <Tooltip key={id}>
+        <TooltipTrigger asChild>
+          <sup className="ml-0.5 cursor-help text-primary">[{citations.footnotes.get(id)}]</sup>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-sm">
+          <p className="font-semibold">{CITATION_KIND_LABELS[source.kind]} <span className="font-mono text-xs">{source.id}</span></p>
+          <p>{source.text}</p>
+          {source.detail && <p className="text-xs text-muted-foreground">{source.detail}</p>}
+        </TooltipContent>
+      </Tooltip>
+    );
+  });
+};
+
+// Most severe first; the marker shows the worst verdict among the claims taken from a statement.
+const FLAGGED_CLAIM_STATUSES: VerifiedClaim['status'][] = ['contradicted', 'disputed', 'unverified'];
+
+const renderClaimFlags = (statement: string, flaggedClaims: VerifiedClaim[]) => {
+  const matching = flaggedClaims.filter(claim => claimMatchesStatement(claim, statement));
+  if (matching.length === 0) return null;
+  const worst = FLAGGED_CLAIM_STATUSES.find(status => matching.some(claim => claim.status === status)) ?? 'unverified';
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant={worst === 'unverified' ? 'secondary' : 'destructive'} className="ml-1 cursor-help px-1 py-0 text-[10px]">{worst}</Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm space-y-2">
+        {matching.map((claim, i) => (
+          <div key={i}>
+            <p><span className="font-semibold capitalize">{claim.status}:</span> {claim.claim}</p>
+            {claim.contradictingEvidence.slice(0, 2).map((evidence, j) => <p key={j} className="text-xs text-muted-foreground">Against: {evidence}</p>)}
+            {claim.status === 'unverified' && <p className="text-xs text-muted-foreground">No gathered evidence addresses this claim.</p>}
+          </div>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+const renderCitedStringList = (items: string[] | undefined, emptyText: string, citations: CitationContext | null, flaggedClaims: VerifiedClaim[]) => {
+  if (!items || items.length === 0) {
+    return <p className="text-muted-foreground text-sm">{emptyText}</p>;
+  }
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm">
+      {items.map((item, i) => <li key={i}>{item}{renderCitationMarkers(item, citations)}{renderClaimFlags(item, flaggedClaims)}</li>)}
+    </ul>
+  );
+};
+
+const formatCost = (totals: ModelUsageTotals) =>
+  `$${totals.costUSD.toFixed(4)}${totals.unpricedCalls > 0 ? ` (+${totals.unpricedCalls} unpriced)` : ''}`;
+
+const renderUsageTable = (label: string, rows: Record<string, ModelUsageTotals>) => {
+  const entries = Object.entries(rows).sort(([, a], [, b]) => b.totalTokens - a.totalTokens);
+  if (entries.length === 0) return null;
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Input tokens</TableHead>
+          <TableHead className="text-right">Output tokens</TableHead>
+          <TableHead className="text-right">Latency</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(([name, totals]) => (
+          <TableRow key={`${label}-${name}`}>
+            <TableCell className="font-mono text-xs">{name}</TableCell>
+            <TableCell className="text-right">{totals.calls}{totals.failedCalls > 0 && <span className="text-destructive"> ({totals.failedCalls} failed)</span>}</TableCell>
+            <TableCell className="text-right">{totals.inputTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{totals.outputTokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{(totals.latencyMs / 1000).toFixed(1)}s</TableCell>
+            <TableCell className="text-right">{formatCost(totals)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const renderEvidenceList = (evidenceList: Evidence[] | undefined, listTitle: string) => {
+  if (!evidenceList || evidenceList.length === 0) {
+    return <p className="text-muted-foreground">No {listTitle.toLowerCase()} found or the respective agent did not return data.</p>;
+  }
+  return evidenceList.map((ev, index) => (
+    <Card key={`${listTitle}-${index}`} className={`mb-4 ${getEvidenceQualityClass(ev.quality)}`}>
+      <CardHeader>
+        <CardTitle className="text-lg">Evidence for: {ev.claim || "General Claim"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p><strong>Support/Details:</strong> {ev.support}</p>
+        {ev.quote && <blockquote className="mt-2 border-l-2 pl-3 text-sm italic text-muted-foreground">&ldquo;{ev.quote}&rdquo;</blockquote>}
+      </CardContent>
+      <CardFooter className="text-sm text-muted-foreground">
+        <p><strong>Quality:</strong> <Badge variant={getLevelVariant(ev.quality)} className="mr-1">{ev.quality}</Badge> | <strong>Source:</strong> {ev.url ? <a href={ev.url} target="_blank" rel="noopener noreferrer" className="underline">{ev.source}</a> : ev.source} <span className="font-mono text-xs">[{ev.documentId}]</span></p>
+      </CardFooter>
+    </Card>
+  ));
+};
+
+export default function MasterAnalysisResultsView({ results, activeTab, onTabChange }: MasterAnalysisResultsViewProps) {
+  const { sessionState, phaseArtifacts, finalSynthesis } = results;
+
+  // Footnotes are numbered in reading order over the synthesis; claims come from the synthesis agents.
+  const citationSources = sessionState.citationSources ?? [];
+  const synthesisStatements = finalSynthesis ? [
+    ...splitSentences(finalSynthesis.summary), ...finalSynthesis.keyStrengths, ...finalSynthesis.keyWeaknesses,
+    ...finalSynthesis.actionableRecommendations, ...finalSynthesis.remainingUncertainties, ...finalSynthesis.howCounterEvidenceWasAddressed,
+  ] : [];
+  const citations: CitationContext | null = finalSynthesis?.claims?.length ? {
+    claims: finalSynthesis.claims,
+    footnotes: numberFootnotes(synthesisStatements, finalSynthesis.claims, citationSources),
+    sourcesById: new Map(citationSources.map(source => [source.id, source])),
+  } : null;
+  const citedSources = citations ? [...citations.footnotes.keys()].map(id => citations.sourcesById.get(id)!) : [];
+  const flaggedClaims = (sessionState.verifiedClaims ?? []).filter(claim => claim.flagged);
+
+  return (
+    <Tabs value={activeTab} onValueChange={onTabChange} className="w-full">
+      <TabsList className="flex h-auto w-full flex-wrap justify-start gap-1 mb-4">
+        <TabsTrigger value="final-synthesis">Synthesis</TabsTrigger>
+        {sessionState.comparison && <TabsTrigger value="comparison">Comparison</TabsTrigger>}
+        <TabsTrigger value="query-refinement">Query Refinement</TabsTrigger>
+        <TabsTrigger value="initial-answer">Initial Answer</TabsTrigger>
+        <TabsTrigger value="evidence">Evidence</TabsTrigger>
+        <TabsTrigger value="routing">Routing</TabsTrigger>
+        <TabsTrigger value="bias">Bias</TabsTrigger>
+        <TabsTrigger value="critical-analysis">Critical Analysis</TabsTrigger>
+        <TabsTrigger value="risk-analysis">Premortem</TabsTrigger>
+        <TabsTrigger value="assumptions-gaps">Assumptions & Gaps</TabsTrigger>
+        <TabsTrigger value="argument">Argument</TabsTrigger>
+        <TabsTrigger value="impact">Impact</TabsTrigger>
+        <TabsTrigger value="quality-confidence">Quality & Confidence</TabsTrigger>
+        <TabsTrigger value="sensitivity">Sensitivity</TabsTrigger>
+        <TabsTrigger value="what-if">What-If</TabsTrigger>
+        <TabsTrigger value="perspectives">Perspectives</TabsTrigger>
+        <TabsTrigger value="fact-verification">Fact Verification</TabsTrigger>
+        <TabsTrigger value="nuance">Nuance</TabsTrigger>
+        <TabsTrigger value="synthesis-critique">Synthesis Critique</TabsTrigger>
+        <TabsTrigger value="human-review">Human Review</TabsTrigger>
+        <TabsTrigger value="usage">Usage</TabsTrigger>
+        <TabsTrigger value="errors">Errors ({sessionState.errorsEncountered.length})</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="final-synthesis">
+        {results.reviewRejected ? (
+          <Alert variant="destructive" className="mb-4">
+            <UserCheck className="h-4 w-4" />
+            <AlertTitle>Rejected by Reviewer</AlertTitle>
+            <AlertDescription>{results.humanReviewReason || 'A human reviewer rejected this analysis.'}</AlertDescription>
+          </Alert>
+        ) : results.awaitingReview ? (
+          <Alert className="mb-4 border-yellow-500/50">
+            <UserCheck className="h-4 w-4" />
+            <AlertTitle>Awaiting Human Review</AlertTitle>
+            <AlertDescription>
+              {results.humanReviewReason || 'The orchestrator suspended this analysis for human review.'} The draft below is not final; the session
+              resumes once review <span className="font-mono text-xs">{sessionState.humanReview?.reviewId}</span> is decided in
+              the <Link href="/reviews" className="underline">review workspace</Link>.
+            </AlertDescription>
+          </Alert>
+        ) : results.humanReviewRequired && (
+          <Alert className="mb-4 border-yellow-500/50">
+            <UserCheck className="h-4 w-4" />
+            <AlertTitle>Human Review Recommended</AlertTitle>
+            <AlertDescription>{results.humanReviewReason || 'The orchestrator flagged this analysis for human review.'}</AlertDescription>
+          </Alert>
+        )}
+        {!finalSynthesis ? (
+          <Alert variant="default" className="border-accent text-accent-foreground">
+            <Info className="h-4 w-4 text-accent" />
+            <AlertTitle className="text-accent-foreground">Synthesis Not Available</AlertTitle>
+            <AlertDescription className="text-accent-foreground/80">
+              The final AI-driven synthesis could not be generated. Check the Errors tab for details.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <TooltipProvider delayDuration={150}>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Sparkles className="mr-2 h-5 w-5 text-primary" />
+                    Overall Synthesis & Confidence
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="mb-2"><strong>Confidence Level:</strong> <Badge variant={getLevelVariant(finalSynthesis.confidence)}>{finalSynthesis.confidence}</Badge></p>
+                  <p className="prose prose-sm max-w-none dark:prose-invert">
+                    {citations || flaggedClaims.length > 0
+                      ? splitSentences(finalSynthesis.summary).map((sentence, i) => <span key={i}>{i > 0 && ' '}{sentence}{renderCitationMarkers(sentence, citations)}{renderClaimFlags(sentence, flaggedClaims)}</span>)
+                      : finalSynthesis.summary}
+                  </p>
+                </CardContent>
+              </Card>
+              <div className="grid md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader><CardTitle className="flex items-center"><ThumbsUp className="mr-2 h-5 w-5 text-green-500" />Key Strengths</CardTitle></CardHeader>
+                  <CardContent>{renderCitedStringList(finalSynthesis.keyStrengths, 'No specific strengths highlighted.', citations, flaggedClaims)}</CardContent>
+                </Card>
+                <Card>
+                  <CardHeader><CardTitle className="flex items-center"><ThumbsDown className="mr-2 h-5 w-5 text-red-500" />Key Weaknesses / Risks</CardTitle></CardHeader>
+                  <CardContent>{renderCitedStringList(finalSynthesis.keyWeaknesses, 'No specific weaknesses highlighted.', citations, flaggedClaims)}</CardContent>
+                </Card>
+              </div>
+              <Card>
+                <CardHeader><CardTitle className="flex items-center"><ListChecks className="mr-2 h-5 w-5 text-blue-500" />Actionable Recommendations</CardTitle></CardHeader>
+                <CardContent>{renderCitedStringList(finalSynthesis.actionableRecommendations, 'No specific recommendations provided.', citations, flaggedClaims)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader><CardTitle className="flex items-center"><EyeOff className="mr-2 h-5 w-5 text-yellow-500" />Remaining Uncertainties / Gaps</CardTitle></CardHeader>
+                <CardContent>{renderCitedStringList(finalSynthesis.remainingUncertainties, 'No specific uncertainties highlighted.', citations, flaggedClaims)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader><CardTitle>How Counter-Evidence Was Addressed</CardTitle></CardHeader>
+                <CardContent>{renderCitedStringList(finalSynthesis.howCounterEvidenceWasAddressed, 'No counter-evidence handling described.', citations, flaggedClaims)}</CardContent>
+              </Card>
+              {citations && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sources</CardTitle>
+                    {sessionState.citationValidation && (
+                      <CardDescription>
+                        {sessionState.citationValidation.citedStatements} of {sessionState.citationValidation.totalStatements} synthesis statements cite a source.
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {citedSources.length === 0 ? (
+                      <p className="text-muted-foreground text-sm">The synthesis did not cite any recorded source.</p>
+                    ) : (
+                      <ol className="list-decimal pl-5 space-y-1 text-sm">
+                        {citedSources.map(source => (
+                          <li key={source.id}>
+                            <span className="font-mono text-xs">{source.id}</span> {CITATION_KIND_LABELS[source.kind]}: {source.url ? <a href={source.url} target="_blank" rel="noopener noreferrer" className="underline">{source.text}</a> : source.text}
+                            {source.detail && <span className="text-muted-foreground"> ({source.detail})</span>}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </TooltipProvider>
+        )}
+      </TabsContent>
+
+      {sessionState.comparison && (
+        <TabsContent value="comparison">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>⚖️ Option Comparison</CardTitle>
+              <CardDescription>Each option was researched, challenged and premortemed on its own, then scored on the weighted criteria.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ComparisonMatrix comparison={sessionState.comparison} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      )}
+
+      <TabsContent value="query-refinement">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🔎 Query Refinement</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {phaseArtifacts.queryRefinement ? (
+              <>
+                <p><strong>Refined Query:</strong> {phaseArtifacts.queryRefinement.refinedQuery}</p>
+                <p className="text-sm text-muted-foreground"><strong>Reason:</strong> {phaseArtifacts.queryRefinement.refinementReason}</p>
+                <div>
+                  <h4 className="font-semibold mb-2">Identified Issues</h4>
+                  {phaseArtifacts.queryRefinement.identifiedIssues.length > 0 ? (
+                    <ul className="list-disc pl-5 space-y-1 text-sm">
+                      {phaseArtifacts.queryRefinement.identifiedIssues.map((issue, i) => (
+                        <li key={i}><Badge variant="outline" className="mr-2">{issue.issueType}</Badge>{issue.description}</li>
+                      ))}
+                    </ul>
+                  ) : <p className="text-muted-foreground text-sm">No issues identified with the original query.</p>}
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Clarification Questions</h4>
+                  {renderStringList(phaseArtifacts.queryRefinement.clarificationQuestions, 'No clarifications needed.')}
+                </div>
+              </>
+            ) : renderUnavailable('Query Refinement Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="initial-answer">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>📝 Initial Answer</CardTitle>
+            {phaseArtifacts.initialAnswerLoop && <CardDescription>Refined over {phaseArtifacts.initialAnswerLoop.iterations} iteration(s)</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.initialAnswerText ? <p className="prose prose-sm max-w-none dark:prose-invert">{sessionState.initialAnswerText}</p> : renderUnavailable('Initial Answer Loop')}
+            {phaseArtifacts.initialAnswerLoop && phaseArtifacts.initialAnswerLoop.improvementHistory.length > 0 && (
+              <Accordion type="single" collapsible className="w-full">
+                {phaseArtifacts.initialAnswerLoop.improvementHistory.map((step) => (
+                  <AccordionItem value={`iteration-${step.iteration}`} key={step.iteration}>
+                    <AccordionTrigger className="text-base hover:no-underline">Iteration {step.iteration}</AccordionTrigger>
+                    <AccordionContent className="space-y-2 text-sm">
+                      <p>{step.answer}</p>
+                      <p className="text-muted-foreground"><strong>Critique:</strong> {step.critique}</p>
+                      {renderStringList(step.improvements, 'No improvements recorded.')}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="evidence">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Search className="mr-2 h-5 w-5 text-green-500" /> Supporting Evidence
+            </CardTitle>
+          </CardHeader>
+          <CardContent>{renderEvidenceList(sessionState.aggregatedSupportingResearch, "Supporting Evidence")}</CardContent>
+          <CardHeader className="mt-6 pt-6 border-t">
+            <CardTitle className="flex items-center">
+              <SearchX className="mr-2 h-5 w-5 text-destructive" /> Counter-Evidence / Alternative Perspectives
+            </CardTitle>
+          </CardHeader>
+          <CardContent>{renderEvidenceList(sessionState.aggregatedCounterResearch, "Counter-Evidence")}</CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="routing">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🧭 Routing Decision</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.routingDecision ? (
+              <>
+                <p>
+                  <strong>Strategy:</strong> <Badge variant="outline">{sessionState.routingDecision.analysisStrategy.approach}</Badge>{' '}
+                  <strong>Complexity:</strong> <Badge variant="outline">{sessionState.routingDecision.analysisStrategy.estimatedComplexity}</Badge>{' '}
+                  <strong>Risk:</strong> <Badge variant="outline">{sessionState.routingDecision.analysisStrategy.riskLevel}</Badge>
+                </p>
+                <p className="text-sm text-muted-foreground">{sessionState.routingDecision.analysisStrategy.reasoning}</p>
+                <ul className="space-y-2 text-sm">
+                  {[...sessionState.routingDecision.recommendedAgents].sort((a, b) => a.executionOrder - b.executionOrder).map((agent) => (
+                    <li key={agent.agentName}>
+                      <Badge variant={getLevelVariant(agent.priority)} className="mr-2">{agent.priority}</Badge>
+                      <strong>{agent.executionOrder}. {agent.agentName}</strong> — {agent.reasoning}
+                    </li>
+                  ))}
+                </ul>
+                <div>
+                  <h4 className="font-semibold mb-2">Skippable Agents</h4>
+                  {renderStringList(sessionState.routingDecision.optimizations.canSkipAgents, 'No agents were marked as skippable.')}
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Recommended Parallel Groups</h4>
+                  {renderStringList(sessionState.routingDecision.parallelExecutionGroups.map(group => group.join(' ∥ ')), 'No parallel groups were recommended.')}
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Executed Plan</h4>
+                  {sessionState.executedRoutingPlans && sessionState.executedRoutingPlans.length > 0 ? sessionState.executedRoutingPlans.map(plan => (
+                    <div key={plan.phase} className="mb-3 text-sm">
+                      <p className="font-medium">{plan.phase} <span className="text-muted-foreground">({plan.totalDurationMs}ms)</span></p>
+                      <ol className="list-decimal pl-6 space-y-1">
+                        {plan.groups.map((group, index) => (
+                          <li key={index}>
+                            {group.agents.map(agent => {
+                              const record = plan.agents.find(a => a.agent === agent);
+                              return <Badge key={agent} variant={record?.status === 'failed' ? 'destructive' : 'secondary'} className="mr-1">{agent}</Badge>;
+                            })}
+                            <span className="text-muted-foreground">{group.waitedFor.length > 0 ? ` after ${group.waitedFor.join(', ')}` : ' immediately'} · {group.durationMs}ms</span>
+                          </li>
+                        ))}
+                      </ol>
+                      {plan.skippedAgents.length > 0 && <p className="text-muted-foreground">Skipped: {plan.skippedAgents.join(', ')}</p>}
+                      {plan.ignoredDependencies.length > 0 && <p className="text-muted-foreground">Ignored dependencies: {plan.ignoredDependencies.map(d => `${d.dependent} → ${d.dependsOn}`).join('; ')}</p>}
+                    </div>
+                  )) : <p className="text-muted-foreground">No executed plan was recorded.</p>}
+                </div>
+              </>
+            ) : renderUnavailable('Dynamic Routing Coordinator')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="bias">
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle>⚖️ Detected Biases</CardTitle></CardHeader>
+          <CardContent>
+            {sessionState.potentialBiases && sessionState.potentialBiases.length > 0 ? (
+              <Accordion type="single" collapsible className="w-full">
+                {sessionState.potentialBiases.map((bias, index) => (
+                  <AccordionItem value={`bias-${index}`} key={index}>
+                    <AccordionTrigger className="text-base hover:no-underline">
+                      <div className="flex items-center">
+                        <span className={`mr-2 ${getRiskColor(bias.severity)}`}>●</span>
+                        {bias.biasType.replace(/_/g, ' ')}
+                        <span className="ml-2 text-xs text-muted-foreground">({bias.location.replace(/_/g, ' ')})</span>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-1 text-sm">
+                      <p>{bias.description}</p>
+                      <p className="text-muted-foreground"><strong>Evidence:</strong> {bias.evidence}</p>
+                      <p className="text-muted-foreground"><strong>Mitigation:</strong> {bias.mitigationSuggestion}</p>
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            ) : <p className="text-muted-foreground">No biases detected or the Bias Detection Agent did not return data.</p>}
+          </CardContent>
+        </Card>
+        {sessionState.crossReferencedBiasReport && (
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>🔗 Bias Cross-Referencing</CardTitle>
+              <CardDescription>{sessionState.crossReferencedBiasReport.unaddressedBiasCount} bias(es) unaddressed</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm">{sessionState.crossReferencedBiasReport.overallBiasAssessment}</p>
+              {renderStringList(sessionState.crossReferencedBiasReport.criticalBiasesRequiringAttention, 'No critical biases require attention.')}
+            </CardContent>
+          </Card>
+        )}
+      </TabsContent>
+
+      <TabsContent value="critical-analysis">
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle>🧐 Critical Analysis</CardTitle></CardHeader>
+          <CardContent className="prose prose-sm max-w-none dark:prose-invert">
+            {phaseArtifacts.critique ? <p>{phaseArtifacts.critique}</p> : <p className="text-muted-foreground">No critique generated or an error occurred.</p>}
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>😈 Devil's Advocate Challenges</CardTitle></CardHeader>
+          <CardContent>
+            {phaseArtifacts.challenges && phaseArtifacts.challenges.length > 0 ? (
+              phaseArtifacts.challenges.map((challenge, index) => (
+                <Alert key={index} variant="destructive" className="mb-3">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Challenge {index + 1}</AlertTitle>
+                  <AlertDescription>{challenge}</AlertDescription>
+                </Alert>
+              ))
+            ) : <p className="text-muted-foreground">No counterarguments generated or an error occurred.</p>}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="risk-analysis">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>⚠️ Premortem Analysis - Potential Failure Modes</CardTitle></CardHeader>
+          <CardContent>
+            {phaseArtifacts.premortemAnalysis && phaseArtifacts.premortemAnalysis.length > 0 ? (
+              <Accordion type="single" collapsible className="w-full">
+                {phaseArtifacts.premortemAnalysis.map((item, index) => (
+                  <AccordionItem value={`failure-${index}`} key={index}>
+                    <AccordionTrigger className="text-base hover:no-underline">
+                      {item.failure} <span className="ml-2 text-xs text-muted-foreground">({item.probability})</span>
+                    </AccordionTrigger>
+                    <AccordionContent className="text-muted-foreground"><strong>Mitigation:</strong> {item.mitigation}</AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            ) : <p className="text-muted-foreground">No potential failures identified or premortem agent did not run/return data.</p>}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="assumptions-gaps">
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle>💭 Hidden Assumptions</CardTitle></CardHeader>
+          <CardContent>
+            {sessionState.assumptions && sessionState.assumptions.length > 0 ? (
+              sessionState.assumptions.map((item, index) => (
+                <Card key={index} className="mb-4">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Assumption {index + 1} <span className={`ml-2 text-sm ${getRiskColor(item.risk)}`}>({item.risk} risk)</span></CardTitle>
+                    <CardDescription>{item.assumption}</CardDescription>
+                  </CardHeader>
+                  <CardContent><p><strong>Alternative Perspective:</strong> {item.alternative}</p></CardContent>
+                </Card>
+              ))
+            ) : <p className="text-muted-foreground">No hidden assumptions identified or assumption analyzer did not run/return data.</p>}
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🧩 Information Gaps</CardTitle></CardHeader>
+          <CardContent>
+            {phaseArtifacts.informationGaps && phaseArtifacts.informationGaps.length > 0 ? (
+              <ul className="space-y-2 text-sm">
+                {phaseArtifacts.informationGaps.map((item, index) => (
+                  <li key={index}><span className={`mr-2 font-semibold ${getRiskColor(item.impact)}`}>{item.impact}</span>{item.gap}</li>
+                ))}
+              </ul>
+            ) : <p className="text-muted-foreground">No information gaps identified or the Information Gap Analyzer did not return data.</p>}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="argument">
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle>🏛️ Balanced Brief</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.balancedBrief ? (
+              <>
+                <p className="text-sm">{sessionState.balancedBrief.neutralSummary}</p>
+                <ul className="space-y-2 text-sm">
+                  {sessionState.balancedBrief.keyPositions.map((pos, i) => (
+                    <li key={i}><Badge variant={getLevelVariant(pos.supportLevel)} className="mr-2">{pos.supportLevel}</Badge>{pos.position}</li>
+                  ))}
+                </ul>
+                <div>
+                  <h4 className="font-semibold mb-2">Unresolved</h4>
+                  {renderStringList(sessionState.balancedBrief.unresolved, 'No unresolved points of contention.')}
+                </div>
+              </>
+            ) : renderUnavailable('Argument Reconstruction Agent')}
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>🛡️ Pressure-Tested Brief</CardTitle>
+            {phaseArtifacts.counterArgumentIntegration && <CardDescription>Integration quality: {phaseArtifacts.counterArgumentIntegration.integrationQuality}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.pressureTestedBrief ? (
+              <>
+                <p className="text-sm">{sessionState.pressureTestedBrief.integratedSummary}</p>
+                <Accordion type="single" collapsible className="w-full">
+                  {sessionState.pressureTestedBrief.claimsAndCounterclaims.map((item, i) => (
+                    <AccordionItem value={`claim-${i}`} key={i}>
+                      <AccordionTrigger className="text-base hover:no-underline">
+                        {item.originalClaim} <Badge variant="outline" className="ml-2">{item.resolution.replace(/_/g, ' ')}</Badge>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-1 text-sm">
+                        <p className="text-muted-foreground"><strong>Counterclaim:</strong> {item.counterClaim}</p>
+                        <p><strong>Integrated Position:</strong> {item.integratedPosition}</p>
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+                <div>
+                  <h4 className="font-semibold mb-2">Invalidated Points</h4>
+                  {renderStringList(sessionState.pressureTestedBrief.invalidatedPoints, 'No points were invalidated by counter-evidence.')}
+                </div>
+              </>
+            ) : renderUnavailable('Counter-Argument Integration Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="impact">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>💥 Impact Assessment</CardTitle>
+            {phaseArtifacts.impactAssessment && <CardDescription>Confidence ceiling: {phaseArtifacts.impactAssessment.confidenceCeiling.maxConfidenceGivenGaps} — {phaseArtifacts.impactAssessment.confidenceCeiling.reasoning}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.impactAssessments ? (
+              <>
+                <p className="text-sm">{sessionState.impactAssessments.overallImpactSummary}</p>
+                <ul className="space-y-2 text-sm">
+                  {sessionState.impactAssessments.compoundedRisks.map((risk, i) => (
+                    <li key={i}><span className={`mr-2 font-semibold ${getRiskColor(risk.riskLevel)}`}>{risk.riskLevel}</span>{risk.description}</li>
+                  ))}
+                </ul>
+                {phaseArtifacts.impactAssessment && (
+                  <div>
+                    <h4 className="font-semibold mb-2">Recommended Actions</h4>
+                    <ul className="list-disc pl-5 space-y-1 text-sm">
+                      {phaseArtifacts.impactAssessment.recommendedActions.map((action, i) => (
+                        <li key={i}><Badge variant="outline" className="mr-2">{action.priority}</Badge>{action.action}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            ) : renderUnavailable('Impact Assessment Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="quality-confidence">
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle>✅ Quality Check</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {phaseArtifacts.qualityCheck ? (
+              <>
+                <p><strong>Average Score:</strong> {phaseArtifacts.qualityCheck.overallQuality.averageScore} <Badge variant={getLevelVariant(phaseArtifacts.qualityCheck.overallQuality.category)}>{phaseArtifacts.qualityCheck.overallQuality.category}</Badge></p>
+                <p className="text-sm">{phaseArtifacts.qualityCheck.overallQuality.summary}</p>
+                {renderStringList(phaseArtifacts.qualityCheck.qualityFactors.criticalIssues, 'No critical quality issues.')}
+              </>
+            ) : renderUnavailable('Quality Check Agent')}
+          </CardContent>
+        </Card>
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>📊 Confidence Scoring</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {sessionState.overallConfidence ? (
+              <>
+                <p><strong>Confidence:</strong> <Badge variant={getLevelVariant(sessionState.overallConfidence.score)}>{sessionState.overallConfidence.score}</Badge> ({sessionState.overallConfidence.numericScore}/100)</p>
+                <p className="text-sm">{sessionState.overallConfidence.rationale}</p>
+                {phaseArtifacts.confidenceScoring && renderStringList(phaseArtifacts.confidenceScoring.confidenceFactors.criticalLimitations, 'No critical limitations identified.')}
+              </>
+            ) : renderUnavailable('Confidence Scoring Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="sensitivity">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🎚️ Sensitivity Analysis</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.sensitivityAnalysisReport ? (
+              <>
+                <p><strong>Robustness:</strong> {sessionState.sensitivityAnalysisReport.overallRobustness.score}/100 <Badge variant="outline">{sessionState.sensitivityAnalysisReport.overallRobustness.category.replace(/_/g, ' ')}</Badge></p>
+                <p className="text-sm">{sessionState.sensitivityAnalysisReport.overallRobustness.summary}</p>
+                <Accordion type="single" collapsible className="w-full">
+                  {sessionState.sensitivityAnalysisReport.scenarioTests.map((scenario) => (
+                    <AccordionItem value={scenario.scenarioId} key={scenario.scenarioId}>
+                      <AccordionTrigger className="text-base hover:no-underline">
+                        {scenario.scenarioName} <span className="ml-2 text-xs text-muted-foreground">(plausibility: {scenario.scenarioViability.plausibility.replace(/_/g, ' ')})</span>
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <ul className="list-disc pl-5 space-y-1 text-sm">
+                          {scenario.impactOnConclusions.map((impact, i) => (
+                            <li key={i}>{impact.revisedConclusion} <span className="text-muted-foreground">({impact.changeLevel.replace(/_/g, ' ')}, {impact.confidenceAdjustment > 0 ? '+' : ''}{impact.confidenceAdjustment})</span></li>
+                          ))}
+                        </ul>
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </>
+            ) : renderUnavailable('Sensitivity Analysis Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="what-if">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>🧪 What-If Scenarios</CardTitle>
+            <CardDescription>Weaken, reverse or replace assumptions to re-run sensitivity analysis, confidence scoring and synthesis against this run.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WhatIfPanel sessionId={results.sessionId} assumptions={sessionState.assumptions ?? []} />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="perspectives">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>🔭 Synthesis Ensemble Perspectives</CardTitle>
+            {finalSynthesis && <CardDescription>{finalSynthesis.perspectiveDivergence}</CardDescription>}
+          </CardHeader>
+          <CardContent>
+            {sessionState.draftSynthesisOutput && sessionState.draftSynthesisOutput.individualPerspectives.length > 0 ? (
+              <Accordion type="single" collapsible className="w-full">
+                {sessionState.draftSynthesisOutput.individualPerspectives.map((perspective) => (
+                  <AccordionItem value={perspective.perspectiveType} key={perspective.perspectiveType}>
+                    <AccordionTrigger className="text-base hover:no-underline">
+                      {perspective.perspectiveType.replace(/_/g, ' ')} <Badge variant={getLevelVariant(perspective.confidence)} className="ml-2">{perspective.confidence}</Badge>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-2 text-sm">
+                      <p>{perspective.summary}</p>
+                      {renderStringList(perspective.actionableRecommendations, 'No recommendations from this perspective.')}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            ) : renderUnavailable('Synthesis Ensemble Agent')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="fact-verification">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🔬 Fact Verification</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.factCheckedSynthesisOutput ? (
+              <>
+                <p className="text-sm">
+                  {sessionState.factCheckedSynthesisOutput.verificationSummary.verifiedClaims}/{sessionState.factCheckedSynthesisOutput.verificationSummary.totalClaims} claims verified,{' '}
+                  {sessionState.factCheckedSynthesisOutput.verificationSummary.contradictedClaims} contradicted. Overall reliability:{' '}
+                  <Badge variant="outline">{sessionState.factCheckedSynthesisOutput.verificationSummary.overallReliability.replace(/_/g, ' ')}</Badge>
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {sessionState.factCheckedSynthesisOutput.claimVerifications.map((claim, i) => (
+                    <li key={i}>
+                      <Badge variant={getLevelVariant(claim.finalVerificationStatus)} className="mr-2">{claim.finalVerificationStatus.replace(/_/g, ' ')}</Badge>
+                      {claim.originalClaim}
+                      <span className="ml-2 text-xs text-muted-foreground">{claim.claimType} · {claim.importance} importance · {claim.overallConfidence}%</span>
+                      {claim.contradictingEvidence.length > 0 && <span className="block text-muted-foreground">Contradicted by: {claim.contradictingEvidence.join('; ')}</span>}
+                      {claim.modifiedClaim && <span className="block text-muted-foreground">Suggested revision: {claim.modifiedClaim}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : renderUnavailable('Fact Verification Loop')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="nuance">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🪶 Nuance Preservation</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {sessionState.nuancePreservationReport ? (
+              <>
+                <p><strong>Preservation Score:</strong> {sessionState.nuancePreservationReport.preservationSummary.overallPreservationScore}/100 <Badge variant="outline">{sessionState.nuancePreservationReport.preservationSummary.preservationCategory.replace(/_/g, ' ')}</Badge></p>
+                <div>
+                  <h4 className="font-semibold mb-2">Critical Losses</h4>
+                  {renderStringList(sessionState.nuancePreservationReport.preservationConcerns.criticalLosses, 'No critical nuance losses.')}
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Oversimplifications</h4>
+                  {renderStringList(sessionState.nuancePreservationReport.preservationConcerns.oversimplifications, 'No oversimplifications detected.')}
+                </div>
+              </>
+            ) : renderUnavailable('Nuance Preservation Check')}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="synthesis-critique">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🔁 Synthesis Critique</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {phaseArtifacts.synthesisCritique ? (
+              <>
+                <p><strong>Overall Quality:</strong> {phaseArtifacts.synthesisCritique.qualityMetrics.overallQualityScore}/100</p>
+                <p className="text-sm">{phaseArtifacts.synthesisCritique.critiqueResults.overallAssessment}</p>
+                <ul className="space-y-2 text-sm">
+                  {phaseArtifacts.synthesisCritique.critiqueResults.weaknesses.map((weakness, i) => (
+                    <li key={i}>
+                      <span className={`mr-2 font-semibold ${getRiskColor(weakness.severity)}`}>{weakness.severity}</span>
+                      {weakness.description} <span className="text-muted-foreground">— {weakness.suggestedFix}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : renderUnavailable('Synthesis Critique Loop')}
+            {sessionState.synthesisRefinement && (
+              <div className="space-y-2">
+                <h4 className="font-semibold">
+                  Revision History <span className="text-sm font-normal text-muted-foreground">(stopped: {sessionState.synthesisRefinement.stopReason.replace(/_/g, ' ')})</span>
+                </h4>
+                <Accordion type="multiple" className="w-full">
+                  {sessionState.synthesisRefinement.revisions.map(revision => (
+                    <AccordionItem key={revision.iteration} value={`revision-${revision.iteration}`}>
+                      <AccordionTrigger className="text-sm">
+                        <span>
+                          {revision.iteration === 0 ? 'Draft' : `Revision ${revision.iteration}`} — {revision.qualityMetrics.overallQualityScore}/100
+                          {revision.iteration === sessionState.synthesisRefinement!.selectedIteration && <Badge className="ml-2">kept</Badge>}
+                        </span>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-2 text-sm">
+                        <p className="text-xs text-muted-foreground">
+                          Completeness {revision.qualityMetrics.completenessScore} · Coherence {revision.qualityMetrics.coherenceScore} · Evidence {revision.qualityMetrics.evidenceQualityScore} · Clarity {revision.qualityMetrics.clarityScore} · Balance {revision.qualityMetrics.balanceScore}
+                        </p>
+                        <p>{revision.synthesis.summary}</p>
+                        {revision.guidance.length > 0 && (
+                          <>
+                            <p className="font-semibold">Fed back into the next revision:</p>
+                            {renderStringList(revision.guidance, '')}
+                          </>
+                        )}
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="human-review">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>🧑‍⚖️ Human Review</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            {phaseArtifacts.humanReview ? (
+              <>
+                <p><strong>Review ID:</strong> <span className="font-mono text-xs">{phaseArtifacts.humanReview.reviewId}</span> <Badge variant="outline">{sessionState.humanReview?.status.replace(/_/g, ' ') ?? (phaseArtifacts.humanReview.reviewCompleted ? 'completed' : 'pending')}</Badge></p>
+                {sessionState.humanReview?.appliedModifications?.length ? <p className="text-sm"><strong>Modified fields:</strong> {sessionState.humanReview.appliedModifications.join(', ')}</p> : null}
+                {sessionState.humanReview?.rerunPhases?.length ? <p className="text-sm"><strong>Re-ran phases:</strong> {sessionState.humanReview.rerunPhases.join(', ')}</p> : null}
+                {phaseArtifacts.humanReview.humanInput?.feedback && <p className="text-sm"><strong>Feedback:</strong> {phaseArtifacts.humanReview.humanInput.feedback}</p>}
+                {renderStringList(phaseArtifacts.humanReview.nextSteps, 'No next steps recorded.')}
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                {results.humanReviewRequired ? results.humanReviewReason : 'Human review was not requested for this analysis.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="usage">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>🧮 Token & Cost Usage</CardTitle>
+            <CardDescription>Every model call of this session, from the token counts the model reported.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {sessionState.modelUsage && sessionState.modelUsage.total.calls > 0 ? (
+              <>
+                <div className="grid gap-2 sm:grid-cols-4 text-sm">
+                  <p><strong>Calls:</strong> {sessionState.modelUsage.total.calls}{sessionState.modelUsage.total.failedCalls > 0 && ` (${sessionState.modelUsage.total.failedCalls} failed)`}</p>
+                  <p><strong>Tokens:</strong> {sessionState.modelUsage.total.inputTokens.toLocaleString()} in / {sessionState.modelUsage.total.outputTokens.toLocaleString()} out</p>
+                  <p><strong>Model time:</strong> {(sessionState.modelUsage.total.latencyMs / 1000).toFixed(1)}s</p>
+                  <p><strong>Cost:</strong> {formatCost(sessionState.modelUsage.total)}</p>
+                </div>
+                {sessionState.modelUsage.total.unpricedCalls > 0 && (
+                  <p className="text-xs text-muted-foreground">Calls to models without an entry in the <code>pricing</code> table of the model config are left out of the cost.</p>
+                )}
+                {renderUsageTable('Phase', sessionState.modelUsage.byPhase)}
+                {renderUsageTable('Agent', sessionState.modelUsage.byAgent)}
+                {renderUsageTable('Model', sessionState.modelUsage.byModel)}
+              </>
+            ) : <p className="text-muted-foreground">No model calls were recorded for this session.</p>}
+            {sessionState.budget && (
+              <div className="space-y-2">
+                <h4 className="font-semibold">Session Budget</h4>
+                <p className="text-sm">
+                  {[
+                    sessionState.budget.budget.maxTokens !== undefined && `${sessionState.budget.budget.maxTokens.toLocaleString()} tokens`,
+                    sessionState.budget.budget.maxCostUSD !== undefined && `$${sessionState.budget.budget.maxCostUSD}`,
+                    sessionState.budget.budget.maxDurationMs !== undefined && `${(sessionState.budget.budget.maxDurationMs / 1000).toFixed(0)}s`,
+                  ].filter(Boolean).join(' / ')}
+                  {' '}<Badge variant={sessionState.budget.budgetUsed >= 1 ? 'destructive' : 'secondary'}>{Math.round(sessionState.budget.budgetUsed * 100)}% used</Badge>
+                  {' '}<span className="text-muted-foreground">after {(sessionState.budget.elapsedMs / 1000).toFixed(1)}s</span>
+                </p>
+                {sessionState.budget.degradations.length > 0 ? (
+                  <>
+                    <p className="text-sm">The budget cut the steps below; the overall confidence was lowered by {sessionState.budget.confidencePenalty} point(s) for them.</p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Phase</TableHead>
+                          <TableHead>Agent</TableHead>
+                          <TableHead>Cut</TableHead>
+                          <TableHead className="text-right">Budget used</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sessionState.budget.degradations.map((degradation, i) => (
+                          <TableRow key={`degradation-${i}`}>
+                            <TableCell className="font-mono text-xs">{degradation.phase}</TableCell>
+                            <TableCell>{degradation.agent}</TableCell>
+                            <TableCell>
+                              {degradation.kind === 'skipped_agent'
+                                ? 'Skipped'
+                                : `${degradation.allowed} of ${degradation.planned} ${degradation.kind === 'dropped_perspectives' ? 'perspectives' : 'iterations'}`}
+                              {' '}<Badge variant={degradation.pressure === 'critical' ? 'destructive' : 'outline'}>{degradation.pressure}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{Math.round(degradation.budgetUsed * 100)}%</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                ) : <p className="text-sm text-muted-foreground">The analysis ran in full within its budget.</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="errors">
+        <Card className="shadow-md">
+          <CardHeader><CardTitle>📡 Errors & Recovery Log</CardTitle></CardHeader>
+          <CardContent>
+            {sessionState.errorsEncountered.length > 0 ? (
+              <div className="space-y-2 text-xs font-mono max-h-96 overflow-y-auto p-2 bg-muted rounded-md">
+                {sessionState.errorsEncountered.map((err, i) => (
+                  <div key={i} className={err.isCriticalFailure ? 'text-destructive' : ''}>
+                    [{err.timestamp}] {err.phase ? `${err.phase} / ` : ''}{err.agent}: {err.error}
+                    {err.recoveryStrategy && ` (recovery: ${err.recoveryStrategy})`}
+                  </div>
+                ))}
+              </div>
+            ) : <p className="text-muted-foreground">No errors were encountered during orchestration.</p>}
+          </CardContent>
+        </Card>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,176 @@
+
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import type { OrchestratorEvent } from '@/ai/flows/orchestrator-events';
+
+export const MASTER_PHASES = [
+  'Phase1_QueryIntakeAndInitialAnswer',
+  'Phase2_EvidenceGatheringAndAnalysis',
+  'Phase3_InDepthAnalysisAndChallenge',
+  'Phase4_PreSynthesisStructuringAndQA',
+  'Phase5_SynthesisVerificationAndRefinement',
+  'Phase6_HumanReviewAndFinalization',
+];
+
+type AgentStatus = 'running' | 'retrying' | 'succeeded' | 'failed';
+
+interface AgentProgress {
+  agent: string;
+  phase?: string;
+  status: AgentStatus;
+  attempt: number;
+  durationMs?: number;
+  lastError?: string;
+  circuitOpen: boolean;
+}
+
+export interface OrchestrationProgressState {
+  currentPhase?: string;
+  finishedPhases: Record<string, number>;
+  agents: Record<string, AgentProgress>;
+  artifacts: { name: string; data: unknown }[];
+  lastMessage: string;
+}
+
+export const initialOrchestrationProgress: OrchestrationProgressState = {
+  finishedPhases: {},
+  agents: {},
+  artifacts: [],
+  lastMessage: 'Kicking off analysis pipeline...',
+};
+
+const formatPhase = (phase: string) => phase.replace(/^Phase(\d)_/, 'Phase $1: ').replace(/([a-z])([A-Z])/g, '$1 $2');
+const formatDuration = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+
+/**
+ * Folds an orchestrator event into the progress state shown while an analysis runs.
+ */
+export function applyOrchestratorEvent(state: OrchestrationProgressState, event: OrchestratorEvent): OrchestrationProgressState {
+  switch (event.type) {
+    case 'phase_started':
+      return { ...state, currentPhase: event.phase, lastMessage: `Starting ${formatPhase(event.phase)}...` };
+    case 'phase_finished':
+      return { ...state, finishedPhases: { ...state.finishedPhases, [event.phase]: event.durationMs }, lastMessage: `Finished ${formatPhase(event.phase)} in ${formatDuration(event.durationMs)}` };
+    case 'agent_attempt':
+      return {
+        ...state,
+        agents: { ...state.agents, [event.agent]: { agent: event.agent, phase: event.phase, status: 'running', attempt: event.attempt, circuitOpen: event.circuitState === 'OPEN' } },
+        lastMessage: `Processing: ${event.agent}${event.attempt > 1 ? ` (attempt ${event.attempt}/${event.maxAttempts})` : ''}...`,
+      };
+    case 'agent_succeeded':
+      return { ...state, agents: { ...state.agents, [event.agent]: { ...state.agents[event.agent], agent: event.agent, phase: event.phase, status: 'succeeded', attempt: event.attempt, durationMs: event.durationMs, circuitOpen: false } } };
+    case 'agent_retry':
+      return {
+        ...state,
+        agents: { ...state.agents, [event.agent]: { ...state.agents[event.agent], agent: event.agent, phase: event.phase, status: 'retrying', attempt: event.attempt, lastError: event.error, circuitOpen: false } },
+        lastMessage: `Retrying ${event.agent} in ${formatDuration(event.delayMs)}: ${event.error}`,
+      };
+    case 'agent_failed':
+      return {
+        ...state,
+        agents: { ...state.agents, [event.agent]: { ...state.agents[event.agent], agent: event.agent, phase: event.phase, status: 'failed', attempt: event.attempt, lastError: event.error, circuitOpen: event.circuitOpen } },
+        lastMessage: `${event.agent} failed; continuing with default output.`,
+      };
+    case 'circuit_opened':
+      return {
+        ...state,
+        agents: { ...state.agents, [event.agent]: { ...state.agents[event.agent], agent: event.agent, phase: event.phase, status: state.agents[event.agent]?.status ?? 'failed', attempt: state.agents[event.agent]?.attempt ?? 0, circuitOpen: true } },
+        lastMessage: `Circuit opened for ${event.agent} after ${event.consecutiveFailures} consecutive failures.`,
+      };
+    case 'circuit_half_open':
+      return { ...state, lastMessage: `Circuit for ${event.agent} is half open; trying one call.` };
+    case 'circuit_closed':
+      return {
+        ...state,
+        agents: { ...state.agents, [event.agent]: { ...state.agents[event.agent], agent: event.agent, phase: event.phase, status: state.agents[event.agent]?.status ?? 'succeeded', attempt: state.agents[event.agent]?.attempt ?? 0, circuitOpen: false } },
+        lastMessage: `Circuit for ${event.agent} closed again.`,
+      };
+    case 'artifact_saved':
+      return { ...state, artifacts: [...state.artifacts.filter(a => a.name !== event.name), { name: event.name, data: event.data }] };
+    case 'clarification_requested':
+      return { ...state, lastMessage: `Waiting for answers to ${event.questions.length} clarification question${event.questions.length === 1 ? '' : 's'}.` };
+    case 'synthesis_revised':
+      return { ...state, lastMessage: event.iteration === 0 ? `Draft synthesis scored ${event.overallQualityScore}/100.` : `Synthesis revision ${event.iteration} scored ${event.overallQualityScore}/100.` };
+    case 'budget_degraded':
+      return {
+        ...state,
+        lastMessage: event.kind === 'skipped_agent'
+          ? `Budget ${Math.round(event.budgetUsed * 100)}% spent: skipping ${event.agent}.`
+          : `Budget ${Math.round(event.budgetUsed * 100)}% spent: ${event.agent} limited to ${event.allowed} of ${event.planned} ${event.kind === 'dropped_perspectives' ? 'perspectives' : 'iterations'}.`,
+      };
+    default:
+      return state;
+  }
+}
+
+export function getOrchestrationProgressPercent(state: OrchestrationProgressState): number {
+  const finished = Object.keys(state.finishedPhases).length;
+  const inProgress = state.currentPhase && !(state.currentPhase in state.finishedPhases) ? 0.5 : 0;
+  return Math.min(99, ((finished + inProgress) / MASTER_PHASES.length) * 100);
+}
+
+const statusVariant: Record<AgentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: 'outline',
+  retrying: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+export default function OrchestrationProgress({ state }: { state: OrchestrationProgressState }) {
+  const agents = Object.values(state.agents);
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <ol className="grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+        {MASTER_PHASES.map(phase => {
+          const durationMs = state.finishedPhases[phase];
+          const isRunning = state.currentPhase === phase && durationMs === undefined;
+          return (
+            <li key={phase} className={isRunning ? 'font-semibold text-primary' : durationMs !== undefined ? 'text-foreground' : 'text-muted-foreground'}>
+              {durationMs !== undefined ? '✅' : isRunning ? '⏳' : '○'} {formatPhase(phase)}
+              {durationMs !== undefined && <span className="ml-1 text-xs text-muted-foreground">({formatDuration(durationMs)})</span>}
+            </li>
+          );
+        })}
+      </ol>
+
+      {agents.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto rounded-md bg-muted p-2 font-mono text-xs">
+          {agents.map(agent => (
+            <li key={agent.agent} className="flex flex-wrap items-center gap-2">
+              <Badge variant={statusVariant[agent.status]}>{agent.status}</Badge>
+              <span>{agent.agent}</span>
+              {agent.attempt > 1 && <span className="text-muted-foreground">attempt {agent.attempt}</span>}
+              {agent.durationMs !== undefined && <span className="text-muted-foreground">{formatDuration(agent.durationMs)}</span>}
+              {agent.circuitOpen && <Badge variant="destructive">circuit open</Badge>}
+              {agent.status !== 'succeeded' && agent.lastError && <span className="text-destructive truncate max-w-md" title={agent.lastError}>{agent.lastError}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {state.artifacts.length > 0 && (
+        <Accordion type="single" collapsible className="w-full">
+          <AccordionItem value="partial-artifacts">
+            <AccordionTrigger className="text-sm hover:no-underline">Partial artifacts ({state.artifacts.length})</AccordionTrigger>
+            <AccordionContent>
+              <Accordion type="single" collapsible className="w-full">
+                {state.artifacts.map(artifact => (
+                  <AccordionItem value={artifact.name} key={artifact.name}>
+                    <AccordionTrigger className="text-xs font-mono hover:no-underline">{artifact.name}</AccordionTrigger>
+                    <AccordionContent>
+                      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">{JSON.stringify(artifact.data, null, 2)}</pre>
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { REPORT_FILE_TYPES, renderReportHtml, renderReportJson, renderReportMarkdown, type AnalysisReport, type ReportFormat } from '@/lib/analysis-report';
+import { renderReportPdf } from '@/lib/report-pdf';
+import { Download } from 'lucide-react';
+
+interface ReportExportButtonsProps {
+  /** Called on each click, so the report carries the time it was exported. */
+  getReport: () => AnalysisReport;
+}
+
+const FORMAT_LABELS: Record<ReportFormat, string> = { markdown: 'Markdown', html: 'HTML', pdf: 'PDF', json: 'JSON' };
+
+const RENDERERS: Record<ReportFormat, (report: AnalysisReport) => string | Uint8Array> = {
+  markdown: renderReportMarkdown,
+  html: renderReportHtml,
+  pdf: renderReportPdf,
+  json: renderReportJson,
+};
+
+/** Renders the report in the browser and downloads it; nothing is sent to the server. */
+export default function ReportExportButtons({ getReport }: ReportExportButtonsProps) {
+  const { toast } = useToast();
+
+  const download = (format: ReportFormat) => {
+    try {
+      const report = getReport();
+      const { extension, mimeType } = REPORT_FILE_TYPES[format];
+      const url = URL.createObjectURL(new Blob([RENDERERS[format](report)], { type: mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `analysis-report-${report.generatedAt.slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error: any) {
+      console.error('Report export failed:', error);
+      toast({ title: "Export Failed", description: error.message || 'The report could not be generated.', variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Export report:</span>
+      {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(format => (
+        <Button key={format} variant="outline" size="sm" onClick={() => download(format)}>
+          <Download className="mr-1 h-4 w-4" />
+          {FORMAT_LABELS[format]}
+        </Button>
+      ))}
+    </div>
+  );
+}
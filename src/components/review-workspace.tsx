@@ -0,0 +1,351 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { listReviewsAction, submitReviewDecisionAction, type ReviewWorkspaceData } from '@/app/actions';
+import { initialReviewFormValues, toHumanReviewDecision, type ReviewFormValues } from '@/lib/review-form';
+import type { ReviewRecord } from '@/ai/flows/review-store';
+import { ClipboardCheck, History, Inbox, RefreshCw } from 'lucide-react';
+
+const REVIEWER_LABEL_STORAGE_KEY = 'ravint.reviewerLabel';
+
+const URGENCY_BADGE: Record<ReviewRecord['input']['reviewRequest']['urgency'], 'destructive' | 'default' | 'secondary' | 'outline'> = {
+  immediate: 'destructive',
+  high: 'default',
+  medium: 'secondary',
+  low: 'outline',
+};
+
+const DECISION_LABELS: Record<ReviewFormValues['decision'], string> = {
+  approve: 'Approve',
+  modify: 'Modify the synthesis',
+  request_more_analysis: 'Request more analysis',
+  reject: 'Reject',
+};
+
+const RERUN_PHASES = [
+  { phase: 1, label: 'Query intake' },
+  { phase: 2, label: 'Evidence gathering' },
+  { phase: 3, label: 'In-depth analysis' },
+  { phase: 4, label: 'Pre-synthesis QA' },
+  { phase: 5, label: 'Synthesis' },
+];
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+function formatExpiry(expiresAt: string): string {
+  const minutes = Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000);
+  if (minutes <= 0) return 'expired';
+  return minutes < 120 ? `expires in ${minutes} min` : `expires in ${Math.round(minutes / 60)} h`;
+}
+
+/** The synthesis the orchestrator sent for review, with the raw payload for anything else. */
+function CurrentAnalysis({ analysis }: { analysis: unknown }) {
+  const meta = (analysis as { metaSynthesis?: { summary?: string; confidence?: string; keyWeaknesses?: string[] } } | null)?.metaSynthesis;
+  return (
+    <div className="space-y-2">
+      {meta?.summary && <p className="text-sm">{meta.summary}</p>}
+      {meta?.keyWeaknesses && meta.keyWeaknesses.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          {meta.keyWeaknesses.map((weakness, index) => <li key={`weakness-${index}`}>{weakness}</li>)}
+        </ul>
+      )}
+      <Accordion type="single" collapsible>
+        <AccordionItem value="raw">
+          <AccordionTrigger className="text-xs">Full analysis payload</AccordionTrigger>
+          <AccordionContent>
+            <pre className="max-h-80 overflow-auto rounded bg-muted p-2 text-xs">{JSON.stringify(analysis, null, 2)}</pre>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+}
+
+/**
+ * Reviewer workspace: pending HumanReviewSystem submissions by urgency and expiry, a decision form for
+ * the selected review, and the audit trail of closed reviews.
+ */
+export default function ReviewWorkspace() {
+  const [data, setData] = useState<ReviewWorkspaceData>({ pending: [], closed: [], identityFromAuthProxy: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviewerLabel, setReviewerLabel] = useState('');
+  const [form, setForm] = useState<ReviewFormValues>(initialReviewFormValues);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const next = await listReviewsAction();
+      setData(next);
+      setSelectedId(current => next.pending.some(review => review.id === current) ? current : next.pending[0]?.id ?? null);
+    } catch (error: any) {
+      toast({ title: 'Could not load reviews', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    setReviewerLabel(window.localStorage.getItem(REVIEWER_LABEL_STORAGE_KEY) ?? '');
+    refresh();
+  }, [refresh]);
+
+  const selected = data.pending.find(review => review.id === selectedId);
+  const updateForm = (patch: Partial<ReviewFormValues>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    const built = toHumanReviewDecision(form);
+    if ('error' in built) {
+      setFormError(built.error);
+      return;
+    }
+    setFormError(null);
+    setIsSubmitting(true);
+    if (!data.identityFromAuthProxy) window.localStorage.setItem(REVIEWER_LABEL_STORAGE_KEY, reviewerLabel.trim());
+    try {
+      const outcome = await submitReviewDecisionAction(selected.id, reviewerLabel, built.humanInput);
+      toast({
+        title: 'Decision recorded',
+        description: outcome.sessionId
+          ? `Session ${outcome.sessionId} resumed${outcome.sessionStatus ? ` (${outcome.sessionStatus.replace(/_/g, ' ')})` : ''}.`
+          : 'The review was not attached to a suspended session.',
+      });
+      setForm(initialReviewFormValues);
+    } catch (error: any) {
+      toast({ title: 'Decision not recorded', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+      refresh();
+    }
+  };
+
+  const auditRows = data.closed.flatMap(review => (review.auditTrail ?? []).map((entry, index) => ({ review, entry, key: `${review.id}-${index}` })))
+    .sort((a, b) => b.entry.at.localeCompare(a.entry.at));
+
+  return (
+    <main className="flex min-h-screen flex-col bg-background p-6">
+      <header className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-primary">Review Workspace</h1>
+          <p className="text-muted-foreground">Decide on analyses the orchestrator suspended for human review.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={refresh} disabled={isLoading}><RefreshCw className="mr-2 h-4 w-4" />Refresh</Button>
+          <Button variant="ghost" asChild><Link href="/">Back to analysis</Link></Button>
+        </div>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="shadow-md lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center"><Inbox className="mr-2 h-5 w-5 text-primary" />Pending ({data.pending.length})</CardTitle>
+            <CardDescription>Most urgent first, then soonest to expire.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {data.pending.length === 0 && <p className="text-sm text-muted-foreground">{isLoading ? 'Loading...' : 'No reviews are waiting.'}</p>}
+            {data.pending.map(review => (
+              <button
+                key={review.id}
+                type="button"
+                onClick={() => { setSelectedId(review.id); setFormError(null); }}
+                className={`w-full rounded-md border p-3 text-left transition-colors hover:bg-accent/10 ${review.id === selectedId ? 'border-primary' : ''}`}
+              >
+                <div className="mb-1 flex items-center gap-2">
+                  <Badge variant={URGENCY_BADGE[review.input.reviewRequest.urgency]} className="capitalize">{review.input.reviewRequest.urgency}</Badge>
+                  <span className="text-xs text-muted-foreground">{review.input.reviewType.replace(/_/g, ' ')} · {formatExpiry(review.expiresAt)}</span>
+                </div>
+                <p className="line-clamp-2 text-sm">{review.input.context.query}</p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center"><ClipboardCheck className="mr-2 h-5 w-5 text-primary" />Review</CardTitle>
+            {selected && (
+              <CardDescription>
+                <span className="font-mono text-xs">{selected.id}</span> · submitted {formatTime(selected.submittedAt)} · {formatExpiry(selected.expiresAt)}
+              </CardDescription>
+            )}
+          </CardHeader>
+          {!selected ? (
+            <CardContent><p className="text-sm text-muted-foreground">Select a pending review.</p></CardContent>
+          ) : (
+            <>
+              <CardContent className="space-y-5">
+                <section className="space-y-1">
+                  <h3 className="text-sm font-semibold">Query</h3>
+                  <p className="text-sm">{selected.input.context.query}</p>
+                  <p className="text-xs text-muted-foreground">Confidence: {selected.input.context.confidence.score} — {selected.input.context.confidence.rationale}</p>
+                </section>
+                <section className="space-y-1">
+                  <h3 className="text-sm font-semibold">Current analysis</h3>
+                  <CurrentAnalysis analysis={selected.input.context.currentAnalysis} />
+                </section>
+                <section className="space-y-1">
+                  <h3 className="text-sm font-semibold">Critical issues</h3>
+                  <ul className="list-disc pl-5 text-sm">
+                    {selected.input.context.criticalIssues.map((issue, index) => <li key={`issue-${index}`}>{issue}</li>)}
+                  </ul>
+                </section>
+                <section className="space-y-1">
+                  <h3 className="text-sm font-semibold">Questions for the reviewer</h3>
+                  <ul className="list-disc pl-5 text-sm">
+                    {selected.input.reviewRequest.specificQuestions.map((question, index) => <li key={`question-${index}`}>{question}</li>)}
+                  </ul>
+                </section>
+
+                <div className="h-px bg-border" />
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  {!data.identityFromAuthProxy && (
+                    <div className="space-y-1">
+                      <Label htmlFor="reviewer-label">Reviewer (self-reported)</Label>
+                      <Input id="reviewer-label" value={reviewerLabel} onChange={(e) => setReviewerLabel(e.target.value)} placeholder="Your name or email" disabled={isSubmitting} />
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label>Decision</Label>
+                    <Select value={form.decision} onValueChange={(value) => updateForm({ decision: value as ReviewFormValues['decision'] })} disabled={isSubmitting}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DECISION_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Confidence</Label>
+                    <Select value={form.confidenceAdjustment} onValueChange={(value) => updateForm({ confidenceAdjustment: value as ReviewFormValues['confidenceAdjustment'] })} disabled={isSubmitting}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="maintain">Maintain</SelectItem>
+                        <SelectItem value="increase">Increase</SelectItem>
+                        <SelectItem value="decrease">Decrease</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {form.decision === 'modify' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="modifications">Modifications</Label>
+                    <Textarea
+                      id="modifications"
+                      value={form.modificationsJson}
+                      onChange={(e) => updateForm({ modificationsJson: e.target.value })}
+                      placeholder={'{"summary": "Corrected summary", "keyWeaknesses": ["..."], "remainingUncertainties": "An extra item"}'}
+                      className="h-28 font-mono text-xs"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                )}
+                {form.decision === 'request_more_analysis' && (
+                  <div className="space-y-2">
+                    <Label>Phases to re-run (none selected re-runs phases 2-5)</Label>
+                    <div className="flex flex-wrap gap-4">
+                      {RERUN_PHASES.map(({ phase, label }) => (
+                        <div key={phase} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`rerun-${phase}`}
+                            checked={form.rerunPhases.includes(phase)}
+                            onCheckedChange={(checked) => updateForm({ rerunPhases: checked ? [...form.rerunPhases, phase] : form.rerunPhases.filter(p => p !== phase) })}
+                            disabled={isSubmitting}
+                          />
+                          <Label htmlFor={`rerun-${phase}`} className="text-sm font-normal">{phase}. {label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="feedback">Feedback</Label>
+                  <Textarea id="feedback" value={form.feedback} onChange={(e) => updateForm({ feedback: e.target.value })} className="h-20" disabled={isSubmitting} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guidance">Additional guidance (one item per line)</Label>
+                  <Textarea id="guidance" value={form.additionalGuidance} onChange={(e) => updateForm({ additionalGuidance: e.target.value })} className="h-20" disabled={isSubmitting} />
+                </div>
+                {formError && (
+                  <Alert variant="destructive">
+                    <AlertTitle>Check the form</AlertTitle>
+                    <AlertDescription>{formError}</AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+              <CardFooter>
+                <Button onClick={handleSubmit} disabled={isSubmitting || (!data.identityFromAuthProxy && !reviewerLabel.trim())}>
+                  {isSubmitting ? 'Submitting and resuming...' : 'Submit decision'}
+                </Button>
+              </CardFooter>
+            </>
+          )}
+        </Card>
+      </div>
+
+      <Card className="mt-6 shadow-md">
+        <CardHeader>
+          <CardTitle className="flex items-center"><History className="mr-2 h-5 w-5 text-primary" />Audit Trail</CardTitle>
+          <CardDescription>Who decided what, and when, for closed reviews.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reviews have been closed yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Review</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditRows.map(({ review, entry, key }) => (
+                  <TableRow key={key}>
+                    <TableCell className="whitespace-nowrap text-xs">{formatTime(entry.at)}</TableCell>
+                    <TableCell className="max-w-xs text-xs">
+                      <span className="font-mono">{review.id}</span>
+                      <p className="line-clamp-1 text-muted-foreground">{review.input.context.query}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.actor}
+                      {entry.actorSource === 'self_reported' && <span className="text-muted-foreground"> (self-reported)</span>}
+                    </TableCell>
+                    <TableCell className="text-xs capitalize">{entry.action}</TableCell>
+                    <TableCell className="text-xs">
+                      {[
+                        entry.decision && DECISION_LABELS[entry.decision],
+                        entry.confidenceAdjustment && entry.confidenceAdjustment !== 'maintain' && `confidence ${entry.confidenceAdjustment}`,
+                        entry.modifiedFields?.length && `fields: ${entry.modifiedFields.join(', ')}`,
+                      ].filter(Boolean).join(' · ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
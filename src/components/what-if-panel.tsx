@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { runWhatIfAction } from '@/app/actions';
+import type { AnalyzeAssumptionsOutput } from '@/ai/flows/assumption-analyzer-agent';
+import type { AssumptionChange, ConclusionChange, WhatIfResult } from '@/ai/flows/what-if';
+import { FlaskConical, Loader2 } from 'lucide-react';
+
+type AssumptionChoice = 'keep' | AssumptionChange['changeType'];
+
+const CHOICE_LABELS: Record<AssumptionChoice, string> = {
+  keep: 'Keep',
+  weakened: 'Weaken',
+  reversed: 'Reverse',
+  replaced: 'Replace',
+};
+
+const CHANGE_BADGE: Record<ConclusionChange['change'], 'destructive' | 'default' | 'secondary' | 'outline'> = {
+  removed: 'destructive',
+  added: 'default',
+  revised: 'secondary',
+  unchanged: 'outline',
+};
+
+const SECTION_LABELS: Record<ConclusionChange['section'], string> = {
+  summary: 'Summary',
+  keyStrengths: 'Strength',
+  keyWeaknesses: 'Weakness',
+  actionableRecommendations: 'Recommendation',
+};
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+interface WhatIfPanelProps {
+  sessionId?: string;
+  assumptions: AnalyzeAssumptionsOutput;
+}
+
+/**
+ * Lets the user weaken, reverse or replace assumptions of a finished session and shows how the re-run
+ * sensitivity analysis, confidence score and synthesis differ from the session's own run.
+ */
+export default function WhatIfPanel({ sessionId, assumptions }: WhatIfPanelProps) {
+  const { toast } = useToast();
+  const [choices, setChoices] = useState<Record<number, AssumptionChoice>>({});
+  const [replacements, setReplacements] = useState<Record<number, string>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<WhatIfResult | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const changes: AssumptionChange[] = assumptions.flatMap((item, index) => {
+    const choice = choices[index] ?? 'keep';
+    if (choice === 'keep') return [];
+    return [{ assumption: item.assumption, changeType: choice, replacement: choice === 'replaced' ? replacements[index] ?? item.alternative : undefined }];
+  });
+  const missingReplacement = changes.some(change => change.changeType === 'replaced' && !change.replacement?.trim());
+
+  const handleRun = async () => {
+    if (!sessionId) return;
+    setIsRunning(true);
+    try {
+      setResult(await runWhatIfAction(sessionId, changes));
+    } catch (error: any) {
+      console.error('What-if scenario failed:', error);
+      toast({ title: "What-If Failed", description: error.message || 'The scenario could not be run.', variant: "destructive" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!sessionId) {
+    return <p className="text-muted-foreground">What-if scenarios need a saved session; enable session checkpointing to use them.</p>;
+  }
+  if (assumptions.length === 0) {
+    return <p className="text-muted-foreground">The assumption analyzer found no assumptions to change.</p>;
+  }
+
+  const conclusionChanges = result ? result.conclusionChanges.filter(item => showUnchanged || item.change !== 'unchanged') : [];
+  const unchangedCount = result ? result.conclusionChanges.filter(item => item.change === 'unchanged').length : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {assumptions.map((item, index) => (
+          <div key={`what-if-${index}`} className="rounded-md border p-3 space-y-2">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <p className="flex-1 text-sm"><strong>{item.assumption}</strong> <Badge variant="outline" className="ml-1">Risk: {item.risk}</Badge></p>
+              <Select value={choices[index] ?? 'keep'} onValueChange={(value) => setChoices(prev => ({ ...prev, [index]: value as AssumptionChoice }))}>
+                <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHOICE_LABELS) as AssumptionChoice[]).map(choice => <SelectItem key={choice} value={choice}>{CHOICE_LABELS[choice]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {choices[index] === 'replaced' && (
+              <Textarea
+                value={replacements[index] ?? item.alternative}
+                onChange={(event) => setReplacements(prev => ({ ...prev, [index]: event.target.value }))}
+                placeholder="The assumption to use instead"
+                rows={2}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleRun} disabled={isRunning || changes.length === 0 || missingReplacement}>
+        {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FlaskConical className="mr-2 h-4 w-4" />}
+        {isRunning ? 'Re-running sensitivity, confidence and synthesis…' : `Run scenario (${changes.length} change${changes.length === 1 ? '' : 's'})`}
+      </Button>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Scenario vs. baseline</CardTitle>
+            <CardDescription>Run {new Date(result.ranAt).toLocaleString()}; the session itself is unchanged.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 sm:grid-cols-3 text-sm">
+              <p><strong>Confidence:</strong> {result.baseline.overallConfidence?.numericScore ?? '—'} → {result.scenario.overallConfidence?.numericScore ?? '—'} <Badge variant={result.confidenceAdjustment < 0 ? 'destructive' : 'secondary'}>{signed(result.confidenceAdjustment)}</Badge></p>
+              <p><strong>Robustness:</strong> {result.baseline.robustness?.score ?? '—'} → {result.scenario.robustness?.score ?? '—'}</p>
+              <p><strong>Synthesis confidence:</strong> {result.baseline.synthesis?.confidence ?? '—'} → {result.scenario.synthesis?.confidence ?? '—'}</p>
+            </div>
+            {result.scenarioTest && result.scenarioTest.impactOnConclusions.length > 0 && (
+              <Alert>
+                <AlertTitle>Sensitivity estimate</AlertTitle>
+                <AlertDescription>
+                  {result.scenarioTest.impactOnConclusions.map((impact, i) => (
+                    <span key={i}>{impact.changeLevel.replace(/_/g, ' ')} change, confidence adjustment {signed(impact.confidenceAdjustment)}. </span>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+            {result.scenario.synthesis && <p className="text-sm"><strong>Scenario summary:</strong> {result.scenario.synthesis.summary}</p>}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Baseline</TableHead>
+                  <TableHead>Scenario</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conclusionChanges.map((item, i) => (
+                  <TableRow key={`conclusion-change-${i}`}>
+                    <TableCell className="whitespace-nowrap">{SECTION_LABELS[item.section]}</TableCell>
+                    <TableCell><Badge variant={CHANGE_BADGE[item.change]}>{item.change}</Badge></TableCell>
+                    <TableCell className="text-sm">{item.baseline ?? ''}</TableCell>
+                    <TableCell className="text-sm">{item.scenario ?? ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {unchangedCount > 0 && (
+              <Button variant="link" size="sm" className="px-0" onClick={() => setShowUnchanged(prev => !prev)}>
+                {showUnchanged ? 'Hide' : 'Show'} {unchangedCount} unchanged conclusion{unchangedCount === 1 ? '' : 's'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import type { FullAnalysisResults } from '@/app/actions';
+import type { SessionState } from '@/ai/flows/master-orchestrator-agent';
+import {
+  buildReportFromClassicResults,
+  buildReportFromSession,
+  renderReportHtml,
+  renderReportJson,
+  renderReportMarkdown,
+  reportBlocks,
+  type AnalysisReport,
+} from './analysis-report';
+import { renderReportPdf } from './report-pdf';
+
+const generatedAt = new Date('2026-03-01T12:00:00Z');
+
+const evidence = (claim: string) => ({ claim, support: 'UK pilot, 61 firms', quality: 'high', source: 'Autonomy 2023', documentId: 'd1', url: 'https://example.org/pilot', quote: '' });
+
+const state = {
+  originalQuery: 'Should we move the team to a four-day week?',
+  refinedQuery: 'Should a 40-person support team move to a four-day week?',
+  initialAnswerText: 'Yes, with a pilot first.',
+  assumptions: [{ assumption: 'Output per hour rises', risk: 'High', alternative: 'Output per hour is flat' }],
+  aggregatedSupportingResearch: [evidence('Trials kept output')],
+  aggregatedCounterResearch: [],
+  potentialBiases: { detectedBiases: [] },
+  finalRefinedSynthesisOutput: {
+    summary: 'Pilot a four-day week.', keyStrengths: ['Pilot evidence'], keyWeaknesses: ['Small samples'],
+    actionableRecommendations: ['Run a 3-month pilot'], remainingUncertainties: [], confidence: 'Medium',
+  },
+  overallConfidence: { score: 'Medium', numericScore: 62, rationale: 'Pilots were self-selected.' },
+  sensitivityAnalysisReport: {
+    overallRobustness: { score: 70, category: 'moderately_robust', summary: 'Holds unless output drops.' },
+    scenarioTests: [{
+      scenarioId: 's1', scenarioName: 'Output falls',
+      changedAssumptions: [{ originalAssumption: 'Output per hour rises', modifiedAssumption: 'Output per hour falls', changeType: 'reversed', changeRationale: '' }],
+      impactOnConclusions: [{ originalConclusion: 'Adopt', revisedConclusion: 'Do not adopt', changeLevel: 'major_change', confidenceAdjustment: -20 }],
+      scenarioViability: { plausibility: 'moderate', evidenceSupport: 'weak', rationalExplanation: '' },
+    }],
+  },
+  verifiedClaims: [{ claim: 'Output rose 20%', status: 'unsupported', statement: 'No source reports 20%.', flagged: true }],
+  errorsEncountered: [{ agent: 'PremortemAgent', phase: 'Phase3', error: 'Timed out', timestamp: '2026-03-01T11:59:00Z', recoveryStrategy: 'default_output_used' }],
+  artifacts: {
+    Phase2_EvidenceGatheringAndAnalysis_information_gap_results: [{ gap: 'Effect on support rotas', impact: 'High' }],
+    premortem_phase3: [{ failure: 'Coverage gaps on Fridays', probability: 'Medium', mitigation: 'Stagger days off' }],
+  },
+} as unknown as SessionState;
+
+const classicResults = {
+  initialAnswer: { answer: 'Yes, with a pilot first.' },
+  assumptions: [],
+  research: [evidence('Trials kept output')],
+  counterEvidence: [],
+  premortemAnalysis: [],
+  informationGaps: [],
+  synthesis: { summary: 'Pilot a four-day week.', keyStrengths: [], keyWeaknesses: [], actionableRecommendations: [], confidence: 'Low' },
+} as unknown as FullAnalysisResults;
+
+const sectionTitles = (report: AnalysisReport) => reportBlocks(report).filter(block => block.type === 'heading' && block.level === 2).map(block => block.type === 'heading' && block.text);
+
+describe('reportBlocks', () => {
+  test('should lay out a master session in section order and end with the error appendix', () => {
+    const report = buildReportFromSession(state, { sessionId: 'session_1', generatedAt });
+    expect(sectionTitles(report)).toEqual([
+      'Executive Summary', 'Confidence', 'Evidence', 'Assumptions', 'Information Gaps', 'Premortem', 'Bias Findings', 'Sensitivity Scenarios', 'Appendix: Errors Encountered',
+    ]);
+
+    const blocks = reportBlocks(report);
+    expect(blocks.slice(1, 4)).toEqual([
+      { type: 'paragraph', text: 'Query: Should we move the team to a four-day week?' },
+      { type: 'paragraph', text: 'Refined query: Should a 40-person support team move to a four-day week?' },
+      { type: 'paragraph', text: 'Generated 2026-03-01T12:00:00.000Z by the six-phase pipeline, session session_1.' },
+    ]);
+    expect(blocks[blocks.length - 1]).toEqual({
+      type: 'table', columns: ['Agent', 'Phase', 'Error', 'Time', 'Recovery'],
+      rows: [['PremortemAgent', 'Phase3', 'Timed out', '2026-03-01T11:59:00Z', 'default_output_used']],
+    });
+    // A failed bias agent leaves its default object behind rather than a list.
+    expect(report.biases).toEqual([]);
+    expect(report.premortem).toEqual([{ failure: 'Coverage gaps on Fridays', probability: 'Medium', mitigation: 'Stagger days off' }]);
+    expect(renderReportMarkdown(report)).toContain('### Claims Not Supported by the Evidence\n\n| Claim | Verdict | Statement |');
+  });
+
+  test('should lay out legacy classic results with empty sections explained', () => {
+    const report = buildReportFromClassicResults(classicResults, 'Four-day week?', { generatedAt });
+    expect(sectionTitles(report)).toEqual(sectionTitles(buildReportFromSession(state, { generatedAt })));
+
+    const markdown = renderReportMarkdown(report);
+    expect(markdown).toContain('Generated 2026-03-01T12:00:00.000Z by the classic pipeline.');
+    expect(markdown).toContain('## Bias Findings\n\nThe classic pipeline does not run bias detection.');
+    expect(markdown).toContain('## Sensitivity Scenarios\n\nNo sensitivity analysis is available.');
+    expect(markdown).toMatch(/## Appendix: Errors Encountered\n\nNo errors were recorded.\n$/);
+  });
+});
+
+describe('renderReportHtml', () => {
+  test('should escape user-controlled text everywhere it appears', () => {
+    const query = `<script>alert("x")</script> & 'y'`;
+    const report = buildReportFromSession({
+      ...state, originalQuery: query, refinedQuery: undefined,
+      aggregatedSupportingResearch: [evidence('<img src=x onerror=alert(1)>')],
+    } as SessionState, { generatedAt });
+    const html = renderReportHtml(report);
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<title>Analysis Report: &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;</title>');
+    expect(html).toContain('<td>&lt;img src=x onerror=alert(1)&gt;</td>');
+    expect(renderReportMarkdown({ ...report, assumptions: [{ assumption: 'a | b\nc', risk: 'Low', alternative: '' }] })).toContain('| a \\| b c | Low |  |');
+  });
+});
+
+describe('renderReportJson', () => {
+  test('should serialize the same session to the same bytes, in declaration order and without undefined fields', () => {
+    const json = renderReportJson(buildReportFromSession(state, { sessionId: 'session_1', generatedAt }));
+    expect(renderReportJson(buildReportFromSession(state, { sessionId: 'session_1', generatedAt }))).toBe(json);
+
+    const parsed = JSON.parse(json);
+    expect(Object.keys(parsed).slice(0, 7)).toEqual(['format', 'version', 'generatedAt', 'pipeline', 'sessionId', 'query', 'refinedQuery']);
+    expect(parsed).toEqual(expect.objectContaining({ format: 'ravint-analysis-report', version: 1, generatedAt: '2026-03-01T12:00:00.000Z' }));
+    expect('comparison' in parsed).toBe(false);
+    expect(json.endsWith('}\n')).toBe(true);
+  });
+});
+
+describe('renderReportPdf', () => {
+  const latin1 = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+  test('should write a valid PDF whose xref offsets point at their objects', () => {
+    // Enough evidence rows to run onto several pages.
+    const report = buildReportFromSession({
+      ...state, originalQuery: 'Four-day week (pilot) – worth it?',
+      aggregatedSupportingResearch: Array.from({ length: 120 }, (_, index) => evidence(`Claim ${index + 1}`)),
+    } as SessionState, { generatedAt });
+    const pdf = latin1(renderReportPdf(report));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+
+    const xrefOffset = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 5)).toBe('xref\n');
+    const [, count] = /^xref\n0 (\d+)\n/.exec(pdf.slice(xrefOffset))!;
+    const entries = pdf.slice(xrefOffset).split('\n').slice(3, 2 + Number(count));
+    entries.forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+    expect(pdf).toContain(`trailer\n<< /Size ${count} /Root 1 0 R /Info ${Number(count) - 1} 0 R >>`);
+
+    const pageCount = Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(pdf)![1]);
+    expect(pageCount).toBeGreaterThan(2);
+    expect(pdf.match(/\/Type \/Page \//g)).toHaveLength(pageCount);
+    expect(pdf).toContain(`(${pageCount} / ${pageCount}) Tj`);
+    for (const [, length, content] of pdf.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g)) {
+      expect(content.length).toBe(Number(length));
+    }
+    // Parentheses are escaped and the en dash is the single WinAnsi byte 0x96.
+    expect(pdf).toContain('/Title (Analysis Report: Four-day week \\(pilot\\) \x96 worth it?)');
+  });
+});
@@ -0,0 +1,336 @@
+import type { FullAnalysisResults } from '@/app/actions';
+import type { SessionState } from '@/ai/flows/master-orchestrator-agent';
+import type { Evidence } from '@/ai/flows/researcher-agent';
+import type { PremortemOutput } from '@/ai/flows/premortem-agent';
+import type { InformationGapOutput } from '@/ai/flows/information-gap-agent';
+import type { RankingRobustness } from '@/ai/flows/comparison';
+import { extractPhaseArtifacts } from '@/lib/analysis-results';
+
+// Builds the exportable analysis report from a finished session and renders it as Markdown, HTML or JSON.
+// Kept free of Genkit and Node imports so the download buttons can render it in the browser; see report-pdf.ts.
+
+export interface ReportEvidence {
+  claim: string;
+  support: string;
+  quality: Evidence['quality'];
+  source: string;
+  url?: string;
+  quote?: string;
+}
+
+export interface ReportScenario {
+  name: string;
+  plausibility: string;
+  changedAssumptions: string[];
+  impacts: { conclusion: string; revisedConclusion: string; changeLevel: string; confidenceAdjustment: number }[];
+}
+
+/** The canonical report; the JSON export is this object as is. */
+export interface AnalysisReport {
+  format: 'ravint-analysis-report';
+  version: 1;
+  generatedAt: string;
+  pipeline: 'master' | 'classic';
+  sessionId?: string;
+  query: string;
+  refinedQuery?: string;
+  executiveSummary: {
+    summary: string;
+    keyStrengths: string[];
+    keyWeaknesses: string[];
+    recommendations: string[];
+    remainingUncertainties: string[];
+  };
+  confidence: { level: string; numericScore?: number; rationale?: string };
+  evidence: { supporting: ReportEvidence[]; counter: ReportEvidence[] };
+  assumptions: { assumption: string; risk: string; alternative: string }[];
+  informationGaps: { gap: string; impact: string }[];
+  premortem: { failure: string; probability: string; mitigation: string }[];
+  biases: { biasType: string; severity: string; location: string; description: string; mitigation: string }[];
+  sensitivity?: { robustnessScore: number; robustnessCategory: string; summary: string; scenarios: ReportScenario[] };
+  /** Comparative decision mode: the weighted criteria matrix, best option first. */
+  comparison?: {
+    recommendation: string;
+    criteria: { name: string; weight: number }[];
+    options: { rank: number; option: string; scores: number[]; weightedTotal: number; dominatedBy: string[] }[];
+    robustness: { category: RankingRobustness['category']; summary: string };
+    tradeoffs: string[];
+  };
+  flaggedClaims: { claim: string; status: string; statement: string }[];
+  errors: { agent: string; phase?: string; error: string; timestamp: string; recoveryStrategy?: string }[];
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'pdf' | 'json';
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+};
+
+const toReportEvidence = (items: readonly Evidence[] | undefined): ReportEvidence[] => (items ?? []).map(item => ({
+  claim: item.claim, support: item.support, quality: item.quality, source: item.source, url: item.url || undefined, quote: item.quote || undefined,
+}));
+
+const toPremortem = (items: PremortemOutput | undefined) => (Array.isArray(items) ? items : [])
+  .map(({ failure, probability, mitigation }) => ({ failure, probability, mitigation }));
+
+const toInformationGaps = (items: InformationGapOutput | undefined) => (Array.isArray(items) ? items : [])
+  .map(({ gap, impact }) => ({ gap, impact }));
+
+export function buildReportFromSession(sessionState: SessionState, options: { sessionId?: string; generatedAt?: Date } = {}): AnalysisReport {
+  const synthesis = sessionState.finalRefinedSynthesisOutput;
+  const artifacts = extractPhaseArtifacts(sessionState.artifacts ?? {});
+  const sensitivity = sessionState.sensitivityAnalysisReport;
+  const comparison = sessionState.comparison;
+  // Agents that failed leave their default output behind, which is not always the declared shape.
+  const biases = Array.isArray(sessionState.potentialBiases) ? sessionState.potentialBiases : [];
+
+  return {
+    format: 'ravint-analysis-report',
+    version: 1,
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    pipeline: 'master',
+    sessionId: options.sessionId,
+    query: sessionState.originalQuery,
+    refinedQuery: sessionState.refinedQuery && sessionState.refinedQuery !== sessionState.originalQuery ? sessionState.refinedQuery : undefined,
+    executiveSummary: {
+      summary: synthesis?.summary ?? sessionState.initialAnswerText ?? '',
+      keyStrengths: synthesis?.keyStrengths ?? [],
+      keyWeaknesses: synthesis?.keyWeaknesses ?? [],
+      recommendations: synthesis?.actionableRecommendations ?? [],
+      remainingUncertainties: synthesis?.remainingUncertainties ?? [],
+    },
+    confidence: {
+      level: synthesis?.confidence ?? sessionState.overallConfidence?.score ?? 'Unknown',
+      numericScore: sessionState.overallConfidence?.numericScore,
+      rationale: sessionState.overallConfidence?.rationale,
+    },
+    evidence: {
+      supporting: toReportEvidence(sessionState.aggregatedSupportingResearch),
+      counter: toReportEvidence(sessionState.aggregatedCounterResearch),
+    },
+    assumptions: (sessionState.assumptions ?? []).map(({ assumption, risk, alternative }) => ({ assumption, risk, alternative })),
+    informationGaps: toInformationGaps(artifacts.informationGaps),
+    premortem: toPremortem(artifacts.premortemAnalysis),
+    biases: biases.map(bias => ({
+      biasType: bias.biasType, severity: bias.severity, location: bias.location, description: bias.description, mitigation: bias.mitigationSuggestion,
+    })),
+    sensitivity: sensitivity?.overallRobustness ? {
+      robustnessScore: sensitivity.overallRobustness.score,
+      robustnessCategory: sensitivity.overallRobustness.category,
+      summary: sensitivity.overallRobustness.summary,
+      scenarios: (sensitivity.scenarioTests ?? []).map(scenario => ({
+        name: scenario.scenarioName,
+        plausibility: scenario.scenarioViability.plausibility,
+        changedAssumptions: scenario.changedAssumptions.map(change => `${change.originalAssumption} → ${change.modifiedAssumption} (${change.changeType})`),
+        impacts: scenario.impactOnConclusions.map(impact => ({
+          conclusion: impact.originalConclusion, revisedConclusion: impact.revisedConclusion, changeLevel: impact.changeLevel, confidenceAdjustment: impact.confidenceAdjustment,
+        })),
+      })),
+    } : undefined,
+    comparison: comparison?.result ? {
+      recommendation: comparison.result.recommendation,
+      criteria: comparison.setup.criteria.map(({ name, weight }) => ({ name, weight })),
+      options: comparison.result.matrix.map(row => ({
+        rank: row.rank, option: `${row.optionId}. ${row.name}`, scores: row.scores.map(item => item.score), weightedTotal: row.weightedTotal,
+        dominatedBy: comparison.result!.dominance.relations.filter(relation => relation.dominatedId === row.optionId).map(relation => relation.dominantId),
+      })),
+      robustness: { category: comparison.result.robustness.category, summary: comparison.result.robustness.summary },
+      tradeoffs: comparison.result.tradeoffs,
+    } : undefined,
+    flaggedClaims: (sessionState.verifiedClaims ?? []).filter(claim => claim.flagged).map(({ claim, status, statement }) => ({ claim, status, statement })),
+    errors: (sessionState.errorsEncountered ?? []).map(({ agent, phase, error, timestamp, recoveryStrategy }) => ({ agent, phase, error, timestamp, recoveryStrategy })),
+  };
+}
+
+/** The classic pipeline keeps no query, confidence rationale, bias or sensitivity results, so those sections stay empty. */
+export function buildReportFromClassicResults(results: FullAnalysisResults, query: string, options: { generatedAt?: Date } = {}): AnalysisReport {
+  return {
+    format: 'ravint-analysis-report',
+    version: 1,
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    pipeline: 'classic',
+    query,
+    executiveSummary: {
+      summary: results.synthesis?.summary ?? results.initialAnswer?.answer ?? '',
+      keyStrengths: results.synthesis?.keyStrengths ?? [],
+      keyWeaknesses: results.synthesis?.keyWeaknesses ?? [],
+      recommendations: results.synthesis?.actionableRecommendations ?? [],
+      remainingUncertainties: results.synthesis?.remainingUncertainties ?? [],
+    },
+    confidence: { level: results.synthesis?.confidence ?? 'Unknown' },
+    evidence: { supporting: toReportEvidence(results.research), counter: toReportEvidence(results.counterEvidence) },
+    assumptions: (results.assumptions ?? []).map(({ assumption, risk, alternative }) => ({ assumption, risk, alternative })),
+    informationGaps: toInformationGaps(results.informationGaps),
+    premortem: toPremortem(results.premortemAnalysis),
+    biases: [],
+    flaggedClaims: [],
+    errors: [],
+  };
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; columns: string[]; rows: string[][] };
+
+/** The report as an ordered outline that every document renderer walks, so the formats stay in step. */
+export function reportBlocks(report: AnalysisReport): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  const heading = (level: 1 | 2 | 3, text: string) => blocks.push({ type: 'heading', level, text });
+  const paragraph = (text: string) => blocks.push({ type: 'paragraph', text });
+  const list = (items: string[], emptyText: string) => items.length > 0 ? blocks.push({ type: 'list', items }) : paragraph(emptyText);
+  const table = (columns: string[], rows: string[][], emptyText: string) => rows.length > 0 ? blocks.push({ type: 'table', columns, rows }) : paragraph(emptyText);
+  const evidenceRows = (items: ReportEvidence[]) => items.map(item => [item.claim, item.support, item.quality, item.url ? `${item.source} (${item.url})` : item.source]);
+
+  heading(1, 'Analysis Report');
+  paragraph(`Query: ${report.query}`);
+  if (report.refinedQuery) paragraph(`Refined query: ${report.refinedQuery}`);
+  paragraph(`Generated ${report.generatedAt} by the ${report.pipeline === 'master' ? 'six-phase' : 'classic'} pipeline${report.sessionId ? `, session ${report.sessionId}` : ''}.`);
+
+  heading(2, 'Executive Summary');
+  paragraph(report.executiveSummary.summary || 'No synthesis was produced.');
+  heading(3, 'Key Strengths');
+  list(report.executiveSummary.keyStrengths, 'None highlighted.');
+  heading(3, 'Key Weaknesses / Risks');
+  list(report.executiveSummary.keyWeaknesses, 'None highlighted.');
+  heading(3, 'Recommendations');
+  list(report.executiveSummary.recommendations, 'None provided.');
+  heading(3, 'Remaining Uncertainties');
+  list(report.executiveSummary.remainingUncertainties, 'None highlighted.');
+
+  if (report.comparison) {
+    heading(2, 'Option Comparison');
+    paragraph(report.comparison.recommendation);
+    table(['Rank', 'Option', ...report.comparison.criteria.map(criterion => `${criterion.name} (${Math.round(criterion.weight * 100)}%)`), 'Weighted Total'],
+      report.comparison.options.map(row => [
+        String(row.rank), row.dominatedBy.length > 0 ? `${row.option} (dominated by ${row.dominatedBy.join(', ')})` : row.option,
+        ...row.scores.map(String), row.weightedTotal.toFixed(2),
+      ]), '');
+    paragraph(`Ranking robustness: ${report.comparison.robustness.category.replace(/_/g, ' ')}. ${report.comparison.robustness.summary}`);
+    heading(3, 'Tradeoffs');
+    list(report.comparison.tradeoffs, 'None highlighted.');
+  }
+
+  heading(2, 'Confidence');
+  paragraph(`Level: ${report.confidence.level}${report.confidence.numericScore !== undefined ? ` (${report.confidence.numericScore}/100)` : ''}`);
+  if (report.confidence.rationale) paragraph(report.confidence.rationale);
+  if (report.flaggedClaims.length > 0) {
+    heading(3, 'Claims Not Supported by the Evidence');
+    table(['Claim', 'Verdict', 'Statement'], report.flaggedClaims.map(claim => [claim.claim, claim.status, claim.statement]), '');
+  }
+
+  heading(2, 'Evidence');
+  heading(3, 'Supporting Evidence');
+  table(['Claim', 'Support', 'Quality', 'Source'], evidenceRows(report.evidence.supporting), 'No supporting evidence was found.');
+  heading(3, 'Counter-Evidence');
+  table(['Claim', 'Support', 'Quality', 'Source'], evidenceRows(report.evidence.counter), 'No counter-evidence was found.');
+
+  heading(2, 'Assumptions');
+  table(['Assumption', 'Risk', 'Alternative'], report.assumptions.map(item => [item.assumption, item.risk, item.alternative]), 'No hidden assumptions were identified.');
+
+  heading(2, 'Information Gaps');
+  table(['Gap', 'Impact'], report.informationGaps.map(item => [item.gap, item.impact]), 'No information gaps were identified.');
+
+  heading(2, 'Premortem');
+  table(['Failure Mode', 'Probability', 'Mitigation'], report.premortem.map(item => [item.failure, item.probability, item.mitigation]), 'No failure modes were identified.');
+
+  heading(2, 'Bias Findings');
+  table(['Bias', 'Severity', 'Location', 'Description', 'Mitigation'],
+    report.biases.map(bias => [bias.biasType.replace(/_/g, ' '), bias.severity, bias.location.replace(/_/g, ' '), bias.description, bias.mitigation]),
+    report.pipeline === 'classic' ? 'The classic pipeline does not run bias detection.' : 'No biases were detected.');
+
+  heading(2, 'Sensitivity Scenarios');
+  if (report.sensitivity) {
+    paragraph(`Robustness: ${report.sensitivity.robustnessScore}/100 (${report.sensitivity.robustnessCategory.replace(/_/g, ' ')}). ${report.sensitivity.summary}`);
+    for (const scenario of report.sensitivity.scenarios) {
+      heading(3, `${scenario.name} (plausibility: ${scenario.plausibility.replace(/_/g, ' ')})`);
+      list(scenario.changedAssumptions, 'No assumptions changed.');
+      table(['Conclusion', 'Revised Conclusion', 'Change', 'Confidence Δ'],
+        scenario.impacts.map(impact => [impact.conclusion, impact.revisedConclusion, impact.changeLevel.replace(/_/g, ' '), `${impact.confidenceAdjustment > 0 ? '+' : ''}${impact.confidenceAdjustment}`]),
+        'No impact on the conclusions.');
+    }
+  } else {
+    paragraph('No sensitivity analysis is available.');
+  }
+
+  heading(2, 'Appendix: Errors Encountered');
+  table(['Agent', 'Phase', 'Error', 'Time', 'Recovery'],
+    report.errors.map(error => [error.agent, error.phase ?? '', error.error, error.timestamp, error.recoveryStrategy ?? '']),
+    'No errors were recorded.');
+
+  return blocks;
+}
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export function renderReportMarkdown(report: AnalysisReport): string {
+  const lines = reportBlocks(report).flatMap(block => {
+    switch (block.type) {
+      case 'heading': return [`${'#'.repeat(block.level)} ${block.text}`, ''];
+      case 'paragraph': return [block.text, ''];
+      case 'list': return [...block.items.map(item => `- ${item}`), ''];
+      case 'table': return [
+        `| ${block.columns.join(' | ')} |`,
+        `| ${block.columns.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+        '',
+      ];
+    }
+  });
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2933; line-height: 1.5; }
+  h1 { border-bottom: 2px solid #3f51b5; padding-bottom: .3rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #d9dee5; padding-bottom: .2rem; }
+  table { border-collapse: collapse; width: 100%; margin: .5rem 0 1rem; font-size: .9rem; }
+  th, td { border: 1px solid #d9dee5; padding: .35rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f1f3f7; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+/** A standalone page: styles are inlined and nothing is loaded from elsewhere. */
+export function renderReportHtml(report: AnalysisReport): string {
+  const body = reportBlocks(report).map(block => {
+    switch (block.type) {
+      case 'heading': return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      case 'paragraph': return `<p>${escapeHtml(block.text)}</p>`;
+      case 'list': return `<ul>\n${block.items.map(item => `  <li>${escapeHtml(item)}</li>`).join('\n')}\n</ul>`;
+      case 'table': return [
+        '<table>',
+        `  <thead><tr>${block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>`,
+        '  <tbody>',
+        ...block.rows.map(row => `    <tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+        '  </tbody>',
+        '</table>',
+      ].join('\n');
+    }
+  }).join('\n');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(`Analysis Report: ${report.query}`)}</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export function renderReportJson(report: AnalysisReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
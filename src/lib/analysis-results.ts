@@ -0,0 +1,87 @@
+import type { MasterOrchestratorOutput, SessionState } from '@/ai/flows/master-orchestrator-agent';
+import type { CritiqueAgentOutput } from '@/ai/flows/critic-agent';
+import type { ChallengeOutput } from '@/ai/flows/devils-advocate-agent';
+import type { PremortemOutput } from '@/ai/flows/premortem-agent';
+import type { InformationGapOutput } from '@/ai/flows/information-gap-agent';
+import type { QueryRefinementOutput } from '@/ai/flows/query-refinement-agent';
+import type { InitialAnswerLoopOutput } from '@/ai/flows/initial-answer-loop-agent';
+import type { ArgumentReconstructionOutput } from '@/ai/flows/argument-reconstruction-agent';
+import type { CounterArgumentIntegrationOutput } from '@/ai/flows/counter-argument-integration-agent';
+import type { ImpactAssessmentOutput } from '@/ai/flows/impact-assessment-agent';
+import type { QualityCheckOutput } from '@/ai/flows/quality-check-agent';
+import type { ConfidenceScoringOutput } from '@/ai/flows/confidence-scoring-agent';
+import type { SynthesisCritiqueLoopOutput } from '@/ai/flows/synthesis-critique-loop-agent';
+import type { HumanReviewOutput } from '@/ai/flows/human-review-tool';
+
+// Shared by the server action and the streaming route, so it lives outside the "use server" module.
+
+// Typed view over the artifacts the master orchestrator saves in SessionState.artifacts.
+export interface MasterPhaseArtifacts {
+  queryRefinement?: QueryRefinementOutput;
+  initialAnswerLoop?: InitialAnswerLoopOutput;
+  premortemAnalysis?: PremortemOutput;
+  informationGaps?: InformationGapOutput;
+  critique?: CritiqueAgentOutput;
+  challenges?: ChallengeOutput;
+  argumentReconstruction?: ArgumentReconstructionOutput;
+  counterArgumentIntegration?: CounterArgumentIntegrationOutput;
+  impactAssessment?: ImpactAssessmentOutput;
+  qualityCheck?: QualityCheckOutput;
+  confidenceScoring?: ConfidenceScoringOutput;
+  synthesisCritique?: SynthesisCritiqueLoopOutput;
+  humanReview?: HumanReviewOutput;
+}
+
+// Replacement for FullAnalysisResults when the six-phase master orchestrator is used.
+export interface MasterAnalysisResults {
+  success: MasterOrchestratorOutput['success'];
+  finalSynthesis: MasterOrchestratorOutput['finalSynthesis'];
+  sessionState: SessionState;
+  phaseArtifacts: MasterPhaseArtifacts;
+  humanReviewRequired: boolean;
+  humanReviewReason?: string;
+  /** Checkpoint session ID; pass as `resumeSessionId` to re-run remaining phases. */
+  sessionId?: string;
+  /** The run paused for a clarification round; resume the session with a `clarification` response. */
+  awaitingClarification: boolean;
+  /** The session is suspended until a human reviewer decides; resume it with `resumeToken`. */
+  awaitingReview: boolean;
+  resumeToken?: string;
+  /** A human reviewer rejected the analysis. */
+  reviewRejected: boolean;
+}
+
+export function extractPhaseArtifacts(artifacts: SessionState['artifacts']): MasterPhaseArtifacts {
+  return {
+    queryRefinement: artifacts['query_refinement'] as QueryRefinementOutput | undefined,
+    initialAnswerLoop: artifacts['initial_answer_loop'] as InitialAnswerLoopOutput | undefined,
+    // Phase 3 re-runs the premortem with richer context; fall back to the Phase 2 result.
+    premortemAnalysis: (artifacts['premortem_phase3'] ?? artifacts['Phase2_EvidenceGatheringAndAnalysis_premortem_analysis_results']) as PremortemOutput | undefined,
+    informationGaps: artifacts['Phase2_EvidenceGatheringAndAnalysis_information_gap_results'] as InformationGapOutput | undefined,
+    critique: artifacts['critique_phase3'] as CritiqueAgentOutput | undefined,
+    challenges: artifacts['challenge_phase3'] as ChallengeOutput | undefined,
+    argumentReconstruction: artifacts['argument_reconstruction'] as ArgumentReconstructionOutput | undefined,
+    counterArgumentIntegration: artifacts['counter_argument_integration'] as CounterArgumentIntegrationOutput | undefined,
+    impactAssessment: artifacts['impact_assessment'] as ImpactAssessmentOutput | undefined,
+    qualityCheck: artifacts['quality_check'] as QualityCheckOutput | undefined,
+    confidenceScoring: artifacts['confidence_scoring'] as ConfidenceScoringOutput | undefined,
+    synthesisCritique: artifacts['synthesis_critique_loop_output'] as SynthesisCritiqueLoopOutput | undefined,
+    humanReview: artifacts['human_review_output'] as HumanReviewOutput | undefined,
+  };
+}
+
+export function toMasterAnalysisResults(masterResult: MasterOrchestratorOutput): MasterAnalysisResults {
+  return {
+    success: masterResult.success,
+    finalSynthesis: masterResult.finalSynthesis,
+    sessionState: masterResult.sessionState,
+    phaseArtifacts: extractPhaseArtifacts(masterResult.sessionState.artifacts || {}),
+    humanReviewRequired: masterResult.humanReviewRequired,
+    humanReviewReason: masterResult.humanReviewReason,
+    sessionId: masterResult.sessionId,
+    awaitingClarification: masterResult.awaitingClarification,
+    awaitingReview: masterResult.awaitingReview,
+    resumeToken: masterResult.resumeToken,
+    reviewRejected: masterResult.reviewRejected,
+  };
+}
@@ -0,0 +1,65 @@
+import type { MasterOrchestratorInput } from '@/ai/flows/master-orchestrator-agent';
+import type { OrchestratorEvent } from '@/ai/flows/orchestrator-events';
+import type { MasterAnalysisResults } from '@/lib/analysis-results';
+
+const STREAM_ENDPOINT = '/api/analyze/stream';
+
+/**
+ * Browser client for the /api/analyze/stream SSE route. Calls `onEvent` for each progress
+ * event and resolves with the final results, or rejects with the pipeline error message.
+ */
+export async function streamMasterAnalysis(
+  query: string,
+  onEvent: (event: OrchestratorEvent) => void,
+  options: Omit<Partial<MasterOrchestratorInput>, 'query'> = {},
+  signal?: AbortSignal,
+): Promise<MasterAnalysisResults> {
+  const response = await fetch(STREAM_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ ...options, query }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null);
+    throw new Error(errorBody?.error || `Streaming request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let results: MasterAnalysisResults | null = null;
+
+  const handleMessage = (rawMessage: string) => {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+    for (const line of rawMessage.split('\n')) {
+      if (line.startsWith('event:')) eventName = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) return;
+    const data = JSON.parse(dataLines.join('\n'));
+
+    if (eventName === 'progress') onEvent(data as OrchestratorEvent);
+    else if (eventName === 'result') results = data as MasterAnalysisResults;
+    else if (eventName === 'error') throw new Error(data?.message || 'An unexpected error occurred.');
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let separatorIndex: number;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const rawMessage = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+      handleMessage(rawMessage);
+    }
+  }
+
+  if (!results) {
+    throw new Error('Analysis stream ended before results were received.');
+  }
+  return results;
+}
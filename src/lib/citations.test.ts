@@ -0,0 +1,27 @@
+import { citationsForStatement, claimMatchesStatement } from './citations';
+
+describe('claimMatchesStatement', () => {
+  test('should match the same statement regardless of case, spacing and final punctuation', () => {
+    expect(claimMatchesStatement({ statement: 'Solar pays off  for most homes' }, 'solar pays off for most homes.')).toBe(true);
+  });
+
+  test('should tolerate small rewording but not a statement that merely contains the claim', () => {
+    expect(claimMatchesStatement({ statement: 'Remote work raises output for most software teams.' }, 'Remote work raises output for most teams.')).toBe(true);
+    expect(claimMatchesStatement({ statement: 'costs rise' }, 'Costs rise only if demand falls.')).toBe(false);
+    expect(claimMatchesStatement({ statement: 'Costs rise only if demand falls.' }, 'Costs rise.')).toBe(false);
+  });
+
+  test('should not match a statement that negates the claim', () => {
+    expect(claimMatchesStatement({ statement: 'The pilot cut support costs across all regions.' }, "The pilot didn't cut support costs across all regions.")).toBe(false);
+  });
+});
+
+describe('citationsForStatement', () => {
+  test('should only cite the claims that match the displayed statement', () => {
+    const claims = [
+      { section: 'summary' as const, statement: 'Costs rise.', citations: ['EV-1'] },
+      { section: 'summary' as const, statement: 'Costs rise only if demand falls.', citations: ['EV-2'] },
+    ];
+    expect(citationsForStatement('Costs rise only if demand falls.', claims)).toEqual(['EV-2']);
+  });
+});
@@ -0,0 +1,57 @@
+import type { CitationSource, SynthesisClaim } from '@/ai/flows/citation-graph';
+
+// Statement matching shared by the citation validator and the synthesis footnotes, so it stays free of Genkit imports.
+
+export function normalizeStatement(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.;:!?]+$/, '').trim();
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Share of distinct words two texts must have in common (Jaccard) to count as the same statement despite
+// rewording. Containment alone is not enough: "costs rise" is not "costs rise only if demand falls".
+const MIN_TOKEN_OVERLAP = 0.8;
+
+const NEGATIONS = new Set(['no', 'not', 'never', 'none', 'nor', 'without', 'cannot']);
+
+function statementTokens(text: string): Set<string> {
+  return new Set(text.replace(/n't\b/g, ' not').split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+/**
+ * A claim backs a statement when both are the same once case, spacing and final punctuation are ignored, or
+ * when they share at least 80% of their words and neither negates what the other does not.
+ */
+export function claimMatchesStatement(claim: Pick<SynthesisClaim, 'statement'>, statement: string): boolean {
+  const claimText = normalizeStatement(claim.statement);
+  const statementText = normalizeStatement(statement);
+  if (!claimText || !statementText) return false;
+  if (claimText === statementText) return true;
+
+  const claimTokens = statementTokens(claimText);
+  const statementTokenSet = statementTokens(statementText);
+  const shared = [...claimTokens].filter(token => statementTokenSet.has(token)).length;
+  const union = claimTokens.size + statementTokenSet.size - shared;
+  const negationsAgree = [...NEGATIONS].every(word => claimTokens.has(word) === statementTokenSet.has(word));
+  return union > 0 && shared / union >= MIN_TOKEN_OVERLAP && negationsAgree;
+}
+
+/** Source IDs cited for a displayed statement, in citation order, from every claim that matches it. */
+export function citationsForStatement(statement: string, claims: readonly SynthesisClaim[] | undefined): string[] {
+  const ids = (claims ?? []).filter(claim => claimMatchesStatement(claim, statement)).flatMap(claim => claim.citations);
+  return [...new Set(ids)];
+}
+
+/** Numbers the sources in the order `statements` first cite them, for footnote markers. */
+export function numberFootnotes(statements: readonly string[], claims: readonly SynthesisClaim[] | undefined, sources: readonly CitationSource[]): Map<string, number> {
+  const known = new Set(sources.map(source => source.id));
+  const numbers = new Map<string, number>();
+  for (const statement of statements) {
+    for (const id of citationsForStatement(statement, claims)) {
+      if (known.has(id) && !numbers.has(id)) numbers.set(id, numbers.size + 1);
+    }
+  }
+  return numbers;
+}
@@ -0,0 +1,153 @@
+import { reportBlocks, type AnalysisReport } from '@/lib/analysis-report';
+
+// Renders the analysis report to PDF without a PDF library or a remote service: text is laid out in the
+// standard Helvetica fonts, which every PDF viewer provides, so the file needs no embedded fonts.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Helvetica advance widths (1/1000 em) for characters 32-126, from the standard font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs wider; measuring it as scaled Helvetica keeps bold lines inside the margin.
+const BOLD_SCALE = 1.1;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 128-159.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+const WIN_ANSI_WIDTHS: Record<number, number> = { 0x80: 556, 0x82: 222, 0x84: 333, 0x85: 1000, 0x95: 350, 0x96: 556, 0x97: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x99: 1000 };
+const SUBSTITUTES: Record<string, string> = { '→': '->', '←': '<-', 'Δ': 'change', '≥': '>=', '≤': '<=', '≈': '~' };
+
+/** The text as WinAnsi character codes, one per char; anything the encoding lacks becomes '?'. */
+function toWinAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text.replace(/[\t\r\n]+/g, ' ')) {
+    const substitute = SUBSTITUTES[char];
+    if (substitute) { encoded += substitute; continue; }
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) encoded += char;
+    else if (WIN_ANSI_EXTRAS[char]) encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+function textWidth(encoded: string, fontSize: number, bold: boolean): number {
+  let units = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : WIN_ANSI_WIDTHS[code] ?? 556;
+  }
+  return (units / 1000) * fontSize * (bold ? BOLD_SCALE : 1);
+}
+
+/** Greedy word wrap; a word longer than the line is broken where it overflows. */
+function wrap(encoded: string, maxWidth: number, fontSize: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of encoded.split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, fontSize, bold) <= maxWidth) { line = candidate; continue; }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, fontSize, bold) > maxWidth) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), fontSize, bold) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+const escapePdfString = (encoded: string) => encoded.replace(/[\\()]/g, match => `\\${match}`);
+
+interface TextLine { text: string; x: number; fontSize: number; bold: boolean; spaceBefore: number }
+
+function layout(report: AnalysisReport): TextLine[] {
+  const lines: TextLine[] = [];
+  const add = (text: string, options: { indent?: number; fontSize?: number; bold?: boolean; spaceBefore?: number; hangingIndent?: number } = {}) => {
+    const { indent = 0, fontSize = 10, bold = false, spaceBefore = 0, hangingIndent = 0 } = options;
+    wrap(toWinAnsi(text), TEXT_WIDTH - indent - hangingIndent, fontSize, bold).forEach((line, i) => lines.push({
+      text: line, x: MARGIN + indent + (i > 0 ? hangingIndent : 0), fontSize, bold, spaceBefore: i === 0 ? spaceBefore : 0,
+    }));
+  };
+
+  for (const block of reportBlocks(report)) {
+    switch (block.type) {
+      case 'heading':
+        add(block.text, { fontSize: { 1: 18, 2: 14, 3: 11 }[block.level], bold: true, spaceBefore: block.level === 3 ? 6 : 14 });
+        break;
+      case 'paragraph':
+        add(block.text, { spaceBefore: 4 });
+        break;
+      case 'list':
+        block.items.forEach((item, i) => add(`• ${item}`, { indent: 8, hangingIndent: 8, spaceBefore: i === 0 ? 4 : 1 }));
+        break;
+      // Table rows become one entry per row: the first cell in bold, then the remaining cells with their column names.
+      case 'table':
+        block.rows.forEach((row, i) => {
+          add(row[0], { indent: 8, bold: true, spaceBefore: i === 0 ? 4 : 5 });
+          row.slice(1).forEach((cell, j) => { if (cell) add(`${block.columns[j + 1]}: ${cell}`, { indent: 16, hangingIndent: 8 }); });
+        });
+        break;
+    }
+  }
+  return lines;
+}
+
+export function renderReportPdf(report: AnalysisReport): Uint8Array {
+  // Place the lines on pages, starting a new page when the next line would cross the bottom margin.
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of layout(report)) {
+    const advance = line.spaceBefore + line.fontSize * 1.3;
+    if (y - advance < MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+    pages[pages.length - 1].push(`BT /${line.bold ? 'F2' : 'F1'} ${line.fontSize} Tf ${line.x} ${y.toFixed(1)} Td (${escapePdfString(line.text)}) Tj ET`);
+  }
+  pages.forEach((commands, i) => commands.push(`BT /F1 8 Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td (${i + 1} / ${pages.length}) Tj ET`));
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page object and its content stream.
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + 2 * i} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((commands, i) => {
+    const content = commands.join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + 2 * i} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  const title = toWinAnsi(`Analysis Report: ${report.query}`).slice(0, 200);
+  objects.push(`<< /Title (${escapePdfString(title)}) /Producer (ravint) >>`);
+
+  // Every character is a single byte, so string offsets are byte offsets.
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,51 @@
+import type { HumanReviewDecision } from '@/ai/flows/review-decisions';
+
+export interface ReviewFormValues {
+  decision: NonNullable<HumanReviewDecision['decision']>;
+  confidenceAdjustment: NonNullable<HumanReviewDecision['confidenceAdjustment']>;
+  feedback: string;
+  /** A JSON object of meta-synthesis fields to patch, used with the modify decision. */
+  modificationsJson: string;
+  /** Phases 1-5 to re-run, used with the request_more_analysis decision. */
+  rerunPhases: number[];
+  /** One guidance item per line. */
+  additionalGuidance: string;
+}
+
+export const initialReviewFormValues: ReviewFormValues = {
+  decision: 'approve',
+  confidenceAdjustment: 'maintain',
+  feedback: '',
+  modificationsJson: '',
+  rerunPhases: [],
+  additionalGuidance: '',
+};
+
+/** Turns the reviewer form into the humanInput the orchestrator applies, or explains what is wrong with it. */
+export function toHumanReviewDecision(values: ReviewFormValues): { humanInput: HumanReviewDecision } | { error: string } {
+  let modifications: Record<string, unknown> | undefined;
+  if (values.decision === 'modify') {
+    try {
+      modifications = values.modificationsJson.trim() ? JSON.parse(values.modificationsJson) : undefined;
+    } catch (error: any) {
+      return { error: `Modifications are not valid JSON: ${error.message}` };
+    }
+    if (!modifications || typeof modifications !== 'object' || Array.isArray(modifications) || Object.keys(modifications).length === 0) {
+      return { error: 'A modify decision needs a JSON object of fields to change, e.g. {"summary": "..."}.' };
+    }
+  }
+  if (values.decision === 'request_more_analysis' && values.rerunPhases.length > 0) {
+    modifications = { rerunPhases: [...values.rerunPhases].sort((a, b) => a - b) };
+  }
+
+  const additionalGuidance = values.additionalGuidance.split('\n').map(line => line.trim()).filter(Boolean);
+  return {
+    humanInput: {
+      decision: values.decision,
+      confidenceAdjustment: values.confidenceAdjustment,
+      feedback: values.feedback.trim() || undefined,
+      modifications,
+      additionalGuidance: additionalGuidance.length > 0 ? additionalGuidance : undefined,
+    },
+  };
+}